@@ -13,6 +13,22 @@ interface AccountSettings {
   shopifyConnectedAt: string | null;
 }
 
+interface CompanyDetails {
+  name: string;
+  address: string;
+  email: string;
+  phone: string;
+  vatNumber: string;
+}
+
+const EMPTY_COMPANY: CompanyDetails = { name: '', address: '', email: '', phone: '', vatNumber: '' };
+
+interface MatchingTolerances {
+  pricePercent: string;
+  quantityUnits: string;
+  amountGBP: string;
+}
+
 export default function AccountPage() {
   const { user } = useAuth();
   const { theme, setTheme } = useTheme();
@@ -31,6 +47,16 @@ export default function AccountPage() {
   const [shopifySaving, setShopifySaving] = useState(false);
   const [shopifyMessage, setShopifyMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
+  // Company details form (printed on purchase order PDFs)
+  const [company, setCompany] = useState<CompanyDetails>(EMPTY_COMPANY);
+  const [companySaving, setCompanySaving] = useState(false);
+  const [companyMessage, setCompanyMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // Three-way match tolerances (invoice vs PO vs goods received)
+  const [matching, setMatching] = useState<MatchingTolerances>({ pricePercent: '2', quantityUnits: '0', amountGBP: '1' });
+  const [matchingSaving, setMatchingSaving] = useState(false);
+  const [matchingMessage, setMatchingMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
   useEffect(() => {
     loadSettings();
 
@@ -53,6 +79,22 @@ export default function AccountPage() {
         if (data.data.settings.shopifyStoreDomain) {
           setShopifyDomain(data.data.settings.shopifyStoreDomain);
         }
+        if (data.data.company) {
+          setCompany({
+            name: data.data.company.name || '',
+            address: data.data.company.address || '',
+            email: data.data.company.email || '',
+            phone: data.data.company.phone || '',
+            vatNumber: data.data.company.vatNumber || '',
+          });
+        }
+        if (data.data.matching) {
+          setMatching({
+            pricePercent: String(data.data.matching.pricePercent),
+            quantityUnits: String(data.data.matching.quantityUnits),
+            amountGBP: String(data.data.matching.amountGBP),
+          });
+        }
       }
     } catch (err) {
       console.error('Failed to load settings:', err);
@@ -111,6 +153,65 @@ export default function AccountPage() {
     }
   };
 
+  const handleSaveCompany = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setCompanySaving(true);
+    setCompanyMessage(null);
+
+    try {
+      const res = await authenticatedFetch('/api/account', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'update_company', company }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        setCompanyMessage({ type: 'success', text: data.message });
+      } else {
+        setCompanyMessage({ type: 'error', text: data.error || 'Failed to save company details' });
+      }
+    } catch {
+      setCompanyMessage({ type: 'error', text: 'Failed to save company details' });
+    } finally {
+      setCompanySaving(false);
+    }
+  };
+
+  const handleSaveMatching = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setMatchingSaving(true);
+    setMatchingMessage(null);
+
+    try {
+      const res = await authenticatedFetch('/api/account', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: 'update_matching',
+          matching: {
+            pricePercent: Number(matching.pricePercent),
+            quantityUnits: Number(matching.quantityUnits),
+            amountGBP: Number(matching.amountGBP),
+          },
+        }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        setMatchingMessage({ type: 'success', text: data.message });
+      } else {
+        setMatchingMessage({ type: 'error', text: data.error || 'Failed to save matching tolerances' });
+      }
+    } catch {
+      setMatchingMessage({ type: 'error', text: 'Failed to save matching tolerances' });
+    } finally {
+      setMatchingSaving(false);
+    }
+  };
+
   const handleDisconnectShopify = async () => {
     if (!confirm('Are you sure you want to disconnect your Shopify account?')) return;
 
@@ -246,6 +347,177 @@ export default function AccountPage() {
         </form>
       </section>
 
+      {/* Company Details Section */}
+      <section className="bg-white dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl p-6 mb-6">
+        <h2 className="text-lg font-semibold text-stone-900 dark:text-stone-100 mb-1">Company Details</h2>
+        <p className="text-sm text-stone-500 dark:text-stone-400 mb-4">
+          Shown on the purchase order PDFs you send to suppliers.
+        </p>
+
+        <form onSubmit={handleSaveCompany} className="space-y-4">
+          <div>
+            <label htmlFor="companyName" className="block text-sm font-medium text-stone-600 dark:text-stone-400 mb-1">
+              Company name
+            </label>
+            <input
+              id="companyName"
+              type="text"
+              value={company.name}
+              onChange={(e) => setCompany((prev) => ({ ...prev, name: e.target.value }))}
+              placeholder="Your business name"
+              className="w-full px-3 py-2 bg-white dark:bg-stone-900 border border-stone-300 dark:border-stone-600 rounded-lg text-stone-900 dark:text-stone-100 text-sm placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-amber-600 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label htmlFor="companyAddress" className="block text-sm font-medium text-stone-600 dark:text-stone-400 mb-1">
+              Address
+            </label>
+            <textarea
+              id="companyAddress"
+              rows={3}
+              value={company.address}
+              onChange={(e) => setCompany((prev) => ({ ...prev, address: e.target.value }))}
+              placeholder="Street, town, postcode"
+              className="w-full px-3 py-2 bg-white dark:bg-stone-900 border border-stone-300 dark:border-stone-600 rounded-lg text-stone-900 dark:text-stone-100 text-sm placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-amber-600 focus:border-transparent"
+            />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="companyEmail" className="block text-sm font-medium text-stone-600 dark:text-stone-400 mb-1">
+                Email
+              </label>
+              <input
+                id="companyEmail"
+                type="email"
+                value={company.email}
+                onChange={(e) => setCompany((prev) => ({ ...prev, email: e.target.value }))}
+                placeholder="orders@example.com"
+                className="w-full px-3 py-2 bg-white dark:bg-stone-900 border border-stone-300 dark:border-stone-600 rounded-lg text-stone-900 dark:text-stone-100 text-sm placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-amber-600 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="companyPhone" className="block text-sm font-medium text-stone-600 dark:text-stone-400 mb-1">
+                Phone
+              </label>
+              <input
+                id="companyPhone"
+                type="tel"
+                value={company.phone}
+                onChange={(e) => setCompany((prev) => ({ ...prev, phone: e.target.value }))}
+                className="w-full px-3 py-2 bg-white dark:bg-stone-900 border border-stone-300 dark:border-stone-600 rounded-lg text-stone-900 dark:text-stone-100 text-sm placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-amber-600 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="companyVatNumber" className="block text-sm font-medium text-stone-600 dark:text-stone-400 mb-1">
+                VAT number
+              </label>
+              <input
+                id="companyVatNumber"
+                type="text"
+                value={company.vatNumber}
+                onChange={(e) => setCompany((prev) => ({ ...prev, vatNumber: e.target.value }))}
+                className="w-full px-3 py-2 bg-white dark:bg-stone-900 border border-stone-300 dark:border-stone-600 rounded-lg text-stone-900 dark:text-stone-100 text-sm placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-amber-600 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          {companyMessage && (
+            <div
+              className={`text-sm px-3 py-2 rounded-lg ${
+                companyMessage.type === 'success'
+                  ? 'bg-green-50 text-green-700 border border-green-200'
+                  : 'bg-red-50 text-red-700 border border-red-200'
+              }`}
+            >
+              {companyMessage.text}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={companySaving}
+            className="px-4 py-2 bg-amber-600 text-white text-sm font-medium rounded-lg hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {companySaving ? 'Saving...' : 'Save Company Details'}
+          </button>
+        </form>
+      </section>
+
+      {/* Invoice Matching Section */}
+      <section className="bg-white dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl p-6 mb-6">
+        <h2 className="text-lg font-semibold text-stone-900 dark:text-stone-100 mb-1">Invoice Matching</h2>
+        <p className="text-sm text-stone-500 dark:text-stone-400 mb-4">
+          How far a supplier invoice may differ from the purchase order and goods received before it is flagged.
+        </p>
+
+        <form onSubmit={handleSaveMatching} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="matchPricePercent" className="block text-sm font-medium text-stone-600 dark:text-stone-400 mb-1">
+                Unit price (%)
+              </label>
+              <input
+                id="matchPricePercent"
+                type="number"
+                min="0"
+                step="0.1"
+                value={matching.pricePercent}
+                onChange={(e) => setMatching((prev) => ({ ...prev, pricePercent: e.target.value }))}
+                className="w-full px-3 py-2 bg-white dark:bg-stone-900 border border-stone-300 dark:border-stone-600 rounded-lg text-stone-900 dark:text-stone-100 text-sm placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-amber-600 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="matchQuantityUnits" className="block text-sm font-medium text-stone-600 dark:text-stone-400 mb-1">
+                Quantity (units)
+              </label>
+              <input
+                id="matchQuantityUnits"
+                type="number"
+                min="0"
+                step="1"
+                value={matching.quantityUnits}
+                onChange={(e) => setMatching((prev) => ({ ...prev, quantityUnits: e.target.value }))}
+                className="w-full px-3 py-2 bg-white dark:bg-stone-900 border border-stone-300 dark:border-stone-600 rounded-lg text-stone-900 dark:text-stone-100 text-sm placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-amber-600 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="matchAmountGBP" className="block text-sm font-medium text-stone-600 dark:text-stone-400 mb-1">
+                Invoice total (£)
+              </label>
+              <input
+                id="matchAmountGBP"
+                type="number"
+                min="0"
+                step="0.01"
+                value={matching.amountGBP}
+                onChange={(e) => setMatching((prev) => ({ ...prev, amountGBP: e.target.value }))}
+                className="w-full px-3 py-2 bg-white dark:bg-stone-900 border border-stone-300 dark:border-stone-600 rounded-lg text-stone-900 dark:text-stone-100 text-sm placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-amber-600 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          {matchingMessage && (
+            <div
+              className={`text-sm px-3 py-2 rounded-lg ${
+                matchingMessage.type === 'success'
+                  ? 'bg-green-50 text-green-700 border border-green-200'
+                  : 'bg-red-50 text-red-700 border border-red-200'
+              }`}
+            >
+              {matchingMessage.text}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={matchingSaving}
+            className="px-4 py-2 bg-amber-600 text-white text-sm font-medium rounded-lg hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {matchingSaving ? 'Saving...' : 'Save Tolerances'}
+          </button>
+        </form>
+      </section>
+
       {/* Shopify Section */}
       <section className="bg-white dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl p-6">
         <div className="flex items-center gap-3 mb-1">
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth-helpers';
 import { applyRateLimit } from '@/lib/rate-limit';
+import { DEFAULT_MATCH_TOLERANCE } from '@/lib/three-way-match';
+import { isValidEmail, isValidNonNegativeNumber, sanitizeString } from '@/lib/validation';
 
 export const runtime = 'nodejs';
 
@@ -38,6 +40,18 @@ export async function GET(request: NextRequest) {
               shopifyConnected: false,
               shopifyConnectedAt: null,
             },
+        company: {
+          name: settings?.company_name || null,
+          address: settings?.company_address || null,
+          email: settings?.company_email || null,
+          phone: settings?.company_phone || null,
+          vatNumber: settings?.company_vat_number || null,
+        },
+        matching: {
+          pricePercent: Number(settings?.match_price_tolerance_pct ?? DEFAULT_MATCH_TOLERANCE.pricePercent),
+          quantityUnits: Number(settings?.match_quantity_tolerance ?? DEFAULT_MATCH_TOLERANCE.quantityUnits),
+          amountGBP: Number(settings?.match_amount_tolerance_gbp ?? DEFAULT_MATCH_TOLERANCE.amountGBP),
+        },
       },
     });
   } catch (error) {
@@ -62,13 +76,110 @@ export async function PUT(request: NextRequest) {
     const { action } = body;
 
     // SECURITY: Validate action is a known value
-    if (typeof action !== 'string' || !['connect_shopify', 'disconnect_shopify'].includes(action)) {
+    if (
+      typeof action !== 'string' ||
+      !['connect_shopify', 'disconnect_shopify', 'update_company', 'update_matching'].includes(action)
+    ) {
       return NextResponse.json(
-        { error: 'Invalid action. Must be connect_shopify or disconnect_shopify' },
+        { error: 'Invalid action. Must be connect_shopify, disconnect_shopify, update_company or update_matching' },
         { status: 400 }
       );
     }
 
+    // Handle company details (printed on purchase order PDFs)
+    if (action === 'update_company') {
+      const company = {
+        name: sanitizeString(body.company?.name, 200),
+        address: sanitizeString(body.company?.address, 1000),
+        email: sanitizeString(body.company?.email, 254),
+        phone: sanitizeString(body.company?.phone, 50),
+        vatNumber: sanitizeString(body.company?.vatNumber, 50),
+      };
+
+      if (company.email && !isValidEmail(company.email)) {
+        return NextResponse.json(
+          { error: 'Company email is not a valid email address' },
+          { status: 400 }
+        );
+      }
+
+      const { error } = await supabase
+        .from('user_settings')
+        .upsert(
+          {
+            user_id: user.id,
+            company_name: company.name,
+            company_address: company.address,
+            company_email: company.email,
+            company_phone: company.phone,
+            company_vat_number: company.vatNumber,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'user_id' }
+        );
+
+      if (error) {
+        console.error('Save company details error:', error);
+        return NextResponse.json(
+          { error: 'Failed to save company details' },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Company details saved',
+        data: company,
+      });
+    }
+
+    // Handle three-way match tolerances (invoice vs PO vs goods received)
+    if (action === 'update_matching') {
+      const matching = {
+        pricePercent: body.matching?.pricePercent,
+        quantityUnits: body.matching?.quantityUnits,
+        amountGBP: body.matching?.amountGBP,
+      };
+
+      if (
+        !isValidNonNegativeNumber(matching.pricePercent, 100) ||
+        !isValidNonNegativeNumber(matching.quantityUnits, 1_000_000) ||
+        !isValidNonNegativeNumber(matching.amountGBP, 1_000_000)
+      ) {
+        return NextResponse.json(
+          { error: 'Tolerances must be non-negative numbers (price tolerance at most 100%)' },
+          { status: 400 }
+        );
+      }
+
+      const { error } = await supabase
+        .from('user_settings')
+        .upsert(
+          {
+            user_id: user.id,
+            match_price_tolerance_pct: matching.pricePercent,
+            match_quantity_tolerance: matching.quantityUnits,
+            match_amount_tolerance_gbp: matching.amountGBP,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'user_id' }
+        );
+
+      if (error) {
+        console.error('Save matching tolerances error:', error);
+        return NextResponse.json(
+          { error: 'Failed to save matching tolerances' },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Matching tolerances saved',
+        data: matching,
+      });
+    }
+
     // Handle Shopify connect
     if (action === 'connect_shopify') {
       const { storeDomain, accessToken } = body;
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-helpers';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { parseFxRatesCsv } from '@/lib/fx/csv';
+import { saveFxRates } from '@/lib/fx/rates';
+
+export const runtime = 'nodejs';
+
+const MAX_CSV_BYTES = 5 * 1024 * 1024;
+const BATCH_SIZE = 500;
+
+// POST a CSV of historic rates, either as a multipart "file" or as a text/csv body.
+// Pass ?perGBP=true when the values are units of currency per 1 GBP.
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request);
+    // SECURITY: Rate limit – bulk write
+    const blocked = applyRateLimit(request, user.id, { limit: 10, windowMs: 60_000 });
+    if (blocked) return blocked;
+
+    const url = new URL(request.url);
+    const perGBP = url.searchParams.get('perGBP') === 'true';
+
+    let text: string;
+    const contentType = request.headers.get('content-type');
+    if (contentType?.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      const file = formData.get('file') as File | null;
+      if (!file) {
+        return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
+      }
+      if (file.size > MAX_CSV_BYTES) {
+        return NextResponse.json({ error: 'CSV exceeds the 5 MB size limit' }, { status: 400 });
+      }
+      text = await file.text();
+    } else {
+      text = await request.text();
+      if (text.length > MAX_CSV_BYTES) {
+        return NextResponse.json({ error: 'CSV exceeds the 5 MB size limit' }, { status: 400 });
+      }
+    }
+
+    const { rates, errors } = parseFxRatesCsv(text, { perGBP });
+    if (rates.length === 0) {
+      return NextResponse.json(
+        { error: 'No valid rates found in CSV', details: errors.slice(0, 50) },
+        { status: 400 }
+      );
+    }
+
+    let imported = 0;
+    for (let i = 0; i < rates.length; i += BATCH_SIZE) {
+      const saved = await saveFxRates(user.id, rates.slice(i, i + BATCH_SIZE));
+      imported += saved.length;
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        imported,
+        skipped: errors.length,
+        errors: errors.slice(0, 50),
+      },
+    });
+  } catch (error) {
+    console.error('Import exchange rates error:', error);
+    return NextResponse.json({ error: 'Failed to import exchange rates' }, { status: 500 });
+  }
+}
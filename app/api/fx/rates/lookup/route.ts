@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-helpers';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { isValidCurrencyCode, isValidDateString } from '@/lib/validation';
+import { lookupRate, todayDateString } from '@/lib/fx/rates';
+
+export const runtime = 'nodejs';
+
+// GET the rate that would be applied to a currency on a given date (defaults to today)
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request);
+    const blocked = applyRateLimit(request, user.id);
+    if (blocked) return blocked;
+
+    const url = new URL(request.url);
+    const currency = url.searchParams.get('currency')?.toUpperCase() ?? null;
+    const date = url.searchParams.get('date') || todayDateString();
+
+    if (!isValidCurrencyCode(currency)) {
+      return NextResponse.json({ error: 'currency must be a 3-letter currency code' }, { status: 400 });
+    }
+    if (!isValidDateString(date)) {
+      return NextResponse.json({ error: 'date must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    const rate = await lookupRate(currency, date, user.id);
+    if (!rate) {
+      return NextResponse.json({ error: `No exchange rate available for ${currency}` }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: rate });
+  } catch (error) {
+    console.error('Lookup exchange rate error:', error);
+    return NextResponse.json({ error: 'Failed to look up exchange rate' }, { status: 500 });
+  }
+}
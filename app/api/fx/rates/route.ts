@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-helpers';
+import { applyRateLimit } from '@/lib/rate-limit';
+import {
+  findUnexpectedFields,
+  isValidCurrencyCode,
+  isValidDateString,
+  isValidPositiveNumber,
+  isValidUUID,
+  sanitizePagination,
+} from '@/lib/validation';
+import { deleteFxRate, listFxRates, saveFxRates } from '@/lib/fx/rates';
+
+export const runtime = 'nodejs';
+
+// GET stored exchange rates (optionally filtered by currency and date range)
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request);
+    const blocked = applyRateLimit(request, user.id);
+    if (blocked) return blocked;
+
+    const url = new URL(request.url);
+    const currency = url.searchParams.get('currency')?.toUpperCase() ?? null;
+    const from = url.searchParams.get('from');
+    const to = url.searchParams.get('to');
+    const { limit, offset } = sanitizePagination(url.searchParams.get('limit'), url.searchParams.get('offset'), 1000);
+
+    if (currency !== null && !isValidCurrencyCode(currency)) {
+      return NextResponse.json({ error: 'currency must be a 3-letter currency code' }, { status: 400 });
+    }
+    if ((from && !isValidDateString(from)) || (to && !isValidDateString(to))) {
+      return NextResponse.json({ error: 'from and to must be dates in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    const rates = await listFxRates({ userId: user.id, currency, from, to, limit, offset });
+    return NextResponse.json({ success: true, data: rates });
+  } catch (error) {
+    console.error('Get exchange rates error:', error);
+    return NextResponse.json({ error: 'Failed to load exchange rates' }, { status: 500 });
+  }
+}
+
+// POST a manually entered rate (overwrites any rate for the same currency and day)
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request);
+    const blocked = applyRateLimit(request, user.id);
+    if (blocked) return blocked;
+
+    const body = await request.json();
+
+    const unexpected = findUnexpectedFields(body, ['currency', 'rate', 'rateDate']);
+    if (unexpected.length > 0) {
+      return NextResponse.json({ error: `Invalid fields: ${unexpected.join(', ')}` }, { status: 400 });
+    }
+
+    const currency = typeof body.currency === 'string' ? body.currency.trim().toUpperCase() : null;
+    if (!isValidCurrencyCode(currency) || currency === 'GBP') {
+      return NextResponse.json({ error: 'currency must be a 3-letter currency code other than GBP' }, { status: 400 });
+    }
+    if (!isValidPositiveNumber(body.rate, 100_000)) {
+      return NextResponse.json({ error: 'rate must be a positive number (GBP per 1 unit of currency)' }, { status: 400 });
+    }
+    if (!isValidDateString(body.rateDate)) {
+      return NextResponse.json({ error: 'rateDate must be a date in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    const [saved] = await saveFxRates(user.id, [
+      { currency, rate: body.rate, rateDate: body.rateDate, source: 'manual' },
+    ]);
+
+    return NextResponse.json({ success: true, data: saved });
+  } catch (error) {
+    console.error('Save exchange rate error:', error);
+    return NextResponse.json({ error: 'Failed to save exchange rate' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request);
+    const blocked = applyRateLimit(request, user.id);
+    if (blocked) return blocked;
+
+    const url = new URL(request.url);
+    const id = url.searchParams.get('id');
+
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: 'id must be a valid UUID' }, { status: 400 });
+    }
+
+    const deleted = await deleteFxRate(user.id, id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Exchange rate not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete exchange rate error:', error);
+    return NextResponse.json({ error: 'Failed to delete exchange rate' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+
+import { processExtractionJobs } from '@/lib/extraction/jobs';
+
+export const runtime = 'nodejs';
+
+// Cron worker for queued invoice extractions: retries after backoff and jobs whose
+// upload-time worker never finished. Secured with the same secret as the webhook processor.
+export async function POST(request: NextRequest) {
+  // SECURITY: Use timing-safe comparison to prevent timing attacks on secret.
+  // If WEBHOOK_PROCESSOR_SECRET is not configured, deny all requests – never
+  // allow the endpoint to be called without authentication.
+  const secret = process.env.WEBHOOK_PROCESSOR_SECRET;
+  if (!secret) {
+    console.error('WEBHOOK_PROCESSOR_SECRET is not configured – rejecting request');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const provided = request.headers.get('x-cron-secret');
+  if (
+    !provided ||
+    !crypto.timingSafeEqual(
+      Buffer.from(secret, 'utf8'),
+      Buffer.from(provided.padEnd(secret.length, '\0').slice(0, secret.length), 'utf8'),
+    )
+  ) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const maxJobsRaw = request.nextUrl.searchParams.get('maxJobs');
+  const maxJobs = maxJobsRaw ? Number(maxJobsRaw) : 3;
+
+  const workerId = request.headers.get('x-worker-id') ?? 'nextjs-api';
+
+  const result = await processExtractionJobs({
+    workerId,
+    // Each job can be a long model call; keep batches small
+    maxJobs: Number.isFinite(maxJobs) ? Math.max(0, Math.min(10, maxJobs)) : 3,
+  });
+
+  return NextResponse.json({ success: true, data: result });
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import crypto from 'crypto';
+
+import { getInboxConfig, pollInvoiceInbox } from '@/lib/inbox/ingest';
+import { processExtractionJobs } from '@/lib/extraction/jobs';
+
+export const runtime = 'nodejs';
+
+// Cron endpoint for the invoice inbox: reads new mail from the configured IMAP mailbox or
+// Maildir/drop folder and queues the attached invoices for extraction. Secured with the
+// same secret as the other internal processors.
+export async function POST(request: NextRequest) {
+  // SECURITY: Use timing-safe comparison to prevent timing attacks on secret.
+  // If WEBHOOK_PROCESSOR_SECRET is not configured, deny all requests – never
+  // allow the endpoint to be called without authentication.
+  const secret = process.env.WEBHOOK_PROCESSOR_SECRET;
+  if (!secret) {
+    console.error('WEBHOOK_PROCESSOR_SECRET is not configured – rejecting request');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const provided = request.headers.get('x-cron-secret');
+  if (
+    !provided ||
+    !crypto.timingSafeEqual(
+      Buffer.from(secret, 'utf8'),
+      Buffer.from(provided.padEnd(secret.length, '\0').slice(0, secret.length), 'utf8'),
+    )
+  ) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const config = getInboxConfig();
+  if (!config) {
+    return NextResponse.json(
+      { error: 'Invoice inbox is not configured (set INVOICE_INBOX_USER_ID and INVOICE_INBOX_DIR or INVOICE_INBOX_IMAP_HOST)' },
+      { status: 503 }
+    );
+  }
+
+  const limitRaw = request.nextUrl.searchParams.get('limit');
+  const limit = limitRaw ? Number(limitRaw) : 25;
+
+  try {
+    const result = await pollInvoiceInbox(config, Number.isFinite(limit) ? Math.max(1, Math.min(100, limit)) : 25);
+
+    // Start extracting right away rather than waiting for the extraction cron
+    if (result.jobIds.length > 0) {
+      after(async () => {
+        for (const jobId of result.jobIds) {
+          try {
+            await processExtractionJobs({ workerId: `inbox-${jobId}`, maxJobs: 1, jobId });
+          } catch (error) {
+            console.error('Extraction job worker error:', error);
+          }
+        }
+      });
+    }
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Invoice inbox poll error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read invoice inbox' },
+      { status: 500 }
+    );
+  }
+}
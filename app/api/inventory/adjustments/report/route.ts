@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStockAdjustmentReport } from '@/lib/db';
+import {
+  isStockAdjustmentPeriod,
+  SHRINKAGE_REASONS,
+  STOCK_ADJUSTMENT_REASONS,
+  type StockAdjustmentPeriod,
+  type StockAdjustmentReason,
+} from '@/lib/stock-adjustments';
+import { requireAuth } from '@/lib/auth-helpers';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { isValidDateString } from '@/lib/validation';
+
+export const runtime = 'nodejs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 90;
+// Keeps the report to well under 1,000 reason-by-period rows
+const MAX_RANGE_DAYS: Record<StockAdjustmentPeriod, number> = { day: 92, week: 730, month: 3660 };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// GET - Adjustments by reason and period (?from=YYYY-MM-DD&to=YYYY-MM-DD&period=day|week|month).
+// `to` is inclusive; the range defaults to the last 90 days by month.
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request);
+
+    // SECURITY: Rate limit per IP + user
+    const blocked = applyRateLimit(request, user.id);
+    if (blocked) return blocked;
+
+    const { searchParams } = new URL(request.url);
+    const period = searchParams.get('period') ?? 'month';
+    if (!isStockAdjustmentPeriod(period)) {
+      return NextResponse.json({ error: 'period must be day, week or month' }, { status: 400 });
+    }
+
+    // `to` is checked first: the default `from` is worked out from it
+    const today = new Date().toISOString().slice(0, 10);
+    const to = searchParams.get('to') ?? today;
+    if (!isValidDateString(to)) {
+      return NextResponse.json({ error: 'from and to must be dates (YYYY-MM-DD)' }, { status: 400 });
+    }
+    const from = searchParams.get('from')
+      ?? new Date(Date.parse(to) - DEFAULT_RANGE_DAYS * DAY_MS).toISOString().slice(0, 10);
+    if (!isValidDateString(from)) {
+      return NextResponse.json({ error: 'from and to must be dates (YYYY-MM-DD)' }, { status: 400 });
+    }
+
+    const rangeDays = (Date.parse(to) - Date.parse(from)) / DAY_MS + 1;
+    if (rangeDays < 1) {
+      return NextResponse.json({ error: 'from must be on or before to' }, { status: 400 });
+    }
+    if (rangeDays > MAX_RANGE_DAYS[period]) {
+      return NextResponse.json(
+        { error: `A ${period} report covers at most ${MAX_RANGE_DAYS[period]} days` },
+        { status: 400 }
+      );
+    }
+
+    const rows = await getStockAdjustmentReport({
+      from: `${from}T00:00:00.000Z`,
+      to: new Date(Date.parse(to) + DAY_MS).toISOString(),
+      period,
+      user_id: user.id,
+    });
+
+    const byReason = {} as Record<StockAdjustmentReason, { adjustments: number; quantity: number; costImpactGBP: number }>;
+    for (const reason of STOCK_ADJUSTMENT_REASONS) {
+      byReason[reason] = { adjustments: 0, quantity: 0, costImpactGBP: 0 };
+    }
+    for (const row of rows) {
+      const total = byReason[row.reason];
+      total.adjustments += row.adjustments;
+      total.quantity += row.quantity;
+      total.costImpactGBP = round2(total.costImpactGBP + row.costImpactGBP);
+    }
+
+    // Shrinkage is stock value lost, reported as a positive amount
+    const shrinkageGBP = round2(-SHRINKAGE_REASONS.reduce((sum, reason) => sum + byReason[reason].costImpactGBP, 0));
+    const netCostImpactGBP = round2(rows.reduce((sum, row) => sum + row.costImpactGBP, 0));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        from,
+        to,
+        period,
+        rows,
+        byReason,
+        totals: {
+          adjustments: rows.reduce((sum, row) => sum + row.adjustments, 0),
+          shrinkageGBP,
+          netCostImpactGBP,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Get stock adjustment report error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load stock adjustment report' },
+      { status: 500 }
+    );
+  }
+}
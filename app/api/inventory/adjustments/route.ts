@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createStockAdjustment, listStockAdjustments } from '@/lib/db';
+import { isStockAdjustmentReason, stockAdjustmentDirectionError } from '@/lib/stock-adjustments';
+import { requireAuth } from '@/lib/auth-helpers';
+import { clearCache } from '@/lib/cache';
+import { beginIdempotentRequest } from '@/lib/idempotency';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { findUnexpectedFields, isValidPositiveNumber, isValidUUID, sanitizeString } from '@/lib/validation';
+
+export const runtime = 'nodejs';
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+// 409 when a removal would take on-hand stock below zero, otherwise null
+async function insufficientStockResponse(
+  supabase: Awaited<ReturnType<typeof requireAuth>>['supabase'],
+  productId: string,
+  quantityDelta: number
+): Promise<NextResponse | null> {
+  if (quantityDelta >= 0) return null;
+
+  const { data: inventory } = await supabase
+    .from('inventory')
+    .select('quantityonhand')
+    .eq('productid', productId)
+    .maybeSingle();
+
+  const onHand = Number(inventory?.quantityonhand ?? 0);
+  if (onHand + quantityDelta >= 0) return null;
+
+  return NextResponse.json({ error: `Only ${onHand} on hand to remove` }, { status: 409 });
+}
+
+// GET - Adjustments newest first (?productId=&reason=&from=&to=&limit=)
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request);
+
+    // SECURITY: Rate limit per IP + user
+    const blocked = applyRateLimit(request, user.id);
+    if (blocked) return blocked;
+
+    const { searchParams } = new URL(request.url);
+    const productId = searchParams.get('productId');
+    if (productId !== null && !isValidUUID(productId)) {
+      return NextResponse.json({ error: 'productId must be a valid UUID' }, { status: 400 });
+    }
+
+    const reason = searchParams.get('reason');
+    if (reason !== null && !isStockAdjustmentReason(reason)) {
+      return NextResponse.json({ error: 'reason is not a known adjustment reason' }, { status: 400 });
+    }
+
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    if ((from !== null && Number.isNaN(Date.parse(from))) || (to !== null && Number.isNaN(Date.parse(to)))) {
+      return NextResponse.json({ error: 'from and to must be valid dates' }, { status: 400 });
+    }
+
+    const rawLimit = searchParams.get('limit');
+    const limit = rawLimit === null ? DEFAULT_LIMIT : Number(rawLimit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `limit must be an integer from 1 to ${MAX_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const adjustments = await listStockAdjustments(user.id, { productId, reason, from, to, limit });
+    return NextResponse.json({ success: true, data: adjustments });
+  } catch (error) {
+    console.error('Get stock adjustments error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load stock adjustments' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Adjust a product's on-hand stock for a reason, valued at its current average cost
+export async function POST(request: NextRequest) {
+  try {
+    const { user, supabase } = await requireAuth(request);
+
+    // SECURITY: Rate limit – adjustments change stock
+    const blocked = applyRateLimit(request, user.id, { limit: 60, windowMs: 60_000 });
+    if (blocked) return blocked;
+
+    const body = await request.json();
+
+    // SECURITY: Reject unexpected fields
+    const unexpected = findUnexpectedFields(body, ['productId', 'reason', 'quantityDelta', 'note']);
+    if (unexpected.length > 0) {
+      return NextResponse.json(
+        { error: `Unexpected fields: ${unexpected.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidUUID(body.productId)) {
+      return NextResponse.json({ error: 'productId must be a valid UUID' }, { status: 400 });
+    }
+
+    if (!isStockAdjustmentReason(body.reason)) {
+      return NextResponse.json(
+        { error: 'reason must be one of damaged, lost, theft, sample, found, correction or write_off' },
+        { status: 400 }
+      );
+    }
+
+    // Negative takes stock out, positive adds it
+    const quantityDelta = body.quantityDelta;
+    if (typeof quantityDelta !== 'number' || !isValidPositiveNumber(Math.abs(quantityDelta))) {
+      return NextResponse.json(
+        { error: 'quantityDelta must be a non-zero number (max 1,000,000,000 either way)' },
+        { status: 400 }
+      );
+    }
+
+    const directionError = stockAdjustmentDirectionError(body.reason, quantityDelta);
+    if (directionError) {
+      return NextResponse.json({ error: directionError }, { status: 400 });
+    }
+
+    // SECURITY: Confirm the product belongs to this user (RLS-scoped client)
+    const { data: product } = await supabase
+      .from('products')
+      .select('id')
+      .eq('id', body.productId)
+      .single();
+
+    if (!product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    const insufficient = await insufficientStockResponse(supabase, product.id, quantityDelta);
+    if (insufficient) return insufficient;
+
+    const note = sanitizeString(body.note, 2000);
+
+    // SECURITY: A repeated Idempotency-Key replays the first adjustment instead of applying it twice
+    const idempotency = await beginIdempotentRequest(request, user.id, {
+      productId: product.id,
+      reason: body.reason,
+      quantityDelta,
+      note,
+    });
+    if (idempotency.response) return idempotency.response;
+
+    let adjustment;
+    try {
+      adjustment = await createStockAdjustment({
+        productId: product.id,
+        reason: body.reason,
+        quantityDelta,
+        note,
+        user_id: user.id,
+      });
+    } catch (error) {
+      await idempotency.release();
+      // Stock taken out by another request since the check above
+      const raced = await insufficientStockResponse(supabase, product.id, quantityDelta);
+      if (raced) return raced;
+      throw error;
+    }
+
+    clearCache(`inventory_snapshot_v1_${user.id}`);
+
+    return idempotency.complete(NextResponse.json({ success: true, data: adjustment }));
+  } catch (error) {
+    console.error('Create stock adjustment error:', error);
+    return NextResponse.json(
+      { error: 'Failed to record stock adjustment' },
+      { status: 500 }
+    );
+  }
+}
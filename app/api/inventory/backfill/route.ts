@@ -81,6 +81,7 @@ export async function GET(request: NextRequest) {
     let purchaseOrdersProcessed = 0;
     let productsCreated = 0;
     let productsMatched = 0;
+    let productsPendingReview = 0;
     let transitCreated = 0;
 
     for (const po of purchaseOrders) {
@@ -98,6 +99,7 @@ export async function GET(request: NextRequest) {
       purchaseOrdersProcessed += 1;
       productsCreated += result.productsCreated;
       productsMatched += result.productsMatched;
+      productsPendingReview += result.productsPendingReview;
       transitCreated += result.transitCreated;
     }
 
@@ -107,6 +109,7 @@ export async function GET(request: NextRequest) {
         purchaseOrdersProcessed,
         productsCreated,
         productsMatched,
+        productsPendingReview,
         transitCreated,
       },
     });
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-helpers';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { isValidUUID } from '@/lib/validation';
+import { getGoodsReceivedNote } from '@/lib/db';
+import { renderGoodsReceivedNotePdf } from '@/lib/po-pdf';
+
+export const runtime = 'nodejs';
+
+// GET endpoint to render a goods received note as a printable PDF
+export async function GET(request: NextRequest) {
+  try {
+    const { user, supabase } = await requireAuth(request);
+    const blocked = applyRateLimit(request, user.id, { limit: 30, windowMs: 60_000 });
+    if (blocked) return blocked;
+
+    const { searchParams } = new URL(request.url);
+    const grnId = searchParams.get('id');
+
+    // SECURITY: Validate UUID format
+    if (!isValidUUID(grnId)) {
+      return NextResponse.json(
+        { error: 'Goods received note ID must be a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: RLS-scoped client – only the owner's GRN is visible
+    const { data: owned } = await supabase
+      .from('goods_received_notes')
+      .select('id')
+      .eq('id', grnId)
+      .single();
+
+    const note = owned ? await getGoodsReceivedNote(grnId) : null;
+    if (!note) {
+      return NextResponse.json(
+        { error: 'Goods received note not found' },
+        { status: 404 }
+      );
+    }
+
+    const [{ data: po }, { data: supplier }, { data: settings }] = await Promise.all([
+      supabase.from('purchaseorders').select('id, invoicenumber').eq('id', note.purchaseOrderId).single(),
+      note.supplierId
+        ? supabase.from('suppliers').select('name, address').eq('id', note.supplierId).single()
+        : Promise.resolve({ data: null }),
+      supabase
+        .from('user_settings')
+        .select('company_name, company_address, company_email, company_phone, company_vat_number')
+        .eq('user_id', user.id)
+        .single(),
+    ]);
+
+    const pdf = renderGoodsReceivedNotePdf({
+      company: {
+        name: settings?.company_name ?? null,
+        address: settings?.company_address ?? null,
+        email: settings?.company_email ?? null,
+        phone: settings?.company_phone ?? null,
+        vatNumber: settings?.company_vat_number ?? null,
+      },
+      supplier: supplier ? { name: supplier.name, address: supplier.address ?? null } : null,
+      purchaseOrder: { id: note.purchaseOrderId, invoiceNumber: po?.invoicenumber ?? null },
+      note,
+    });
+
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${note.grnNumber}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('GRN PDF error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate goods received note PDF' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,224 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createGoodsReceivedNote,
+  getGoodsReceivedNote,
+  listGoodsReceivedNotes,
+  setGoodsReceivedNoteLinePhoto,
+  type GoodsReceivedLineInput,
+} from '@/lib/db';
+import { isShortfallAction } from '@/lib/grn';
+import { uploadGoodsReceivedPhoto } from '@/lib/storage';
+import { requireAuth } from '@/lib/auth-helpers';
+import { clearCache } from '@/lib/cache';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { findUnexpectedFields, isValidNonNegativeNumber, isValidUUID, sanitizeString } from '@/lib/validation';
+
+export const runtime = 'nodejs';
+
+const MAX_LINES = 500;
+const MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+
+// GET - A single GRN (?id=) or every GRN for a purchase order (?purchaseOrderId=)
+export async function GET(request: NextRequest) {
+  try {
+    const { user, supabase } = await requireAuth(request);
+
+    // SECURITY: Rate limit per IP + user
+    const blocked = applyRateLimit(request, user.id);
+    if (blocked) return blocked;
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    const purchaseOrderId = searchParams.get('purchaseOrderId');
+
+    if (id !== null) {
+      if (!isValidUUID(id)) {
+        return NextResponse.json({ error: 'id must be a valid UUID' }, { status: 400 });
+      }
+
+      // SECURITY: RLS-scoped lookup confirms ownership before loading with the server client
+      const { data: owned } = await supabase.from('goods_received_notes').select('id').eq('id', id).single();
+      const note = owned ? await getGoodsReceivedNote(id) : null;
+      if (!note) {
+        return NextResponse.json({ error: 'Goods received note not found' }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, data: note });
+    }
+
+    if (!isValidUUID(purchaseOrderId)) {
+      return NextResponse.json(
+        { error: 'Provide id or purchaseOrderId as a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    const { data: po } = await supabase.from('purchaseorders').select('id').eq('id', purchaseOrderId).single();
+    if (!po) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    const notes = await listGoodsReceivedNotes(purchaseOrderId);
+    return NextResponse.json({ success: true, data: notes });
+  } catch (error) {
+    console.error('Get goods received notes error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load goods received notes' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Record a delivery. JSON, or multipart with a `data` JSON field and
+// optional `photo<index>` files matching the line at that index.
+export async function POST(request: NextRequest) {
+  try {
+    const { user, supabase } = await requireAuth(request);
+
+    // SECURITY: Rate limit – receiving is a write operation
+    const blocked = applyRateLimit(request, user.id, { limit: 30, windowMs: 60_000 });
+    if (blocked) return blocked;
+
+    let body;
+    const photos = new Map<number, File>();
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      body = JSON.parse((formData.get('data') as string) || '{}');
+      for (const [key, value] of formData.entries()) {
+        const match = /^photo(\d+)$/.exec(key);
+        if (match && value instanceof File && value.size > 0) {
+          // SECURITY: Only accept images, capped at 10 MB each
+          if (!value.type.startsWith('image/') || value.size > MAX_PHOTO_BYTES) {
+            return NextResponse.json(
+              { error: 'Photos must be images of at most 10 MB' },
+              { status: 400 }
+            );
+          }
+          photos.set(Number(match[1]), value);
+        }
+      }
+    } else {
+      body = await request.json();
+    }
+
+    // SECURITY: Reject unexpected fields
+    const unexpected = findUnexpectedFields(body, ['purchaseOrderId', 'receivedAt', 'notes', 'lines']);
+    if (unexpected.length > 0) {
+      return NextResponse.json(
+        { error: `Unexpected fields: ${unexpected.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidUUID(body.purchaseOrderId)) {
+      return NextResponse.json(
+        { error: 'purchaseOrderId must be a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    if (body.receivedAt != null && (typeof body.receivedAt !== 'string' || isNaN(new Date(body.receivedAt).getTime()))) {
+      return NextResponse.json(
+        { error: 'receivedAt must be a valid date' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(body.lines) || body.lines.length === 0 || body.lines.length > MAX_LINES) {
+      return NextResponse.json(
+        { error: `lines must be an array with 1 to ${MAX_LINES} items` },
+        { status: 400 }
+      );
+    }
+
+    const lines: GoodsReceivedLineInput[] = [];
+    const seen = new Set<string>();
+    for (const line of body.lines) {
+      const damaged = line?.damagedQuantity ?? 0;
+      if (
+        !isValidUUID(line?.poLineId) ||
+        !isValidNonNegativeNumber(line?.receivedQuantity) ||
+        !isValidNonNegativeNumber(damaged) ||
+        damaged > line.receivedQuantity
+      ) {
+        return NextResponse.json(
+          { error: 'Each line needs a poLineId, a non-negative receivedQuantity and a damagedQuantity no larger than it' },
+          { status: 400 }
+        );
+      }
+      if (line.shortfallAction !== undefined && !isShortfallAction(line.shortfallAction)) {
+        return NextResponse.json(
+          { error: 'shortfallAction must be keep_open or write_off' },
+          { status: 400 }
+        );
+      }
+      if (seen.has(line.poLineId)) {
+        return NextResponse.json(
+          { error: 'Each PO line can only appear once per goods received note' },
+          { status: 400 }
+        );
+      }
+      seen.add(line.poLineId);
+
+      lines.push({
+        poLineId: line.poLineId,
+        receivedQuantity: line.receivedQuantity,
+        damagedQuantity: damaged,
+        shortfallAction: line.shortfallAction ?? 'keep_open',
+        note: sanitizeString(line.note, 1000),
+      });
+    }
+
+    // SECURITY: Confirm the PO belongs to this user (RLS-scoped client)
+    const { data: po } = await supabase
+      .from('purchaseorders')
+      .select('id, status')
+      .eq('id', body.purchaseOrderId)
+      .single();
+
+    if (!po) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    if (po.status === 'cancelled') {
+      return NextResponse.json(
+        { error: 'This purchase order is cancelled; nothing more can be received against it' },
+        { status: 409 }
+      );
+    }
+
+    const { note, purchaseOrderStatus } = await createGoodsReceivedNote({
+      purchaseOrderId: po.id,
+      lines,
+      notes: sanitizeString(body.notes, 2000),
+      receivedAt: body.receivedAt ?? null,
+      user_id: user.id,
+    });
+
+    // Photos are stored under the GRN, so upload once it exists
+    for (const [index, file] of photos) {
+      const line = note.lines.find((l) => l.poLineId === lines[index]?.poLineId);
+      if (!line) continue;
+      try {
+        line.photoUrl = await uploadGoodsReceivedPhoto(file, note.id);
+        await setGoodsReceivedNoteLinePhoto(line.id, line.photoUrl);
+      } catch (uploadError) {
+        console.error('Failed to upload goods received photo:', uploadError);
+      }
+    }
+
+    clearCache(`purchasing_po_view_v1_${user.id}`);
+    clearCache(`inventory_snapshot_v1_${user.id}`);
+
+    return NextResponse.json({
+      success: true,
+      data: note,
+      purchaseOrderStatus,
+    });
+  } catch (error) {
+    console.error('Create goods received note error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to record delivery' },
+      { status: 500 }
+    );
+  }
+}
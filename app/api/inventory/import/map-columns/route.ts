@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth-helpers';
 import { applyRateLimit } from '@/lib/rate-limit';
+import { getExtractionProvider, runExtraction } from '@/lib/extraction/engine';
+import { getColumnMappingPrompt } from '@/lib/extraction/prompts';
+import { COLUMN_MAPPING_SCHEMA } from '@/lib/extraction/schema';
 
 const KNOWN_FIELDS = [
   'name',
@@ -128,75 +131,27 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Step 2: Fall back to Gemini for unmapped columns
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      // No API key - return local mapping as-is
+    // Step 2: Fall back to the extraction provider for unmapped columns
+    const provider = getExtractionProvider();
+    if (!provider) {
+      // No provider configured - return local mapping as-is
       return NextResponse.json({
         success: true,
         data: {
           mapping: localMapping,
           method: 'local',
-          warning: 'Some columns could not be auto-mapped. Gemini API key not configured for AI mapping.',
+          warning: 'Some columns could not be auto-mapped. No extraction provider configured for AI mapping.',
         },
       });
     }
 
-    const prompt = `You are mapping CSV column headers to a product inventory schema.
-
-The target fields are:
-- name (required): Product name / description
-- primarySku: SKU, item code, product code
-- supplierSku: Supplier-specific SKU
-- category: Product category, folder, group
-- barcodes: Barcode, EAN, UPC, GTIN
-- quantityOnHand: Quantity in stock, count
-- quantityInTransit: Quantity in transit, not yet received
-- averageCostGBP: Unit cost, purchase price (in GBP)
-- supplier: Supplier or vendor name
-
-The CSV has these headers: ${JSON.stringify(headers)}
-
-${sampleRows && sampleRows.length > 0 ? `Here are the first ${sampleRows.length} sample data rows for context:\n${sampleRows.map((row) => JSON.stringify(row)).join('\n')}` : ''}
-
-Return a JSON object mapping each CSV header to one of the target fields above, or null if it doesn't match any field.
-Each target field should only be used ONCE (pick the best match).
-"name" MUST be mapped to exactly one column.
-
-Example output:
-{"Product Name": "name", "SKU": "primarySku", "Stock": "quantityOnHand", "Notes": null}
-
-Return ONLY the JSON object, no commentary.`;
-
     try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{ parts: [{ text: prompt }] }],
-          }),
-        },
-      );
-
-      if (!response.ok) {
-        console.error('Gemini API error:', await response.text());
-        // Fall back to local mapping
-        return NextResponse.json({
-          success: true,
-          data: {
-            mapping: localMapping,
-            method: 'local',
-            warning: 'AI mapping failed, using best-effort local mapping.',
-          },
-        });
-      }
-
-      const data = await response.json();
-      const text = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-      const cleanedText = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-      const aiMapping: Record<string, string | null> = JSON.parse(cleanedText);
+      const { data: aiMapping } = await runExtraction<Record<string, string | null>>({
+        provider,
+        request: { task: 'column-mapping', prompt: getColumnMappingPrompt(headers, sampleRows) },
+        schema: COLUMN_MAPPING_SCHEMA,
+        timeoutMs: 30_000,
+      });
 
       // Validate AI mapping: only allow known fields
       const validatedMapping: Record<string, KnownField | null> = {};
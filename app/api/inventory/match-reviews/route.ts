@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-helpers';
+import { clearCache } from '@/lib/cache';
+import {
+  getProductMatchReview,
+  listPendingProductMatchReviews,
+  resolveProductMatchReview,
+} from '@/lib/db';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { findUnexpectedFields, isValidUUID, sanitizeString } from '@/lib/validation';
+
+// GET - PO lines waiting for a product match decision, or with ?search= the user's
+// products whose name or SKU contains the text (to pick a product that wasn't suggested)
+export async function GET(request: NextRequest) {
+  try {
+    const { user, supabase } = await requireAuth(request);
+
+    // SECURITY: Rate limit per IP + user
+    const blocked = applyRateLimit(request, user.id);
+    if (blocked) return blocked;
+
+    const search = sanitizeString(new URL(request.url).searchParams.get('search'), 100);
+    if (search) {
+      // SECURITY: Strip PostgREST filter syntax from the search text
+      const term = search.replace(/[,()*%_\\]/g, ' ').trim();
+      const { data: products, error } = await supabase
+        .from('products')
+        .select('id, name, primarysku')
+        .eq('user_id', user.id)
+        .or(`name.ilike.*${term}*,primarysku.ilike.*${term}*`)
+        .order('name')
+        .limit(20);
+
+      if (error) {
+        throw new Error(`Failed to search products: ${error.message}`);
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: (products || []).map((p) => ({ id: p.id, name: p.name, primarySku: p.primarysku ?? null })),
+      });
+    }
+
+    const reviews = await listPendingProductMatchReviews(user.id);
+    return NextResponse.json({ success: true, data: reviews });
+  } catch (error) {
+    console.error('Get product match reviews error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load product match reviews' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Resolve a review ({ id, action: 'match', productId } or { id, action: 'create' });
+// the line is then put in transit
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, supabase } = await requireAuth(request);
+
+    // SECURITY: Rate limit – write operation
+    const blocked = applyRateLimit(request, user.id, { limit: 60, windowMs: 60_000 });
+    if (blocked) return blocked;
+
+    const body = await request.json();
+
+    // SECURITY: Reject unexpected fields
+    const unexpected = findUnexpectedFields(body, ['id', 'action', 'productId']);
+    if (unexpected.length > 0) {
+      return NextResponse.json(
+        { error: `Unexpected fields: ${unexpected.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidUUID(body.id)) {
+      return NextResponse.json(
+        { error: 'id must be a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    if (body.action !== 'match' && body.action !== 'create') {
+      return NextResponse.json(
+        { error: 'action must be match or create' },
+        { status: 400 }
+      );
+    }
+
+    if (body.action === 'match' && !isValidUUID(body.productId)) {
+      return NextResponse.json(
+        { error: 'productId must be a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    const review = await getProductMatchReview(body.id, user.id);
+    if (!review) {
+      return NextResponse.json({ error: 'Product match review not found' }, { status: 404 });
+    }
+
+    if (review.status !== 'pending') {
+      return NextResponse.json(
+        { error: 'This line has already been matched' },
+        { status: 409 }
+      );
+    }
+
+    if (body.action === 'match') {
+      // SECURITY: The chosen product must belong to the user
+      const { data: product } = await supabase.from('products').select('id').eq('id', body.productId).eq('user_id', user.id).single();
+      if (!product) {
+        return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+      }
+    }
+
+    const resolved = await resolveProductMatchReview({
+      review,
+      productId: body.action === 'match' ? body.productId : null,
+      user_id: user.id,
+    });
+    if (!resolved) {
+      return NextResponse.json(
+        { error: 'This line has already been matched' },
+        { status: 409 }
+      );
+    }
+
+    clearCache(`inventory_snapshot_v1_${user.id}`);
+    clearCache(`purchasing_po_view_v1_${user.id}`);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        productId: resolved.product.id,
+        productName: resolved.product.name,
+        transitCreated: resolved.transitCreated,
+      },
+    });
+  } catch (error) {
+    console.error('Resolve product match review error:', error);
+    return NextResponse.json(
+      { error: 'Failed to resolve product match review' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-helpers';
+import { listInventoryMovements } from '@/lib/db';
+import { isInventoryMovementType } from '@/lib/inventory-movements';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { isValidUUID } from '@/lib/validation';
+
+export const runtime = 'nodejs';
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+// GET - A product's stock movement timeline, newest first (?productId=&before=&beforeId=&limit=&type=).
+// `before` and `beforeId` are the createdAt and id of the oldest movement already shown.
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request);
+
+    // SECURITY: Rate limit per IP + user
+    const blocked = applyRateLimit(request, user.id);
+    if (blocked) return blocked;
+
+    const searchParams = new URL(request.url).searchParams;
+    const productId = searchParams.get('productId');
+    if (!isValidUUID(productId)) {
+      return NextResponse.json(
+        { error: 'productId must be a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    const before = searchParams.get('before');
+    if (before !== null && Number.isNaN(Date.parse(before))) {
+      return NextResponse.json(
+        { error: 'before must be an ISO timestamp' },
+        { status: 400 }
+      );
+    }
+
+    const beforeId = searchParams.get('beforeId');
+    if ((before === null) !== (beforeId === null) || (beforeId !== null && !isValidUUID(beforeId))) {
+      return NextResponse.json(
+        { error: 'before and beforeId must be given together, with beforeId a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    const rawLimit = searchParams.get('limit');
+    const limit = rawLimit === null ? DEFAULT_LIMIT : Number(rawLimit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `limit must be an integer from 1 to ${MAX_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const type = searchParams.get('type');
+    if (type !== null && !isInventoryMovementType(type)) {
+      return NextResponse.json(
+        { error: 'type is not a known movement type' },
+        { status: 400 }
+      );
+    }
+
+    const movements = await listInventoryMovements(productId, user.id, {
+      // SECURITY: Only a normalised timestamp reaches the keyset filter
+      before: before !== null && beforeId !== null ? { createdAt: new Date(before).toISOString(), id: beforeId } : null,
+      limit: limit + 1,
+      movementType: type,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        movements: movements.slice(0, limit),
+        hasMore: movements.length > limit,
+      },
+    });
+  } catch (error) {
+    console.error('Get inventory movements error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load stock movements' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth-helpers';
-import { deleteProductAndInventory } from '@/lib/db';
+import { clearCache } from '@/lib/cache';
+import { deleteProductAndInventory, listSupplierProductsForProduct } from '@/lib/db';
 import { applyRateLimit } from '@/lib/rate-limit';
 import { isValidUUID } from '@/lib/validation';
 
@@ -36,7 +37,7 @@ export async function GET(request: NextRequest) {
     }
 
     // 2) Load related entities in parallel
-    const [inventoryRes, supplierRes, transitRes, poLinesRes, purchaseOrdersRes, invoicesRes] =
+    const [inventoryRes, supplierRes, transitRes, poLinesRes, purchaseOrdersRes, invoicesRes, supplierProducts] =
       await Promise.all([
         supabase.from('inventory').select('*').eq('productid', id),
         productRow.supplierid
@@ -46,6 +47,7 @@ export async function GET(request: NextRequest) {
         supabase.from('polines').select('*'),
         supabase.from('purchaseorders').select('*'),
         supabase.from('invoices').select('*'),
+        listSupplierProductsForProduct(id, user.id),
       ]);
 
     const inventoryRows = inventoryRes.data || [];
@@ -67,6 +69,7 @@ export async function GET(request: NextRequest) {
       category: productRow.category ?? null,
       tags: productRow.tags ?? [],
       imageUrl: productRow.imageurl ?? null,
+      revision: productRow.revision ?? 1,
       createdAt: productRow.created_at,
       updatedAt: productRow.updated_at,
     };
@@ -254,6 +257,8 @@ export async function GET(request: NextRequest) {
         product,
         inventory,
         supplier,
+        // Every supplier's code for the product, most recently invoiced first
+        supplierProducts,
         transit,
       },
     });
@@ -266,6 +271,41 @@ export async function GET(request: NextRequest) {
   }
 }
 
+type ProductRow = {
+  id: string;
+  name: string;
+  primarysku: string | null;
+  suppliersku: string | null;
+  barcodes: string[] | null;
+  aliases: string[] | null;
+  supplierid: string | null;
+  category: string | null;
+  tags: string[] | null;
+  imageurl: string | null;
+  revision: number | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// Map a products row to the camelCase DTO returned by PUT
+function mapProductRow(row: ProductRow) {
+  return {
+    id: row.id,
+    name: row.name,
+    primarySku: row.primarysku ?? null,
+    supplierSku: row.suppliersku ?? null,
+    barcodes: row.barcodes ?? [],
+    aliases: row.aliases ?? [],
+    supplierId: row.supplierid ?? null,
+    category: row.category ?? null,
+    tags: row.tags ?? [],
+    imageUrl: row.imageurl ?? null,
+    revision: row.revision ?? 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
 // Update product metadata (name, SKUs, category, tags, barcodes)
 export async function PUT(request: NextRequest) {
   try {
@@ -285,6 +325,14 @@ export async function PUT(request: NextRequest) {
 
     const body = await request.json();
 
+    // SECURITY: Optimistic concurrency – the edit must name the revision it was made against
+    if (!Number.isInteger(body.revision) || body.revision < 1) {
+      return NextResponse.json(
+        { error: 'revision is required and must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
     const updates: any = {};
 
     if (typeof body.name === 'string') {
@@ -353,15 +401,18 @@ export async function PUT(request: NextRequest) {
     }
 
     updates.updated_at = new Date().toISOString();
+    updates.revision = body.revision + 1;
 
+    // Only applies if nobody saved the product since the client loaded this revision
     const { data: updatedRow, error } = await supabase
       .from('products')
       .update(updates)
       .eq('id', id)
+      .eq('revision', body.revision)
       .select('*')
-      .single();
+      .maybeSingle();
 
-    if (error || !updatedRow) {
+    if (error) {
       console.error('Update product error:', error);
       return NextResponse.json(
         { error: 'Failed to update product' },
@@ -369,20 +420,33 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    const product = {
-      id: updatedRow.id,
-      name: updatedRow.name,
-      primarySku: updatedRow.primarysku ?? null,
-      supplierSku: updatedRow.suppliersku ?? null,
-      barcodes: updatedRow.barcodes ?? [],
-      aliases: updatedRow.aliases ?? [],
-      supplierId: updatedRow.supplierid ?? null,
-      category: updatedRow.category ?? null,
-      tags: updatedRow.tags ?? [],
-      createdAt: updatedRow.created_at,
-      updatedAt: updatedRow.updated_at,
+    if (!updatedRow) {
+      const { data: currentRow } = await supabase
+        .from('products')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (!currentRow) {
+        return NextResponse.json(
+          { error: 'Product not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: 'This product was changed by someone else since you loaded it',
+          current: mapProductRow(currentRow),
+        },
+        { status: 409 }
+      );
     }
-    return NextResponse.json({ success: true, data: { product } });
+
+    clearCache(`inventory_snapshot_v1_${user.id}`);
+    clearCache(`purchasing_po_view_v1_${user.id}`);
+
+    return NextResponse.json({ success: true, data: { product: mapProductRow(updatedRow) } });
   } catch (error) {
     console.error('Update product error:', error);
     return NextResponse.json(
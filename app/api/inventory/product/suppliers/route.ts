@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-helpers';
+import {
+  deleteSupplierProduct,
+  getSupplierProduct,
+  listSupplierProductsForProduct,
+  recordSupplierProduct,
+} from '@/lib/db';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { findUnexpectedFields, isValidPositiveNumber, isValidUUID, sanitizeString } from '@/lib/validation';
+
+// GET - The suppliers a product is bought from and their codes for it (?productId=)
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request);
+
+    // SECURITY: Rate limit per IP + user
+    const blocked = applyRateLimit(request, user.id);
+    if (blocked) return blocked;
+
+    const productId = new URL(request.url).searchParams.get('productId');
+    if (!isValidUUID(productId)) {
+      return NextResponse.json(
+        { error: 'productId must be a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    const supplierProducts = await listSupplierProductsForProduct(productId, user.id);
+    return NextResponse.json({ success: true, data: supplierProducts });
+  } catch (error) {
+    console.error('Get supplier products error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load supplier products' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Map a supplier's code to a product ({ productId, supplierId, supplierSku, packSize? }).
+// A code the supplier already uses for another product is moved to this one.
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, supabase } = await requireAuth(request);
+
+    // SECURITY: Rate limit – write operation
+    const blocked = applyRateLimit(request, user.id, { limit: 30, windowMs: 60_000 });
+    if (blocked) return blocked;
+
+    const body = await request.json();
+
+    // SECURITY: Reject unexpected fields
+    const unexpected = findUnexpectedFields(body, ['productId', 'supplierId', 'supplierSku', 'packSize']);
+    if (unexpected.length > 0) {
+      return NextResponse.json(
+        { error: `Unexpected fields: ${unexpected.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidUUID(body.productId) || !isValidUUID(body.supplierId)) {
+      return NextResponse.json(
+        { error: 'productId and supplierId must be valid UUIDs' },
+        { status: 400 }
+      );
+    }
+
+    const supplierSku = sanitizeString(body.supplierSku, 100);
+    if (!supplierSku) {
+      return NextResponse.json(
+        { error: 'supplierSku is required' },
+        { status: 400 }
+      );
+    }
+
+    if (body.packSize !== undefined && !isValidPositiveNumber(body.packSize, 100_000)) {
+      return NextResponse.json(
+        { error: 'packSize must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: Both the product and the supplier must belong to the user
+    const [{ data: product }, { data: supplier }] = await Promise.all([
+      supabase.from('products').select('id').eq('id', body.productId).eq('user_id', user.id).single(),
+      supabase.from('suppliers').select('id').eq('id', body.supplierId).eq('user_id', user.id).single(),
+    ]);
+    if (!product || !supplier) {
+      return NextResponse.json({ error: 'Product or supplier not found' }, { status: 404 });
+    }
+
+    const supplierProduct = await recordSupplierProduct({
+      supplierId: supplier.id,
+      supplierSku,
+      productId: product.id,
+      packSize: body.packSize,
+      user_id: user.id,
+    });
+
+    return NextResponse.json({ success: true, data: supplierProduct });
+  } catch (error) {
+    console.error('Save supplier product error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save supplier product' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a supplier code mapping (?id=), e.g. after a wrong match
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request);
+
+    // SECURITY: Rate limit – write operation
+    const blocked = applyRateLimit(request, user.id, { limit: 30, windowMs: 60_000 });
+    if (blocked) return blocked;
+
+    const id = new URL(request.url).searchParams.get('id');
+    if (!isValidUUID(id)) {
+      return NextResponse.json(
+        { error: 'id must be a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    const supplierProduct = await getSupplierProduct(id, user.id);
+    if (!supplierProduct) {
+      return NextResponse.json({ error: 'Supplier product not found' }, { status: 404 });
+    }
+
+    await deleteSupplierProduct(supplierProduct.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete supplier product error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete supplier product' },
+      { status: 500 }
+    );
+  }
+}
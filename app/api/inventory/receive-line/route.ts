@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { receiveStockForProduct } from '@/lib/db';
+import { createGoodsReceivedNote, getOpenTransitForPOLine } from '@/lib/db';
 import { requireAuth } from '@/lib/auth-helpers';
+import { clearCache } from '@/lib/cache';
 import { applyRateLimit } from '@/lib/rate-limit';
+import { beginIdempotentRequest } from '@/lib/idempotency';
 import { isValidUUID, isValidPositiveNumber, findUnexpectedFields } from '@/lib/validation';
 
 // Force Node.js runtime for Supabase admin client
@@ -9,7 +11,7 @@ export const runtime = 'nodejs';
 
 export async function POST(request: NextRequest) {
   try {
-    const { user } = await requireAuth(request);
+    const { user, supabase } = await requireAuth(request);
 
     // SECURITY: Rate limit per IP + user
     const blocked = applyRateLimit(request, user.id);
@@ -53,9 +55,74 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const result = await receiveStockForProduct({ productId, quantity, poLineId });
+    // SECURITY: The line's purchase order must belong to this user (RLS-scoped client)
+    const { data: poLine } = await supabase
+      .from('polines')
+      .select('purchaseorderid')
+      .eq('id', poLineId)
+      .single();
+    const { data: po } = poLine?.purchaseorderid
+      ? await supabase.from('purchaseorders').select('id, status').eq('id', poLine.purchaseorderid).single()
+      : { data: null };
 
-    return NextResponse.json({ success: true, data: result });
+    if (!po) {
+      return NextResponse.json(
+        { error: 'PO line not found' },
+        { status: 404 },
+      );
+    }
+
+    if (po.status === 'cancelled') {
+      return NextResponse.json(
+        { error: 'This purchase order is cancelled; nothing more can be received against it' },
+        { status: 409 },
+      );
+    }
+
+    // A quick receipt only takes what is still in transit; over-deliveries go through a full GRN
+    const openTransit = await getOpenTransitForPOLine(poLineId);
+    if (openTransit.remainingQuantity <= 0) {
+      return NextResponse.json(
+        { error: 'Unable to receive stock: no available in-transit quantity for this line' },
+        { status: 400 },
+      );
+    }
+    if (openTransit.productId !== productId) {
+      return NextResponse.json(
+        { error: 'productId does not match the PO line' },
+        { status: 400 },
+      );
+    }
+    if (quantity > openTransit.remainingQuantity) {
+      return NextResponse.json(
+        { error: `Only ${openTransit.remainingQuantity} still in transit for this line` },
+        { status: 400 },
+      );
+    }
+
+    // SECURITY: A repeated Idempotency-Key replays the first receipt instead of receiving twice
+    const idempotency = await beginIdempotentRequest(request, user.id, { productId, poLineId, quantity });
+    if (idempotency.response) return idempotency.response;
+
+    // A quick single-line receipt is still a delivery, so it leaves a GRN behind
+    let received;
+    try {
+      received = await createGoodsReceivedNote({
+        purchaseOrderId: po.id,
+        lines: [{ poLineId, receivedQuantity: quantity }],
+        user_id: user.id,
+      });
+    } catch (error) {
+      await idempotency.release();
+      throw error;
+    }
+
+    clearCache(`purchasing_po_view_v1_${user.id}`);
+    clearCache(`inventory_snapshot_v1_${user.id}`);
+
+    return idempotency.complete(
+      NextResponse.json({ success: true, data: received.note, purchaseOrderStatus: received.purchaseOrderStatus })
+    );
   } catch (error) {
     if (error instanceof Error && error.message === 'Authentication required') {
       return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
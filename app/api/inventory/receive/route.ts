@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { receiveStockForProduct } from '@/lib/db';
 import { requireAuth } from '@/lib/auth-helpers';
 import { applyRateLimit } from '@/lib/rate-limit';
+import { beginIdempotentRequest } from '@/lib/idempotency';
 import { isValidUUID, isValidPositiveNumber, findUnexpectedFields } from '@/lib/validation';
 
 // Force Node.js runtime for lowdb
@@ -45,9 +46,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const result = await receiveStockForProduct({ productId, quantity });
+    // SECURITY: A repeated Idempotency-Key replays the first receipt instead of receiving twice
+    const idempotency = await beginIdempotentRequest(request, user.id, { productId, quantity });
+    if (idempotency.response) return idempotency.response;
 
-    return NextResponse.json({ success: true, data: result });
+    let result;
+    try {
+      result = await receiveStockForProduct({ productId, quantity, user_id: user.id });
+    } catch (error) {
+      await idempotency.release();
+      throw error;
+    }
+
+    return idempotency.complete(NextResponse.json({ success: true, data: result }));
   } catch (error) {
     if (error instanceof Error && error.message === 'Authentication required') {
       return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { recordSupplierCreditNote } from '@/lib/db';
+import { requireAuth } from '@/lib/auth-helpers';
+import { clearCache } from '@/lib/cache';
+import { applyRateLimit } from '@/lib/rate-limit';
+import {
+  findUnexpectedFields,
+  isValidDateString,
+  isValidNonNegativeNumber,
+  isValidUUID,
+  sanitizeString,
+} from '@/lib/validation';
+
+export const runtime = 'nodejs';
+
+// POST - Record the supplier's credit note against a return (and its original invoice)
+export async function POST(request: NextRequest) {
+  try {
+    const { user, supabase } = await requireAuth(request);
+
+    // SECURITY: Rate limit – write operation
+    const blocked = applyRateLimit(request, user.id, { limit: 30, windowMs: 60_000 });
+    if (blocked) return blocked;
+
+    const body = await request.json();
+
+    // SECURITY: Reject unexpected fields
+    const unexpected = findUnexpectedFields(body, ['returnId', 'creditNoteNumber', 'creditNoteDate', 'amountGBP']);
+    if (unexpected.length > 0) {
+      return NextResponse.json(
+        { error: `Unexpected fields: ${unexpected.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidUUID(body.returnId)) {
+      return NextResponse.json(
+        { error: 'returnId must be a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidNonNegativeNumber(body.amountGBP)) {
+      return NextResponse.json(
+        { error: 'amountGBP must be a non-negative number' },
+        { status: 400 }
+      );
+    }
+
+    if (body.creditNoteDate != null && !isValidDateString(body.creditNoteDate)) {
+      return NextResponse.json(
+        { error: 'creditNoteDate must be a YYYY-MM-DD date' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: Confirm the return belongs to this user (RLS-scoped client)
+    const { data: owned } = await supabase
+      .from('supplier_returns')
+      .select('id')
+      .eq('id', body.returnId)
+      .single();
+
+    if (!owned) {
+      return NextResponse.json({ error: 'Supplier return not found' }, { status: 404 });
+    }
+
+    const supplierReturn = await recordSupplierCreditNote({
+      returnId: owned.id,
+      creditNoteNumber: sanitizeString(body.creditNoteNumber, 100),
+      creditNoteDate: body.creditNoteDate ?? null,
+      amountGBP: body.amountGBP,
+    });
+
+    clearCache(`purchasing_po_view_v1_${user.id}`);
+
+    return NextResponse.json({ success: true, data: supplierReturn });
+  } catch (error) {
+    console.error('Record credit note error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to record credit note' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-helpers';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { isValidUUID } from '@/lib/validation';
+import { getSupplierReturn } from '@/lib/db';
+import { renderSupplierReturnPdf } from '@/lib/po-pdf';
+
+export const runtime = 'nodejs';
+
+// GET endpoint to render a supplier return note as a PDF to send with the goods
+export async function GET(request: NextRequest) {
+  try {
+    const { user, supabase } = await requireAuth(request);
+    const blocked = applyRateLimit(request, user.id, { limit: 30, windowMs: 60_000 });
+    if (blocked) return blocked;
+
+    const { searchParams } = new URL(request.url);
+    const returnId = searchParams.get('id');
+
+    // SECURITY: Validate UUID format
+    if (!isValidUUID(returnId)) {
+      return NextResponse.json(
+        { error: 'Supplier return ID must be a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: RLS-scoped client – only the owner's return is visible
+    const { data: owned } = await supabase
+      .from('supplier_returns')
+      .select('id')
+      .eq('id', returnId)
+      .single();
+
+    const supplierReturn = owned ? await getSupplierReturn(returnId) : null;
+    if (!supplierReturn) {
+      return NextResponse.json(
+        { error: 'Supplier return not found' },
+        { status: 404 }
+      );
+    }
+
+    const [{ data: po }, { data: supplier }, { data: settings }] = await Promise.all([
+      supabase.from('purchaseorders').select('id, invoicenumber').eq('id', supplierReturn.purchaseOrderId).single(),
+      supplierReturn.supplierId
+        ? supabase.from('suppliers').select('name, address').eq('id', supplierReturn.supplierId).single()
+        : Promise.resolve({ data: null }),
+      supabase
+        .from('user_settings')
+        .select('company_name, company_address, company_email, company_phone, company_vat_number')
+        .eq('user_id', user.id)
+        .single(),
+    ]);
+
+    const pdf = renderSupplierReturnPdf({
+      company: {
+        name: settings?.company_name ?? null,
+        address: settings?.company_address ?? null,
+        email: settings?.company_email ?? null,
+        phone: settings?.company_phone ?? null,
+        vatNumber: settings?.company_vat_number ?? null,
+      },
+      supplier: supplier ? { name: supplier.name, address: supplier.address ?? null } : null,
+      purchaseOrder: { id: supplierReturn.purchaseOrderId, invoiceNumber: po?.invoicenumber ?? null },
+      supplierReturn,
+    });
+
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${supplierReturn.returnNumber}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Return note PDF error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate return note PDF' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createSupplierReturn,
+  getSupplierReturn,
+  listSupplierReturns,
+  type SupplierReturnLineInput,
+} from '@/lib/db';
+import { isReturnSource } from '@/lib/supplier-returns';
+import { requireAuth } from '@/lib/auth-helpers';
+import { clearCache } from '@/lib/cache';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { findUnexpectedFields, isValidPositiveNumber, isValidUUID, sanitizeString } from '@/lib/validation';
+
+export const runtime = 'nodejs';
+
+const MAX_LINES = 500;
+
+// GET - A single return (?id=) or every return for a purchase order (?purchaseOrderId=)
+export async function GET(request: NextRequest) {
+  try {
+    const { user, supabase } = await requireAuth(request);
+
+    // SECURITY: Rate limit per IP + user
+    const blocked = applyRateLimit(request, user.id);
+    if (blocked) return blocked;
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    const purchaseOrderId = searchParams.get('purchaseOrderId');
+
+    if (id !== null) {
+      if (!isValidUUID(id)) {
+        return NextResponse.json({ error: 'id must be a valid UUID' }, { status: 400 });
+      }
+
+      // SECURITY: RLS-scoped lookup confirms ownership before loading with the server client
+      const { data: owned } = await supabase.from('supplier_returns').select('id').eq('id', id).single();
+      const supplierReturn = owned ? await getSupplierReturn(id) : null;
+      if (!supplierReturn) {
+        return NextResponse.json({ error: 'Supplier return not found' }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, data: supplierReturn });
+    }
+
+    if (!isValidUUID(purchaseOrderId)) {
+      return NextResponse.json(
+        { error: 'Provide id or purchaseOrderId as a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    const { data: po } = await supabase.from('purchaseorders').select('id').eq('id', purchaseOrderId).single();
+    if (!po) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    const returns = await listSupplierReturns(purchaseOrderId);
+    return NextResponse.json({ success: true, data: returns });
+  } catch (error) {
+    console.error('Get supplier returns error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load supplier returns' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Return stock to the supplier (from on hand) or cancel undelivered units (from transit)
+export async function POST(request: NextRequest) {
+  try {
+    const { user, supabase } = await requireAuth(request);
+
+    // SECURITY: Rate limit – returns change stock
+    const blocked = applyRateLimit(request, user.id, { limit: 30, windowMs: 60_000 });
+    if (blocked) return blocked;
+
+    const body = await request.json();
+
+    // SECURITY: Reject unexpected fields
+    const unexpected = findUnexpectedFields(body, ['purchaseOrderId', 'returnedAt', 'reason', 'notes', 'lines']);
+    if (unexpected.length > 0) {
+      return NextResponse.json(
+        { error: `Unexpected fields: ${unexpected.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidUUID(body.purchaseOrderId)) {
+      return NextResponse.json(
+        { error: 'purchaseOrderId must be a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    if (body.returnedAt != null && (typeof body.returnedAt !== 'string' || isNaN(new Date(body.returnedAt).getTime()))) {
+      return NextResponse.json(
+        { error: 'returnedAt must be a valid date' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(body.lines) || body.lines.length === 0 || body.lines.length > MAX_LINES) {
+      return NextResponse.json(
+        { error: `lines must be an array with 1 to ${MAX_LINES} items` },
+        { status: 400 }
+      );
+    }
+
+    const lines: SupplierReturnLineInput[] = [];
+    const seen = new Set<string>();
+    for (const line of body.lines) {
+      if (!isValidUUID(line?.poLineId) || !isValidPositiveNumber(line?.quantity) || !isReturnSource(line?.source)) {
+        return NextResponse.json(
+          { error: 'Each line needs a poLineId, a positive quantity and a source of on_hand or transit' },
+          { status: 400 }
+        );
+      }
+      const key = `${line.poLineId}:${line.source}`;
+      if (seen.has(key)) {
+        return NextResponse.json(
+          { error: 'Each PO line can only appear once per source in a return' },
+          { status: 400 }
+        );
+      }
+      seen.add(key);
+
+      lines.push({ poLineId: line.poLineId, source: line.source, quantity: line.quantity });
+    }
+
+    // SECURITY: Confirm the PO belongs to this user (RLS-scoped client)
+    const { data: po } = await supabase
+      .from('purchaseorders')
+      .select('id')
+      .eq('id', body.purchaseOrderId)
+      .single();
+
+    if (!po) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    const { supplierReturn, purchaseOrderStatus } = await createSupplierReturn({
+      purchaseOrderId: po.id,
+      lines,
+      reason: sanitizeString(body.reason, 500),
+      notes: sanitizeString(body.notes, 2000),
+      returnedAt: body.returnedAt ?? null,
+      user_id: user.id,
+    });
+
+    clearCache(`purchasing_po_view_v1_${user.id}`);
+    clearCache(`inventory_snapshot_v1_${user.id}`);
+
+    return NextResponse.json({
+      success: true,
+      data: supplierReturn,
+      purchaseOrderStatus,
+    });
+  } catch (error) {
+    console.error('Create supplier return error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to record supplier return' },
+      { status: 500 }
+    );
+  }
+}
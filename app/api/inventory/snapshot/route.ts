@@ -104,7 +104,7 @@ export async function GET(request: NextRequest) {
 
               let rawUnitCost = Number(t.unitcostgbp ?? 0);
               if (!Number.isFinite(rawUnitCost) || rawUnitCost <= 0) {
-                rawUnitCost = Number(poLine?.unitcostexvat ?? 0);
+                rawUnitCost = Number(poLine?.unitcostexvat ?? 0) / (Number(t.packsize ?? 1) || 1);
               }
 
               const unitCost = Number.isFinite(rawUnitCost) && rawUnitCost >= 0 ? rawUnitCost : 0;
@@ -131,7 +131,7 @@ export async function GET(request: NextRequest) {
               const poLine = poLinesById.get(t.polineid) || null;
               let unitCost = Number(t.unitcostgbp ?? 0);
               if (!Number.isFinite(unitCost) || unitCost <= 0) {
-                unitCost = Number(poLine?.unitcostexvat ?? 0);
+                unitCost = Number(poLine?.unitcostexvat ?? 0) / (Number(t.packsize ?? 1) || 1);
               }
               if (!Number.isFinite(unitCost) || unitCost <= 0) continue;
 
@@ -0,0 +1,261 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { requireAuth } from '@/lib/auth-helpers';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { findUnexpectedFields, isValidUUID, sanitizeString } from '@/lib/validation';
+import { uploadExtractionJobFiles } from '@/lib/storage';
+import { checkInvoiceFile, MAX_INVOICE_FILES } from '@/lib/extraction/invoice';
+import { fingerprintFiles } from '@/lib/file-fingerprint';
+import { findInvoiceFileMatches, recordInvoiceFileFingerprints } from '@/lib/db';
+import {
+  deleteExtractionJob,
+  enqueueExtractionJob,
+  getExtractionJob,
+  listExtractionJobs,
+  processExtractionJobs,
+  retryExtractionJob,
+} from '@/lib/extraction/jobs';
+
+// Force Node.js runtime for PDF text-layer parsing in the background worker
+export const runtime = 'nodejs';
+
+// Start a job's extraction once the response has been sent. Jobs the request-scoped
+// worker doesn't finish are picked up by /api/internal/extraction/jobs/process.
+function startJob(jobId: string) {
+  after(async () => {
+    try {
+      await processExtractionJobs({ workerId: `upload-${jobId}`, maxJobs: 1, jobId });
+    } catch (error) {
+      console.error('Extraction job worker error:', error);
+    }
+  });
+}
+
+// POST - Queue an invoice (one or more files of the same order, or a statement with split=true)
+// for extraction; returns the job id
+export async function POST(request: NextRequest) {
+  try {
+    const { user, supabase } = await requireAuth(request);
+
+    // SECURITY: Rate limit – uploads are stored; a stack of invoices is one request each
+    const blocked = applyRateLimit(request, user.id, { limit: 60, windowMs: 60_000 });
+    if (blocked) return blocked;
+
+    const formData = await request.formData();
+    const fileCountRaw = parseInt(formData.get('fileCount') as string || '1');
+    // SECURITY: Cap file count to prevent abuse
+    const fileCount = Math.min(Math.max(1, fileCountRaw), MAX_INVOICE_FILES);
+
+    const files: File[] = [];
+    for (let i = 0; i < fileCount; i++) {
+      const file = formData.get(`file${i}`) as File;
+      if (file) {
+        files.push(file);
+      }
+    }
+
+    if (files.length === 0) {
+      return NextResponse.json(
+        { error: 'No files uploaded' },
+        { status: 400 }
+      );
+    }
+
+    for (const file of files) {
+      const rejection = checkInvoiceFile(file);
+      if (rejection) {
+        return NextResponse.json({ error: rejection }, { status: 400 });
+      }
+    }
+
+    // Catch invoices that were already imported (or are still queued) before they are extracted
+    // again; the client confirms and resends with allowDuplicate=true to go ahead anyway
+    const fingerprints = await fingerprintFiles(files);
+    if (formData.get('allowDuplicate') !== 'true') {
+      const duplicateFiles = await findInvoiceFileMatches(user.id, fingerprints);
+      if (duplicateFiles.length > 0) {
+        return NextResponse.json(
+          { error: 'This invoice looks like one that was already uploaded', duplicateFiles },
+          { status: 409 }
+        );
+      }
+    }
+
+    // SECURITY: Optional supplier hint, only kept if it is one of the user's suppliers
+    let supplierId: string | null = null;
+    const supplierIdHint = formData.get('supplierId');
+    if (isValidUUID(supplierIdHint)) {
+      const { data: supplier } = await supabase.from('suppliers').select('id').eq('id', supplierIdHint).eq('user_id', user.id).single();
+      supplierId = supplier?.id ?? null;
+    }
+
+    const jobId = crypto.randomUUID();
+    const storedFiles = await uploadExtractionJobFiles(files, jobId);
+    const job = await enqueueExtractionJob({
+      id: jobId,
+      label: sanitizeString(formData.get('groupName'), 200) ?? files.map((f) => f.name).join(', ').slice(0, 200),
+      files: storedFiles,
+      supplierId,
+      // Statement mode: the upload may hold several invoices, each returned as a candidate PO
+      split: formData.get('split') === 'true',
+      user_id: user.id,
+    });
+
+    try {
+      await recordInvoiceFileFingerprints({ files: fingerprints, extractionJobId: job.id, user_id: user.id });
+    } catch (error) {
+      console.error('Failed to fingerprint invoice files:', error);
+    }
+
+    startJob(job.id);
+
+    return NextResponse.json({ success: true, data: { jobId: job.id, status: job.status } }, { status: 202 });
+  } catch (error) {
+    console.error('Queue extraction error:', error);
+    return NextResponse.json(
+      { error: 'Failed to queue extraction' },
+      { status: 500 }
+    );
+  }
+}
+
+// GET - One job with its result (?id=), or the user's jobs still waiting for review
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request);
+
+    // SECURITY: Rate limit per IP + user – polled every few seconds while jobs run
+    const blocked = applyRateLimit(request, user.id, { limit: 300, windowMs: 60_000 });
+    if (blocked) return blocked;
+
+    const jobId = new URL(request.url).searchParams.get('id');
+    if (jobId === null) {
+      const jobs = await listExtractionJobs(user.id);
+      // Results are only sent for a single job; the list is for the queue overview
+      return NextResponse.json({ success: true, data: jobs.map((job) => ({ ...job, result: null })) });
+    }
+
+    if (!isValidUUID(jobId)) {
+      return NextResponse.json(
+        { error: 'id must be a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    const job = await getExtractionJob(jobId, user.id);
+    if (!job) {
+      return NextResponse.json({ error: 'Extraction job not found' }, { status: 404 });
+    }
+
+    // A retry that has come due (or a job whose worker died) is picked up by whoever is polling
+    const due = job.status === 'queued' && new Date(job.runAt).getTime() <= Date.now();
+    const stale = job.status === 'processing' && Date.now() - new Date(job.updatedAt).getTime() > 10 * 60_000;
+    if (due || stale) startJob(job.id);
+
+    return NextResponse.json({ success: true, data: job });
+  } catch (error) {
+    console.error('Get extraction job error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load extraction job' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Retry a failed job ({ id, action: 'retry' })
+export async function PUT(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request);
+
+    // SECURITY: Rate limit – write operation
+    const blocked = applyRateLimit(request, user.id, { limit: 30, windowMs: 60_000 });
+    if (blocked) return blocked;
+
+    const body = await request.json();
+
+    // SECURITY: Reject unexpected fields
+    const unexpected = findUnexpectedFields(body, ['id', 'action']);
+    if (unexpected.length > 0) {
+      return NextResponse.json(
+        { error: `Unexpected fields: ${unexpected.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidUUID(body.id)) {
+      return NextResponse.json(
+        { error: 'id must be a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    if (body.action !== 'retry') {
+      return NextResponse.json(
+        { error: 'action must be retry' },
+        { status: 400 }
+      );
+    }
+
+    const job = await getExtractionJob(body.id, user.id);
+    if (!job) {
+      return NextResponse.json({ error: 'Extraction job not found' }, { status: 404 });
+    }
+
+    if (job.status !== 'dead') {
+      return NextResponse.json(
+        { error: 'Only failed jobs can be retried' },
+        { status: 409 }
+      );
+    }
+
+    await retryExtractionJob(job.id);
+    startJob(job.id);
+
+    return NextResponse.json({ success: true, data: { jobId: job.id, status: 'queued' } });
+  } catch (error) {
+    console.error('Retry extraction job error:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry extraction job' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a job and its uploaded files (?id=)
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request);
+
+    // SECURITY: Rate limit – write operation
+    const blocked = applyRateLimit(request, user.id, { limit: 30, windowMs: 60_000 });
+    if (blocked) return blocked;
+
+    const jobId = new URL(request.url).searchParams.get('id');
+    if (!isValidUUID(jobId)) {
+      return NextResponse.json(
+        { error: 'id must be a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    const job = await getExtractionJob(jobId, user.id);
+    if (!job) {
+      return NextResponse.json({ error: 'Extraction job not found' }, { status: 404 });
+    }
+
+    if (job.status === 'processing') {
+      return NextResponse.json(
+        { error: 'Job is being processed – try again when it has finished' },
+        { status: 409 }
+      );
+    }
+
+    await deleteExtractionJob(job);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete extraction job error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete extraction job' },
+      { status: 500 }
+    );
+  }
+}
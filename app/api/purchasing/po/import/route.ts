@@ -6,9 +6,12 @@ import {
   type Totals,
   syncInventoryFromPurchaseOrder,
   createOrUpdateInvoiceForPurchaseOrder,
+  replaceInvoiceLines,
   updatePurchaseOrder,
+  findInvoiceFileMatches,
 } from '@/lib/db';
 import { uploadInvoiceImages } from '@/lib/storage';
+import { fingerprintFiles } from '@/lib/file-fingerprint';
 import { requireAuth } from '@/lib/auth-helpers';
 import { applyRateLimit } from '@/lib/rate-limit';
 
@@ -134,6 +137,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Don't import the same invoice twice unless the user confirmed it (allowDuplicate=true)
+    if (formData.get('allowDuplicate') !== 'true') {
+      const duplicateFiles = await findInvoiceFileMatches(user.id, await fingerprintFiles([file]));
+      if (duplicateFiles.length > 0) {
+        return NextResponse.json(
+          { error: 'This invoice looks like one that was already uploaded', duplicateFiles },
+          { status: 409 }
+        );
+      }
+    }
+
     // 3. Prepare file for Gemini
     const arrayBuffer = await file.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
@@ -251,7 +265,7 @@ export async function POST(request: NextRequest) {
       // Upload invoice image to Supabase Storage
       let imageUrls: string[] = [];
       try {
-        imageUrls = await uploadInvoiceImages([originalFile], purchaseOrderId);
+        imageUrls = await uploadInvoiceImages([originalFile], purchaseOrderId, user.id);
         
         // Update PO with image URLs
         await updatePurchaseOrder(purchaseOrderId, {
@@ -270,6 +284,13 @@ export async function POST(request: NextRequest) {
         invoiceNumber: extractedData.purchaseOrder.invoiceNumber || null,
         invoiceDate: extractedData.purchaseOrder.invoiceDate || null,
         currency: 'GBP',
+        totals: {
+          subtotalExVAT: extractedData.totals?.subTotalExVAT ?? null,
+          extras: null,
+          vat: extractedData.totals?.vatTotal ?? null,
+          totalAmount: extractedData.totals?.grandTotal ?? null,
+        },
+        user_id: user.id,
       });
 
       // Create PO lines
@@ -285,6 +306,20 @@ export async function POST(request: NextRequest) {
         }))
       );
 
+      // Keep the billed lines on the invoice for matching against receipts
+      await replaceInvoiceLines(
+        invoice.id,
+        poLines.map((line) => ({
+          poLineId: line.id,
+          description: line.description,
+          supplierSku: line.supplierSku,
+          quantity: line.quantity,
+          unitCostExVAT: line.unitCostExVAT,
+          lineTotalExVAT: line.lineTotalExVAT,
+        })),
+        user.id
+      );
+
       // Mark all extracted items as in transit for inventory management
       const inventorySync = await syncInventoryFromPurchaseOrder({
         supplierId,
@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createOrUpdateInvoiceForPurchaseOrder,
+  getInvoiceForPurchaseOrder,
+  getMatchTolerance,
+  getPOLinesForPurchaseOrder,
+  replaceInvoiceLines,
+  runThreeWayMatch,
+  type InvoiceLineInput,
+} from '@/lib/db';
+import { linkInvoiceLinesToPOLines } from '@/lib/three-way-match';
+import { requireAuth } from '@/lib/auth-helpers';
+import { clearCache } from '@/lib/cache';
+import { applyRateLimit } from '@/lib/rate-limit';
+import {
+  findUnexpectedFields,
+  isValidDateString,
+  isValidNonNegativeNumber,
+  isValidUUID,
+  sanitizeString,
+} from '@/lib/validation';
+
+export const runtime = 'nodejs';
+
+const MAX_LINES = 500;
+
+// GET - The supplier invoice recorded against a purchase order (?purchaseOrderId=)
+export async function GET(request: NextRequest) {
+  try {
+    const { user, supabase } = await requireAuth(request);
+
+    // SECURITY: Rate limit per IP + user
+    const blocked = applyRateLimit(request, user.id);
+    if (blocked) return blocked;
+
+    const purchaseOrderId = new URL(request.url).searchParams.get('purchaseOrderId');
+    if (!isValidUUID(purchaseOrderId)) {
+      return NextResponse.json(
+        { error: 'purchaseOrderId must be a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: RLS-scoped lookup confirms ownership before loading with the server client
+    const { data: po } = await supabase.from('purchaseorders').select('id').eq('id', purchaseOrderId).single();
+    if (!po) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    const recorded = await getInvoiceForPurchaseOrder(purchaseOrderId);
+    return NextResponse.json({ success: true, data: recorded });
+  } catch (error) {
+    console.error('Get invoice error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load invoice' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Record the supplier's invoice (header, totals and lines) against a purchase
+// order, replacing any lines already held, and return the three-way match
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, supabase } = await requireAuth(request);
+
+    // SECURITY: Rate limit – write operation
+    const blocked = applyRateLimit(request, user.id, { limit: 30, windowMs: 60_000 });
+    if (blocked) return blocked;
+
+    const body = await request.json();
+
+    // SECURITY: Reject unexpected fields
+    const unexpected = findUnexpectedFields(body, ['purchaseOrderId', 'invoiceNumber', 'invoiceDate', 'totals', 'lines']);
+    if (unexpected.length > 0) {
+      return NextResponse.json(
+        { error: `Unexpected fields: ${unexpected.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidUUID(body.purchaseOrderId)) {
+      return NextResponse.json(
+        { error: 'purchaseOrderId must be a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    if (body.invoiceDate != null && !isValidDateString(body.invoiceDate)) {
+      return NextResponse.json(
+        { error: 'invoiceDate must be a YYYY-MM-DD date' },
+        { status: 400 }
+      );
+    }
+
+    const totals = body.totals ?? {};
+    for (const key of ['subtotalExVAT', 'extras', 'vat', 'totalAmount']) {
+      if (totals[key] != null && !isValidNonNegativeNumber(totals[key])) {
+        return NextResponse.json(
+          { error: `totals.${key} must be a non-negative number` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (!Array.isArray(body.lines) || body.lines.length === 0 || body.lines.length > MAX_LINES) {
+      return NextResponse.json(
+        { error: `lines must contain between 1 and ${MAX_LINES} items` },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: RLS-scoped client – only the owner's PO is visible
+    const { data: po } = await supabase
+      .from('purchaseorders')
+      .select('id, supplierid, status')
+      .eq('id', body.purchaseOrderId)
+      .single();
+
+    if (!po) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+    if (po.status === 'draft' || po.status === 'cancelled') {
+      return NextResponse.json(
+        { error: `Cannot record an invoice against a ${po.status} purchase order` },
+        { status: 400 }
+      );
+    }
+
+    const poLines = await getPOLinesForPurchaseOrder(po.id);
+    const poLineIds = new Set(poLines.map((l) => l.id));
+
+    const lines: InvoiceLineInput[] = [];
+    for (const raw of body.lines) {
+      const description = sanitizeString(raw?.description, 500);
+      if (!description) {
+        return NextResponse.json({ error: 'Every line needs a description' }, { status: 400 });
+      }
+      if (raw.poLineId != null && (!isValidUUID(raw.poLineId) || !poLineIds.has(raw.poLineId))) {
+        return NextResponse.json(
+          { error: `Line "${description}" references a PO line that is not on this order` },
+          { status: 400 }
+        );
+      }
+      if (!isValidNonNegativeNumber(raw.quantity) || !isValidNonNegativeNumber(raw.unitCostExVAT)) {
+        return NextResponse.json(
+          { error: `Line "${description}" needs a non-negative quantity and unit cost` },
+          { status: 400 }
+        );
+      }
+      if (raw.lineTotalExVAT != null && !isValidNonNegativeNumber(raw.lineTotalExVAT)) {
+        return NextResponse.json(
+          { error: `Line "${description}" has an invalid line total` },
+          { status: 400 }
+        );
+      }
+
+      lines.push({
+        poLineId: raw.poLineId ?? null,
+        description,
+        supplierSku: sanitizeString(raw.supplierSku, 100),
+        quantity: raw.quantity,
+        unitCostExVAT: raw.unitCostExVAT,
+        lineTotalExVAT: raw.lineTotalExVAT ?? Math.round(raw.quantity * raw.unitCostExVAT * 100) / 100,
+      });
+    }
+
+    const invoice = await createOrUpdateInvoiceForPurchaseOrder({
+      purchaseOrderId: po.id,
+      supplierId: po.supplierid,
+      invoiceNumber: sanitizeString(body.invoiceNumber, 100),
+      invoiceDate: body.invoiceDate ?? null,
+      currency: 'GBP',
+      totals: {
+        subtotalExVAT: totals.subtotalExVAT ?? null,
+        extras: totals.extras ?? null,
+        vat: totals.vat ?? null,
+        totalAmount: totals.totalAmount ?? null,
+      },
+      user_id: user.id,
+    });
+
+    // Lines sent without a PO line are linked by supplier SKU, then description
+    await replaceInvoiceLines(invoice.id, linkInvoiceLinesToPOLines(lines, poLines), user.id);
+
+    const match = await runThreeWayMatch(po.id, await getMatchTolerance(user.id));
+
+    clearCache(`purchasing_po_view_v1_${user.id}`);
+
+    return NextResponse.json({ success: true, data: match });
+  } catch (error) {
+    console.error('Save invoice error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save invoice' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth-helpers';
 import { clearCache } from '@/lib/cache';
+import { reallocateLandedCostsForPurchaseOrder } from '@/lib/db';
 import { applyRateLimit } from '@/lib/rate-limit';
-import { isValidUUID } from '@/lib/validation';
+import { isValidNonNegativeNumber, isValidUUID } from '@/lib/validation';
 
 // Force Node.js runtime for lowdb
 export const runtime = 'nodejs';
@@ -40,6 +41,12 @@ export async function POST(request: NextRequest) {
           );
         }
       }
+      if (lineData.weightKg !== undefined && lineData.weightKg !== null && !isValidNonNegativeNumber(lineData.weightKg)) {
+        return NextResponse.json(
+          { error: 'weightKg must be a non-negative number' },
+          { status: 400 }
+        );
+      }
     }
 
     // Create the line items
@@ -51,6 +58,7 @@ export async function POST(request: NextRequest) {
       unitcostexvat: line.unitCostExVAT,
       linetotalexvat: line.lineTotalExVAT,
       rrp: line.rrp ?? null,
+      weightkg: line.weightKg ?? null,
     }));
 
     const { data: newLines, error } = await supabase
@@ -63,6 +71,9 @@ export async function POST(request: NextRequest) {
       throw new Error(`Failed to create PO lines: ${error?.message}`);
     }
 
+    // New lines take their share of the PO's landed costs
+    const landedCosts = await reallocateLandedCostsForPurchaseOrder(purchaseOrderId);
+
     clearCache(`purchasing_po_view_v1_${user.id}`);
     clearCache(`inventory_snapshot_v1_${user.id}`);
 
@@ -70,6 +81,7 @@ export async function POST(request: NextRequest) {
       success: true,
       message: `${newLines.length} line item(s) added successfully`,
       data: newLines,
+      landedCosts,
     });
   } catch (error) {
     console.error('Add line item error:', error);
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth-helpers';
 import { clearCache } from '@/lib/cache';
+import { reallocateLandedCostsForPurchaseOrder } from '@/lib/db';
 import { applyRateLimit } from '@/lib/rate-limit';
-import { isValidUUID } from '@/lib/validation';
+import { isValidNonNegativeNumber, isValidUUID } from '@/lib/validation';
 
 // Force Node.js runtime for lowdb
 export const runtime = 'nodejs';
@@ -28,7 +29,7 @@ export async function PUT(request: NextRequest) {
     const updates = await request.json();
 
     // Validate the updates (basic validation)
-    const allowedFields = ['description', 'supplierSku', 'quantity', 'unitCostExVAT', 'lineTotalExVAT', 'rrp'];
+    const allowedFields = ['description', 'supplierSku', 'quantity', 'unitCostExVAT', 'lineTotalExVAT', 'rrp', 'weightKg'];
     const invalidFields = Object.keys(updates).filter(field => !allowedFields.includes(field));
 
     if (invalidFields.length > 0) {
@@ -38,11 +39,18 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    if (updates.weightKg !== undefined && updates.weightKg !== null && !isValidNonNegativeNumber(updates.weightKg)) {
+      return NextResponse.json(
+        { error: 'weightKg must be a non-negative number' },
+        { status: 400 }
+      );
+    }
+
     // Map camelCase fields to DB column names
     // SECURITY: Verify the line belongs to a PO owned by the authenticated user
     const { data: lineCheck, error: lineCheckError } = await supabase
       .from('polines')
-      .select('id, purchaseorderid, purchaseorders!inner(user_id)')
+      .select('id, purchaseorderid, unitcostexvat, linetotalexvat, purchaseorders!inner(user_id, fxrate)')
       .eq('id', lineId)
       .single();
 
@@ -60,6 +68,17 @@ export async function PUT(request: NextRequest) {
     if (updates.unitCostExVAT !== undefined) mappedUpdates.unitcostexvat = updates.unitCostExVAT;
     if (updates.lineTotalExVAT !== undefined) mappedUpdates.linetotalexvat = updates.lineTotalExVAT;
     if (updates.rrp !== undefined) mappedUpdates.rrp = updates.rrp;
+    if (updates.weightKg !== undefined) mappedUpdates.weightkg = updates.weightKg;
+
+    // A changed GBP cost no longer matches the invoice-currency amount; derive it back from the PO rate
+    const fxRate = Number((lineCheck.purchaseorders as { fxrate?: number | string | null } | null)?.fxrate ?? 0);
+    const toOriginal = (gbp: unknown) => (fxRate > 0 && typeof gbp === 'number' ? gbp / fxRate : null);
+    if (updates.unitCostExVAT !== undefined && Number(updates.unitCostExVAT) !== Number(lineCheck.unitcostexvat ?? 0)) {
+      mappedUpdates.originalunitcost = toOriginal(updates.unitCostExVAT);
+    }
+    if (updates.lineTotalExVAT !== undefined && Number(updates.lineTotalExVAT) !== Number(lineCheck.linetotalexvat ?? 0)) {
+      mappedUpdates.originallinetotal = toOriginal(updates.lineTotalExVAT);
+    }
 
     const { data, error } = await supabase
       .from('polines')
@@ -76,6 +95,9 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    // Quantity, cost and weight all feed the landed-cost split across the PO's lines
+    const landedCosts = await reallocateLandedCostsForPurchaseOrder(lineCheck.purchaseorderid);
+
     clearCache(`purchasing_po_view_v1_${user.id}`);
     clearCache(`inventory_snapshot_v1_${user.id}`);
 
@@ -83,6 +105,7 @@ export async function PUT(request: NextRequest) {
       success: true,
       message: 'Line item updated successfully',
       data,
+      landedCosts,
     });
   } catch (error) {
     console.error('Update line item error:', error);
@@ -137,12 +160,16 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    // The remaining lines take up the deleted line's share of the landed costs
+    const landedCosts = await reallocateLandedCostsForPurchaseOrder(lineCheck.purchaseorderid);
+
     clearCache(`purchasing_po_view_v1_${user.id}`);
     clearCache(`inventory_snapshot_v1_${user.id}`);
 
     return NextResponse.json({
       success: true,
       message: 'Line item deleted successfully',
+      landedCosts,
     });
   } catch (error) {
     console.error('Delete line item error:', error);
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatchTolerance, runThreeWayMatch } from '@/lib/db';
+import type { MatchTolerance } from '@/lib/three-way-match';
+import { requireAuth } from '@/lib/auth-helpers';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { isValidUUID } from '@/lib/validation';
+
+export const runtime = 'nodejs';
+
+const TOLERANCE_PARAMS: Array<[keyof MatchTolerance, string]> = [
+  ['pricePercent', 'priceTolerancePct'],
+  ['quantityUnits', 'quantityTolerance'],
+  ['amountGBP', 'amountTolerance'],
+];
+
+// GET - Discrepancy report for a purchase order (?id=): PO lines vs goods received vs
+// supplier invoice. Tolerances default to the account settings and can be overridden
+// per request with ?priceTolerancePct=, ?quantityTolerance= and ?amountTolerance=.
+export async function GET(request: NextRequest) {
+  try {
+    const { user, supabase } = await requireAuth(request);
+
+    // SECURITY: Rate limit per IP + user
+    const blocked = applyRateLimit(request, user.id);
+    if (blocked) return blocked;
+
+    const { searchParams } = new URL(request.url);
+    const poId = searchParams.get('id');
+
+    // SECURITY: Validate UUID format
+    if (!isValidUUID(poId)) {
+      return NextResponse.json(
+        { error: 'Purchase order ID must be a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    const tolerance = await getMatchTolerance(user.id);
+    for (const [key, param] of TOLERANCE_PARAMS) {
+      const raw = searchParams.get(param);
+      if (raw === null) continue;
+      const value = Number(raw);
+      if (!Number.isFinite(value) || value < 0) {
+        return NextResponse.json(
+          { error: `${param} must be a non-negative number` },
+          { status: 400 }
+        );
+      }
+      tolerance[key] = value;
+    }
+
+    // SECURITY: RLS-scoped client – only the owner's PO is visible
+    const { data: po } = await supabase.from('purchaseorders').select('id').eq('id', poId).single();
+    if (!po) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    const match = await runThreeWayMatch(po.id, tolerance);
+    if (!match) {
+      return NextResponse.json(
+        { error: 'No supplier invoice has been recorded for this purchase order' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: match });
+  } catch (error) {
+    console.error('Three-way match error:', error);
+    return NextResponse.json(
+      { error: 'Failed to match invoice' },
+      { status: 500 }
+    );
+  }
+}
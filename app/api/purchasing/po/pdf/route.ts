@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-helpers';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { isValidUUID } from '@/lib/validation';
+import { getPOLinesForPurchaseOrder, type PurchaseOrder } from '@/lib/db';
+import { purchaseOrderReference, renderPurchaseOrderPdf } from '@/lib/po-pdf';
+
+export const runtime = 'nodejs';
+
+// GET endpoint to render a purchase order as a PDF for the supplier
+export async function GET(request: NextRequest) {
+  try {
+    const { user, supabase } = await requireAuth(request);
+    const blocked = applyRateLimit(request, user.id, { limit: 30, windowMs: 60_000 });
+    if (blocked) return blocked;
+
+    const { searchParams } = new URL(request.url);
+    const poId = searchParams.get('id');
+
+    // SECURITY: Validate UUID format
+    if (!isValidUUID(poId)) {
+      return NextResponse.json(
+        { error: 'Purchase order ID must be a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: RLS-scoped client – only the owner's PO is visible
+    const { data: po, error: poError } = await supabase
+      .from('purchaseorders')
+      .select('*')
+      .eq('id', poId)
+      .single();
+
+    if (poError || !po) {
+      return NextResponse.json(
+        { error: 'Purchase order not found' },
+        { status: 404 }
+      );
+    }
+
+    const [{ data: supplier }, { data: settings }, lines] = await Promise.all([
+      supabase.from('suppliers').select('name, address, email, phone').eq('id', po.supplierid).single(),
+      supabase
+        .from('user_settings')
+        .select('company_name, company_address, company_email, company_phone, company_vat_number')
+        .eq('user_id', user.id)
+        .single(),
+      getPOLinesForPurchaseOrder(po.id),
+    ]);
+
+    const toNumberOrNull = (value: unknown) => (value != null ? Number(value) : null);
+    const purchaseOrder: PurchaseOrder = {
+      id: po.id,
+      supplierId: po.supplierid,
+      invoiceNumber: po.invoicenumber ?? null,
+      invoiceDate: po.invoicedate ?? null,
+      currency: po.currency || 'GBP',
+      paymentTerms: po.paymentterms ?? null,
+      imageUrl: null,
+      imageUrls: null,
+      notes: po.notes ?? null,
+      subtotalExVAT: toNumberOrNull(po.subtotalexvat),
+      extras: toNumberOrNull(po.extras),
+      vat: toNumberOrNull(po.vat),
+      totalAmount: toNumberOrNull(po.totalamount),
+      sourceCurrency: po.sourcecurrency ?? null,
+      fxRate: toNumberOrNull(po.fxrate),
+      originalSubtotal: toNumberOrNull(po.originalsubtotal),
+      originalExtras: toNumberOrNull(po.originalextras),
+      originalVat: toNumberOrNull(po.originalvat),
+      originalTotal: toNumberOrNull(po.originaltotal),
+      status: po.status ?? 'ordered',
+      createdAt: po.created_at,
+    };
+
+    const pdf = renderPurchaseOrderPdf({
+      company: {
+        name: settings?.company_name ?? null,
+        address: settings?.company_address ?? null,
+        email: settings?.company_email ?? null,
+        phone: settings?.company_phone ?? null,
+        vatNumber: settings?.company_vat_number ?? null,
+      },
+      supplier: {
+        name: supplier?.name ?? 'Supplier',
+        address: supplier?.address ?? null,
+        email: supplier?.email ?? null,
+        phone: supplier?.phone ?? null,
+      },
+      purchaseOrder,
+      lines,
+    });
+
+    const filename = `${purchaseOrderReference(purchaseOrder).replace(/[^A-Za-z0-9._-]+/g, '_')}.pdf`;
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('PO PDF error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate purchase order PDF' },
+      { status: 500 }
+    );
+  }
+}
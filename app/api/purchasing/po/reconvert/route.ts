@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-helpers';
+import { clearCache } from '@/lib/cache';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { findUnexpectedFields, isValidDateString, isValidPositiveNumber, isValidUUID } from '@/lib/validation';
+import { reconvertPurchaseOrder } from '@/lib/db';
+import { lookupRate, todayDateString } from '@/lib/fx/rates';
+import type { ExchangeRateSource } from '@/lib/fx/convert';
+
+export const runtime = 'nodejs';
+
+// POST endpoint to re-convert a purchase order to GBP at a different exchange rate
+// (e.g. the rate on the payment date) using the invoice-currency amounts stored on it.
+// Without an explicit rate, the rate for rateDate (default: invoice date) is looked up.
+export async function POST(request: NextRequest) {
+  try {
+    const { user, supabase } = await requireAuth(request);
+    const blocked = applyRateLimit(request, user.id, { limit: 30, windowMs: 60_000 });
+    if (blocked) return blocked;
+
+    const { searchParams } = new URL(request.url);
+    const poId = searchParams.get('id');
+
+    // SECURITY: Validate UUID format
+    if (!isValidUUID(poId)) {
+      return NextResponse.json(
+        { error: 'Purchase order ID must be a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+
+    const unexpected = findUnexpectedFields(body, ['rate', 'rateDate', 'revision']);
+    if (unexpected.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid fields: ${unexpected.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: Optimistic concurrency – the re-conversion must name the revision it was made against
+    if (!Number.isInteger(body.revision) || body.revision < 1) {
+      return NextResponse.json(
+        { error: 'revision is required and must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    if (body.rate !== undefined && body.rate !== null && !isValidPositiveNumber(body.rate, 100_000)) {
+      return NextResponse.json(
+        { error: 'rate must be a positive number (GBP per unit of the invoice currency)' },
+        { status: 400 }
+      );
+    }
+
+    if (body.rateDate !== undefined && body.rateDate !== null && !isValidDateString(body.rateDate)) {
+      return NextResponse.json(
+        { error: 'rateDate must be a date in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: Confirm the PO belongs to the user (RLS-scoped client)
+    const { data: po, error: poError } = await supabase
+      .from('purchaseorders')
+      .select('id, sourcecurrency, invoicedate')
+      .eq('id', poId)
+      .single();
+
+    if (poError || !po) {
+      return NextResponse.json(
+        { error: 'Purchase order not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!po.sourcecurrency) {
+      return NextResponse.json(
+        { error: 'Purchase order has no invoice currency recorded, so it cannot be re-converted' },
+        { status: 400 }
+      );
+    }
+
+    let rate = body.rate as number | undefined | null;
+    let rateDate: string | null = body.rateDate ?? null;
+    let rateSource: ExchangeRateSource = 'manual';
+
+    if (rate === undefined || rate === null) {
+      const lookupDate = rateDate ?? (isValidDateString(po.invoicedate) ? po.invoicedate : todayDateString());
+      const fx = await lookupRate(po.sourcecurrency, lookupDate, user.id);
+      if (!fx) {
+        return NextResponse.json(
+          { error: `No exchange rate available for ${po.sourcecurrency} on ${lookupDate}` },
+          { status: 404 }
+        );
+      }
+      rate = fx.rate;
+      rateDate = fx.rateDate;
+      rateSource = fx.source;
+    }
+
+    const result = await reconvertPurchaseOrder({
+      purchaseOrderId: poId,
+      rate,
+      rateDate,
+      rateSource,
+      revision: body.revision,
+    });
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'This purchase order was changed by someone else since you loaded it' },
+        { status: 409 }
+      );
+    }
+
+    clearCache(`purchasing_po_view_v1_${user.id}`);
+    clearCache(`inventory_snapshot_v1_${user.id}`);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('Reconvert PO error:', error);
+    return NextResponse.json(
+      { error: 'Failed to re-convert purchase order' },
+      { status: 500 }
+    );
+  }
+}
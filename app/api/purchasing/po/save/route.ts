@@ -1,9 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { findOrCreateSupplier, createPurchaseOrder, createPOLines, syncInventoryFromPurchaseOrder, createOrUpdateInvoiceForPurchaseOrder } from '@/lib/db';
-import { uploadInvoiceImages } from '@/lib/storage';
+import { savePurchaseOrder, updatePurchaseOrder, learnFromExtractionCorrections, linkInvoiceFilesToPurchaseOrder } from '@/lib/db';
+import type { ExtractedData } from '@/lib/extraction/types';
+import { isLandedCostMethod, type LandedCostMethod } from '@/lib/landed-cost';
+import { normalizeCurrencyCode, type ExchangeRateSource } from '@/lib/fx/convert';
+import type { PurchaseOrderStatus } from '@/lib/po-status';
+import { getStoredFileUrl, uploadInvoiceImages } from '@/lib/storage';
+import {
+  claimExtractionCandidate,
+  getExtractionJob,
+  markExtractionJobSaved,
+  releaseExtractionCandidate,
+  type ExtractionJob,
+} from '@/lib/extraction/jobs';
 import { requireAuth } from '@/lib/auth-helpers';
 import { clearCache } from '@/lib/cache';
 import { applyRateLimit } from '@/lib/rate-limit';
+import { beginIdempotentRequest } from '@/lib/idempotency';
+import { isValidUUID } from '@/lib/validation';
 
 interface SavePORequest {
   supplier: {
@@ -18,6 +31,12 @@ interface SavePORequest {
     invoiceDate?: string;
     originalCurrency?: string;
     paymentTerms?: string;
+    landedCostMethod?: LandedCostMethod;
+    exchangeRate?: number | null;
+    exchangeRateDate?: string | null;
+    exchangeRateSource?: ExchangeRateSource | null;
+    // 'draft' for an order raised here rather than an invoice received
+    status?: Extract<PurchaseOrderStatus, 'draft' | 'ordered'>;
   };
   poLines: Array<{
     description: string;
@@ -26,6 +45,9 @@ interface SavePORequest {
     unitCostExVAT: number;
     lineTotalExVAT: number;
     rrp?: number;
+    weightKg?: number;
+    originalUnitCost?: number | null;
+    originalLineTotal?: number | null;
   }>;
   totals?: {
     subtotal?: number;
@@ -33,8 +55,20 @@ interface SavePORequest {
     vat?: number;
     total?: number;
   };
+  originalTotals?: {
+    subtotal?: number;
+    extras?: number;
+    vat?: number;
+    total?: number;
+  };
   notes?: string;
   imageFiles?: File[];
+  // The extraction as first returned, when the user edited it before saving
+  extracted?: ExtractedData;
+  // Background extraction job the data came from; its stored uploads become the PO images
+  extractionJobId?: string;
+  // Which invoice of a multi-invoice job this is (index into result.candidates)
+  extractionCandidate?: number;
 }
 
 // POST endpoint to save approved purchase order data
@@ -80,43 +114,160 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (data.purchaseOrder?.landedCostMethod !== undefined && !isLandedCostMethod(data.purchaseOrder.landedCostMethod)) {
+      return NextResponse.json(
+        { error: 'landedCostMethod must be one of: value, quantity, weight' },
+        { status: 400 }
+      );
+    }
+
+    if (data.purchaseOrder?.status !== undefined && !['draft', 'ordered'].includes(data.purchaseOrder.status)) {
+      return NextResponse.json(
+        { error: 'status must be draft or ordered' },
+        { status: 400 }
+      );
+    }
+    const isDraft = data.purchaseOrder?.status === 'draft';
+
+    if (
+      data.purchaseOrder?.exchangeRate != null &&
+      (typeof data.purchaseOrder.exchangeRate !== 'number' || !(data.purchaseOrder.exchangeRate > 0))
+    ) {
+      return NextResponse.json(
+        { error: 'exchangeRate must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: A repeated Idempotency-Key replays the first save instead of saving twice.
+    // Claimed before the extraction job checks, which a replay would otherwise fail.
+    const idempotency = await beginIdempotentRequest(request, user.id, {
+      data,
+      files: imageFiles.map((file) => ({ name: file.name, size: file.size, type: file.type })),
+    });
+    if (idempotency.response) return idempotency.response;
+
+    let extractionJob: ExtractionJob | null = null;
+    if (data.extractionJobId !== undefined) {
+      extractionJob = isValidUUID(data.extractionJobId) ? await getExtractionJob(data.extractionJobId, user.id) : null;
+      if (!extractionJob) {
+        return idempotency.complete(NextResponse.json(
+          { error: 'Extraction job not found' },
+          { status: 400 }
+        ));
+      }
+      if (extractionJob.status === 'saved') {
+        return idempotency.complete(NextResponse.json(
+          { error: 'A purchase order has already been saved from this extraction' },
+          { status: 409 }
+        ));
+      }
+
+      const candidateCount = extractionJob.result?.candidates?.length ?? 0;
+      if (candidateCount > 0) {
+        const candidate = data.extractionCandidate;
+        if (!Number.isInteger(candidate) || candidate! < 0 || candidate! >= candidateCount) {
+          return idempotency.complete(NextResponse.json(
+            { error: `extractionCandidate must be an integer from 0 to ${candidateCount - 1}` },
+            { status: 400 }
+          ));
+        }
+        if (extractionJob.savedCandidates.some((c) => c.index === candidate)) {
+          return idempotency.complete(NextResponse.json(
+            { error: 'A purchase order has already been saved for this invoice of the extraction' },
+            { status: 409 }
+          ));
+        }
+      }
+    } else if (data.extractionCandidate !== undefined) {
+      return idempotency.complete(NextResponse.json(
+        { error: 'extractionCandidate requires extractionJobId' },
+        { status: 400 }
+      ));
+    }
+
+    // The check above reads a snapshot; the claim settles two saves racing for the same invoice
+    if (extractionJob && !(await claimExtractionCandidate(extractionJob.id, data.extractionCandidate))) {
+      return idempotency.complete(NextResponse.json(
+        { error: 'A purchase order has already been saved for this invoice of the extraction' },
+        { status: 409 }
+      ));
+    }
+
+    const jobImageUrls = imageFiles.length === 0 && extractionJob ? extractionJob.files.map((f) => getStoredFileUrl(f.path)) : [];
+
+    // Keep the invoice-currency amounts alongside the GBP ones. Anything the client
+    // didn't send (manual entry, edited lines) is derived back from the applied rate.
+    const sourceCurrency = normalizeCurrencyCode(data.purchaseOrder?.originalCurrency);
+    const fxRate = sourceCurrency === 'GBP' ? 1 : (data.purchaseOrder?.exchangeRate ?? null);
+    const toOriginal = (original: number | null | undefined, gbp: number | null | undefined): number | null => {
+      if (typeof original === 'number' && Number.isFinite(original)) return original;
+      if (typeof gbp === 'number' && Number.isFinite(gbp) && fxRate) return gbp / fxRate;
+      return null;
+    };
+
     // Save to database
+    let savedPurchaseOrderId: string | null = null;
     try {
-      // Create or find supplier
-      const supplierId = await findOrCreateSupplier({
-        name: data.supplier.name,
-        address: data.supplier.address || null,
-        email: data.supplier.email || null,
-        phone: data.supplier.phone || null,
-        vatNumber: data.supplier.vatNumber || null,
-        user_id: user.id,
-      });
-
-      // Create purchase order first (we need the ID for image upload)
-      const purchaseOrderId = await createPurchaseOrder({
-        supplierId,
-        invoiceNumber: data.purchaseOrder.invoiceNumber || null,
-        invoiceDate: data.purchaseOrder.invoiceDate || null,
-        currency: 'GBP', // All prices are converted to GBP by AI
-        paymentTerms: data.purchaseOrder.paymentTerms || null,
-        imageUrl: null,
-        imageUrls: null,
-        notes: data.notes || null,
-        subtotalExVAT: data.totals?.subtotal ?? null,
-        extras: data.totals?.extras ?? null,
-        vat: data.totals?.vat ?? null,
-        totalAmount: data.totals?.total ?? null,
+      // Supplier, order, lines, invoice and transit are written in one transaction
+      const saved = await savePurchaseOrder({
+        supplier: {
+          name: data.supplier.name,
+          address: data.supplier.address || null,
+          email: data.supplier.email || null,
+          phone: data.supplier.phone || null,
+        },
+        purchaseOrder: {
+          invoiceNumber: data.purchaseOrder.invoiceNumber || null,
+          invoiceDate: data.purchaseOrder.invoiceDate || null,
+          currency: 'GBP', // All prices are converted to GBP by AI
+          paymentTerms: data.purchaseOrder.paymentTerms || null,
+          imageUrl: jobImageUrls[0] || null,
+          imageUrls: jobImageUrls.length > 0 ? jobImageUrls : null,
+          notes: data.notes || null,
+          subtotalExVAT: data.totals?.subtotal ?? null,
+          extras: data.totals?.extras ?? null,
+          vat: data.totals?.vat ?? null,
+          totalAmount: data.totals?.total ?? null,
+          landedCostMethod: data.purchaseOrder.landedCostMethod ?? 'value',
+          sourceCurrency,
+          fxRate,
+          fxRateDate: fxRate ? (data.purchaseOrder.exchangeRateDate || null) : null,
+          fxRateSource: fxRate && sourceCurrency !== 'GBP' ? (data.purchaseOrder.exchangeRateSource || 'manual') : null,
+          originalSubtotal: toOriginal(data.originalTotals?.subtotal, data.totals?.subtotal),
+          originalExtras: toOriginal(data.originalTotals?.extras, data.totals?.extras),
+          originalVat: toOriginal(data.originalTotals?.vat, data.totals?.vat),
+          originalTotal: toOriginal(data.originalTotals?.total, data.totals?.total),
+          status: isDraft ? 'draft' : 'ordered',
+        },
+        lines: data.poLines.map((line) => ({
+          description: line.description,
+          supplierSku: line.supplierSku || null,
+          quantity: line.quantity,
+          unitCostExVAT: line.unitCostExVAT,
+          lineTotalExVAT: line.lineTotalExVAT,
+          rrp: line.rrp || null,
+          weightKg: line.weightKg ?? null,
+          originalUnitCost: toOriginal(line.originalUnitCost, line.unitCostExVAT),
+          originalLineTotal: toOriginal(line.originalLineTotal, line.lineTotalExVAT),
+        })),
+        // Drafts have no invoice yet, and their lines wait until they are moved to ordered
+        invoice: isDraft ? null : {
+          subtotalExVAT: data.totals?.subtotal ?? null,
+          extras: data.totals?.extras ?? null,
+          vat: data.totals?.vat ?? null,
+          totalAmount: data.totals?.total ?? null,
+        },
+        syncInventory: !isDraft,
         user_id: user.id,
       });
+      const { supplierId, purchaseOrderId } = saved;
+      savedPurchaseOrderId = purchaseOrderId;
 
-      // Upload images if provided
-      let imageUrls: string[] = [];
+      // Storage uploads can't join the transaction; the order stands without its images
       if (imageFiles.length > 0) {
         try {
-          imageUrls = await uploadInvoiceImages(imageFiles, purchaseOrderId);
-          
-          // Update PO with image URLs
-          const { updatePurchaseOrder } = await import('@/lib/db');
+          const imageUrls = await uploadInvoiceImages(imageFiles, purchaseOrderId, user.id);
           await updatePurchaseOrder(purchaseOrderId, {
             imageUrl: imageUrls[0] || null,
             imageUrls: imageUrls,
@@ -126,51 +277,62 @@ export async function POST(request: NextRequest) {
         }
       }
 
-      // Create or update invoice record linked to this purchase order
-      const invoice = await createOrUpdateInvoiceForPurchaseOrder({
-        purchaseOrderId,
-        supplierId,
-        invoiceNumber: data.purchaseOrder.invoiceNumber || null,
-        invoiceDate: data.purchaseOrder.invoiceDate || null,
-        currency: 'GBP',
-      });
-
-      // Create PO lines
-      const poLines = await createPOLines(
-        data.poLines.map((line) => ({
-          purchaseOrderId,
-          description: line.description,
-          supplierSku: line.supplierSku || null,
-          quantity: line.quantity,
-          unitCostExVAT: line.unitCostExVAT,
-          lineTotalExVAT: line.lineTotalExVAT,
-          rrp: line.rrp || null,
-        }))
-      );
+      // Remember what the user corrected so the next invoice from this supplier extracts better
+      let learnedCorrections = 0;
+      if (data.extracted?.poLines) {
+        try {
+          const learned = await learnFromExtractionCorrections({
+            supplierId,
+            supplierName: data.supplier.name,
+            purchaseOrderId,
+            extracted: data.extracted,
+            corrected: data as unknown as ExtractedData,
+            user_id: user.id,
+          });
+          learnedCorrections = learned.corrections;
+        } catch (learnError) {
+          console.error('Failed to learn extraction corrections:', learnError);
+        }
+      }
 
-      // Mark all extracted items as in transit for inventory management
-      const inventorySync = await syncInventoryFromPurchaseOrder({
-        supplierId,
-        purchaseOrderId,
-        poLines,
-        user_id: user.id,
-      });
+      if (extractionJob) {
+        try {
+          await markExtractionJobSaved(extractionJob, purchaseOrderId, data.extractionCandidate);
+        } catch (jobError) {
+          console.error('Failed to mark extraction job saved:', jobError);
+        }
+        try {
+          await linkInvoiceFilesToPurchaseOrder(extractionJob.id, purchaseOrderId);
+        } catch (linkError) {
+          console.error('Failed to link invoice files to purchase order:', linkError);
+        }
+      }
 
       // Invalidate caches so the new PO appears immediately
       clearCache(`purchasing_po_view_v1_${user.id}`);
       clearCache(`inventory_snapshot_v1_${user.id}`);
 
-      return NextResponse.json({
+      return idempotency.complete(NextResponse.json({
         success: true,
         data: {
           supplierId,
+          supplierCreated: saved.supplierCreated,
           purchaseOrderId,
-          savedLines: poLines.length,
-          inventorySync,
-          invoice,
+          invoiceId: saved.invoiceId,
+          lineIds: saved.lineIds,
+          savedLines: saved.lineIds.length,
+          inventorySync: saved.inventorySync,
+          landedCosts: saved.landedCosts,
+          learnedCorrections,
         },
-      });
+      }));
     } catch (error) {
+      if (extractionJob && !savedPurchaseOrderId) {
+        await releaseExtractionCandidate(extractionJob.id, data.extractionCandidate).catch((releaseError) => {
+          console.error('Failed to release extraction candidate:', releaseError);
+        });
+      }
+      await idempotency.release();
       console.error('Database error:', error);
       return NextResponse.json(
         { error: 'Failed to save data to database' },
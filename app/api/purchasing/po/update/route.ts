@@ -2,7 +2,22 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth-helpers';
 import { clearCache } from '@/lib/cache';
 import { applyRateLimit } from '@/lib/rate-limit';
-import { isValidUUID } from '@/lib/validation';
+import { isValidUUID, isValidNonNegativeNumber, sanitizeString } from '@/lib/validation';
+import {
+  cancelPurchaseOrder,
+  getLandedCostCharges,
+  placeDraftPurchaseOrder,
+  reallocateLandedCostsForPurchaseOrder,
+  replaceLandedCostCharges,
+} from '@/lib/db';
+import { isLandedCostKind, isLandedCostMethod, type LandedCostKind } from '@/lib/landed-cost';
+import {
+  canTransitionPurchaseOrder,
+  isPurchaseOrderStatus,
+  PO_STATUS_TIMESTAMP_COLUMNS,
+  PO_STATUS_TRANSITIONS,
+  type PurchaseOrderStatus,
+} from '@/lib/po-status';
 
 // Force Node.js runtime for lowdb
 export const runtime = 'nodejs';
@@ -29,7 +44,7 @@ export async function PUT(request: NextRequest) {
     const updates = await request.json();
 
     // Validate the updates (basic validation)
-    const allowedFields = ['supplierId', 'invoiceNumber', 'invoiceDate', 'currency', 'paymentTerms', 'notes'];
+    const allowedFields = ['supplierId', 'invoiceNumber', 'invoiceDate', 'currency', 'paymentTerms', 'notes', 'extras', 'landedCostMethod', 'landedCosts', 'status', 'revision'];
     const invalidFields = Object.keys(updates).filter(field => !allowedFields.includes(field));
 
     if (invalidFields.length > 0) {
@@ -39,6 +54,112 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    // SECURITY: Optimistic concurrency – the edit must name the revision it was made against
+    if (!Number.isInteger(updates.revision) || updates.revision < 1) {
+      return NextResponse.json(
+        { error: 'revision is required and must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    if (updates.extras !== undefined && updates.extras !== null && !isValidNonNegativeNumber(updates.extras)) {
+      return NextResponse.json(
+        { error: 'extras must be a non-negative number' },
+        { status: 400 }
+      );
+    }
+
+    if (updates.landedCostMethod !== undefined && !isLandedCostMethod(updates.landedCostMethod)) {
+      return NextResponse.json(
+        { error: 'landedCostMethod must be one of: value, quantity, weight' },
+        { status: 400 }
+      );
+    }
+
+    // Optional replacement list of extra landed-cost charges (duty, brokerage, ...)
+    let landedCharges: Array<{ kind: LandedCostKind; description: string | null; amountGBP: number }> | null = null;
+    if (updates.landedCosts !== undefined) {
+      if (!Array.isArray(updates.landedCosts) || updates.landedCosts.length > 50) {
+        return NextResponse.json(
+          { error: 'landedCosts must be an array with at most 50 items' },
+          { status: 400 }
+        );
+      }
+
+      landedCharges = [];
+      for (const charge of updates.landedCosts) {
+        if (!isLandedCostKind(charge?.kind) || !isValidNonNegativeNumber(charge?.amountGBP)) {
+          return NextResponse.json(
+            { error: 'Each landed cost needs a valid kind and a non-negative amountGBP' },
+            { status: 400 }
+          );
+        }
+        landedCharges.push({
+          kind: charge.kind,
+          description: sanitizeString(charge.description, 500),
+          amountGBP: charge.amountGBP,
+        });
+      }
+    }
+
+    // Lifecycle changes must follow the allowed transitions from the PO's current state
+    let nextStatus: PurchaseOrderStatus | null = null;
+    let placingDraft = false;
+    if (updates.status !== undefined) {
+      if (!isPurchaseOrderStatus(updates.status)) {
+        return NextResponse.json(
+          { error: 'status must be one of: draft, ordered, shipped, partially_received, received, closed, cancelled' },
+          { status: 400 }
+        );
+      }
+
+      const { data: current, error: currentError } = await supabase
+        .from('purchaseorders')
+        .select('id, status, supplierid')
+        .eq('id', poId)
+        .single();
+
+      if (currentError || !current) {
+        return NextResponse.json(
+          { error: 'Purchase order not found' },
+          { status: 404 }
+        );
+      }
+
+      const currentStatus = (current.status ?? 'ordered') as PurchaseOrderStatus;
+      if (updates.status !== currentStatus) {
+        if (!canTransitionPurchaseOrder(currentStatus, updates.status)) {
+          return NextResponse.json(
+            {
+              error: `Cannot move purchase order from ${currentStatus} to ${updates.status}`,
+              currentStatus,
+              allowedStatuses: PO_STATUS_TRANSITIONS[currentStatus],
+            },
+            { status: 409 }
+          );
+        }
+        nextStatus = updates.status;
+        placingDraft = currentStatus === 'draft' && nextStatus === 'ordered';
+      }
+
+      // Received means nothing is still on its way; deliveries are recorded with a GRN
+      if (nextStatus === 'received') {
+        const { data: openTransit } = await supabase
+          .from('transit')
+          .select('remainingquantity')
+          .eq('purchaseorderid', poId)
+          .gt('remainingquantity', 0);
+
+        const stillInTransit = (openTransit || []).reduce((sum, t) => sum + Number(t.remainingquantity ?? 0), 0);
+        if (stillInTransit > 0) {
+          return NextResponse.json(
+            { error: `${stillInTransit} unit(s) are still in transit; record their delivery or write them off first` },
+            { status: 409 }
+          );
+        }
+      }
+    }
+
     // Map camelCase fields to DB column names
     const mappedUpdates: Record<string, any> = {};
     if (updates.supplierId !== undefined) mappedUpdates.supplierid = updates.supplierId;
@@ -47,23 +168,99 @@ export async function PUT(request: NextRequest) {
     if (updates.currency !== undefined) mappedUpdates.currency = updates.currency;
     if (updates.paymentTerms !== undefined) mappedUpdates.paymentterms = updates.paymentTerms;
     if (updates.notes !== undefined) mappedUpdates.notes = updates.notes;
+    if (updates.extras !== undefined) mappedUpdates.extras = updates.extras;
+    if (updates.landedCostMethod !== undefined) mappedUpdates.landedcostmethod = updates.landedCostMethod;
+    // Placing a draft puts its stock in transit and cancelling writes it off, so those status
+    // changes are made further down together with the transit rows
+    const cancelling = nextStatus === 'cancelled';
+    if (nextStatus && !placingDraft && !cancelling) {
+      mappedUpdates.status = nextStatus;
+      if (nextStatus !== 'draft') mappedUpdates[PO_STATUS_TIMESTAMP_COLUMNS[nextStatus]] = new Date().toISOString();
+    }
 
-    // Update the PO using the authenticated supabase client
+    // Any edit bumps the revision. A bare { revision } request changes nothing but re-allocates
+    // landed costs, so it is checked against the revision but leaves it as it is.
+    const edited = Object.keys(mappedUpdates).length > 0 || landedCharges !== null || nextStatus !== null;
+    mappedUpdates.revision = edited ? updates.revision + 1 : updates.revision;
+
+    // Update the PO only if nobody saved it since the client loaded this revision
     const { data, error } = await supabase
       .from('purchaseorders')
       .update(mappedUpdates)
       .eq('id', poId)
+      .eq('revision', updates.revision)
       .select()
-      .single();
+      .maybeSingle();
 
-    if (error || !data) {
+    if (error) {
       console.error('Update PO DB error:', error);
       return NextResponse.json(
-        { error: 'Purchase order not found' },
-        { status: 404 }
+        { error: 'Failed to update purchase order' },
+        { status: 500 }
+      );
+    }
+
+    if (!data) {
+      const { data: current } = await supabase
+        .from('purchaseorders')
+        .select('*')
+        .eq('id', poId)
+        .maybeSingle();
+
+      if (!current) {
+        return NextResponse.json(
+          { error: 'Purchase order not found' },
+          { status: 404 }
+        );
+      }
+
+      const currentCharges = await getLandedCostCharges(poId);
+
+      return NextResponse.json(
+        {
+          error: 'This purchase order was changed by someone else since you loaded it',
+          current: {
+            id: current.id,
+            supplierId: current.supplierid,
+            invoiceNumber: current.invoicenumber ?? null,
+            invoiceDate: current.invoicedate ?? null,
+            currency: current.currency,
+            paymentTerms: current.paymentterms ?? null,
+            notes: current.notes ?? null,
+            extras: current.extras != null ? Number(current.extras) : null,
+            landedCostMethod: current.landedcostmethod ?? 'value',
+            landedCosts: currentCharges,
+            status: current.status ?? 'ordered',
+            revision: current.revision ?? 1,
+          },
+        },
+        { status: 409 }
       );
     }
 
+    if (landedCharges) {
+      await replaceLandedCostCharges({ purchaseOrderId: data.id, charges: landedCharges, user_id: user.id });
+    }
+
+    // Edits can change extras, charges or the allocation basis – recompute landed cost
+    const landedCosts = await reallocateLandedCostsForPurchaseOrder(data.id);
+
+    // A draft only puts stock in transit once it is actually ordered; if that fails it stays a
+    // draft and can be placed again
+    const inventorySync = placingDraft
+      ? await placeDraftPurchaseOrder({ purchaseOrderId: data.id, supplierId: data.supplierid, user_id: user.id })
+      : null;
+
+    // Stock a cancelled order still had on its way is no longer expected
+    const writtenOffInTransit = cancelling
+      ? await cancelPurchaseOrder({ purchaseOrderId: data.id, user_id: user.id })
+      : null;
+
+    if (placingDraft || cancelling) {
+      const { data: moved } = await supabase.from('purchaseorders').select().eq('id', data.id).single();
+      Object.assign(data, moved);
+    }
+
     clearCache(`purchasing_po_view_v1_${user.id}`);
     clearCache(`inventory_snapshot_v1_${user.id}`);
 
@@ -71,6 +268,9 @@ export async function PUT(request: NextRequest) {
       success: true,
       message: 'Purchase order updated successfully',
       data,
+      landedCosts,
+      inventorySync,
+      writtenOffInTransit,
     });
   } catch (error) {
     console.error('Update PO error:', error);
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth-helpers';
 import { getOrSetCache } from '@/lib/cache';
 import { applyRateLimit } from '@/lib/rate-limit';
+import { mapStatusTimestamps } from '@/lib/po-status';
 
 const CACHE_KEY = 'purchasing_po_view_v1';
 const CACHE_TTL_MS = 1000 * 60 * 5; // 5 minutes
@@ -89,6 +90,15 @@ export async function GET(request: NextRequest) {
           extras: po.extras != null ? Number(po.extras) : null,
           vat: po.vat != null ? Number(po.vat) : null,
           totalAmount: po.totalamount != null ? Number(po.totalamount) : null,
+          landedCostMethod: po.landedcostmethod ?? 'value',
+          sourceCurrency: po.sourcecurrency ?? null,
+          fxRate: po.fxrate != null ? Number(po.fxrate) : null,
+          fxRateDate: po.fxratedate ?? null,
+          fxRateSource: po.fxratesource ?? null,
+          originalTotal: po.originaltotal != null ? Number(po.originaltotal) : null,
+          status: po.status ?? 'ordered',
+          ...mapStatusTimestamps(po),
+          revision: po.revision ?? 1,
           createdAt: po.created_at,
         }));
 
@@ -101,6 +111,10 @@ export async function GET(request: NextRequest) {
           unitCostExVAT: Number(l.unitcostexvat ?? 0),
           lineTotalExVAT: Number(l.linetotalexvat ?? 0),
           rrp: l.rrp != null ? Number(l.rrp) : null,
+          weightKg: l.weightkg != null ? Number(l.weightkg) : null,
+          landedUnitCostGBP: l.landedunitcostgbp != null ? Number(l.landedunitcostgbp) : null,
+          originalUnitCost: l.originalunitcost != null ? Number(l.originalunitcost) : null,
+          originalLineTotal: l.originallinetotal != null ? Number(l.originallinetotal) : null,
         }));
 
         const products = productsRaw.map((p: any) => ({
@@ -133,6 +147,8 @@ export async function GET(request: NextRequest) {
           supplierId: t.supplierid,
           quantity: Number(t.quantity ?? 0),
           remainingQuantity: Number(t.remainingquantity ?? 0),
+          writtenOffQuantity: Number(t.writtenoffquantity ?? 0),
+          returnedQuantity: Number(t.returnedquantity ?? 0),
           unitCostGBP: Number(t.unitcostgbp ?? 0),
           status: t.status,
           createdAt: t.created_at,
@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deleteSupplierExtractionTemplate,
+  getRecentExtractionCorrections,
+  getSupplierExtractionTemplate,
+  upsertSupplierExtractionTemplate,
+} from '@/lib/db';
+import { describeColumnRule, isColumnRule, type ColumnRule } from '@/lib/extraction/templates';
+import type { SupplierTextLayout, TextColumn } from '@/lib/extraction/text-parsers';
+import { requireAuth } from '@/lib/auth-helpers';
+import { applyRateLimit } from '@/lib/rate-limit';
+import {
+  findUnexpectedFields,
+  isValidUUID,
+  sanitizeString,
+  sanitizeStringArray,
+} from '@/lib/validation';
+
+export const runtime = 'nodejs';
+
+const TEXT_COLUMNS: TextColumn[] = ['sku', 'description', 'quantity', 'unitCost', 'lineTotal', 'rrp'];
+const MAX_RULES = 20;
+const MAX_ALIASES = 20;
+
+// GET - The extraction template learned for a supplier (?supplierId=), with its recent corrections
+export async function GET(request: NextRequest) {
+  try {
+    const { user, supabase } = await requireAuth(request);
+
+    // SECURITY: Rate limit per IP + user
+    const blocked = applyRateLimit(request, user.id);
+    if (blocked) return blocked;
+
+    const supplierId = new URL(request.url).searchParams.get('supplierId');
+    if (!isValidUUID(supplierId)) {
+      return NextResponse.json(
+        { error: 'supplierId must be a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: RLS-scoped lookup confirms the supplier belongs to the user
+    const { data: supplier } = await supabase.from('suppliers').select('id, name').eq('id', supplierId).eq('user_id', user.id).single();
+    if (!supplier) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+
+    const [template, recentCorrections] = await Promise.all([
+      getSupplierExtractionTemplate(supplierId),
+      getRecentExtractionCorrections(supplierId, 50),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        supplier,
+        template: template
+          ? { ...template, ruleDescriptions: template.columnRules.map(describeColumnRule) }
+          : null,
+        recentCorrections,
+      },
+    });
+  } catch (error) {
+    console.error('Get extraction template error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load extraction template' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Edit a supplier's template: column rules, aliases, prompt notes and text-layer
+// column headers. Omitted fields are left as they are; null clears notes and headers.
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, supabase } = await requireAuth(request);
+
+    // SECURITY: Rate limit – write operation
+    const blocked = applyRateLimit(request, user.id, { limit: 30, windowMs: 60_000 });
+    if (blocked) return blocked;
+
+    const body = await request.json();
+
+    // SECURITY: Reject unexpected fields
+    const unexpected = findUnexpectedFields(body, ['supplierId', 'columnRules', 'aliases', 'notes', 'textHeaders']);
+    if (unexpected.length > 0) {
+      return NextResponse.json(
+        { error: `Unexpected fields: ${unexpected.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidUUID(body.supplierId)) {
+      return NextResponse.json(
+        { error: 'supplierId must be a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    let columnRules: ColumnRule[] | undefined;
+    if (body.columnRules !== undefined) {
+      if (!Array.isArray(body.columnRules) || body.columnRules.length > MAX_RULES || !body.columnRules.every(isColumnRule)) {
+        return NextResponse.json(
+          { error: `columnRules must be an array of at most ${MAX_RULES} rules ({ kind, position? })` },
+          { status: 400 }
+        );
+      }
+      columnRules = body.columnRules.map((rule: ColumnRule) => (rule.position ? { kind: rule.kind, position: rule.position } : { kind: rule.kind }));
+    }
+
+    let aliases: string[] | undefined;
+    if (body.aliases !== undefined) {
+      const sanitized = sanitizeStringArray(body.aliases, MAX_ALIASES, 200);
+      if (!sanitized) {
+        return NextResponse.json(
+          { error: `aliases must be an array of at most ${MAX_ALIASES} names` },
+          { status: 400 }
+        );
+      }
+      aliases = sanitized;
+    }
+
+    let textHeaders: SupplierTextLayout['headers'] | null | undefined;
+    if (body.textHeaders === null) {
+      textHeaders = null;
+    } else if (body.textHeaders !== undefined) {
+      const headers = body.textHeaders;
+      if (typeof headers !== 'object' || Array.isArray(headers) || findUnexpectedFields(headers, TEXT_COLUMNS).length > 0) {
+        return NextResponse.json(
+          { error: `textHeaders must map columns (${TEXT_COLUMNS.join(', ')}) to header labels` },
+          { status: 400 }
+        );
+      }
+      textHeaders = {};
+      for (const column of TEXT_COLUMNS) {
+        if (headers[column] === undefined) continue;
+        const labels = sanitizeStringArray(headers[column], 10, 100);
+        if (!labels || labels.length === 0) {
+          return NextResponse.json(
+            { error: `textHeaders.${column} must be a non-empty array of header labels` },
+            { status: 400 }
+          );
+        }
+        textHeaders[column] = labels;
+      }
+    }
+
+    // SECURITY: RLS-scoped lookup confirms the supplier belongs to the user
+    const { data: supplier } = await supabase.from('suppliers').select('id, name').eq('id', body.supplierId).eq('user_id', user.id).single();
+    if (!supplier) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+
+    const template = await upsertSupplierExtractionTemplate({
+      supplierId: body.supplierId,
+      columnRules,
+      aliases,
+      notes: body.notes === undefined ? undefined : sanitizeString(body.notes, 2000),
+      textHeaders,
+      user_id: user.id,
+    });
+
+    return NextResponse.json({ success: true, data: template });
+  } catch (error) {
+    console.error('Update extraction template error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update extraction template' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Forget everything learned for a supplier (?supplierId=)
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, supabase } = await requireAuth(request);
+
+    // SECURITY: Rate limit – write operation
+    const blocked = applyRateLimit(request, user.id, { limit: 30, windowMs: 60_000 });
+    if (blocked) return blocked;
+
+    const supplierId = new URL(request.url).searchParams.get('supplierId');
+    if (!isValidUUID(supplierId)) {
+      return NextResponse.json(
+        { error: 'supplierId must be a valid UUID' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: RLS-scoped lookup confirms the supplier belongs to the user
+    const { data: supplier } = await supabase.from('suppliers').select('id, name').eq('id', supplierId).eq('user_id', user.id).single();
+    if (!supplier) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+
+    await deleteSupplierExtractionTemplate(supplierId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Reset extraction template error:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset extraction template' },
+      { status: 500 }
+    );
+  }
+}
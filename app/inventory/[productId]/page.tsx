@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import Link from 'next/link';
 import dynamic from 'next/dynamic';
 import { useSearchParams, useParams, useRouter } from 'next/navigation';
@@ -27,10 +27,59 @@ interface Product {
   category: string | null;
   tags: string[];
   imageUrl: string | null;
+  revision: number;
   createdAt: string;
   updatedAt: string;
 }
 
+// The editable fields sent to PUT /api/inventory/product
+interface ProductChanges {
+  name?: string;
+  primarySku?: string | null;
+  supplierSku?: string | null;
+  category?: string | null;
+  barcodes?: string[];
+  tags?: string[];
+  aliases?: string[];
+  imageUrl?: string | null;
+}
+
+// A save refused because the product changed since it was loaded
+interface ProductConflict {
+  base: Product;
+  current: Product;
+  changes: ProductChanges;
+}
+
+const PRODUCT_FIELD_LABELS: Record<keyof ProductChanges, string> = {
+  name: 'Name',
+  primarySku: 'SKU',
+  supplierSku: 'Supplier SKU',
+  category: 'Category',
+  barcodes: 'Barcodes',
+  tags: 'Tags',
+  aliases: 'Aliases',
+  imageUrl: 'Image URL',
+};
+
+const sameFieldValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const formatFieldValue = (value: unknown) => {
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  return value === null || value === undefined || value === '' ? '—' : String(value);
+};
+
+// A supplier's code for the product (supplier_products)
+interface SupplierProduct {
+  id: string;
+  supplierId: string;
+  supplierName: string | null;
+  supplierSku: string;
+  packSize: number;
+  lastCostGBP: number | null;
+  lastSeenAt: string | null;
+}
+
 interface InventoryRecord {
   id: string;
   productId: string;
@@ -94,10 +143,79 @@ interface TransitWithContext {
   invoice: Invoice | null;
 }
 
+type StockMovementType =
+  | 'opening_balance'
+  | 'purchase_receipt'
+  | 'supplier_return'
+  | 'sale'
+  | 'sale_reversal'
+  | 'import'
+  | 'adjustment'
+  | 'unattributed';
+
+// One row of the product's inventory movement ledger
+interface StockMovement {
+  id: string;
+  quantityDelta: number;
+  quantityAfter: number;
+  unitCostGBP: number | null;
+  movementType: StockMovementType;
+  sourceLabel: string | null;
+  actor: 'user' | 'shopify' | 'system';
+  createdAt: string;
+}
+
+const MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  opening_balance: 'Opening balance',
+  purchase_receipt: 'Received',
+  supplier_return: 'Returned to supplier',
+  sale: 'Sold',
+  sale_reversal: 'Sale reversed',
+  import: 'Imported',
+  adjustment: 'Adjusted',
+  unattributed: 'Other change',
+};
+
+const MOVEMENT_ACTOR_LABELS: Record<StockMovement['actor'], string> = {
+  user: 'User',
+  shopify: 'Shopify',
+  system: 'System',
+};
+
+type AdjustmentReason = 'damaged' | 'lost' | 'theft' | 'sample' | 'found' | 'correction' | 'write_off';
+
+const ADJUSTMENT_REASON_LABELS: Record<AdjustmentReason, string> = {
+  damaged: 'Damaged',
+  lost: 'Lost',
+  theft: 'Theft',
+  sample: 'Sample',
+  found: 'Found',
+  correction: 'Count correction',
+  write_off: 'Write-off',
+};
+
+interface AdjustmentForm {
+  reason: AdjustmentReason;
+  quantity: string;
+  note: string;
+}
+
+const EMPTY_ADJUSTMENT_FORM: AdjustmentForm = { reason: 'damaged', quantity: '', note: '' };
+
+// Found adds the quantity, a correction moves stock to the counted quantity, anything else removes it
+function adjustmentDeltaFor(form: AdjustmentForm, quantityOnHand: number): number | null {
+  const quantity = Number(form.quantity);
+  if (form.quantity.trim() === '' || !Number.isFinite(quantity) || quantity < 0) return null;
+  if (form.reason === 'correction') return quantity - quantityOnHand;
+  if (quantity === 0) return null;
+  return form.reason === 'found' ? quantity : -quantity;
+}
+
 interface ProductHistoryResponse {
   product: Product;
   inventory: InventoryRecord | null;
   supplier: Supplier | null;
+  supplierProducts: SupplierProduct[];
   transit: TransitWithContext[];
 }
 
@@ -131,6 +249,15 @@ export default function ProductHistoryPage() {
   });
   const [deleting, setDeleting] = useState(false);
   const [scannerOpen, setScannerOpen] = useState(false);
+  const [conflict, setConflict] = useState<ProductConflict | null>(null);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [movementsHasMore, setMovementsHasMore] = useState(false);
+  const [loadingMovements, setLoadingMovements] = useState(false);
+  const [movementsError, setMovementsError] = useState<string | null>(null);
+  const [adjusting, setAdjusting] = useState(false);
+  const [adjustmentForm, setAdjustmentForm] = useState<AdjustmentForm>(EMPTY_ADJUSTMENT_FORM);
+  const [savingAdjustment, setSavingAdjustment] = useState(false);
+  const [adjustmentError, setAdjustmentError] = useState<string | null>(null);
 
   useEffect(() => {
     const load = async () => {
@@ -155,6 +282,39 @@ export default function ProductHistoryPage() {
     load();
   }, [productId]);
 
+  // Newest movements first; `before` pages back from the oldest one shown
+  const loadMovements = useCallback(async (before?: StockMovement) => {
+    if (!productId) return;
+
+    try {
+      setLoadingMovements(true);
+      setMovementsError(null);
+      const params = new URLSearchParams({ productId });
+      if (before) {
+        params.set('before', before.createdAt);
+        params.set('beforeId', before.id);
+      }
+
+      const res = await authenticatedFetch(`/api/inventory/product/movements?${params.toString()}`);
+      const json = await res.json();
+      if (!res.ok || !json.success) {
+        throw new Error(json.error || 'Failed to load stock movements');
+      }
+
+      const page: StockMovement[] = json.data.movements;
+      setMovements((prev) => (before ? [...prev, ...page] : page));
+      setMovementsHasMore(Boolean(json.data.hasMore));
+    } catch (err) {
+      setMovementsError(err instanceof Error ? err.message : 'Failed to load stock movements');
+    } finally {
+      setLoadingMovements(false);
+    }
+  }, [productId]);
+
+  useEffect(() => {
+    loadMovements();
+  }, [loadMovements]);
+
   useEffect(() => {
     if (data?.product) {
       setEditForm({
@@ -196,6 +356,18 @@ export default function ProductHistoryPage() {
     });
   };
 
+  const formatDateTime = (value: string) => {
+    const d = new Date(value);
+    if (isNaN(d.getTime())) return value;
+    return d.toLocaleString('en-GB', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
   const formatCurrency = (amount: number | undefined | null) => {
     if (amount === undefined || amount === null || isNaN(amount)) return '£0.00 GBP';
     return `£${amount.toFixed(2)} GBP`;
@@ -230,7 +402,7 @@ export default function ProductHistoryPage() {
 
       const sku = editForm.sku.trim();
 
-      const payload = {
+      const payload: ProductChanges = {
         name: editForm.name.trim() || data.product.name,
         primarySku: sku || null,
         supplierSku: sku || null,
@@ -246,25 +418,82 @@ export default function ProductHistoryPage() {
         {
           method: 'PUT',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(payload),
+          body: JSON.stringify({ ...payload, revision: data.product.revision }),
+        },
+      );
+
+      const json = await res.json();
+      if (res.status === 409 && json.current) {
+        // Keep only what this edit actually changed, so a merge leaves the other edits alone
+        const changes: ProductChanges = {};
+        (Object.keys(payload) as Array<keyof ProductChanges>).forEach((field) => {
+          if (!sameFieldValue(payload[field], data.product[field])) {
+            Object.assign(changes, { [field]: payload[field] });
+          }
+        });
+        setConflict({ base: data.product, current: json.current, changes });
+        return;
+      }
+      if (!res.ok || !json.success) {
+        throw new Error(json.error || 'Failed to update product');
+      }
+
+      const updated: Product = json.data.product;
+      setData((prev) => (prev ? { ...prev, product: updated } : prev));
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update product');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Apply this edit's changes on top of the other person's version
+  const handleApplyMyChanges = async () => {
+    if (!conflict) return;
+
+    try {
+      setSaving(true);
+      const res = await authenticatedFetch(
+        `/api/inventory/product?id=${encodeURIComponent(conflict.current.id)}`,
+        {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...conflict.changes, revision: conflict.current.revision }),
         },
       );
 
       const json = await res.json();
+      if (res.status === 409 && json.current) {
+        // Changed again in the meantime; show the newer version
+        setConflict({ ...conflict, current: json.current });
+        return;
+      }
       if (!res.ok || !json.success) {
         throw new Error(json.error || 'Failed to update product');
       }
 
       const updated: Product = json.data.product;
       setData((prev) => (prev ? { ...prev, product: updated } : prev));
+      setConflict(null);
       setEditing(false);
     } catch (err) {
+      setConflict(null);
       setError(err instanceof Error ? err.message : 'Failed to update product');
     } finally {
       setSaving(false);
     }
   };
 
+  // Drop this edit and show the other person's version
+  const handleReloadProduct = () => {
+    if (!conflict) return;
+    const current = conflict.current;
+    setData((prev) => (prev ? { ...prev, product: current } : prev));
+    setConflict(null);
+    setEditing(false);
+  };
+
   const handleSavePrices = async () => {
     if (!data) return;
 
@@ -340,6 +569,54 @@ export default function ProductHistoryPage() {
     }
   };
 
+  const handleSaveAdjustment = async () => {
+    if (!data) return;
+
+    const quantityDelta = adjustmentDeltaFor(adjustmentForm, data.inventory?.quantityOnHand || 0);
+    if (quantityDelta === null) {
+      setAdjustmentError('Enter a valid quantity');
+      return;
+    }
+    if (quantityDelta === 0) {
+      setAdjustmentError('The counted quantity matches what is on hand');
+      return;
+    }
+
+    try {
+      setSavingAdjustment(true);
+      setAdjustmentError(null);
+
+      const res = await authenticatedFetch('/api/inventory/adjustments', {
+        method: 'POST',
+        body: JSON.stringify({
+          productId: data.product.id,
+          reason: adjustmentForm.reason,
+          quantityDelta,
+          note: adjustmentForm.note.trim() || null,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok || !json.success) {
+        throw new Error(json.error || 'Failed to adjust stock');
+      }
+
+      // On-hand changed server-side; refresh it and the movement it added
+      const productRes = await authenticatedFetch(`/api/inventory/product?id=${encodeURIComponent(data.product.id)}`);
+      const productJson = await productRes.json();
+      if (productRes.ok && productJson.success) {
+        setData(productJson.data);
+      }
+      loadMovements();
+
+      setAdjusting(false);
+      setAdjustmentForm(EMPTY_ADJUSTMENT_FORM);
+    } catch (err) {
+      setAdjustmentError(err instanceof Error ? err.message : 'Failed to adjust stock');
+    } finally {
+      setSavingAdjustment(false);
+    }
+  };
+
   const handleDeleteProduct = async () => {
     if (!data) return;
 
@@ -391,11 +668,15 @@ export default function ProductHistoryPage() {
         {
           method: 'PUT',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ barcodes: [] }),
+          body: JSON.stringify({ barcodes: [], revision: data.product.revision }),
         },
       );
 
       const json = await res.json().catch(() => null);
+      if (res.status === 409 && json?.current) {
+        setConflict({ base: data.product, current: json.current, changes: { barcodes: [] } });
+        return;
+      }
       if (!res.ok || !json || !json.success) {
         throw new Error((json && json.error) || 'Failed to clear barcodes');
       }
@@ -411,6 +692,37 @@ export default function ProductHistoryPage() {
     }
   };
 
+  const handleRemoveSupplierProduct = async (mapping: SupplierProduct) => {
+    if (
+      !window.confirm(
+        `Stop matching ${mapping.supplierName || 'this supplier'}'s code ${mapping.supplierSku} to this product?`,
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setError(null);
+      const res = await authenticatedFetch(
+        `/api/inventory/product/suppliers?id=${encodeURIComponent(mapping.id)}`,
+        { method: 'DELETE' },
+      );
+
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json || !json.success) {
+        throw new Error((json && json.error) || 'Failed to remove supplier code');
+      }
+
+      setData((prev) =>
+        prev
+          ? { ...prev, supplierProducts: prev.supplierProducts.filter((m) => m.id !== mapping.id) }
+          : prev,
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove supplier code');
+    }
+  };
+
   const handleScannedBarcode = async (code: string) => {
     const raw = (code || '').trim();
     setScannerOpen(false);
@@ -487,7 +799,7 @@ export default function ProductHistoryPage() {
     );
   }
 
-  const { product, inventory, supplier, transit } = data;
+  const { product, inventory, supplier, supplierProducts, transit } = data;
 
   const totalOrdered = transit.reduce((sum, t) => sum + (t.transit.quantity || 0), 0);
   const totalReceived = transit.reduce(
@@ -507,6 +819,8 @@ export default function ProductHistoryPage() {
   const quantityOnHand = inventory?.quantityOnHand || 0;
   const totalStockForValue = quantityOnHand + inTransitQty;
   const totalValue = totalStockForValue * (inventory?.averageCostGBP || 0);
+  const adjustmentDelta = adjustmentDeltaFor(adjustmentForm, quantityOnHand);
+  const adjustmentCostImpact = adjustmentDelta !== null ? adjustmentDelta * (inventory?.averageCostGBP || 0) : null;
   const isLongProductName = (product.name || '').length > 40;
 
   return (
@@ -542,6 +856,7 @@ export default function ProductHistoryPage() {
                   type="button"
                   onClick={() => {
                     setEditing(false);
+                    setConflict(null);
                     if (data?.product) {
                       setEditForm({
                         name: data.product.name || '',
@@ -583,6 +898,70 @@ export default function ProductHistoryPage() {
           </div>
         </div>
 
+        {conflict && (
+          <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-4 text-sm">
+            <p className="font-medium text-amber-900 dark:text-amber-200">
+              Someone else saved this product while you were editing it.
+            </p>
+            <div className="mt-3 overflow-x-auto">
+              <table className="min-w-full text-xs">
+                <thead>
+                  <tr className="text-left text-stone-500 dark:text-stone-400">
+                    <th className="py-1 pr-4 font-medium">Field</th>
+                    <th className="py-1 pr-4 font-medium">Their version</th>
+                    <th className="py-1 font-medium">Your change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(Object.keys(PRODUCT_FIELD_LABELS) as Array<keyof ProductChanges>)
+                    .filter(
+                      (field) =>
+                        field in conflict.changes ||
+                        !sameFieldValue(conflict.current[field], conflict.base[field]),
+                    )
+                    .map((field) => {
+                      const theirs = conflict.current[field];
+                      const changedByThem = !sameFieldValue(theirs, conflict.base[field]);
+                      const mine = field in conflict.changes ? conflict.changes[field] : undefined;
+                      const clash = changedByThem && field in conflict.changes && !sameFieldValue(mine, theirs);
+                      return (
+                        <tr
+                          key={field}
+                          className={`border-t border-amber-100 dark:border-amber-900/40 ${clash ? 'text-red-700 dark:text-red-300' : 'text-stone-700 dark:text-stone-300'}`}
+                        >
+                          <td className="py-1 pr-4 font-medium">{PRODUCT_FIELD_LABELS[field]}</td>
+                          <td className="py-1 pr-4">{changedByThem ? formatFieldValue(theirs) : 'unchanged'}</td>
+                          <td className="py-1">{field in conflict.changes ? formatFieldValue(mine) : 'unchanged'}</td>
+                        </tr>
+                      );
+                    })}
+                </tbody>
+              </table>
+            </div>
+            <p className="mt-2 text-xs text-stone-500 dark:text-stone-400">
+              Applying your changes keeps their edits to fields you didn&apos;t touch; fields in red were changed by both of you.
+            </p>
+            <div className="mt-3 flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={handleApplyMyChanges}
+                disabled={saving}
+                className="px-3 py-1.5 rounded-md bg-amber-600 text-white text-xs font-medium hover:bg-amber-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving…' : 'Apply my changes on top'}
+              </button>
+              <button
+                type="button"
+                onClick={handleReloadProduct}
+                disabled={saving}
+                className="px-3 py-1.5 rounded-md border border-stone-200 dark:border-stone-700 text-xs text-stone-600 dark:text-stone-400 hover:bg-stone-100 dark:hover:bg-stone-700 disabled:opacity-50"
+              >
+                Discard mine and reload
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Two-column body - Sortly style */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-5">
           {/* Left column: Product Information with image */}
@@ -778,6 +1157,41 @@ export default function ProductHistoryPage() {
                 )}
               </div>
             </div>
+
+            {/* Suppliers card */}
+            <div className="bg-white dark:bg-stone-800 rounded-lg border border-stone-200 dark:border-stone-700 p-4 sm:p-5">
+              <h2 className="text-sm font-semibold text-stone-900 dark:text-stone-100 mb-4">Suppliers</h2>
+              {supplierProducts.length === 0 ? (
+                <p className="text-sm text-stone-500 dark:text-stone-400">
+                  No supplier codes yet. They are recorded when a purchase order line with a SKU is matched to this product.
+                </p>
+              ) : (
+                <ul className="divide-y divide-stone-100 dark:divide-stone-700">
+                  {supplierProducts.map((mapping) => (
+                    <li key={mapping.id} className="py-2 first:pt-0 last:pb-0 flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="text-sm text-stone-900 dark:text-stone-100 truncate">
+                          {mapping.supplierName || 'Unknown supplier'}
+                        </p>
+                        <p className="text-xs text-stone-500 dark:text-stone-400">
+                          <span className="font-mono">{mapping.supplierSku}</span>
+                          {mapping.packSize !== 1 && ` · pack of ${mapping.packSize}`}
+                          {mapping.lastCostGBP !== null && ` · £${mapping.lastCostGBP.toFixed(2)}`}
+                          {mapping.lastSeenAt && ` · last invoiced ${new Date(mapping.lastSeenAt).toLocaleDateString()}`}
+                        </p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveSupplierProduct(mapping)}
+                        className="shrink-0 inline-flex items-center justify-center px-3 py-1.5 rounded-md border border-stone-200 dark:border-stone-700 text-[11px] text-stone-800 dark:text-stone-200 hover:bg-stone-100 dark:hover:bg-stone-700"
+                      >
+                        Remove
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
           </div>
         </div>
 
@@ -1011,6 +1425,186 @@ export default function ProductHistoryPage() {
             </div>
           )}
         </div>
+
+        {/* Stock movement ledger */}
+        <div className="bg-white dark:bg-stone-800 rounded-lg border border-stone-200 dark:border-stone-700 p-3 sm:p-5 md:p-6">
+          <div className="flex items-center justify-between gap-2 mb-3 sm:mb-4">
+            <h2 className="text-sm sm:text-base font-semibold text-stone-900 dark:text-stone-100">
+              Stock movements
+            </h2>
+            {!adjusting && (
+              <button
+                type="button"
+                onClick={() => {
+                  setAdjusting(true);
+                  setAdjustmentError(null);
+                }}
+                className="px-3 py-1.5 rounded-md bg-amber-600 text-white text-[11px] sm:text-xs font-medium hover:bg-amber-700"
+              >
+                Adjust stock
+              </button>
+            )}
+          </div>
+
+          {adjusting && (
+            <div className="mb-4 rounded-md border border-stone-200 dark:border-stone-700 bg-[#f9f9f8] dark:bg-stone-900 p-3 space-y-3">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <label className="block">
+                  <span className="block text-[11px] text-stone-500 dark:text-stone-400 mb-1">Reason</span>
+                  <select
+                    value={adjustmentForm.reason}
+                    onChange={(e) => setAdjustmentForm({ ...adjustmentForm, reason: e.target.value as AdjustmentReason })}
+                    className="w-full rounded-md bg-white dark:bg-stone-800 border border-stone-200 dark:border-stone-700 text-stone-900 dark:text-stone-100 text-sm px-3 py-2 focus:outline-none focus:ring-1 focus:ring-amber-600"
+                  >
+                    {(Object.keys(ADJUSTMENT_REASON_LABELS) as AdjustmentReason[]).map((reason) => (
+                      <option key={reason} value={reason}>
+                        {ADJUSTMENT_REASON_LABELS[reason]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block">
+                  <span className="block text-[11px] text-stone-500 dark:text-stone-400 mb-1">
+                    {adjustmentForm.reason === 'correction'
+                      ? 'Counted quantity'
+                      : adjustmentForm.reason === 'found'
+                        ? 'Quantity found'
+                        : 'Quantity removed'}
+                  </span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={adjustmentForm.quantity}
+                    onChange={(e) => setAdjustmentForm({ ...adjustmentForm, quantity: e.target.value })}
+                    className="w-full rounded-md bg-white dark:bg-stone-800 border border-stone-200 dark:border-stone-700 text-stone-900 dark:text-stone-100 text-sm px-3 py-2 focus:outline-none focus:ring-1 focus:ring-amber-600"
+                  />
+                </label>
+                <label className="block">
+                  <span className="block text-[11px] text-stone-500 dark:text-stone-400 mb-1">Note (optional)</span>
+                  <input
+                    value={adjustmentForm.note}
+                    onChange={(e) => setAdjustmentForm({ ...adjustmentForm, note: e.target.value })}
+                    placeholder="What happened"
+                    className="w-full rounded-md bg-white dark:bg-stone-800 border border-stone-200 dark:border-stone-700 text-stone-900 dark:text-stone-100 text-sm px-3 py-2 focus:outline-none focus:ring-1 focus:ring-amber-600"
+                  />
+                </label>
+              </div>
+
+              {adjustmentDelta !== null && adjustmentCostImpact !== null && (
+                <p className="text-[11px] sm:text-xs text-stone-600 dark:text-stone-400">
+                  On hand {quantityOnHand} → {quantityOnHand + adjustmentDelta}, cost impact{' '}
+                  <span className={adjustmentCostImpact < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}>
+                    {adjustmentCostImpact < 0 ? '-' : ''}£{Math.abs(adjustmentCostImpact).toFixed(2)}
+                  </span>{' '}
+                  at £{(inventory?.averageCostGBP || 0).toFixed(2)}/unit
+                </p>
+              )}
+
+              {adjustmentError && (
+                <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-[11px] text-red-700">
+                  {adjustmentError}
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setAdjusting(false);
+                    setAdjustmentForm(EMPTY_ADJUSTMENT_FORM);
+                    setAdjustmentError(null);
+                  }}
+                  disabled={savingAdjustment}
+                  className="px-3 py-1.5 rounded-md border border-stone-200 dark:border-stone-700 text-[11px] sm:text-xs text-stone-600 dark:text-stone-400 hover:bg-stone-100 dark:hover:bg-stone-700 disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSaveAdjustment}
+                  disabled={savingAdjustment}
+                  className="px-3 py-1.5 rounded-md bg-amber-600 text-white text-[11px] sm:text-xs font-medium hover:bg-amber-700 disabled:opacity-50"
+                >
+                  {savingAdjustment ? 'Saving…' : 'Save adjustment'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {movementsError && (
+            <div className="mb-3 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-[11px] text-red-700">
+              {movementsError}
+            </div>
+          )}
+
+          {movements.length === 0 ? (
+            <p className="text-xs sm:text-sm text-stone-500 dark:text-stone-400">
+              {loadingMovements ? 'Loading stock movements…' : 'No stock movements recorded for this product yet.'}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-[11px] sm:text-sm divide-y divide-stone-200 dark:divide-stone-700">
+                <thead className="bg-[#f9f9f8] dark:bg-stone-900">
+                  <tr>
+                    <th className="px-2 sm:px-3 py-2 text-left font-medium text-stone-500 dark:text-stone-400">When</th>
+                    <th className="px-2 sm:px-3 py-2 text-left font-medium text-stone-500 dark:text-stone-400">Movement</th>
+                    <th className="px-2 sm:px-3 py-2 text-right font-medium text-stone-500 dark:text-stone-400">Change</th>
+                    <th className="px-2 sm:px-3 py-2 text-right font-medium text-stone-500 dark:text-stone-400 whitespace-nowrap">On hand</th>
+                    <th className="px-2 sm:px-3 py-2 text-right font-medium text-stone-500 dark:text-stone-400 whitespace-nowrap hidden sm:table-cell">Unit £</th>
+                    <th className="px-2 sm:px-3 py-2 text-left font-medium text-stone-500 dark:text-stone-400 hidden md:table-cell">Source</th>
+                    <th className="px-2 sm:px-3 py-2 text-left font-medium text-stone-500 dark:text-stone-400 hidden md:table-cell">By</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-stone-200 dark:divide-stone-700">
+                  {movements.map((movement) => (
+                    <tr key={movement.id}>
+                      <td className="px-2 sm:px-3 py-2 align-top text-stone-600 dark:text-stone-400 whitespace-nowrap">
+                        {formatDateTime(movement.createdAt)}
+                      </td>
+                      <td className="px-2 sm:px-3 py-2 align-top text-stone-900 dark:text-stone-100">
+                        {MOVEMENT_LABELS[movement.movementType] || movement.movementType}
+                      </td>
+                      <td
+                        className={`px-2 sm:px-3 py-2 text-right align-top font-medium ${
+                          movement.quantityDelta < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'
+                        }`}
+                      >
+                        {movement.quantityDelta > 0 ? `+${movement.quantityDelta}` : movement.quantityDelta}
+                      </td>
+                      <td className="px-2 sm:px-3 py-2 text-right align-top text-stone-900 dark:text-stone-100">
+                        {movement.quantityAfter}
+                      </td>
+                      <td className="px-2 sm:px-3 py-2 text-right align-top text-stone-900 dark:text-stone-100 hidden sm:table-cell">
+                        {movement.unitCostGBP !== null ? formatCurrency(movement.unitCostGBP) : '—'}
+                      </td>
+                      <td className="px-2 sm:px-3 py-2 align-top text-stone-600 dark:text-stone-400 hidden md:table-cell">
+                        {movement.sourceLabel || '—'}
+                      </td>
+                      <td className="px-2 sm:px-3 py-2 align-top text-stone-600 dark:text-stone-400 hidden md:table-cell">
+                        {MOVEMENT_ACTOR_LABELS[movement.actor] || movement.actor}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {movementsHasMore && (
+            <div className="flex justify-center mt-3">
+              <button
+                type="button"
+                onClick={() => loadMovements(movements[movements.length - 1])}
+                disabled={loadingMovements}
+                className="px-3 py-1.5 rounded-md border border-stone-200 dark:border-stone-700 text-[11px] text-stone-600 dark:text-stone-400 hover:bg-stone-100 dark:hover:bg-stone-700 disabled:opacity-50"
+              >
+                {loadingMovements ? 'Loading…' : 'Show older movements'}
+              </button>
+            </div>
+          )}
+        </div>
+
         <div className="flex justify-end mt-4">
           <button
             type="button"
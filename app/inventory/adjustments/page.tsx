@@ -0,0 +1,377 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { authenticatedFetch } from '@/lib/api-client';
+
+type AdjustmentReason = 'damaged' | 'lost' | 'theft' | 'sample' | 'found' | 'correction' | 'write_off';
+type ReportPeriod = 'day' | 'week' | 'month';
+
+const REASON_LABELS: Record<AdjustmentReason, string> = {
+  damaged: 'Damaged',
+  lost: 'Lost',
+  theft: 'Theft',
+  sample: 'Sample',
+  found: 'Found',
+  correction: 'Count correction',
+  write_off: 'Write-off',
+};
+
+const REASONS = Object.keys(REASON_LABELS) as AdjustmentReason[];
+
+interface ReasonTotal {
+  adjustments: number;
+  quantity: number;
+  costImpactGBP: number;
+}
+
+interface ReportRow extends ReasonTotal {
+  period: string;
+  reason: AdjustmentReason;
+}
+
+interface AdjustmentReport {
+  from: string;
+  to: string;
+  period: ReportPeriod;
+  rows: ReportRow[];
+  byReason: Record<AdjustmentReason, ReasonTotal>;
+  totals: {
+    adjustments: number;
+    shrinkageGBP: number;
+    netCostImpactGBP: number;
+  };
+}
+
+interface StockAdjustment {
+  id: string;
+  productId: string;
+  productName: string | null;
+  reason: AdjustmentReason;
+  quantityDelta: number;
+  quantityAfter: number;
+  unitCostGBP: number;
+  costImpactGBP: number;
+  note: string | null;
+  createdAt: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatGBP = (amount: number) => `${amount < 0 ? '-' : ''}£${Math.abs(amount).toFixed(2)}`;
+
+const formatPeriod = (value: string, period: ReportPeriod) => {
+  const d = new Date(`${value}T00:00:00Z`);
+  if (isNaN(d.getTime())) return value;
+  if (period === 'month') {
+    return d.toLocaleDateString('en-GB', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+  }
+  const label = d.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'UTC' });
+  return period === 'week' ? `Week of ${label}` : label;
+};
+
+const formatDateTime = (value: string) => {
+  const d = new Date(value);
+  if (isNaN(d.getTime())) return value;
+  return d.toLocaleString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export default function StockAdjustmentsPage() {
+  const router = useRouter();
+
+  const [from, setFrom] = useState(() => toDateInput(new Date(Date.now() - 90 * DAY_MS)));
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [period, setPeriod] = useState<ReportPeriod>('month');
+  // The range the report was last asked for; the inputs above only apply on "Show report"
+  const [shownRange, setShownRange] = useState(() => ({ from, to, period }));
+  const [report, setReport] = useState<AdjustmentReport | null>(null);
+  const [adjustments, setAdjustments] = useState<StockAdjustment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    const { from, to, period } = shownRange;
+    try {
+      setLoading(true);
+      setError(null);
+
+      const reportParams = new URLSearchParams({ from, to, period });
+      // The list takes timestamps; `to` is inclusive, so stop at the start of the next day
+      const listParams = new URLSearchParams({
+        from: `${from}T00:00:00.000Z`,
+        to: new Date(Date.parse(to) + DAY_MS).toISOString(),
+        limit: '200',
+      });
+
+      const [reportRes, listRes] = await Promise.all([
+        authenticatedFetch(`/api/inventory/adjustments/report?${reportParams.toString()}`),
+        authenticatedFetch(`/api/inventory/adjustments?${listParams.toString()}`),
+      ]);
+      const [reportJson, listJson] = await Promise.all([reportRes.json(), listRes.json()]);
+      if (!reportRes.ok || !reportJson.success) {
+        throw new Error(reportJson.error || 'Failed to load adjustment report');
+      }
+      if (!listRes.ok || !listJson.success) {
+        throw new Error(listJson.error || 'Failed to load stock adjustments');
+      }
+
+      setReport(reportJson.data);
+      setAdjustments(listJson.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load adjustment report');
+    } finally {
+      setLoading(false);
+    }
+  }, [shownRange]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const periods = report ? Array.from(new Set(report.rows.map((row) => row.period))).sort() : [];
+  const costByPeriodAndReason = new Map((report?.rows || []).map((row) => [`${row.period}:${row.reason}`, row.costImpactGBP]));
+  const reportReasons = REASONS.filter((reason) => (report?.byReason[reason]?.adjustments || 0) > 0);
+
+  return (
+    <div className="h-full overflow-y-auto bg-[#f9f9f8] dark:bg-stone-900">
+    <div className="py-4 sm:py-6 px-3 sm:px-6 lg:px-8">
+      <div className="max-w-[1400px] mx-auto space-y-6">
+        <div className="min-w-0">
+          <button
+            type="button"
+            onClick={() => router.push('/inventory')}
+            className="inline-flex items-center gap-1 text-xs text-stone-500 hover:text-amber-600 mb-2"
+          >
+            <span>←</span>
+            <span>Back to inventory</span>
+          </button>
+          <h1 className="text-2xl sm:text-3xl font-bold text-stone-900 dark:text-stone-100">Stock adjustments</h1>
+          <p className="text-xs text-stone-500 dark:text-stone-400 mt-1">
+            Stock written off, found or recounted, valued at each product&apos;s average cost at the time. Adjust stock from a product&apos;s page.
+          </p>
+        </div>
+
+        <div className="bg-white dark:bg-stone-800 rounded-lg border border-stone-200 dark:border-stone-700 p-4 flex flex-wrap items-end gap-3">
+          <label className="block">
+            <span className="block text-xs text-stone-500 dark:text-stone-400 mb-1">From</span>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="rounded-md bg-[#f9f9f8] dark:bg-stone-900 border border-stone-200 dark:border-stone-700 text-stone-900 dark:text-stone-100 text-sm px-3 py-2 focus:outline-none focus:ring-1 focus:ring-amber-600"
+            />
+          </label>
+          <label className="block">
+            <span className="block text-xs text-stone-500 dark:text-stone-400 mb-1">To</span>
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="rounded-md bg-[#f9f9f8] dark:bg-stone-900 border border-stone-200 dark:border-stone-700 text-stone-900 dark:text-stone-100 text-sm px-3 py-2 focus:outline-none focus:ring-1 focus:ring-amber-600"
+            />
+          </label>
+          <label className="block">
+            <span className="block text-xs text-stone-500 dark:text-stone-400 mb-1">Group by</span>
+            <select
+              value={period}
+              onChange={(e) => setPeriod(e.target.value as ReportPeriod)}
+              className="rounded-md bg-[#f9f9f8] dark:bg-stone-900 border border-stone-200 dark:border-stone-700 text-stone-900 dark:text-stone-100 text-sm px-3 py-2 focus:outline-none focus:ring-1 focus:ring-amber-600"
+            >
+              <option value="day">Day</option>
+              <option value="week">Week</option>
+              <option value="month">Month</option>
+            </select>
+          </label>
+          <button
+            type="button"
+            onClick={() => setShownRange({ from, to, period })}
+            disabled={loading || !from || !to}
+            className="px-4 py-2 rounded-md bg-amber-600 text-white text-sm font-medium hover:bg-amber-700 disabled:opacity-50"
+          >
+            {loading ? 'Loading…' : 'Show report'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+        )}
+
+        {report && (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div className="bg-white dark:bg-stone-800 rounded-lg border border-stone-200 dark:border-stone-700 p-4">
+                <p className="text-xs text-stone-500 dark:text-stone-400 mb-1">Shrinkage</p>
+                <p className="text-2xl font-bold text-red-600 dark:text-red-400">£{report.totals.shrinkageGBP.toFixed(2)}</p>
+                <p className="text-[11px] text-stone-500 dark:text-stone-400 mt-1">Damaged, lost, theft and write-offs</p>
+              </div>
+              <div className="bg-white dark:bg-stone-800 rounded-lg border border-stone-200 dark:border-stone-700 p-4">
+                <p className="text-xs text-stone-500 dark:text-stone-400 mb-1">Net cost impact</p>
+                <p className="text-2xl font-bold text-stone-900 dark:text-stone-100">{formatGBP(report.totals.netCostImpactGBP)}</p>
+                <p className="text-[11px] text-stone-500 dark:text-stone-400 mt-1">Every reason, including found stock and corrections</p>
+              </div>
+              <div className="bg-white dark:bg-stone-800 rounded-lg border border-stone-200 dark:border-stone-700 p-4">
+                <p className="text-xs text-stone-500 dark:text-stone-400 mb-1">Adjustments</p>
+                <p className="text-2xl font-bold text-stone-900 dark:text-stone-100">{report.totals.adjustments}</p>
+              </div>
+            </div>
+
+            <div className="bg-white dark:bg-stone-800 rounded-lg border border-stone-200 dark:border-stone-700 p-4 sm:p-5">
+              <h2 className="text-sm font-semibold text-stone-900 dark:text-stone-100 mb-3">By reason</h2>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-xs sm:text-sm divide-y divide-stone-200 dark:divide-stone-700">
+                  <thead className="bg-[#f9f9f8] dark:bg-stone-900">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-stone-500 dark:text-stone-400">Reason</th>
+                      <th className="px-3 py-2 text-right font-medium text-stone-500 dark:text-stone-400">Adjustments</th>
+                      <th className="px-3 py-2 text-right font-medium text-stone-500 dark:text-stone-400">Units</th>
+                      <th className="px-3 py-2 text-right font-medium text-stone-500 dark:text-stone-400">Cost impact</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-stone-200 dark:divide-stone-700">
+                    {REASONS.map((reason) => {
+                      const total = report.byReason[reason];
+                      return (
+                        <tr key={reason}>
+                          <td className="px-3 py-2 text-stone-900 dark:text-stone-100">{REASON_LABELS[reason]}</td>
+                          <td className="px-3 py-2 text-right text-stone-600 dark:text-stone-400">{total.adjustments}</td>
+                          <td className="px-3 py-2 text-right text-stone-600 dark:text-stone-400">
+                            {total.quantity > 0 ? `+${total.quantity}` : total.quantity}
+                          </td>
+                          <td
+                            className={`px-3 py-2 text-right font-medium ${
+                              total.costImpactGBP < 0 ? 'text-red-600 dark:text-red-400' : 'text-stone-900 dark:text-stone-100'
+                            }`}
+                          >
+                            {formatGBP(total.costImpactGBP)}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div className="bg-white dark:bg-stone-800 rounded-lg border border-stone-200 dark:border-stone-700 p-4 sm:p-5">
+              <h2 className="text-sm font-semibold text-stone-900 dark:text-stone-100 mb-3">Cost impact by {report.period}</h2>
+              {periods.length === 0 ? (
+                <p className="text-sm text-stone-500 dark:text-stone-400">No adjustments in this period.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-xs sm:text-sm divide-y divide-stone-200 dark:divide-stone-700">
+                    <thead className="bg-[#f9f9f8] dark:bg-stone-900">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium text-stone-500 dark:text-stone-400 capitalize">{report.period}</th>
+                        {reportReasons.map((reason) => (
+                          <th key={reason} className="px-3 py-2 text-right font-medium text-stone-500 dark:text-stone-400 whitespace-nowrap">
+                            {REASON_LABELS[reason]}
+                          </th>
+                        ))}
+                        <th className="px-3 py-2 text-right font-medium text-stone-500 dark:text-stone-400">Net</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-stone-200 dark:divide-stone-700">
+                      {periods.map((periodStart) => {
+                        const net = reportReasons.reduce(
+                          (sum, reason) => sum + (costByPeriodAndReason.get(`${periodStart}:${reason}`) || 0),
+                          0,
+                        );
+                        return (
+                          <tr key={periodStart}>
+                            <td className="px-3 py-2 text-stone-900 dark:text-stone-100 whitespace-nowrap">
+                              {formatPeriod(periodStart, report.period)}
+                            </td>
+                            {reportReasons.map((reason) => {
+                              const cost = costByPeriodAndReason.get(`${periodStart}:${reason}`);
+                              return (
+                                <td key={reason} className="px-3 py-2 text-right text-stone-600 dark:text-stone-400">
+                                  {cost === undefined ? '—' : formatGBP(cost)}
+                                </td>
+                              );
+                            })}
+                            <td
+                              className={`px-3 py-2 text-right font-medium ${
+                                net < 0 ? 'text-red-600 dark:text-red-400' : 'text-stone-900 dark:text-stone-100'
+                              }`}
+                            >
+                              {formatGBP(net)}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+
+        {report && adjustments.length > 0 && (
+          <div className="bg-white dark:bg-stone-800 rounded-lg border border-stone-200 dark:border-stone-700 p-4 sm:p-5">
+            <h2 className="text-sm font-semibold text-stone-900 dark:text-stone-100 mb-3">
+              Adjustments{adjustments.length === 200 ? ' (latest 200)' : ''}
+            </h2>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-xs sm:text-sm divide-y divide-stone-200 dark:divide-stone-700">
+                <thead className="bg-[#f9f9f8] dark:bg-stone-900">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-stone-500 dark:text-stone-400">When</th>
+                    <th className="px-3 py-2 text-left font-medium text-stone-500 dark:text-stone-400">Product</th>
+                    <th className="px-3 py-2 text-left font-medium text-stone-500 dark:text-stone-400">Reason</th>
+                    <th className="px-3 py-2 text-right font-medium text-stone-500 dark:text-stone-400">Change</th>
+                    <th className="px-3 py-2 text-right font-medium text-stone-500 dark:text-stone-400 whitespace-nowrap">Cost impact</th>
+                    <th className="px-3 py-2 text-left font-medium text-stone-500 dark:text-stone-400 hidden md:table-cell">Note</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-stone-200 dark:divide-stone-700">
+                  {adjustments.map((adjustment) => (
+                    <tr key={adjustment.id}>
+                      <td className="px-3 py-2 align-top text-stone-600 dark:text-stone-400 whitespace-nowrap">
+                        {formatDateTime(adjustment.createdAt)}
+                      </td>
+                      <td className="px-3 py-2 align-top">
+                        <Link
+                          href={`/inventory/${adjustment.productId}`}
+                          className="text-stone-900 dark:text-stone-100 hover:text-amber-600"
+                        >
+                          {adjustment.productName || 'Unnamed product'}
+                        </Link>
+                      </td>
+                      <td className="px-3 py-2 align-top text-stone-600 dark:text-stone-400">
+                        {REASON_LABELS[adjustment.reason] || adjustment.reason}
+                      </td>
+                      <td
+                        className={`px-3 py-2 text-right align-top font-medium ${
+                          adjustment.quantityDelta < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'
+                        }`}
+                      >
+                        {adjustment.quantityDelta > 0 ? `+${adjustment.quantityDelta}` : adjustment.quantityDelta}
+                      </td>
+                      <td className="px-3 py-2 text-right align-top text-stone-900 dark:text-stone-100">
+                        {formatGBP(adjustment.costImpactGBP)}
+                      </td>
+                      <td className="px-3 py-2 align-top text-stone-600 dark:text-stone-400 hidden md:table-cell">
+                        {adjustment.note || '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+    </div>
+  );
+}
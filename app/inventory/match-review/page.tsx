@@ -0,0 +1,254 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { authenticatedFetch } from '@/lib/api-client';
+
+interface MatchCandidate {
+  productId: string;
+  name: string;
+  score: number;
+}
+
+// A PO line whose description only loosely matched existing products
+interface MatchReview {
+  id: string;
+  description: string;
+  supplierSku: string | null;
+  quantity: number | null;
+  unitCostExVAT: number | null;
+  candidates: MatchCandidate[];
+  invoiceNumber: string | null;
+  supplierName: string | null;
+  createdAt: string;
+}
+
+interface ProductOption {
+  id: string;
+  name: string;
+  primarySku: string | null;
+}
+
+export default function ProductMatchReviewPage() {
+  const router = useRouter();
+
+  const [reviews, setReviews] = useState<MatchReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  // "Pick another product" search, one review at a time
+  const [searchReviewId, setSearchReviewId] = useState<string | null>(null);
+  const [searchText, setSearchText] = useState('');
+  const [searchResults, setSearchResults] = useState<ProductOption[]>([]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const res = await authenticatedFetch('/api/inventory/match-reviews');
+        const json = await res.json();
+        if (!res.ok || !json.success) {
+          throw new Error(json.error || 'Failed to load product matches');
+        }
+        setReviews(json.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load product matches');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, []);
+
+  useEffect(() => {
+    if (!searchReviewId || searchText.trim().length < 2) {
+      setSearchResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const res = await authenticatedFetch(`/api/inventory/match-reviews?search=${encodeURIComponent(searchText.trim())}`);
+        const json = await res.json();
+        if (res.ok && json.success) {
+          setSearchResults(json.data);
+        }
+      } catch {
+        // Keep the previous results; the user can keep typing
+      }
+    }, 250);
+
+    return () => clearTimeout(timer);
+  }, [searchReviewId, searchText]);
+
+  const handleResolve = async (review: MatchReview, productId: string | null) => {
+    try {
+      setResolvingId(review.id);
+      setError(null);
+
+      const res = await authenticatedFetch('/api/inventory/match-reviews', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(productId ? { id: review.id, action: 'match', productId } : { id: review.id, action: 'create' }),
+      });
+
+      const json = await res.json().catch(() => null);
+      // 409: already matched elsewhere (another tab); either way it leaves the queue
+      if (!res.ok && res.status !== 409) {
+        throw new Error((json && json.error) || 'Failed to match product');
+      }
+
+      setReviews((prev) => prev.filter((r) => r.id !== review.id));
+      if (searchReviewId === review.id) {
+        setSearchReviewId(null);
+        setSearchText('');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to match product');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto bg-[#f9f9f8] dark:bg-stone-900">
+    <div className="py-4 sm:py-6 px-3 sm:px-6 lg:px-8">
+      <div className="max-w-[1400px] mx-auto space-y-6">
+        <div className="min-w-0">
+          <button
+            type="button"
+            onClick={() => router.push('/inventory')}
+            className="inline-flex items-center gap-1 text-xs text-stone-500 hover:text-amber-600 mb-2"
+          >
+            <span>←</span>
+            <span>Back to inventory</span>
+          </button>
+          <h1 className="text-2xl sm:text-3xl font-bold text-stone-900 dark:text-stone-100">Review product matches</h1>
+          <p className="text-xs text-stone-500 dark:text-stone-400 mt-1">
+            Purchase order lines that only loosely match an existing product. They are put in transit once you choose.
+          </p>
+        </div>
+
+        {error && (
+          <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-stone-500 dark:text-stone-400">Loading...</p>
+        ) : reviews.length === 0 ? (
+          <div className="bg-white dark:bg-stone-800 rounded-lg border border-stone-200 dark:border-stone-700 p-6 text-sm text-stone-500 dark:text-stone-400">
+            Nothing to review. Every purchase order line has been matched to a product.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {reviews.map((review) => (
+              <div
+                key={review.id}
+                className="bg-white dark:bg-stone-800 rounded-lg border border-stone-200 dark:border-stone-700 p-4 sm:p-5"
+              >
+                <div className="mb-3">
+                  <p className="text-sm font-semibold text-stone-900 dark:text-stone-100">{review.description}</p>
+                  <p className="text-xs text-stone-500 dark:text-stone-400 mt-0.5">
+                    {review.supplierName || 'Unknown supplier'}
+                    {review.invoiceNumber && ` · invoice ${review.invoiceNumber}`}
+                    {review.supplierSku && (
+                      <>
+                        {' · '}
+                        <span className="font-mono">{review.supplierSku}</span>
+                      </>
+                    )}
+                    {review.quantity !== null && ` · qty ${review.quantity}`}
+                    {review.unitCostExVAT !== null && ` · £${review.unitCostExVAT.toFixed(2)} each`}
+                  </p>
+                </div>
+
+                <p className="text-xs text-stone-500 dark:text-stone-400 mb-2">Possible matches</p>
+                <ul className="divide-y divide-stone-100 dark:divide-stone-700 mb-3">
+                  {review.candidates.map((candidate) => (
+                    <li key={candidate.productId} className="py-2 flex items-center justify-between gap-3">
+                      <div className="min-w-0 flex items-center gap-2">
+                        <span className="shrink-0 inline-flex items-center px-2 py-0.5 rounded text-[11px] font-medium bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300">
+                          {Math.round(candidate.score * 100)}%
+                        </span>
+                        <Link
+                          href={`/inventory/${candidate.productId}`}
+                          className="text-sm text-stone-900 dark:text-stone-100 hover:text-amber-600 truncate"
+                        >
+                          {candidate.name}
+                        </Link>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => handleResolve(review, candidate.productId)}
+                        disabled={resolvingId === review.id}
+                        className="shrink-0 px-3 py-1.5 rounded-md bg-amber-600 text-white text-xs font-medium hover:bg-amber-700 disabled:opacity-50"
+                      >
+                        Accept
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+
+                {searchReviewId === review.id ? (
+                  <div className="space-y-2 mb-3">
+                    <input
+                      autoFocus
+                      value={searchText}
+                      onChange={(e) => setSearchText(e.target.value)}
+                      placeholder="Search products by name or SKU"
+                      className="w-full rounded-md bg-[#f9f9f8] dark:bg-stone-900 border border-stone-200 dark:border-stone-700 text-stone-900 dark:text-stone-100 text-sm px-3 py-2 focus:outline-none focus:ring-1 focus:ring-amber-600"
+                    />
+                    {searchResults.length > 0 && (
+                      <ul className="rounded-md border border-stone-200 dark:border-stone-700 divide-y divide-stone-100 dark:divide-stone-700">
+                        {searchResults.map((product) => (
+                          <li key={product.id}>
+                            <button
+                              type="button"
+                              onClick={() => handleResolve(review, product.id)}
+                              disabled={resolvingId === review.id}
+                              className="w-full text-left px-3 py-2 text-sm text-stone-900 dark:text-stone-100 hover:bg-stone-50 dark:hover:bg-stone-700 disabled:opacity-50"
+                            >
+                              {product.name}
+                              {product.primarySku && (
+                                <span className="ml-2 text-xs text-stone-500 dark:text-stone-400 font-mono">{product.primarySku}</span>
+                              )}
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ) : null}
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setSearchReviewId(searchReviewId === review.id ? null : review.id);
+                      setSearchText('');
+                    }}
+                    className="px-3 py-1.5 rounded-md border border-stone-200 dark:border-stone-700 text-xs text-stone-800 dark:text-stone-200 hover:bg-stone-100 dark:hover:bg-stone-700"
+                  >
+                    {searchReviewId === review.id ? 'Cancel search' : 'Pick another product'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleResolve(review, null)}
+                    disabled={resolvingId === review.id}
+                    className="px-3 py-1.5 rounded-md border border-stone-200 dark:border-stone-700 text-xs text-stone-800 dark:text-stone-200 hover:bg-stone-100 dark:hover:bg-stone-700 disabled:opacity-50"
+                  >
+                    Create new product
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+    </div>
+  );
+}
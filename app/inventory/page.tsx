@@ -5,6 +5,7 @@ import { supabase } from '@/lib/supabaseClient';
 import { useAuth } from '@/contexts/AuthContext';
 import { authenticatedFetch } from '@/lib/api-client';
 import dynamic from 'next/dynamic';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 
 interface Supplier {
@@ -28,6 +29,7 @@ interface Product {
   category: string | null;
   tags: string[];
   imageUrl: string | null;
+  revision: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -667,15 +669,27 @@ export default function InventoryPage() {
   const handleAssignProductToFolder = async (productId: string, folderId: string) => {
     try {
       const targetCategory = folderId === 'all' ? '' : folderId;
+      const revision = items.find((row) => row.product.id === productId)?.product.revision;
       const res = await authenticatedFetch(
         `/api/inventory/product?id=${encodeURIComponent(productId)}`,
         {
           method: 'PUT',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ category: targetCategory }),
+          body: JSON.stringify({ category: targetCategory, revision }),
         },
       );
       const json = await res.json();
+      if (res.status === 409 && json.current) {
+        // Someone else edited the product: show their version and let the user drag again
+        const current = json.current as Product;
+        setItems((prev) =>
+          prev.map((row) =>
+            row.product.id === current.id ? { ...row, product: { ...row.product, ...current } } : row,
+          ),
+        );
+        alert(`${json.error}. It has been reloaded – move it again if it still belongs elsewhere.`);
+        return;
+      }
       if (!res.ok || !json.success) {
         // eslint-disable-next-line no-alert
         alert(json.error || 'Failed to move product to folder');
@@ -686,7 +700,7 @@ export default function InventoryPage() {
       setItems((prev) =>
         prev.map((row) =>
           row.product.id === updated.id
-            ? { ...row, product: { ...row.product, category: updated.category } }
+            ? { ...row, product: { ...row.product, category: updated.category, revision: updated.revision } }
             : row,
         ),
       );
@@ -756,6 +770,26 @@ export default function InventoryPage() {
             <h1 className="text-xl sm:text-3xl font-bold text-stone-900 dark:text-stone-100">Inventory</h1>
           </div>
           <div className="flex items-center gap-2">
+            <Link
+              href="/inventory/match-review"
+              title="Review product matches"
+              className="inline-flex items-center justify-center gap-1.5 px-2.5 sm:px-3 py-2 border border-stone-200 dark:border-stone-700 text-sm font-medium rounded-md text-stone-700 dark:text-stone-300 bg-white dark:bg-stone-800 hover:bg-stone-100 dark:hover:bg-stone-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-600 transition-colors"
+            >
+              <svg className="w-4 h-4 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+              </svg>
+              <span className="hidden sm:inline">Review matches</span>
+            </Link>
+            <Link
+              href="/inventory/adjustments"
+              title="Stock adjustments"
+              className="inline-flex items-center justify-center gap-1.5 px-2.5 sm:px-3 py-2 border border-stone-200 dark:border-stone-700 text-sm font-medium rounded-md text-stone-700 dark:text-stone-300 bg-white dark:bg-stone-800 hover:bg-stone-100 dark:hover:bg-stone-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-600 transition-colors"
+            >
+              <svg className="w-4 h-4 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 17h8m0 0V9m0 8l-8-8-4 4-6-6" />
+              </svg>
+              <span className="hidden sm:inline">Adjustments</span>
+            </Link>
             <a
               href="/inventory/import"
               title="Import CSV"
@@ -1,5 +1,5 @@
 import { redirect } from 'next/navigation';
 
 export default function CreatePOPage() {
-  redirect('/purchasing/import?mode=manual');
+  redirect('/purchasing/import?mode=manual&draft=1');
 }
@@ -1,6 +1,6 @@
 'use client';
 
-import { Suspense, useState, FormEvent } from 'react';
+import { Suspense, useEffect, useState, FormEvent } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import PurchaseOrderForm from '../../../components/PurchaseOrderForm';
 import { authenticatedFetch } from '@/lib/api-client';
@@ -9,6 +9,8 @@ interface FileGroup {
   id: string;
   name: string;
   files: File[];
+  // Statement mode: the files may hold several invoices, each reviewed and saved on its own
+  split?: boolean;
 }
 
 interface ExtractedData {
@@ -24,6 +26,9 @@ interface ExtractedData {
     invoiceDate?: string;
     originalCurrency?: string;
     paymentTerms?: string;
+    exchangeRate?: number | null;
+    exchangeRateDate?: string | null;
+    exchangeRateSource?: string | null;
   };
   poLines: Array<{
     description: string;
@@ -32,6 +37,8 @@ interface ExtractedData {
     unitCostExVAT: number;
     lineTotalExVAT: number;
     rrp?: number;
+    originalUnitCost?: number | null;
+    originalLineTotal?: number | null;
   }>;
   totals: {
     subtotal?: number;
@@ -39,6 +46,18 @@ interface ExtractedData {
     vat?: number;
     total?: number;
   };
+  originalTotals?: {
+    subtotal?: number;
+    extras?: number;
+    vat?: number;
+    total?: number;
+  };
+  vatBreakdown?: Array<{
+    categoryCode: string | null;
+    ratePercent: number | null;
+    taxableAmount: number;
+    taxAmount: number;
+  }>;
   notes?: string;
 }
 
@@ -53,10 +72,106 @@ interface DuplicateMatch {
   createdAt: string;
 }
 
+// An uploaded file that was seen before (409 from the extract endpoints)
+interface DuplicateFile {
+  fileName: string;
+  match: 'exact' | 'similar';
+  purchaseOrderId: string | null;
+  invoiceNumber: string | null;
+  supplierName: string | null;
+  extractionJobId: string | null;
+  uploadedAt: string;
+}
+
+function describeDuplicateFiles(files: DuplicateFile[]): string {
+  const lines = files.map((file) => {
+    const kind = file.match === 'exact' ? 'is identical to' : 'looks like';
+    const previous = file.purchaseOrderId
+      ? `invoice ${file.invoiceNumber || '(no number)'}${file.supplierName ? ` from ${file.supplierName}` : ''}`
+      : 'an upload still queued for review';
+    return `• ${file.fileName} ${kind} ${previous}, uploaded ${new Date(file.uploadedAt).toLocaleDateString()}`;
+  });
+  return `This invoice may already have been imported:\n\n${lines.join('\n')}\n\nExtract it again anyway?`;
+}
+
+// Arithmetic self-check returned by the extract endpoint
+interface ExtractionWarning {
+  code: string;
+  severity: 'error' | 'warning';
+  field: string;
+  lineIndex?: number;
+  message: string;
+}
+
+interface ExtractionValidation {
+  confidence: number;
+  warnings: ExtractionWarning[];
+}
+
+// What an extraction job produces once it has succeeded
+interface ExtractionResult {
+  data: ExtractedData;
+  validation?: ExtractionValidation;
+  method?: string;
+  profile?: string | null;
+  supplierTemplate?: { supplierId: string; supplierName: string; appliedRules: string[] } | null;
+  // Statement mode: every invoice found in the upload, when there was more than one
+  candidates?: Array<ExtractionResult & { pages: number[] | null }>;
+}
+
+// Background extraction job (see /api/purchasing/po/extract/jobs)
+interface ExtractionJob {
+  id: string;
+  label: string | null;
+  files: Array<{ name: string }>;
+  source: 'upload' | 'email';
+  sender: string | null;
+  status: 'queued' | 'processing' | 'succeeded' | 'dead' | 'saved';
+  stage: string | null;
+  result: ExtractionResult | null;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lastError: { message: string } | null;
+  savedCandidates: Array<{ index: number; purchaseOrderId: string | null }>;
+  createdAt: string;
+}
+
+const JOB_STAGE_LABELS: Record<string, string> = {
+  reading_files: 'Reading files...',
+  parsing_text: 'Reading the PDF text layer...',
+  extracting: 'Extracting invoice data...',
+  checking: 'Checking figures...',
+};
+
+const JOB_POLL_INTERVAL_MS = 2000;
+
+function describeJobProgress(job: ExtractionJob): string {
+  if (job.status === 'processing') {
+    return (job.stage && JOB_STAGE_LABELS[job.stage]) || 'Analyzing files...';
+  }
+  if (job.status === 'queued' && job.attempts > 0) {
+    const retryAt = new Date(job.runAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+    return `Attempt ${job.attempts} of ${job.maxAttempts} failed${job.lastError ? ` (${job.lastError.message})` : ''} – retrying at ${retryAt}`;
+  }
+  return 'Queued...';
+}
+
 interface GroupResult {
   group: FileGroup;
-  status: 'pending' | 'processing' | 'extracted' | 'approved' | 'success' | 'cancelled' | 'error';
+  // 'split' once a statement's invoices have been shown as results of their own
+  status: 'pending' | 'processing' | 'extracted' | 'approved' | 'success' | 'cancelled' | 'error' | 'split';
   extractedData?: ExtractedData;
+  validation?: ExtractionValidation;
+  // 'ai', 'text' (PDF text layer), or the e-invoice format ('ubl' / 'cii') when read directly
+  method?: string;
+  profile?: string | null;
+  // Set when the invoice matched a supplier with a learned extraction template
+  supplierTemplate?: { supplierId: string; supplierName: string; appliedRules: string[] } | null;
+  // Extraction runs as a background job; progress is polled while the page is open
+  job?: { id: string; fileCount: number; progress: string | null };
+  // One invoice of a statement (index into the job's candidates)
+  candidate?: { index: number; count: number; pages: number[] | null };
   error?: string;
   duplicates?: DuplicateMatch[];
   duplicatesChecked?: boolean;
@@ -82,8 +197,27 @@ function ImportPageContent() {
   const [manualError, setManualError] = useState<string | null>(null);
   const [manualSaving, setManualSaving] = useState(false);
   const [manualFormKey, setManualFormKey] = useState(0);
+  const [manualAsDraft, setManualAsDraft] = useState(searchParams.get('draft') === '1');
+  const [queuedJobs, setQueuedJobs] = useState<ExtractionJob[]>([]);
   const router = useRouter();
 
+  // Invoices queued earlier (possibly in another session) that are waiting for review
+  const loadQueuedJobs = async () => {
+    try {
+      const response = await authenticatedFetch('/api/purchasing/po/extract/jobs');
+      const result = await response.json();
+      if (response.ok) {
+        setQueuedJobs(result.data || []);
+      }
+    } catch (err) {
+      console.error('Failed to load queued extractions:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadQueuedJobs();
+  }, []);
+
   const navigateToView = () => {
     router.push('/purchasing/view');
   };
@@ -135,7 +269,8 @@ function ImportPageContent() {
     const droppedFiles = Array.from(e.dataTransfer.files).filter(file => {
       const isImage = file.type.startsWith('image/');
       const isPDF = file.type === 'application/pdf';
-      return isImage || isPDF;
+      const isXML = file.type === 'application/xml' || file.type === 'text/xml' || file.name.toLowerCase().endsWith('.xml');
+      return isImage || isPDF || isXML;
     });
 
     if (droppedFiles.length > 0) {
@@ -235,6 +370,14 @@ function ImportPageContent() {
     );
   };
 
+  const handleToggleSplit = (groupId: string, split: boolean) => {
+    setFileGroups(prev =>
+      prev.map(group =>
+        group.id === groupId ? { ...group, split } : group
+      )
+    );
+  };
+
   const handleDeleteGroup = (groupId: string) => {
     setFileGroups(prev => prev.filter(group => group.id !== groupId));
   };
@@ -268,13 +411,17 @@ function ImportPageContent() {
     setSavingIndex(resultIndex);
 
     try {
-      // Get the files for this group
+      // Get the files for this group (already stored with the extraction job, if there is one)
       const group = fileGroups.find(g => g.id === groupId);
-      const files = group?.files || [];
+      const extractionJobId = groupResults[resultIndex].job?.id;
+      const files = extractionJobId ? [] : group?.files || [];
 
       // Create FormData to include both data and files
       const formData = new FormData();
-      formData.append('data', JSON.stringify(data));
+      // Send the original extraction alongside any edits so corrections are learned for this supplier
+      const extracted = editedData[resultIndex] ? groupResults[resultIndex].extractedData : undefined;
+      const candidate = groupResults[resultIndex].candidate;
+      formData.append('data', JSON.stringify({ ...data, extracted, extractionJobId, extractionCandidate: candidate?.index }));
       formData.append('fileCount', files.length.toString());
       files.forEach((file, index) => {
         formData.append(`file${index}`, file);
@@ -293,11 +440,29 @@ function ImportPageContent() {
 
       // Show success message
       const supplierName = data.supplier.name;
-      setSuccessMessage(`Purchase order for ${supplierName} saved successfully!`);
+      const pendingReview: number = result.data?.inventorySync?.productsPendingReview ?? 0;
+      setSuccessMessage(
+        pendingReview > 0
+          ? `Purchase order for ${supplierName} saved. ${pendingReview} line${pendingReview === 1 ? '' : 's'} need a product match – see Inventory → Review matches.`
+          : `Purchase order for ${supplierName} saved successfully!`
+      );
       
-      // Remove the file group and result after successful save
-      setFileGroups(prev => prev.filter(g => g.id !== groupId));
+      // Remove the file group and result after successful save. A statement's file group
+      // stays until none of its invoices is left to review.
+      const parentId = candidate ? groupId.slice(0, groupId.lastIndexOf(':')) : groupId;
+      const invoicesLeft = !!candidate && groupResults.some(r =>
+        r.group.id !== groupId && r.group.id.startsWith(`${parentId}:`) && r.status !== 'success' && r.status !== 'cancelled'
+      );
+      if (!invoicesLeft) {
+        setFileGroups(prev => prev.filter(g => g.id !== parentId));
+      }
       setGroupResults(prev => prev.filter(r => r.group.id !== groupId));
+      if (candidate) {
+        // The job stays queued until every invoice of the statement has been saved
+        await loadQueuedJobs();
+      } else if (extractionJobId) {
+        setQueuedJobs(prev => prev.filter(j => j.id !== extractionJobId));
+      }
       
       // Auto-hide success message after 5 seconds
       setTimeout(() => setSuccessMessage(null), 5000);
@@ -329,7 +494,11 @@ function ImportPageContent() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(data),
+        body: JSON.stringify(
+          manualAsDraft
+            ? { ...data, purchaseOrder: { ...data.purchaseOrder, status: 'draft' } }
+            : data
+        ),
       });
 
       const result = await response.json();
@@ -339,7 +508,11 @@ function ImportPageContent() {
       }
 
       const supplierName = data.supplier.name;
-      setSuccessMessage(`Purchase order for ${supplierName} saved successfully!`);
+      setSuccessMessage(
+        manualAsDraft
+          ? `Draft purchase order for ${supplierName} saved. Mark it as ordered from View Orders once sent.`
+          : `Purchase order for ${supplierName} saved successfully!`
+      );
       setTimeout(() => setSuccessMessage(null), 5000);
       setManualFormKey(prev => prev + 1);
     } catch (err) {
@@ -353,6 +526,17 @@ function ImportPageContent() {
     return editedData[index] || groupResults[index]?.extractedData;
   };
 
+  // Once a flagged field has been edited, its self-check warning no longer applies
+  const updateWarnings = (resultIndex: number, transform: (warnings: ExtractionWarning[]) => ExtractionWarning[]) => {
+    setGroupResults(prev =>
+      prev.map((result, i) =>
+        i === resultIndex && result.validation
+          ? { ...result, validation: { ...result.validation, warnings: transform(result.validation.warnings) } }
+          : result
+      )
+    );
+  };
+
   const updateField = (resultIndex: number, field: string, value: any) => {
     const currentData = getEditableData(resultIndex);
     if (!currentData) return;
@@ -366,6 +550,15 @@ function ImportPageContent() {
     }
     obj[keys[keys.length - 1]] = value;
 
+    // An edited GBP total no longer matches the invoice-currency amount; let the server re-derive it
+    if (keys[0] === 'totals' && updated.originalTotals) {
+      delete updated.originalTotals[keys[1]];
+    }
+
+    if (keys[0] === 'totals') {
+      updateWarnings(resultIndex, (warnings) => warnings.filter((w) => !w.field.startsWith('totals.')));
+    }
+
     setEditedData(prev => ({ ...prev, [resultIndex]: updated }));
   };
 
@@ -376,6 +569,14 @@ function ImportPageContent() {
     const updated = JSON.parse(JSON.stringify(currentData));
     updated.poLines[lineIndex][field] = value;
 
+    // Edited GBP amounts no longer match the invoice-currency amounts; let the server re-derive them
+    if (field === 'quantity' || field === 'unitCostExVAT' || field === 'lineTotalExVAT') {
+      delete updated.poLines[lineIndex].originalUnitCost;
+      delete updated.poLines[lineIndex].originalLineTotal;
+    }
+
+    updateWarnings(resultIndex, (warnings) => warnings.filter((w) => w.lineIndex !== lineIndex));
+
     setEditedData(prev => ({ ...prev, [resultIndex]: updated }));
   };
 
@@ -403,9 +604,181 @@ function ImportPageContent() {
     const updated = JSON.parse(JSON.stringify(currentData));
     updated.poLines.splice(lineIndex, 1);
 
+    // Keep the remaining line warnings pointing at the right rows
+    updateWarnings(resultIndex, (warnings) =>
+      warnings
+        .filter((w) => w.lineIndex !== lineIndex)
+        .map((w) => {
+          if (w.lineIndex === undefined || w.lineIndex < lineIndex) return w;
+          const newIndex = w.lineIndex - 1;
+          return { ...w, lineIndex: newIndex, field: w.field.replace(`poLines[${w.lineIndex}]`, `poLines[${newIndex}]`) };
+        })
+    );
+
     setEditedData(prev => ({ ...prev, [resultIndex]: updated }));
   };
 
+  // Show an extraction result for review and check it against existing purchase orders
+  const showExtractionResult = async (
+    groupId: string,
+    data: ExtractionResult,
+    savedCandidates: ExtractionJob['savedCandidates'] = []
+  ) => {
+    // A statement: each invoice becomes a result of its own, with its own duplicate check
+    if (data.candidates && data.candidates.length > 1) {
+      const count = data.candidates.length;
+      const candidates = data.candidates
+        .map((candidate, index) => ({ candidate, index }))
+        .filter(({ index }) => !savedCandidates.some(saved => saved.index === index));
+
+      setGroupResults(prev => {
+        const parent = prev.find(r => r.group.id === groupId);
+        if (!parent) return prev;
+        return [
+          ...prev.map((result) =>
+            result.group.id === groupId ? { ...result, status: 'split' as const } : result
+          ),
+          ...candidates.map(({ candidate, index }) => ({
+            group: { ...parent.group, id: `${groupId}:${index}` },
+            status: 'processing' as const,
+            job: parent.job,
+            candidate: { index, count, pages: candidate.pages },
+          })),
+        ];
+      });
+
+      await Promise.all(candidates.map(({ candidate, index }) => showExtractionResult(`${groupId}:${index}`, candidate)));
+      return;
+    }
+
+    // Update with extracted data
+    setGroupResults(prev =>
+      prev.map((result) =>
+        result.group.id === groupId
+          ? {
+              ...result,
+              status: 'extracted' as const,
+              extractedData: data.data,
+              validation: data.validation,
+              method: data.method,
+              profile: data.profile,
+              supplierTemplate: data.supplierTemplate,
+              duplicatesChecked: false,
+            }
+          : result
+      )
+    );
+
+    // Check for duplicates
+    try {
+      // Skip duplicate check if supplier name is not available
+      if (!data.data.supplier?.name || data.data.supplier.name.trim() === '') {
+        console.log('Skipping duplicate check: no supplier name found');
+        setGroupResults(prev =>
+          prev.map((result) =>
+            result.group.id === groupId
+              ? { ...result, duplicatesChecked: true, duplicates: [] }
+              : result
+          )
+        );
+      } else {
+        const duplicateResponse = await authenticatedFetch('/api/purchasing/po/check-duplicates', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            supplierName: data.data.supplier.name,
+            invoiceNumber: data.data.purchaseOrder.invoiceNumber,
+            invoiceDate: data.data.purchaseOrder.invoiceDate,
+            poLines: data.data.poLines,
+          }),
+        });
+
+        if (duplicateResponse.ok) {
+          const duplicateData = await duplicateResponse.json();
+          if (duplicateData.hasDuplicates) {
+            setGroupResults(prev =>
+              prev.map((result) =>
+                result.group.id === groupId
+                  ? {
+                      ...result,
+                      duplicates: duplicateData.duplicates,
+                      duplicatesChecked: true,
+                    }
+                  : result
+              )
+            );
+          } else {
+            setGroupResults(prev =>
+              prev.map((result) =>
+                result.group.id === groupId
+                  ? { ...result, duplicatesChecked: true, duplicates: [] }
+                  : result
+              )
+            );
+          }
+        } else {
+          const errorData = await duplicateResponse.json();
+          console.error('Failed to check duplicates:', errorData.error);
+          // Continue without duplicate check
+          setGroupResults(prev =>
+            prev.map((result) =>
+              result.group.id === groupId
+                ? { ...result, duplicatesChecked: true, duplicates: [] }
+                : result
+            )
+          );
+        }
+      }
+    } catch (err) {
+      // Update with error
+      setGroupResults(prev =>
+        prev.map((result) =>
+          result.group.id === groupId
+            ? {
+                ...result,
+                status: 'error' as const,
+                error: err instanceof Error ? err.message : 'An error occurred',
+              }
+            : result
+        )
+      );
+    }
+  };
+
+  // Poll a queued extraction until it has a result; the job keeps running if the page is closed
+  const waitForExtractionJob = async (
+    jobId: string,
+    onProgress: (progress: string) => void
+  ): Promise<ExtractionJob & { result: ExtractionResult }> => {
+    for (;;) {
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+      const response = await authenticatedFetch(`/api/purchasing/po/extract/jobs?id=${jobId}`);
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to check extraction progress');
+      }
+
+      const job: ExtractionJob = body.data;
+      if (job.status === 'succeeded' && job.result) {
+        return { ...job, result: job.result };
+      }
+      if (job.status === 'dead') {
+        throw new Error(job.lastError?.message || 'Extraction failed');
+      }
+      onProgress(describeJobProgress(job));
+    }
+  };
+
+  const setJobProgress = (groupId: string, progress: string) => {
+    setGroupResults(prev =>
+      prev.map((result) =>
+        result.group.id === groupId && result.job ? { ...result, job: { ...result.job, progress } } : result
+      )
+    );
+  };
+
   // Extract analysis logic into reusable function
   const analyzeGroup = async (groupIndex: number, group: FileGroup) => {
     // Update status to processing
@@ -423,109 +796,46 @@ function ImportPageContent() {
       });
       formData.append('fileCount', group.files.length.toString());
       formData.append('groupName', group.name);
+      if (group.split) {
+        formData.append('split', 'true');
+      }
 
-      // Send to extract API
-      const response = await authenticatedFetch('/api/purchasing/po/extract', {
+      // Queue the extraction; the server works through it in the background
+      let response = await authenticatedFetch('/api/purchasing/po/extract/jobs', {
         method: 'POST',
         body: formData,
       });
 
-      const data = await response.json();
+      let queued = await response.json();
+
+      // Files that were uploaded before: let the user decide whether to extract them again
+      if (response.status === 409 && queued.duplicateFiles) {
+        if (!confirm(describeDuplicateFiles(queued.duplicateFiles))) {
+          throw new Error('Already imported');
+        }
+        formData.append('allowDuplicate', 'true');
+        response = await authenticatedFetch('/api/purchasing/po/extract/jobs', {
+          method: 'POST',
+          body: formData,
+        });
+        queued = await response.json();
+      }
 
       if (!response.ok) {
-        throw new Error(data.error || 'Extraction failed');
+        throw new Error(queued.error || 'Extraction failed');
       }
 
-      // Update with extracted data
+      const jobId: string = queued.data.jobId;
       setGroupResults(prev =>
         prev.map((result) =>
           result.group.id === group.id
-            ? {
-                ...result,
-                status: 'extracted' as const,
-                extractedData: data.data,
-                duplicatesChecked: false,
-              }
+            ? { ...result, job: { id: jobId, fileCount: group.files.length, progress: 'Queued...' } }
             : result
         )
       );
 
-      // Check for duplicates
-      try {
-        // Skip duplicate check if supplier name is not available
-        if (!data.data.supplier?.name || data.data.supplier.name.trim() === '') {
-          console.log('Skipping duplicate check: no supplier name found');
-          setGroupResults(prev =>
-            prev.map((result) =>
-              result.group.id === group.id
-                ? { ...result, duplicatesChecked: true, duplicates: [] }
-                : result
-            )
-          );
-        } else {
-          const duplicateResponse = await authenticatedFetch('/api/purchasing/po/check-duplicates', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              supplierName: data.data.supplier.name,
-              invoiceNumber: data.data.purchaseOrder.invoiceNumber,
-              invoiceDate: data.data.purchaseOrder.invoiceDate,
-              poLines: data.data.poLines,
-            }),
-          });
-
-          if (duplicateResponse.ok) {
-            const duplicateData = await duplicateResponse.json();
-            if (duplicateData.hasDuplicates) {
-              setGroupResults(prev =>
-                prev.map((result) =>
-                  result.group.id === group.id
-                    ? {
-                        ...result,
-                        duplicates: duplicateData.duplicates,
-                        duplicatesChecked: true,
-                      }
-                    : result
-                )
-              );
-            } else {
-              setGroupResults(prev =>
-                prev.map((result) =>
-                  result.group.id === group.id
-                    ? { ...result, duplicatesChecked: true, duplicates: [] }
-                    : result
-                )
-              );
-            }
-          } else {
-            const errorData = await duplicateResponse.json();
-            console.error('Failed to check duplicates:', errorData.error);
-            // Continue without duplicate check
-            setGroupResults(prev =>
-              prev.map((result) =>
-                result.group.id === group.id
-                  ? { ...result, duplicatesChecked: true, duplicates: [] }
-                  : result
-              )
-            );
-          }
-        }
-      } catch (err) {
-        // Update with error
-        setGroupResults(prev =>
-          prev.map((result) =>
-            result.group.id === group.id
-              ? {
-                  ...result,
-                  status: 'error' as const,
-                  error: err instanceof Error ? err.message : 'An error occurred',
-                }
-              : result
-          )
-        );
-      }
+      const job = await waitForExtractionJob(jobId, (progress) => setJobProgress(group.id, progress));
+      await showExtractionResult(group.id, job.result, job.savedCandidates);
     } catch (err) {
       // Update with error
       setGroupResults(prev =>
@@ -542,6 +852,68 @@ function ImportPageContent() {
     }
   };
 
+  // Open a job from the queue: show its result, or follow it until it finishes
+  const handleOpenJob = async (job: ExtractionJob) => {
+    if (groupResults.some(r => r.job?.id === job.id && r.status !== 'cancelled' && r.status !== 'split')) return;
+
+    const group: FileGroup = { id: job.id, name: job.label || 'Queued invoice', files: [] };
+    setGroupResults(prev => [
+      ...prev.filter(r => r.group.id !== job.id && !r.group.id.startsWith(`${job.id}:`)),
+      { group, status: 'processing' as const, job: { id: job.id, fileCount: job.files.length, progress: describeJobProgress(job) } },
+    ]);
+
+    try {
+      const finished = await waitForExtractionJob(job.id, (progress) => setJobProgress(job.id, progress));
+      await showExtractionResult(job.id, finished.result, finished.savedCandidates);
+    } catch (err) {
+      setGroupResults(prev =>
+        prev.map((result) =>
+          result.group.id === job.id
+            ? { ...result, status: 'error' as const, error: err instanceof Error ? err.message : 'An error occurred' }
+            : result
+        )
+      );
+    }
+  };
+
+  const handleRetryJob = async (job: ExtractionJob) => {
+    try {
+      const response = await authenticatedFetch('/api/purchasing/po/extract/jobs', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ id: job.id, action: 'retry' }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to retry extraction');
+      }
+      await handleOpenJob({ ...job, status: 'queued', attempts: 0, lastError: null });
+      await loadQueuedJobs();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to retry extraction');
+    }
+  };
+
+  const handleRemoveJob = async (job: ExtractionJob) => {
+    if (!confirm(`Remove "${job.label || 'queued invoice'}" and its uploaded files?`)) return;
+
+    try {
+      const response = await authenticatedFetch(`/api/purchasing/po/extract/jobs?id=${job.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to remove extraction');
+      }
+      setQueuedJobs(prev => prev.filter(j => j.id !== job.id));
+      setGroupResults(prev => prev.filter(r => r.job?.id !== job.id));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to remove extraction');
+    }
+  };
+
   // Analyze a specific group
   const handleAnalyzeGroup = async (groupId: string) => {
     const groupIndex = fileGroups.findIndex(g => g.id === groupId);
@@ -579,10 +951,8 @@ function ImportPageContent() {
     }));
     setGroupResults(initialResults);
 
-    // Process groups one by one
-    for (let i = 0; i < fileGroups.length; i++) {
-      await analyzeGroup(i, fileGroups[i]);
-    }
+    // Queue every group; the server extracts them in the background while we poll
+    await Promise.all(fileGroups.map((group, i) => analyzeGroup(i, group)));
 
     setLoading(false);
   };
@@ -662,7 +1032,7 @@ function ImportPageContent() {
                 <input
                   id="file-upload"
                   type="file"
-                  accept="image/*,.png,.jpg,.jpeg,.pdf,application/pdf"
+                  accept="image/*,.png,.jpg,.jpeg,.pdf,application/pdf,.xml,application/xml,text/xml"
                   onChange={handleFileChange}
                   disabled={loading}
                   multiple
@@ -719,7 +1089,7 @@ function ImportPageContent() {
                   {fileGroups.map((group) => {
                     const groupResult = groupResults.find(r => r.group.id === group.id);
                     const isProcessing = groupResult?.status === 'processing';
-                    const isExtracted = groupResult?.status === 'extracted';
+                    const isExtracted = groupResult?.status === 'extracted' || groupResult?.status === 'split';
                     const hasError = groupResult?.status === 'error';
                     
                     return (
@@ -768,10 +1138,20 @@ function ImportPageContent() {
                           <p className="text-xs text-stone-500 dark:text-stone-400">
                             {group.files.length} file{group.files.length !== 1 ? 's' : ''}
                           </p>
+                          <label className="flex items-center gap-1 text-xs text-stone-600 dark:text-stone-400" title="The files may contain several invoices, e.g. a monthly statement; each is reviewed and saved separately">
+                            <input
+                              type="checkbox"
+                              checked={!!group.split}
+                              onChange={(e) => handleToggleSplit(group.id, e.target.checked)}
+                              disabled={loading}
+                              className="rounded border-stone-300 text-amber-600 focus:ring-amber-600"
+                            />
+                            Several invoices
+                          </label>
                           <button
                             type="button"
                             onClick={() => handleAnalyzeGroup(group.id)}
-                            disabled={loading || groupResults.some(r => r.group.id === group.id && (r.status === 'processing' || r.status === 'extracted' || r.status === 'success'))}
+                            disabled={loading || groupResults.some(r => r.group.id === group.id && (r.status === 'processing' || r.status === 'extracted' || r.status === 'success' || r.status === 'split'))}
                             className="text-xs px-2 py-1 bg-amber-600 text-white rounded hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                           >
                             {groupResults.find(r => r.group.id === group.id)?.status === 'processing' ? 'Analyzing...' : 'Analyze'}
@@ -913,12 +1293,75 @@ function ImportPageContent() {
           </div>
         )}
 
+        {/* Queued extractions from earlier uploads, waiting for review */}
+        {queuedJobs.some(job => !groupResults.some(r => r.job?.id === job.id && r.status !== 'cancelled' && r.status !== 'split')) && (
+          <div className="bg-white dark:bg-stone-800 rounded-lg shadow-md p-6 mb-6 border border-stone-200 dark:border-stone-700">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-lg font-semibold text-stone-900 dark:text-stone-100">Queued invoices</h2>
+              <button
+                type="button"
+                onClick={loadQueuedJobs}
+                className="text-sm text-amber-600 hover:text-amber-700 font-medium"
+              >
+                Refresh
+              </button>
+            </div>
+            <ul className="divide-y divide-stone-200 dark:divide-stone-700">
+              {queuedJobs
+                .filter(job => !groupResults.some(r => r.job?.id === job.id && r.status !== 'cancelled' && r.status !== 'split'))
+                .map(job => (
+                  <li key={job.id} className="py-2 flex flex-wrap items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-stone-900 dark:text-stone-100 truncate">{job.label || 'Queued invoice'}</p>
+                      <p className="text-xs text-stone-500 dark:text-stone-400">
+                        {new Date(job.createdAt).toLocaleString()} · {job.files.length} file{job.files.length !== 1 ? 's' : ''} ·{' '}
+                        {job.source === 'email' && `Emailed${job.sender ? ` by ${job.sender}` : ''} · `}
+                        {job.status === 'succeeded'
+                          ? 'Ready to review'
+                          : job.status === 'dead'
+                          ? `Failed${job.lastError ? `: ${job.lastError.message}` : ''}`
+                          : describeJobProgress(job)}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      {job.status === 'dead' ? (
+                        <button
+                          type="button"
+                          onClick={() => handleRetryJob(job)}
+                          className="px-3 py-1.5 text-xs font-medium rounded-md text-white bg-amber-600 hover:bg-amber-700"
+                        >
+                          Retry
+                        </button>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => handleOpenJob(job)}
+                          className="px-3 py-1.5 text-xs font-medium rounded-md text-white bg-amber-600 hover:bg-amber-700"
+                        >
+                          {job.status === 'succeeded' ? 'Review' : 'Follow'}
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveJob(job)}
+                        disabled={job.status === 'processing'}
+                        className="px-3 py-1.5 text-xs font-medium rounded-md border border-stone-200 dark:border-stone-700 text-stone-700 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-stone-700 disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </li>
+                ))}
+            </ul>
+          </div>
+        )}
+
         {/* Results Display */}
-        {groupResults.some(r => r.status !== 'success' && r.status !== 'cancelled') && (
+        {groupResults.some(r => r.status !== 'success' && r.status !== 'cancelled' && r.status !== 'split') && (
           <div className="space-y-4">
             {groupResults.map((result, index) => {
-              // Don't display groups that have been accepted or cancelled
-              if (result.status === 'success' || result.status === 'cancelled') {
+              // Don't display groups that have been accepted, cancelled or split into their invoices
+              if (result.status === 'success' || result.status === 'cancelled' || result.status === 'split') {
                 return null;
               }
               
@@ -943,12 +1386,14 @@ function ImportPageContent() {
                   )}
                   <h3 className="text-lg font-semibold text-stone-900 dark:text-stone-100">{result.group.name}</h3>
                   <span className="text-sm text-stone-500 dark:text-stone-400">
-                    ({result.group.files.length} file{result.group.files.length !== 1 ? 's' : ''})
+                    {result.candidate
+                      ? `(invoice ${result.candidate.index + 1} of ${result.candidate.count}${result.candidate.pages?.length ? ` · ${result.candidate.pages.length === 1 ? `page ${result.candidate.pages[0]}` : `pages ${result.candidate.pages[0]}–${result.candidate.pages[result.candidate.pages.length - 1]}`}` : ''})`
+                      : `(${result.job?.fileCount ?? result.group.files.length} file${(result.job?.fileCount ?? result.group.files.length) !== 1 ? 's' : ''})`}
                   </span>
                 </div>
 
                 {result.status === 'processing' && (
-                  <p className="text-sm text-stone-600 dark:text-stone-400">Analyzing files...</p>
+                  <p className="text-sm text-stone-600 dark:text-stone-400">{result.job?.progress || 'Analyzing files...'}</p>
                 )}
 
                 {result.status === 'error' && (
@@ -1002,6 +1447,54 @@ function ImportPageContent() {
                       </div>
                     )}
 
+                    {/* Extracted locally (e-invoice or PDF text layer) rather than by AI */}
+                    {result.method === 'text' && (
+                      <p className="text-xs text-stone-600 dark:text-stone-400">
+                        Read from the PDF text layer ({result.profile === 'generic' ? 'generic table parser' : `supplier layout: ${result.profile}`}) – no AI extraction used.
+                      </p>
+                    )}
+                    {(result.method === 'ubl' || result.method === 'cii') && (
+                      <p className="text-xs text-stone-600 dark:text-stone-400">
+                        Read directly from a {result.method === 'ubl' ? 'UBL / Peppol' : 'Factur-X / ZUGFeRD'} e-invoice – no AI extraction used.
+                        {result.profile ? ` Profile: ${result.profile}` : ''}
+                      </p>
+                    )}
+
+                    {result.method === 'ai' && result.supplierTemplate && (
+                      <p className="text-xs text-stone-600 dark:text-stone-400">
+                        Matched {result.supplierTemplate.supplierName}
+                        {result.supplierTemplate.appliedRules.length > 0
+                          ? ` – applied ${result.supplierTemplate.appliedRules.length} learned correction rule${result.supplierTemplate.appliedRules.length === 1 ? '' : 's'} (${result.supplierTemplate.appliedRules.map((rule) => rule.replace(/_/g, ' ')).join(', ')}).`
+                          : ' – extracted with hints learned from your earlier corrections.'}
+                      </p>
+                    )}
+
+                    {/* Extraction Self-Check */}
+                    {result.validation && (
+                      result.validation.warnings.length > 0 ? (
+                        <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-4">
+                          <div className="flex items-center justify-between mb-2">
+                            <h3 className="text-sm font-medium text-amber-800 dark:text-amber-300">Check before saving</h3>
+                            <span className="text-xs font-semibold text-amber-700 dark:text-amber-400">
+                              Extraction confidence: {Math.round(result.validation.confidence * 100)}%
+                            </span>
+                          </div>
+                          <ul className="space-y-1 text-sm text-amber-700 dark:text-amber-300">
+                            {result.validation.warnings.map((warning, warningIdx) => (
+                              <li key={warningIdx} className="flex items-start gap-2">
+                                <span className={`mt-1.5 h-1.5 w-1.5 rounded-full flex-shrink-0 ${warning.severity === 'error' ? 'bg-red-600' : 'bg-amber-600'}`} />
+                                <span>{warning.message}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      ) : (
+                        <p className="text-xs text-green-700 dark:text-green-400">
+                          Line totals, subtotal and total all add up (extraction confidence {Math.round(result.validation.confidence * 100)}%).
+                        </p>
+                      )
+                    )}
+
                     {/* Supplier Information */}
                     <div>
                       <h4 className="text-sm font-semibold text-stone-900 dark:text-stone-100 mb-3">Supplier Information</h4>
@@ -1084,6 +1577,12 @@ function ImportPageContent() {
                             onChange={(e) => updateField(index, 'purchaseOrder.originalCurrency', e.target.value)}
                             className="w-full px-3 py-2 border border-stone-200 dark:border-stone-700 bg-[#f9f9f8] dark:bg-stone-900 rounded-md text-sm text-stone-900 dark:text-stone-100 focus:outline-none focus:ring-2 focus:ring-amber-600"
                           />
+                          {getEditableData(index)?.purchaseOrder.exchangeRate && getEditableData(index)?.purchaseOrder.originalCurrency?.toUpperCase() !== 'GBP' && (
+                            <p className="mt-1 text-xs text-stone-500 dark:text-stone-400">
+                              Converted at 1 {getEditableData(index)?.purchaseOrder.originalCurrency?.toUpperCase()} = £{Number(getEditableData(index)?.purchaseOrder.exchangeRate).toFixed(4)}
+                              {getEditableData(index)?.purchaseOrder.exchangeRateSource ? ` (${getEditableData(index)?.purchaseOrder.exchangeRateSource})` : ''}
+                            </p>
+                          )}
                         </div>
                         <div>
                           <label className="block text-xs font-semibold text-stone-600 dark:text-stone-400 mb-1">Payment Terms</label>
@@ -1139,73 +1638,83 @@ function ImportPageContent() {
                             </tr>
                           </thead>
                           <tbody className="bg-white dark:bg-stone-800 divide-y divide-stone-200 dark:divide-stone-700">
-                            {getEditableData(index)?.poLines.map((line, lineIndex) => (
-                              <tr key={lineIndex}>
-                                <td className="px-3 py-2">
-                                  <input
-                                    type="text"
-                                    value={line.description}
-                                    onChange={(e) => updateLineItem(index, lineIndex, 'description', e.target.value)}
-                                    className="w-full px-2 py-1 border border-stone-200 dark:border-stone-700 bg-[#f9f9f8] dark:bg-stone-900 rounded text-sm text-stone-900 dark:text-stone-100 focus:outline-none focus:ring-1 focus:ring-amber-600"
-                                  />
-                                </td>
-                                <td className="px-3 py-2">
-                                  <input
-                                    type="text"
-                                    value={line.supplierSku || ''}
-                                    onChange={(e) => updateLineItem(index, lineIndex, 'supplierSku', e.target.value)}
-                                    className="w-full px-2 py-1 border border-stone-200 dark:border-stone-700 bg-[#f9f9f8] dark:bg-stone-900 rounded text-sm text-stone-900 dark:text-stone-100 focus:outline-none focus:ring-1 focus:ring-amber-600"
-                                  />
-                                </td>
-                                <td className="px-3 py-2">
-                                  <input
-                                    type="number"
-                                    value={line.quantity}
-                                    onChange={(e) => updateLineItem(index, lineIndex, 'quantity', parseFloat(e.target.value) || 0)}
-                                    className="w-full px-2 py-1 border border-stone-200 dark:border-stone-700 bg-[#f9f9f8] dark:bg-stone-900 rounded text-sm text-stone-900 dark:text-stone-100 focus:outline-none focus:ring-1 focus:ring-amber-600"
-                                  />
-                                </td>
-                                <td className="px-3 py-2">
-                                  <input
-                                    type="number"
-                                    step="0.01"
-                                    value={line.unitCostExVAT}
-                                    onChange={(e) => updateLineItem(index, lineIndex, 'unitCostExVAT', parseFloat(e.target.value) || 0)}
-                                    className="w-full px-2 py-1 border border-stone-200 dark:border-stone-700 bg-[#f9f9f8] dark:bg-stone-900 rounded text-sm text-stone-900 dark:text-stone-100 focus:outline-none focus:ring-1 focus:ring-amber-600"
-                                  />
-                                </td>
-                                <td className="px-3 py-2">
-                                  <input
-                                    type="number"
-                                    step="0.01"
-                                    value={line.lineTotalExVAT}
-                                    onChange={(e) => updateLineItem(index, lineIndex, 'lineTotalExVAT', parseFloat(e.target.value) || 0)}
-                                    className="w-full px-2 py-1 border border-stone-200 dark:border-stone-700 bg-[#f9f9f8] dark:bg-stone-900 rounded text-sm text-stone-900 dark:text-stone-100 focus:outline-none focus:ring-1 focus:ring-amber-600"
-                                  />
-                                </td>
-                                <td className="px-3 py-2">
-                                  <input
-                                    type="number"
-                                    step="0.01"
-                                    value={line.rrp || ''}
-                                    onChange={(e) => updateLineItem(index, lineIndex, 'rrp', parseFloat(e.target.value) || null)}
-                                    placeholder="Optional"
-                                    className="w-full px-2 py-1 border border-stone-200 dark:border-stone-700 bg-[#f9f9f8] dark:bg-stone-900 rounded text-sm text-stone-900 dark:text-stone-100 focus:outline-none focus:ring-1 focus:ring-amber-600"
-                                  />
-                                </td>
-                                <td className="px-3 py-2">
-                                  <button
-                                    type="button"
-                                    onClick={() => removeLineItem(index, lineIndex)}
-                                    className="text-amber-600 hover:text-amber-700"
-                                  >
-                                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                                    </svg>
-                                  </button>
-                                </td>
-                              </tr>
-                            ))}
+                            {getEditableData(index)?.poLines.map((line, lineIndex) => {
+                              const lineWarnings = result.validation?.warnings.filter((w) => w.lineIndex === lineIndex) || [];
+                              const flagged = (field: string) => lineWarnings.some((w) => w.field === `poLines[${lineIndex}].${field}`);
+                              const inputClass = (field: string) =>
+                                `w-full px-2 py-1 border ${flagged(field) ? 'border-amber-500 dark:border-amber-500' : 'border-stone-200 dark:border-stone-700'} bg-[#f9f9f8] dark:bg-stone-900 rounded text-sm text-stone-900 dark:text-stone-100 focus:outline-none focus:ring-1 focus:ring-amber-600`;
+                              return (
+                                <tr
+                                  key={lineIndex}
+                                  className={lineWarnings.length > 0 ? 'bg-amber-50 dark:bg-amber-900/20' : undefined}
+                                  title={lineWarnings.length > 0 ? lineWarnings.map((w) => w.message).join('\n') : undefined}
+                                >
+                                  <td className="px-3 py-2">
+                                    <input
+                                      type="text"
+                                      value={line.description}
+                                      onChange={(e) => updateLineItem(index, lineIndex, 'description', e.target.value)}
+                                      className="w-full px-2 py-1 border border-stone-200 dark:border-stone-700 bg-[#f9f9f8] dark:bg-stone-900 rounded text-sm text-stone-900 dark:text-stone-100 focus:outline-none focus:ring-1 focus:ring-amber-600"
+                                    />
+                                  </td>
+                                  <td className="px-3 py-2">
+                                    <input
+                                      type="text"
+                                      value={line.supplierSku || ''}
+                                      onChange={(e) => updateLineItem(index, lineIndex, 'supplierSku', e.target.value)}
+                                      className={inputClass('supplierSku')}
+                                    />
+                                  </td>
+                                  <td className="px-3 py-2">
+                                    <input
+                                      type="number"
+                                      value={line.quantity}
+                                      onChange={(e) => updateLineItem(index, lineIndex, 'quantity', parseFloat(e.target.value) || 0)}
+                                      className={inputClass('quantity')}
+                                    />
+                                  </td>
+                                  <td className="px-3 py-2">
+                                    <input
+                                      type="number"
+                                      step="0.01"
+                                      value={line.unitCostExVAT}
+                                      onChange={(e) => updateLineItem(index, lineIndex, 'unitCostExVAT', parseFloat(e.target.value) || 0)}
+                                      className={inputClass('unitCostExVAT')}
+                                    />
+                                  </td>
+                                  <td className="px-3 py-2">
+                                    <input
+                                      type="number"
+                                      step="0.01"
+                                      value={line.lineTotalExVAT}
+                                      onChange={(e) => updateLineItem(index, lineIndex, 'lineTotalExVAT', parseFloat(e.target.value) || 0)}
+                                      className={inputClass('lineTotalExVAT')}
+                                    />
+                                  </td>
+                                  <td className="px-3 py-2">
+                                    <input
+                                      type="number"
+                                      step="0.01"
+                                      value={line.rrp || ''}
+                                      onChange={(e) => updateLineItem(index, lineIndex, 'rrp', parseFloat(e.target.value) || null)}
+                                      placeholder="Optional"
+                                      className="w-full px-2 py-1 border border-stone-200 dark:border-stone-700 bg-[#f9f9f8] dark:bg-stone-900 rounded text-sm text-stone-900 dark:text-stone-100 focus:outline-none focus:ring-1 focus:ring-amber-600"
+                                    />
+                                  </td>
+                                  <td className="px-3 py-2">
+                                    <button
+                                      type="button"
+                                      onClick={() => removeLineItem(index, lineIndex)}
+                                      className="text-amber-600 hover:text-amber-700"
+                                    >
+                                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                                      </svg>
+                                    </button>
+                                  </td>
+                                </tr>
+                              );
+                            })}
                           </tbody>
                         </table>
                       </div>
@@ -1222,7 +1731,7 @@ function ImportPageContent() {
                             step="0.01"
                             value={getEditableData(index)?.totals.subtotal || 0}
                             onChange={(e) => updateField(index, 'totals.subtotal', parseFloat(e.target.value) || 0)}
-                            className="w-full px-3 py-2 border border-stone-200 dark:border-stone-700 bg-[#f9f9f8] dark:bg-stone-900 rounded-md text-sm text-stone-900 dark:text-stone-100 focus:outline-none focus:ring-2 focus:ring-amber-600"
+                            className={`w-full px-3 py-2 border ${result.validation?.warnings.some((w) => w.field === 'totals.subtotal') ? 'border-amber-500 dark:border-amber-500' : 'border-stone-200 dark:border-stone-700'} bg-[#f9f9f8] dark:bg-stone-900 rounded-md text-sm text-stone-900 dark:text-stone-100 focus:outline-none focus:ring-2 focus:ring-amber-600`}
                           />
                         </div>
                         <div>
@@ -1252,10 +1761,35 @@ function ImportPageContent() {
                             step="0.01"
                             value={getEditableData(index)?.totals.total || 0}
                             onChange={(e) => updateField(index, 'totals.total', parseFloat(e.target.value) || 0)}
-                            className="w-full px-3 py-2 border border-stone-200 dark:border-stone-700 bg-[#f9f9f8] dark:bg-stone-900 rounded-md text-sm text-stone-900 dark:text-stone-100 focus:outline-none focus:ring-2 focus:ring-amber-600"
+                            className={`w-full px-3 py-2 border ${result.validation?.warnings.some((w) => w.field === 'totals.total') ? 'border-amber-500 dark:border-amber-500' : 'border-stone-200 dark:border-stone-700'} bg-[#f9f9f8] dark:bg-stone-900 rounded-md text-sm text-stone-900 dark:text-stone-100 focus:outline-none focus:ring-2 focus:ring-amber-600`}
                           />
                         </div>
                       </div>
+
+                      {/* VAT breakdown (structured e-invoices only) */}
+                      {getEditableData(index)?.vatBreakdown && getEditableData(index)!.vatBreakdown!.length > 0 && (
+                        <table className="mt-4 w-full text-xs text-stone-600 dark:text-stone-400">
+                          <thead>
+                            <tr className="text-left">
+                              <th className="py-1 font-semibold">VAT rate</th>
+                              <th className="py-1 font-semibold text-right">Taxable (GBP)</th>
+                              <th className="py-1 font-semibold text-right">VAT (GBP)</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {getEditableData(index)!.vatBreakdown!.map((entry, entryIdx) => (
+                              <tr key={entryIdx}>
+                                <td className="py-1">
+                                  {entry.ratePercent !== null ? `${entry.ratePercent}%` : '—'}
+                                  {entry.categoryCode ? ` (${entry.categoryCode})` : ''}
+                                </td>
+                                <td className="py-1 text-right">£{entry.taxableAmount.toFixed(2)}</td>
+                                <td className="py-1 text-right">£{entry.taxAmount.toFixed(2)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
                     </div>
 
                     {/* Action Buttons */}
@@ -1326,6 +1860,20 @@ function ImportPageContent() {
                 </div>
               </div>
             )}
+            <label className="flex items-start gap-2 mb-4 text-sm text-stone-700 dark:text-stone-300">
+              <input
+                type="checkbox"
+                checked={manualAsDraft}
+                onChange={(e) => setManualAsDraft(e.target.checked)}
+                className="mt-0.5 rounded border-stone-300 text-amber-600 focus:ring-amber-600"
+              />
+              <span>
+                Save as a draft order to send to the supplier
+                <span className="block text-xs text-stone-500 dark:text-stone-400">
+                  Nothing goes into transit until the order is marked as ordered. Download the PDF from View Orders.
+                </span>
+              </span>
+            </label>
             <PurchaseOrderForm
               key={manualFormKey}
               initialData={{
@@ -1345,7 +1893,7 @@ function ImportPageContent() {
               onSubmit={handleManualSubmit}
               title="Purchase order details"
               description="Fill in the supplier, invoice, and line item details. All prices should be entered in GBP."
-              submitButtonText="Save Purchase Order"
+              submitButtonText={manualAsDraft ? 'Save Draft Order' : 'Save Purchase Order'}
               loading={manualSaving}
               error={manualError || undefined}
             />
@@ -29,9 +29,96 @@ interface PurchaseOrder {
   extras: number | null;
   vat: number | null;
   totalAmount: number | null;
+  landedCostMethod: LandedCostMethod;
+  sourceCurrency: string | null;
+  fxRate: number | null;
+  fxRateDate: string | null;
+  fxRateSource: string | null;
+  originalTotal: number | null;
+  status: POStatus;
+  orderedAt: string | null;
+  shippedAt: string | null;
+  partiallyReceivedAt: string | null;
+  receivedAt: string | null;
+  closedAt: string | null;
+  cancelledAt: string | null;
+  // Bumped on every edit; edits must send the revision they were made against
+  revision: number;
   createdAt: string;
 }
 
+// The server's copy of a purchase order returned when an edit hits a newer revision
+type PurchaseOrderServerState = Pick<
+  PurchaseOrder,
+  'id' | 'supplierId' | 'invoiceNumber' | 'invoiceDate' | 'currency' | 'paymentTerms' | 'notes' | 'extras' | 'landedCostMethod' | 'status' | 'revision'
+>;
+
+type POEditForm = {
+  invoiceNumber: string;
+  invoiceDate: string;
+  currency: string;
+  paymentTerms: string;
+  extras: number;
+  landedCostMethod: LandedCostMethod;
+};
+
+const PO_EDIT_FIELD_LABELS: Record<keyof POEditForm, string> = {
+  invoiceNumber: 'Invoice number',
+  invoiceDate: 'Invoice date',
+  currency: 'Currency',
+  paymentTerms: 'Payment terms',
+  extras: 'Extras',
+  landedCostMethod: 'Landed cost basis',
+};
+
+const poEditFormFrom = (po: PurchaseOrderServerState): POEditForm => ({
+  invoiceNumber: po.invoiceNumber || '',
+  invoiceDate: po.invoiceDate || '',
+  currency: po.currency,
+  paymentTerms: po.paymentTerms || '',
+  extras: po.extras ?? 0,
+  landedCostMethod: po.landedCostMethod || 'value',
+});
+
+type LandedCostMethod = 'value' | 'quantity' | 'weight';
+
+type POStatus = 'draft' | 'ordered' | 'shipped' | 'partially_received' | 'received' | 'closed' | 'cancelled';
+
+type POStatusFilter = POStatus | 'open' | 'all';
+
+const PO_STATUS_LABELS: Record<POStatus, string> = {
+  draft: 'Draft',
+  ordered: 'Ordered',
+  shipped: 'Shipped',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  closed: 'Closed',
+  cancelled: 'Cancelled',
+};
+
+// Mirrors the transitions enforced by /api/purchasing/po/update
+const PO_STATUS_TRANSITIONS: Record<POStatus, POStatus[]> = {
+  draft: ['ordered', 'cancelled'],
+  ordered: ['shipped', 'partially_received', 'received', 'cancelled'],
+  shipped: ['partially_received', 'received', 'cancelled'],
+  partially_received: ['received', 'closed'],
+  received: ['closed'],
+  closed: [],
+  cancelled: [],
+};
+
+const OPEN_PO_STATUSES: POStatus[] = ['draft', 'ordered', 'shipped', 'partially_received'];
+
+const PO_STATUS_BADGE_CLASSES: Record<POStatus, string> = {
+  draft: 'bg-stone-100 text-stone-700 dark:bg-stone-700 dark:text-stone-200',
+  ordered: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  shipped: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-300',
+  partially_received: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  received: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  closed: 'bg-stone-200 text-stone-700 dark:bg-stone-700 dark:text-stone-300',
+  cancelled: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+};
+
 interface POLine {
   id: string;
   purchaseOrderId: string;
@@ -41,6 +128,8 @@ interface POLine {
   unitCostExVAT: number;
   lineTotalExVAT: number;
   rrp: number | null;
+  weightKg: number | null;
+  landedUnitCostGBP: number | null;
 }
 
 type TransitStatus = 'in_transit' | 'partially_received' | 'received';
@@ -53,12 +142,125 @@ interface TransitRecord {
   supplierId: string;
   quantity: number;
   remainingQuantity: number;
+  writtenOffQuantity?: number;
+  returnedQuantity?: number;
   unitCostGBP: number;
   status: TransitStatus;
   createdAt: string;
   updatedAt: string;
 }
 
+type ShortfallAction = 'keep_open' | 'write_off';
+
+interface GoodsReceivedNoteLine {
+  id: string;
+  poLineId: string | null;
+  description: string | null;
+  expectedQuantity: number;
+  receivedQuantity: number;
+  damagedQuantity: number;
+  shortQuantity: number;
+  overQuantity: number;
+  acceptedQuantity: number;
+  shortfallAction: ShortfallAction;
+  note: string | null;
+  photoUrl: string | null;
+}
+
+interface GoodsReceivedNote {
+  id: string;
+  grnNumber: string;
+  purchaseOrderId: string;
+  receivedAt: string;
+  notes: string | null;
+  lines: GoodsReceivedNoteLine[];
+}
+
+interface DeliveryLineInput {
+  received: string;
+  damaged: string;
+  shortfallAction: ShortfallAction;
+  note: string;
+  photo: File | null;
+}
+
+type ReturnSource = 'on_hand' | 'transit';
+
+interface SupplierReturnLine {
+  id: string;
+  poLineId: string | null;
+  description: string | null;
+  source: ReturnSource;
+  quantity: number;
+  valueGBP: number;
+}
+
+interface SupplierReturn {
+  id: string;
+  returnNumber: string;
+  purchaseOrderId: string;
+  reason: string | null;
+  returnedAt: string;
+  totalValueGBP: number;
+  status: 'awaiting_credit' | 'credited';
+  creditNoteNumber: string | null;
+  creditAmountGBP: number | null;
+  lines: SupplierReturnLine[];
+}
+
+interface ReturnLineInput {
+  onHand: string;
+  transit: string;
+}
+
+interface InvoiceLineForm {
+  poLineId: string | null;
+  description: string;
+  quantity: string;
+  unitCostExVAT: string;
+}
+
+interface InvoiceForm {
+  invoiceNumber: string;
+  invoiceDate: string;
+  extras: string;
+  vat: string;
+  totalAmount: string;
+  lines: InvoiceLineForm[];
+}
+
+type DiscrepancyKind = 'price_variance' | 'quantity_variance' | 'unreceived' | 'unbilled' | 'not_on_order' | 'total_variance';
+
+interface MatchDiscrepancy {
+  kind: DiscrepancyKind;
+  poLineId: string | null;
+  description: string;
+  expected: number;
+  actual: number;
+  amountGBP: number;
+  message: string;
+}
+
+interface ThreeWayMatchReport {
+  status: 'matched' | 'discrepancy';
+  discrepancies: MatchDiscrepancy[];
+  totals: {
+    orderedGBP: number;
+    receivedGBP: number;
+    invoicedGBP: number;
+    atRiskGBP: number;
+  };
+}
+
+const DISCREPANCY_LABELS: Record<DiscrepancyKind, string> = {
+  price_variance: 'Price variance',
+  quantity_variance: 'Over-billed quantity',
+  unreceived: 'Billed, not received',
+  unbilled: 'Received, not billed',
+  not_on_order: 'Not on order',
+  total_variance: 'Total mismatch',
+};
+
 interface DatabaseData {
   suppliers: Supplier[];
   purchaseOrders: PurchaseOrder[];
@@ -72,12 +274,15 @@ export default function ViewDataPage() {
   const [error, setError] = useState<string | null>(null);
   const [deleting, setDeleting] = useState<string | null>(null);
   const [editingPO, setEditingPO] = useState<PurchaseOrder | null>(null);
-  const [editFormData, setEditFormData] = useState({
+  const [editFormData, setEditFormData] = useState<POEditForm>({
     invoiceNumber: '',
     invoiceDate: '',
     currency: 'USD',
     paymentTerms: '',
+    extras: 0,
+    landedCostMethod: 'value',
   });
+  const [editConflict, setEditConflict] = useState<PurchaseOrderServerState | null>(null);
   const [editingLines, setEditingLines] = useState<POLine[]>([]);
   const [saving, setSaving] = useState(false);
   const [showExportModal, setShowExportModal] = useState(false);
@@ -85,11 +290,30 @@ export default function ViewDataPage() {
   const [receivingLineId, setReceivingLineId] = useState<string | null>(null);
   const [receivingPOId, setReceivingPOId] = useState<string | null>(null);
   const [receiveQuantities, setReceiveQuantities] = useState<Record<string, string>>({});
-  const [statusFilter, setStatusFilter] = useState<'in_transit' | 'received'>('in_transit');
+  const [statusFilter, setStatusFilter] = useState<POStatusFilter>('open');
+  const [changingStatusPOId, setChangingStatusPOId] = useState<string | null>(null);
   const [expandedImages, setExpandedImages] = useState<Record<string, boolean>>({});
   const [showNotesModal, setShowNotesModal] = useState(false);
   const [selectedNotes, setSelectedNotes] = useState<{poId: string, notes: string, supplierName: string, invoiceNumber: string} | null>(null);
   const [headerScrolled, setHeaderScrolled] = useState(false);
+  const [reconvertingPOId, setReconvertingPOId] = useState<string | null>(null);
+  const [downloadingPdfPOId, setDownloadingPdfPOId] = useState<string | null>(null);
+  const [deliveryPO, setDeliveryPO] = useState<PurchaseOrder | null>(null);
+  const [deliveryLines, setDeliveryLines] = useState<Record<string, DeliveryLineInput>>({});
+  const [deliveryNotes, setDeliveryNotes] = useState('');
+  const [savingDelivery, setSavingDelivery] = useState(false);
+  const [goodsReceivedNotes, setGoodsReceivedNotes] = useState<Record<string, GoodsReceivedNote[]>>({});
+  const [loadingGrnPOId, setLoadingGrnPOId] = useState<string | null>(null);
+  const [supplierReturns, setSupplierReturns] = useState<Record<string, SupplierReturn[]>>({});
+  const [returnPO, setReturnPO] = useState<PurchaseOrder | null>(null);
+  const [returnLines, setReturnLines] = useState<Record<string, ReturnLineInput>>({});
+  const [returnReason, setReturnReason] = useState('');
+  const [savingReturn, setSavingReturn] = useState(false);
+  const [matchPO, setMatchPO] = useState<PurchaseOrder | null>(null);
+  const [invoiceForm, setInvoiceForm] = useState<InvoiceForm | null>(null);
+  const [matchReport, setMatchReport] = useState<ThreeWayMatchReport | null>(null);
+  const [loadingMatchPOId, setLoadingMatchPOId] = useState<string | null>(null);
+  const [savingInvoice, setSavingInvoice] = useState(false);
 
   useEffect(() => {
     fetchData();
@@ -158,7 +382,8 @@ export default function ViewDataPage() {
 
     const totalQuantity = records.reduce((sum, r) => sum + (r.quantity || 0), 0);
     const totalRemaining = records.reduce((sum, r) => sum + (r.remainingQuantity || 0), 0);
-    const receivedQuantity = Math.max(totalQuantity - totalRemaining, 0);
+    const totalWrittenOff = records.reduce((sum, r) => sum + (r.writtenOffQuantity || 0) + (r.returnedQuantity || 0), 0);
+    const receivedQuantity = Math.max(totalQuantity - totalRemaining - totalWrittenOff, 0);
 
     let status: 'not_received' | 'partial' | 'received';
     if (receivedQuantity <= 0) {
@@ -188,13 +413,22 @@ export default function ViewDataPage() {
     return { totalOrdered, totalReceived, totalRemaining };
   };
 
-  const getPOStatus = (purchaseOrderId: string): 'received' | 'in_transit' => {
-    const summary = getPOReceiveSummary(purchaseOrderId);
-    return summary.totalRemaining <= 0 ? 'received' : 'in_transit';
+  const filterPOsByStatus = (pos: PurchaseOrder[]) => {
+    if (statusFilter === 'all') return pos;
+    if (statusFilter === 'open') return pos.filter(po => OPEN_PO_STATUSES.includes(po.status));
+    return pos.filter(po => po.status === statusFilter);
   };
 
-  const filterPOsByStatus = (pos: PurchaseOrder[]) => {
-    return pos.filter(po => getPOStatus(po.id) === statusFilter);
+  const getStatusTimestamp = (po: PurchaseOrder): string | null => {
+    switch (po.status) {
+      case 'ordered': return po.orderedAt;
+      case 'shipped': return po.shippedAt;
+      case 'partially_received': return po.partiallyReceivedAt;
+      case 'received': return po.receivedAt;
+      case 'closed': return po.closedAt;
+      case 'cancelled': return po.cancelledAt;
+      default: return po.createdAt;
+    }
   };
 
   const formatDate = (dateString: string | null) => {
@@ -344,34 +578,149 @@ export default function ViewDataPage() {
     }
   };
 
+  const handleStatusChange = async (po: PurchaseOrder, status: POStatus) => {
+    if (status === 'cancelled' && !window.confirm('Cancel this purchase order?')) {
+      return;
+    }
+
+    setChangingStatusPOId(po.id);
+    try {
+      const response = await authenticatedFetch(`/api/purchasing/po/update?id=${po.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, revision: po.revision }),
+      });
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        if (response.status === 409 && result.current) {
+          const current = result.current as PurchaseOrderServerState;
+          const moveAnyway = window.confirm(
+            `${result.error}. It is now ${PO_STATUS_LABELS[current.status]}.\n\nOK to move it to ${PO_STATUS_LABELS[status]} anyway, Cancel to reload it.`,
+          );
+          if (moveAnyway) {
+            await handleStatusChange({ ...po, ...current }, status);
+          } else {
+            await fetchData();
+          }
+          return;
+        }
+        throw new Error(result.error || 'Failed to update status');
+      }
+
+      await fetchData();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update status');
+    } finally {
+      setChangingStatusPOId(null);
+    }
+  };
+
+  // The PDF endpoint needs the auth header, so fetch it and open the blob
+  const handleDownloadPdf = async (po: PurchaseOrder) => {
+    setDownloadingPdfPOId(po.id);
+    try {
+      const response = await authenticatedFetch(`/api/purchasing/po/pdf?id=${po.id}`);
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || 'Failed to generate PDF');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      window.open(url, '_blank');
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to generate PDF');
+    } finally {
+      setDownloadingPdfPOId(null);
+    }
+  };
+
+  const handleReconvert = async (po: PurchaseOrder) => {
+    if (!po.sourceCurrency) return;
+
+    const rateInput = window.prompt(
+      `Re-convert this purchase order at a different rate.\n\nGBP per 1 ${po.sourceCurrency} (currently ${po.fxRate ?? 'unknown'}).\nLeave blank to use the stored rate for the date you enter next:`,
+      '',
+    );
+    if (rateInput === null) return;
+
+    const rate = rateInput.trim() ? parseFloat(rateInput) : null;
+    if (rate !== null && (!Number.isFinite(rate) || rate <= 0)) {
+      alert('Please enter a valid exchange rate.');
+      return;
+    }
+
+    const rateDateInput = window.prompt(
+      'Date of this rate (YYYY-MM-DD), e.g. the payment date:',
+      new Date().toISOString().split('T')[0],
+    );
+    if (rateDateInput === null) return;
+
+    setReconvertingPOId(po.id);
+    try {
+      const response = await authenticatedFetch(`/api/purchasing/po/reconvert?id=${po.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(rate !== null ? { rate } : {}),
+          rateDate: rateDateInput.trim() || null,
+          revision: po.revision,
+        }),
+      });
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        if (response.status === 409) {
+          // Show the other person's changes before the user decides to re-convert again
+          await fetchData();
+          throw new Error(`${result.error}. It has been reloaded – re-convert it again if still needed.`);
+        }
+        throw new Error(result.error || 'Failed to re-convert purchase order');
+      }
+
+      await fetchData();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to re-convert purchase order');
+    } finally {
+      setReconvertingPOId(null);
+    }
+  };
+
   const handleEdit = (po: PurchaseOrder) => {
     const poLines = data?.poLines.filter(line => line.purchaseOrderId === po.id) || [];
     setEditingPO(po);
     setEditingLines([...poLines]);
-    setEditFormData({
-      invoiceNumber: po.invoiceNumber || '',
-      invoiceDate: po.invoiceDate || '',
-      currency: po.currency,
-      paymentTerms: po.paymentTerms || '',
-    });
+    setEditFormData(poEditFormFrom(po));
+    setEditConflict(null);
   };
 
-  const handleSave = async () => {
+  const handleSave = () => {
     if (!editingPO) return;
+    return savePOEdit(editingPO, editFormData);
+  };
 
+  const savePOEdit = async (editingPO: PurchaseOrder, editFormData: POEditForm) => {
     setSaving(true);
     try {
-      // 1. Update the PO itself
-      const poResponse = await authenticatedFetch(`/api/purchasing/po/update?id=${editingPO.id}`, {
+      // 1. Save the header first: if someone else changed the PO since it was opened,
+      // stop here before any line is touched
+      const headerResponse = await authenticatedFetch(`/api/purchasing/po/update?id=${editingPO.id}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(editFormData),
+        body: JSON.stringify({ ...editFormData, revision: editingPO.revision }),
       });
 
-      if (!poResponse.ok) {
-        throw new Error('Failed to update purchase order');
+      const headerResult = await headerResponse.json().catch(() => ({}));
+      if (headerResponse.status === 409 && headerResult.current) {
+        setEditConflict(headerResult.current);
+        return;
+      }
+      if (!headerResponse.ok) {
+        throw new Error(headerResult.error || 'Failed to update purchase order');
       }
 
       // 2. Get original lines for comparison
@@ -425,6 +774,7 @@ export default function ViewDataPage() {
             quantity: line.quantity,
             unitCostExVAT: line.unitCostExVAT,
             lineTotalExVAT: line.lineTotalExVAT,
+            weightKg: line.weightKg,
           }),
         });
       }
@@ -433,6 +783,7 @@ export default function ViewDataPage() {
       await fetchData();
       setEditingPO(null);
       setEditingLines([]);
+      setEditConflict(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update');
     } finally {
@@ -440,6 +791,33 @@ export default function ViewDataPage() {
     }
   };
 
+  // Apply this edit on top of the other person's version; fields left untouched take their values
+  const handleApplyMyPOChanges = () => {
+    if (!editingPO || !editConflict) return;
+
+    const base = poEditFormFrom(editingPO);
+    const theirs = poEditFormFrom(editConflict);
+    const merged = { ...editFormData };
+    (Object.keys(merged) as Array<keyof POEditForm>).forEach((field) => {
+      if (merged[field] === base[field]) {
+        Object.assign(merged, { [field]: theirs[field] });
+      }
+    });
+
+    const updatedPO = { ...editingPO, ...editConflict };
+    setEditingPO(updatedPO);
+    setEditFormData(merged);
+    setEditConflict(null);
+    return savePOEdit(updatedPO, merged);
+  };
+
+  const handleReloadPO = async () => {
+    setEditingPO(null);
+    setEditingLines([]);
+    setEditConflict(null);
+    await fetchData();
+  };
+
   const handleAddLineItem = () => {
     const newLine: POLine = {
       id: `temp-${Date.now()}`, // Temporary ID for new lines
@@ -450,6 +828,8 @@ export default function ViewDataPage() {
       unitCostExVAT: 0,
       lineTotalExVAT: 0,
       rrp: null,
+      weightKg: null,
+      landedUnitCostGBP: null,
     };
     setEditingLines(prev => [...prev, newLine]);
   };
@@ -502,30 +882,21 @@ export default function ViewDataPage() {
     try {
       setReceivingPOId(po.id);
 
-      for (const line of linesWithRemaining) {
-        const lineStatus = getLineReceiveStatus(line);
-        if (lineStatus.remainingQuantity <= 0) {
-          continue;
-        }
-
-        const transitRecord = data.transit.find(
-          (t) => t.poLineId === line.id && t.remainingQuantity > 0,
-        );
-
-        if (!transitRecord) {
-          continue;
-        }
+      // One delivery, one goods received note, covering every line still in transit
+      const grnLines = linesWithRemaining
+        .filter((line) => data.transit.some((t) => t.poLineId === line.id && t.remainingQuantity > 0))
+        .map((line) => ({
+          poLineId: line.id,
+          receivedQuantity: getLineReceiveStatus(line).remainingQuantity,
+        }));
 
-        const res = await authenticatedFetch('/api/inventory/receive-line', {
+      if (grnLines.length > 0) {
+        const res = await authenticatedFetch('/api/inventory/grn', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({
-            productId: transitRecord.productId,
-            poLineId: line.id,
-            quantity: lineStatus.remainingQuantity,
-          }),
+          body: JSON.stringify({ purchaseOrderId: po.id, lines: grnLines }),
         });
         const json = await res.json();
         if (!res.ok || !json.success) {
@@ -604,6 +975,360 @@ export default function ViewDataPage() {
     }
   };
 
+  const handleOpenDelivery = (po: PurchaseOrder) => {
+    const initial: Record<string, DeliveryLineInput> = {};
+    for (const line of getPOLines(po.id)) {
+      const lineStatus = getLineReceiveStatus(line);
+      if (lineStatus.remainingQuantity <= 0) continue;
+      initial[line.id] = {
+        received: String(lineStatus.remainingQuantity),
+        damaged: '0',
+        shortfallAction: 'keep_open',
+        note: '',
+        photo: null,
+      };
+    }
+    setDeliveryLines(initial);
+    setDeliveryNotes('');
+    setDeliveryPO(po);
+  };
+
+  const handleUpdateDeliveryLine = (lineId: string, updates: Partial<DeliveryLineInput>) => {
+    setDeliveryLines((prev) => ({ ...prev, [lineId]: { ...prev[lineId], ...updates } }));
+  };
+
+  const handleSaveDelivery = async () => {
+    if (!deliveryPO) return;
+
+    const entries = Object.entries(deliveryLines);
+    const lines = [];
+    const formData = new FormData();
+    for (const [lineId, input] of entries) {
+      const received = Number(input.received || 0);
+      const damaged = Number(input.damaged || 0);
+      if (!Number.isFinite(received) || received < 0 || !Number.isFinite(damaged) || damaged < 0 || damaged > received) {
+        alert('Received and damaged quantities must be non-negative, and damaged cannot exceed received.');
+        return;
+      }
+      if (input.photo) formData.append(`photo${lines.length}`, input.photo);
+      lines.push({
+        poLineId: lineId,
+        receivedQuantity: received,
+        damagedQuantity: damaged,
+        shortfallAction: input.shortfallAction,
+        note: input.note.trim() || null,
+      });
+    }
+
+    if (lines.length === 0) {
+      alert('Nothing left to receive on this purchase order.');
+      return;
+    }
+
+    formData.append('data', JSON.stringify({
+      purchaseOrderId: deliveryPO.id,
+      notes: deliveryNotes.trim() || null,
+      lines,
+    }));
+
+    setSavingDelivery(true);
+    try {
+      const res = await authenticatedFetch('/api/inventory/grn', {
+        method: 'POST',
+        body: formData,
+      });
+      const json = await res.json();
+      if (!res.ok || !json.success) {
+        throw new Error(json.error || 'Failed to record delivery');
+      }
+
+      const poId = deliveryPO.id;
+      setDeliveryPO(null);
+      setGoodsReceivedNotes((prev) => ({ ...prev, [poId]: [json.data, ...(prev[poId] || [])] }));
+      await fetchData();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to record delivery');
+    } finally {
+      setSavingDelivery(false);
+    }
+  };
+
+  const handleToggleGoodsReceivedNotes = async (po: PurchaseOrder) => {
+    if (goodsReceivedNotes[po.id]) {
+      setGoodsReceivedNotes((prev) => {
+        const next = { ...prev };
+        delete next[po.id];
+        return next;
+      });
+      setSupplierReturns((prev) => {
+        const next = { ...prev };
+        delete next[po.id];
+        return next;
+      });
+      return;
+    }
+
+    setLoadingGrnPOId(po.id);
+    try {
+      const [res, returnsRes] = await Promise.all([
+        authenticatedFetch(`/api/inventory/grn?purchaseOrderId=${po.id}`),
+        authenticatedFetch(`/api/inventory/returns?purchaseOrderId=${po.id}`),
+      ]);
+      const [json, returnsJson] = await Promise.all([res.json(), returnsRes.json()]);
+      if (!res.ok || !json.success) {
+        throw new Error(json.error || 'Failed to load delivery notes');
+      }
+      if (!returnsRes.ok || !returnsJson.success) {
+        throw new Error(returnsJson.error || 'Failed to load supplier returns');
+      }
+      setGoodsReceivedNotes((prev) => ({ ...prev, [po.id]: json.data }));
+      setSupplierReturns((prev) => ({ ...prev, [po.id]: returnsJson.data }));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to load delivery notes');
+    } finally {
+      setLoadingGrnPOId(null);
+    }
+  };
+
+  const handlePrintGoodsReceivedNote = async (grn: GoodsReceivedNote) => {
+    try {
+      const response = await authenticatedFetch(`/api/inventory/grn/pdf?id=${grn.id}`);
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || 'Failed to generate PDF');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      window.open(url, '_blank');
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to generate PDF');
+    }
+  };
+
+  const handleOpenReturn = (po: PurchaseOrder) => {
+    const initial: Record<string, ReturnLineInput> = {};
+    for (const line of getPOLines(po.id)) {
+      initial[line.id] = { onHand: '0', transit: '0' };
+    }
+    setReturnLines(initial);
+    setReturnReason('');
+    setReturnPO(po);
+  };
+
+  const handleUpdateReturnLine = (lineId: string, updates: Partial<ReturnLineInput>) => {
+    setReturnLines((prev) => ({ ...prev, [lineId]: { ...prev[lineId], ...updates } }));
+  };
+
+  const handlePrintSupplierReturn = async (supplierReturn: SupplierReturn) => {
+    try {
+      const response = await authenticatedFetch(`/api/inventory/returns/pdf?id=${supplierReturn.id}`);
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || 'Failed to generate PDF');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      window.open(url, '_blank');
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to generate PDF');
+    }
+  };
+
+  const handleSaveReturn = async () => {
+    if (!returnPO) return;
+
+    const lines: Array<{ poLineId: string; source: ReturnSource; quantity: number }> = [];
+    for (const [lineId, input] of Object.entries(returnLines)) {
+      const onHand = Number(input.onHand || 0);
+      const transit = Number(input.transit || 0);
+      if (!Number.isFinite(onHand) || onHand < 0 || !Number.isFinite(transit) || transit < 0) {
+        alert('Return quantities must be non-negative numbers.');
+        return;
+      }
+      if (onHand > 0) lines.push({ poLineId: lineId, source: 'on_hand', quantity: onHand });
+      if (transit > 0) lines.push({ poLineId: lineId, source: 'transit', quantity: transit });
+    }
+
+    if (lines.length === 0) {
+      alert('Enter a quantity to return or cancel on at least one line.');
+      return;
+    }
+
+    setSavingReturn(true);
+    try {
+      const res = await authenticatedFetch('/api/inventory/returns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          purchaseOrderId: returnPO.id,
+          reason: returnReason.trim() || null,
+          lines,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok || !json.success) {
+        throw new Error(json.error || 'Failed to record return');
+      }
+
+      const poId = returnPO.id;
+      setReturnPO(null);
+      setSupplierReturns((prev) => (prev[poId] ? { ...prev, [poId]: [json.data, ...prev[poId]] } : prev));
+      await fetchData();
+      if (confirm(`Return ${json.data.returnNumber} recorded. Open the return note to send with the goods?`)) {
+        await handlePrintSupplierReturn(json.data);
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to record return');
+    } finally {
+      setSavingReturn(false);
+    }
+  };
+
+  const handleRecordCreditNote = async (supplierReturn: SupplierReturn) => {
+    const creditNoteNumber = prompt(`Supplier credit note number for ${supplierReturn.returnNumber}:`);
+    if (creditNoteNumber === null) return;
+    const amountText = prompt('Credit amount (GBP):', supplierReturn.totalValueGBP.toFixed(2));
+    if (amountText === null) return;
+
+    const amountGBP = Number(amountText);
+    if (!Number.isFinite(amountGBP) || amountGBP < 0) {
+      alert('Credit amount must be a non-negative number.');
+      return;
+    }
+
+    try {
+      const res = await authenticatedFetch('/api/inventory/returns/credit-note', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          returnId: supplierReturn.id,
+          creditNoteNumber: creditNoteNumber.trim() || null,
+          creditNoteDate: new Date().toISOString().slice(0, 10),
+          amountGBP,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok || !json.success) {
+        throw new Error(json.error || 'Failed to record credit note');
+      }
+
+      setSupplierReturns((prev) => ({
+        ...prev,
+        [supplierReturn.purchaseOrderId]: (prev[supplierReturn.purchaseOrderId] || []).map((r) =>
+          r.id === supplierReturn.id ? json.data : r
+        ),
+      }));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to record credit note');
+    }
+  };
+
+  const handleOpenMatch = async (po: PurchaseOrder) => {
+    setLoadingMatchPOId(po.id);
+    try {
+      const res = await authenticatedFetch(`/api/purchasing/po/invoice?purchaseOrderId=${po.id}`);
+      const json = await res.json();
+      if (!res.ok || !json.success) {
+        throw new Error(json.error || 'Failed to load invoice');
+      }
+
+      // Start from the recorded invoice lines, or the PO lines when nothing has been billed yet
+      const recorded = json.data as {
+        invoice: { invoiceNumber: string | null; invoiceDate: string | null; extras: number | null; vat: number | null; totalAmount: number | null };
+        lines: Array<{ poLineId: string | null; description: string; quantity: number; unitCostExVAT: number }>;
+      } | null;
+      const sourceLines = recorded && recorded.lines.length > 0
+        ? recorded.lines
+        : getPOLines(po.id).map((line) => ({ poLineId: line.id, description: line.description, quantity: line.quantity, unitCostExVAT: line.unitCostExVAT }));
+      const toText = (value: number | null | undefined) => (value != null ? String(value) : '');
+
+      setInvoiceForm({
+        invoiceNumber: recorded?.invoice.invoiceNumber || po.invoiceNumber || '',
+        invoiceDate: recorded?.invoice.invoiceDate || po.invoiceDate || '',
+        extras: toText(recorded?.invoice.extras),
+        vat: toText(recorded?.invoice.vat),
+        totalAmount: toText(recorded?.invoice.totalAmount),
+        lines: sourceLines.map((line) => ({
+          poLineId: line.poLineId,
+          description: line.description,
+          quantity: String(line.quantity),
+          unitCostExVAT: String(line.unitCostExVAT),
+        })),
+      });
+
+      let report: ThreeWayMatchReport | null = null;
+      if (recorded) {
+        const matchRes = await authenticatedFetch(`/api/purchasing/po/match?id=${po.id}`);
+        const matchJson = await matchRes.json();
+        if (matchRes.ok && matchJson.success) {
+          report = matchJson.data.result;
+        }
+      }
+      setMatchReport(report);
+      setMatchPO(po);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to load invoice');
+    } finally {
+      setLoadingMatchPOId(null);
+    }
+  };
+
+  const handleUpdateInvoiceLine = (index: number, updates: Partial<InvoiceLineForm>) => {
+    setInvoiceForm((prev) => prev && {
+      ...prev,
+      lines: prev.lines.map((line, i) => (i === index ? { ...line, ...updates } : line)),
+    });
+  };
+
+  const handleSaveInvoice = async () => {
+    if (!matchPO || !invoiceForm) return;
+
+    const optionalAmount = (value: string) => (value.trim() === '' ? null : Number(value));
+    const lines = invoiceForm.lines
+      .filter((line) => line.description.trim())
+      .map((line) => ({
+        poLineId: line.poLineId,
+        description: line.description.trim(),
+        quantity: Number(line.quantity || 0),
+        unitCostExVAT: Number(line.unitCostExVAT || 0),
+      }));
+
+    if (lines.length === 0) {
+      alert('Add at least one invoice line.');
+      return;
+    }
+
+    setSavingInvoice(true);
+    try {
+      const res = await authenticatedFetch('/api/purchasing/po/invoice', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          purchaseOrderId: matchPO.id,
+          invoiceNumber: invoiceForm.invoiceNumber.trim() || null,
+          invoiceDate: invoiceForm.invoiceDate || null,
+          totals: {
+            extras: optionalAmount(invoiceForm.extras),
+            vat: optionalAmount(invoiceForm.vat),
+            totalAmount: optionalAmount(invoiceForm.totalAmount),
+          },
+          lines,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok || !json.success) {
+        throw new Error(json.error || 'Failed to save invoice');
+      }
+      setMatchReport(json.data?.result ?? null);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save invoice');
+    } finally {
+      setSavingInvoice(false);
+    }
+  };
+
   const handleShowNotes = (po: PurchaseOrder) => {
     if (po.notes && po.notes.trim()) {
       setSelectedNotes({
@@ -650,6 +1375,27 @@ export default function ViewDataPage() {
             </p>
           </div>
           <div className="flex items-center gap-2">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as POStatusFilter)}
+              aria-label="Filter by status"
+              className="px-2 py-2 border border-stone-200 dark:border-stone-700 text-sm rounded-md text-stone-700 dark:text-stone-300 bg-white dark:bg-stone-800 focus:outline-none focus:ring-2 focus:ring-amber-600"
+            >
+              <option value="open">Open</option>
+              <option value="all">All</option>
+              {(Object.keys(PO_STATUS_LABELS) as POStatus[]).map((status) => (
+                <option key={status} value={status}>{PO_STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+            <a
+              href="/purchasing/create"
+              className="inline-flex items-center gap-1.5 px-3 py-2 border border-stone-200 dark:border-stone-700 text-sm font-medium rounded-md text-stone-700 dark:text-stone-300 bg-white dark:bg-stone-800 hover:bg-stone-100 dark:hover:bg-stone-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-600 transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              New PO
+            </a>
             <button
               onClick={handleExportClick}
               disabled={!data || data.purchaseOrders.length === 0}
@@ -696,9 +1442,9 @@ export default function ViewDataPage() {
 
           <button
             type="button"
-            onClick={() => setStatusFilter('in_transit')}
+            onClick={() => setStatusFilter('open')}
             className={`flex flex-col justify-between rounded-xl border p-3 sm:p-4 text-left transition-all shadow-sm ${
-              statusFilter === 'in_transit'
+              statusFilter === 'open'
                 ? 'border-amber-600 bg-amber-50 dark:bg-amber-900/20 scale-[1.02]'
                 : 'bg-stone-50 dark:bg-stone-800 border-stone-200 dark:border-stone-700 hover:border-amber-600'
             }`}
@@ -724,7 +1470,7 @@ export default function ViewDataPage() {
             {loading ? (
               <div className="h-6 sm:h-7 w-12 bg-stone-100 dark:bg-stone-700 rounded animate-pulse mt-1" />
             ) : (
-              <p className="text-lg sm:text-xl font-semibold text-stone-900 dark:text-stone-100 mt-1">{(data?.purchaseOrders.filter(po => data.transit.filter(t => t.purchaseOrderId === po.id).length > 0 && data.transit.filter(t => t.purchaseOrderId === po.id).every(t => t.status === 'received')).length || 0).toLocaleString()}</p>
+              <p className="text-lg sm:text-xl font-semibold text-stone-900 dark:text-stone-100 mt-1">{(data?.purchaseOrders.filter(po => po.status === 'received').length || 0).toLocaleString()}</p>
             )}
           </button>
         </div>
@@ -804,6 +1550,28 @@ export default function ViewDataPage() {
                         <p className="text-stone-500 dark:text-stone-400 text-xs sm:text-sm mt-0.5 sm:mt-1 truncate">
                           {getSupplierName(po.supplierId)}
                         </p>
+                        <div className="flex flex-wrap items-center gap-2 mt-1.5">
+                          <span
+                            className={`inline-flex items-center px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-medium ${PO_STATUS_BADGE_CLASSES[po.status]}`}
+                            title={getStatusTimestamp(po) ? `Since ${new Date(getStatusTimestamp(po) as string).toLocaleString('en-GB')}` : undefined}
+                          >
+                            {PO_STATUS_LABELS[po.status]}
+                          </span>
+                          {PO_STATUS_TRANSITIONS[po.status].length > 0 && (
+                            <select
+                              value=""
+                              onChange={(e) => e.target.value && handleStatusChange(po, e.target.value as POStatus)}
+                              disabled={changingStatusPOId === po.id}
+                              aria-label="Change status"
+                              className="text-[10px] sm:text-xs px-1.5 py-0.5 border border-stone-200 dark:border-stone-700 rounded-md text-stone-600 dark:text-stone-300 bg-white dark:bg-stone-800 disabled:opacity-50"
+                            >
+                              <option value="">{changingStatusPOId === po.id ? 'Updating...' : 'Move to...'}</option>
+                              {PO_STATUS_TRANSITIONS[po.status].map((status) => (
+                                <option key={status} value={status}>{PO_STATUS_LABELS[status]}</option>
+                              ))}
+                            </select>
+                          )}
+                        </div>
                       </div>
                       <div className="flex items-center justify-between sm:justify-end gap-2 sm:gap-4">
                         <div className="text-left sm:text-right">
@@ -824,6 +1592,16 @@ export default function ViewDataPage() {
                               </svg>
                             </button>
                           )}
+                          <button
+                            onClick={() => handleDownloadPdf(po)}
+                            disabled={downloadingPdfPOId === po.id}
+                            className="border border-stone-200 dark:border-stone-700 hover:bg-stone-50 dark:hover:bg-stone-700 text-stone-500 dark:text-stone-400 hover:text-stone-700 dark:hover:text-stone-200 p-2 rounded-lg transition-colors disabled:opacity-50"
+                            title="Download Purchase Order PDF"
+                          >
+                            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3M6 20h12a2 2 0 002-2V8.414a1 1 0 00-.293-.707l-4.414-4.414A1 1 0 0014.586 3H6a2 2 0 00-2 2v13a2 2 0 002 2z" />
+                            </svg>
+                          </button>
                           <button
                             onClick={() => handleEdit(po)}
                             className="border border-stone-200 dark:border-stone-700 hover:bg-stone-50 dark:hover:bg-stone-700 text-stone-500 dark:text-stone-400 hover:text-stone-700 dark:hover:text-stone-200 p-2 rounded-lg transition-colors"
@@ -867,6 +1645,27 @@ export default function ViewDataPage() {
                       <div>
                         <p className="text-xs text-stone-500 dark:text-stone-400 uppercase tracking-wide">Currency</p>
                         <p className="text-sm font-medium text-stone-900 dark:text-stone-100 mt-1">{po.currency}</p>
+                        {po.sourceCurrency && po.sourceCurrency !== 'GBP' && (
+                          <div className="text-xs text-stone-500 dark:text-stone-400 mt-1 space-y-0.5">
+                            <p>
+                              Invoiced in {po.sourceCurrency}
+                              {po.originalTotal != null && ` (${po.originalTotal.toLocaleString('en-GB', { maximumFractionDigits: 2 })})`}
+                            </p>
+                            {po.fxRate != null && (
+                              <p>
+                                @ {po.fxRate.toFixed(4)}{po.fxRateDate ? ` on ${formatDate(po.fxRateDate)}` : ''}
+                                {po.fxRateSource ? ` (${po.fxRateSource})` : ''}
+                              </p>
+                            )}
+                            <button
+                              onClick={() => handleReconvert(po)}
+                              disabled={reconvertingPOId === po.id}
+                              className="text-amber-600 hover:text-amber-700 dark:text-amber-500 dark:hover:text-amber-400 font-medium disabled:opacity-50"
+                            >
+                              {reconvertingPOId === po.id ? 'Re-converting...' : 'Re-convert at another rate'}
+                            </button>
+                          </div>
+                        )}
                       </div>
                       <div className="min-w-0">
                         <p className="text-xs text-stone-500 dark:text-stone-400 uppercase tracking-wide">Payment Terms</p>
@@ -1052,6 +1851,11 @@ export default function ViewDataPage() {
                                 </td>
                                 <td className="hidden sm:table-cell px-3 py-3 text-xs sm:text-sm text-stone-900 dark:text-stone-100 text-right font-mono whitespace-nowrap">
                                   {formatCurrency(line.unitCostExVAT, po.currency)}
+                                  {line.landedUnitCostGBP != null && line.landedUnitCostGBP > line.unitCostExVAT && (
+                                    <span className="block text-[10px] text-stone-500 dark:text-stone-400" title="Unit cost including this line's share of extras">
+                                      Landed {formatCurrency(line.landedUnitCostGBP, po.currency)}
+                                    </span>
+                                  )}
                                 </td>
                                 <td className="hidden sm:table-cell px-3 py-3 text-xs sm:text-sm text-stone-900 dark:text-stone-100 text-right font-mono whitespace-nowrap">
                                   {line.rrp ? formatCurrency(line.rrp, po.currency) : '-'}
@@ -1102,15 +1906,135 @@ export default function ViewDataPage() {
                     <p className="text-[10px] sm:text-xs text-stone-500 dark:text-stone-400 truncate">
                       Imported: {formatDate(po.createdAt)}
                     </p>
-                    <button
-                      onClick={() => handleReceiveFullPO(po)}
-                      disabled={receivingPOId === po.id || receiveSummary.totalRemaining <= 0}
-                      className="inline-flex items-center justify-center px-3 py-1.5 text-[11px] sm:text-sm rounded-lg border border-stone-200 dark:border-stone-700 text-stone-600 dark:text-stone-400 hover:bg-stone-50 dark:hover:bg-stone-700 hover:text-stone-800 dark:hover:text-stone-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
-                      title="Mark all remaining quantities on this PO as received"
-                    >
-                      {receivingPOId === po.id ? 'Receiving...' : 'Mark all received'}
-                    </button>
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        onClick={() => handleOpenMatch(po)}
+                        disabled={loadingMatchPOId === po.id || po.status === 'draft' || po.status === 'cancelled'}
+                        className="inline-flex items-center justify-center px-3 py-1.5 text-[11px] sm:text-sm rounded-lg border border-stone-200 dark:border-stone-700 text-stone-600 dark:text-stone-400 hover:bg-stone-50 dark:hover:bg-stone-700 hover:text-stone-800 dark:hover:text-stone-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+                        title="Compare the supplier invoice with this PO and what was received"
+                      >
+                        {loadingMatchPOId === po.id ? 'Loading...' : 'Match invoice'}
+                      </button>
+                      <button
+                        onClick={() => handleToggleGoodsReceivedNotes(po)}
+                        disabled={loadingGrnPOId === po.id}
+                        className="inline-flex items-center justify-center px-3 py-1.5 text-[11px] sm:text-sm rounded-lg border border-stone-200 dark:border-stone-700 text-stone-600 dark:text-stone-400 hover:bg-stone-50 dark:hover:bg-stone-700 hover:text-stone-800 dark:hover:text-stone-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+                        title="Goods received notes for this PO"
+                      >
+                        {loadingGrnPOId === po.id ? 'Loading...' : goodsReceivedNotes[po.id] ? 'Hide deliveries' : 'Deliveries'}
+                      </button>
+                      <button
+                        onClick={() => handleOpenDelivery(po)}
+                        disabled={receiveSummary.totalRemaining <= 0 || po.status === 'draft' || po.status === 'cancelled'}
+                        className="inline-flex items-center justify-center px-3 py-1.5 text-[11px] sm:text-sm rounded-lg border border-stone-200 dark:border-stone-700 text-stone-600 dark:text-stone-400 hover:bg-stone-50 dark:hover:bg-stone-700 hover:text-stone-800 dark:hover:text-stone-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+                        title="Record what arrived, including short, over and damaged quantities"
+                      >
+                        Record delivery
+                      </button>
+                      <button
+                        onClick={() => handleOpenReturn(po)}
+                        disabled={po.status === 'draft' || po.status === 'cancelled'}
+                        className="inline-flex items-center justify-center px-3 py-1.5 text-[11px] sm:text-sm rounded-lg border border-stone-200 dark:border-stone-700 text-stone-600 dark:text-stone-400 hover:bg-stone-50 dark:hover:bg-stone-700 hover:text-stone-800 dark:hover:text-stone-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+                        title="Send stock back to the supplier or cancel undelivered units"
+                      >
+                        Return to supplier
+                      </button>
+                      <button
+                        onClick={() => handleReceiveFullPO(po)}
+                        disabled={receivingPOId === po.id || receiveSummary.totalRemaining <= 0}
+                        className="inline-flex items-center justify-center px-3 py-1.5 text-[11px] sm:text-sm rounded-lg border border-stone-200 dark:border-stone-700 text-stone-600 dark:text-stone-400 hover:bg-stone-50 dark:hover:bg-stone-700 hover:text-stone-800 dark:hover:text-stone-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+                        title="Mark all remaining quantities on this PO as received"
+                      >
+                        {receivingPOId === po.id ? 'Receiving...' : 'Mark all received'}
+                      </button>
+                    </div>
                   </div>
+
+                  {/* Goods received notes */}
+                  {goodsReceivedNotes[po.id] && (
+                    <div className="px-3 sm:px-6 py-3 border-t border-stone-200 dark:border-stone-700">
+                      {goodsReceivedNotes[po.id].length === 0 ? (
+                        <p className="text-xs sm:text-sm text-stone-500 dark:text-stone-400">No deliveries recorded yet.</p>
+                      ) : (
+                        <ul className="divide-y divide-stone-200 dark:divide-stone-700">
+                          {goodsReceivedNotes[po.id].map((grn) => {
+                            const received = grn.lines.reduce((sum, l) => sum + l.receivedQuantity, 0);
+                            const damaged = grn.lines.reduce((sum, l) => sum + l.damagedQuantity, 0);
+                            const short = grn.lines.reduce((sum, l) => sum + l.shortQuantity, 0);
+                            const over = grn.lines.reduce((sum, l) => sum + l.overQuantity, 0);
+                            return (
+                              <li key={grn.id} className="py-2 flex items-center justify-between gap-3 text-xs sm:text-sm">
+                                <div className="min-w-0">
+                                  <span className="font-medium text-stone-900 dark:text-stone-100">{grn.grnNumber}</span>
+                                  <span className="ml-2 text-stone-500 dark:text-stone-400">{formatDate(grn.receivedAt)}</span>
+                                  <span className="block text-[11px] text-stone-500 dark:text-stone-400">
+                                    {received} received
+                                    {damaged > 0 && <span className="text-red-600 dark:text-red-400"> · {damaged} damaged</span>}
+                                    {short > 0 && <span className="text-amber-700 dark:text-amber-400"> · {short} short</span>}
+                                    {over > 0 && <span className="text-blue-700 dark:text-blue-400"> · {over} over</span>}
+                                  </span>
+                                </div>
+                                <button
+                                  onClick={() => handlePrintGoodsReceivedNote(grn)}
+                                  className="flex-shrink-0 px-2.5 py-1 text-[11px] rounded-md border border-stone-200 dark:border-stone-700 text-stone-600 dark:text-stone-400 hover:bg-stone-50 dark:hover:bg-stone-700 font-medium"
+                                >
+                                  Print GRN
+                                </button>
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      )}
+                      {supplierReturns[po.id] && supplierReturns[po.id].length > 0 && (
+                        <>
+                          <h5 className="mt-3 text-[11px] font-semibold uppercase tracking-wider text-stone-500 dark:text-stone-400">Returns</h5>
+                          <ul className="divide-y divide-stone-200 dark:divide-stone-700">
+                            {supplierReturns[po.id].map((supplierReturn) => {
+                              const returned = supplierReturn.lines.filter((l) => l.source === 'on_hand').reduce((sum, l) => sum + l.quantity, 0);
+                              const cancelled = supplierReturn.lines.filter((l) => l.source === 'transit').reduce((sum, l) => sum + l.quantity, 0);
+                              return (
+                                <li key={supplierReturn.id} className="py-2 flex items-center justify-between gap-3 text-xs sm:text-sm">
+                                  <div className="min-w-0">
+                                    <span className="font-medium text-stone-900 dark:text-stone-100">{supplierReturn.returnNumber}</span>
+                                    <span className="ml-2 text-stone-500 dark:text-stone-400">{formatDate(supplierReturn.returnedAt)}</span>
+                                    <span className="block text-[11px] text-stone-500 dark:text-stone-400">
+                                      {returned > 0 && <>{returned} returned · </>}
+                                      {cancelled > 0 && <>{cancelled} cancelled · </>}
+                                      {formatCurrency(supplierReturn.totalValueGBP, 'GBP')}
+                                      {supplierReturn.status === 'credited' ? (
+                                        <span className="text-green-700 dark:text-green-400">
+                                          {' '}· credited {formatCurrency(supplierReturn.creditAmountGBP ?? 0, 'GBP')}
+                                          {supplierReturn.creditNoteNumber && ` (${supplierReturn.creditNoteNumber})`}
+                                        </span>
+                                      ) : (
+                                        <span className="text-amber-700 dark:text-amber-400"> · awaiting credit</span>
+                                      )}
+                                    </span>
+                                  </div>
+                                  <div className="flex flex-shrink-0 gap-2">
+                                    {supplierReturn.status !== 'credited' && (
+                                      <button
+                                        onClick={() => handleRecordCreditNote(supplierReturn)}
+                                        className="px-2.5 py-1 text-[11px] rounded-md border border-stone-200 dark:border-stone-700 text-stone-600 dark:text-stone-400 hover:bg-stone-50 dark:hover:bg-stone-700 font-medium"
+                                      >
+                                        Record credit
+                                      </button>
+                                    )}
+                                    <button
+                                      onClick={() => handlePrintSupplierReturn(supplierReturn)}
+                                      className="px-2.5 py-1 text-[11px] rounded-md border border-stone-200 dark:border-stone-700 text-stone-600 dark:text-stone-400 hover:bg-stone-50 dark:hover:bg-stone-700 font-medium"
+                                    >
+                                      Print return
+                                    </button>
+                                  </div>
+                                </li>
+                              );
+                            })}
+                          </ul>
+                        </>
+                      )}
+                    </div>
+                  )}
                 </div>
                     );
                   })}
@@ -1136,6 +2060,7 @@ export default function ViewDataPage() {
                   onClick={() => {
                     setEditingPO(null);
                     setEditingLines([]);
+                    setEditConflict(null);
                   }}
                   className="text-stone-500 hover:text-amber-600"
                 >
@@ -1205,6 +2130,36 @@ export default function ViewDataPage() {
                         placeholder="e.g., Net 30, Due on Receipt"
                       />
                     </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-sm font-medium text-stone-600 dark:text-stone-400 mb-1">
+                          Extras (Shipping, etc.)
+                        </label>
+                        <input
+                          type="number"
+                          value={editFormData.extras}
+                          onChange={(e) => setEditFormData(prev => ({ ...prev, extras: parseFloat(e.target.value) || 0 }))}
+                          className="w-full px-3 py-2 border border-stone-200 dark:border-stone-700 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-600 text-stone-900 dark:text-stone-100 bg-[#f9f9f8] dark:bg-stone-800"
+                          min="0"
+                          step="0.01"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-stone-600 dark:text-stone-400 mb-1">
+                          Allocate Extras By
+                        </label>
+                        <select
+                          value={editFormData.landedCostMethod}
+                          onChange={(e) => setEditFormData(prev => ({ ...prev, landedCostMethod: e.target.value as LandedCostMethod }))}
+                          className="w-full px-3 py-2 border border-stone-200 dark:border-stone-700 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-600 text-stone-900 dark:text-stone-100 bg-[#f9f9f8] dark:bg-stone-800"
+                        >
+                          <option value="value">Line value</option>
+                          <option value="quantity">Quantity</option>
+                          <option value="weight">Weight</option>
+                        </select>
+                      </div>
+                    </div>
                   </div>
                 </div>
 
@@ -1334,6 +2289,20 @@ export default function ViewDataPage() {
                           />
                         </div>
                       </div>
+                      <div>
+                        <label className="block text-[10px] font-medium text-stone-500 uppercase tracking-wide mb-1">
+                          Weight (kg / unit)
+                        </label>
+                        <input
+                          type="number"
+                          value={line.weightKg ?? ''}
+                          onChange={(e) => handleUpdateLineItem(line.id, 'weightKg', parseFloat(e.target.value) || null)}
+                          className="w-full px-2 py-2 border border-stone-200 rounded text-sm focus:outline-none focus:ring-1 focus:ring-amber-600 text-stone-900 bg-white"
+                          min="0"
+                          step="0.001"
+                          placeholder="Optional"
+                        />
+                      </div>
                       <div>
                         <label className="block text-[10px] font-medium text-stone-500 uppercase tracking-wide mb-1">
                           Total
@@ -1371,6 +2340,9 @@ export default function ViewDataPage() {
                         <th className="px-3 py-3 text-left text-xs font-medium text-stone-500 uppercase tracking-wider">
                           RRP
                         </th>
+                        <th className="px-3 py-3 text-left text-xs font-medium text-stone-500 uppercase tracking-wider">
+                          Kg / Unit
+                        </th>
                         <th className="px-3 py-3 text-left text-xs font-medium text-stone-500 uppercase tracking-wider">
                           Total
                         </th>
@@ -1431,6 +2403,17 @@ export default function ViewDataPage() {
                               placeholder="Optional"
                             />
                           </td>
+                          <td className="px-3 py-3">
+                            <input
+                              type="number"
+                              value={line.weightKg ?? ''}
+                              onChange={(e) => handleUpdateLineItem(line.id, 'weightKg', parseFloat(e.target.value) || null)}
+                              className="w-full px-2 py-1 border border-stone-200 rounded text-sm focus:outline-none focus:ring-1 focus:ring-amber-600 text-stone-900 bg-white"
+                              min="0"
+                              step="0.001"
+                              placeholder="Optional"
+                            />
+                          </td>
                           <td className="px-3 py-3 text-sm font-medium text-stone-900">
                             £{(line.lineTotalExVAT || 0).toFixed(2)} GBP
                           </td>
@@ -1458,11 +2441,80 @@ export default function ViewDataPage() {
                 )}
               </div>
 
+              {editConflict && (
+                <div className="mt-6 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-4 text-sm">
+                  <p className="font-medium text-amber-900 dark:text-amber-200">
+                    Someone else saved this purchase order while you were editing it. Nothing has been saved yet.
+                  </p>
+                  <div className="mt-3 overflow-x-auto">
+                    <table className="min-w-full text-xs">
+                      <thead>
+                        <tr className="text-left text-stone-500 dark:text-stone-400">
+                          <th className="py-1 pr-4 font-medium">Field</th>
+                          <th className="py-1 pr-4 font-medium">Their version</th>
+                          <th className="py-1 font-medium">Your change</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {(() => {
+                          const base = poEditFormFrom(editingPO);
+                          const theirs = poEditFormFrom(editConflict);
+                          return (Object.keys(PO_EDIT_FIELD_LABELS) as Array<keyof POEditForm>)
+                            .filter((field) => theirs[field] !== base[field] || editFormData[field] !== base[field])
+                            .map((field) => {
+                              const changedByThem = theirs[field] !== base[field];
+                              const changedByMe = editFormData[field] !== base[field];
+                              const clash = changedByThem && changedByMe && theirs[field] !== editFormData[field];
+                              return (
+                                <tr
+                                  key={field}
+                                  className={`border-t border-amber-100 dark:border-amber-900/40 ${clash ? 'text-red-700 dark:text-red-300' : 'text-stone-700 dark:text-stone-300'}`}
+                                >
+                                  <td className="py-1 pr-4 font-medium">{PO_EDIT_FIELD_LABELS[field]}</td>
+                                  <td className="py-1 pr-4">{changedByThem ? String(theirs[field] || '—') : 'unchanged'}</td>
+                                  <td className="py-1">{changedByMe ? String(editFormData[field] || '—') : 'unchanged'}</td>
+                                </tr>
+                              );
+                            });
+                        })()}
+                        {editConflict.status !== editingPO.status && (
+                          <tr className="border-t border-amber-100 dark:border-amber-900/40 text-stone-700 dark:text-stone-300">
+                            <td className="py-1 pr-4 font-medium">Status</td>
+                            <td className="py-1 pr-4">{PO_STATUS_LABELS[editConflict.status]}</td>
+                            <td className="py-1">unchanged</td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                  <p className="mt-2 text-xs text-stone-500 dark:text-stone-400">
+                    Applying your changes keeps their edits to fields you didn&apos;t touch; fields in red were changed by both of you.
+                  </p>
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    <button
+                      onClick={handleApplyMyPOChanges}
+                      disabled={saving}
+                      className="px-3 py-1.5 rounded-md bg-amber-600 text-white text-xs font-medium hover:bg-amber-700 disabled:opacity-50"
+                    >
+                      Apply my changes on top
+                    </button>
+                    <button
+                      onClick={handleReloadPO}
+                      disabled={saving}
+                      className="px-3 py-1.5 rounded-md border border-stone-300 text-xs text-stone-700 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-stone-700 disabled:opacity-50"
+                    >
+                      Discard mine and reload
+                    </button>
+                  </div>
+                </div>
+              )}
+
               <div className="flex flex-col sm:flex-row justify-end gap-3 mt-6">
                 <button
                   onClick={() => {
                     setEditingPO(null);
                     setEditingLines([]);
+                    setEditConflict(null);
                   }}
                   className="px-4 py-2 text-sm font-medium text-stone-900 bg-stone-100 border border-stone-300 rounded-md hover:bg-stone-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-600"
                   disabled={saving}
@@ -1571,6 +2623,431 @@ export default function ViewDataPage() {
         </div>
       )}
 
+      {/* Record Delivery (GRN) Modal */}
+      {deliveryPO && (
+        <div className="fixed inset-0 bg-black/70 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-3 sm:top-6 mx-auto w-[95vw] max-w-5xl border border-stone-200 dark:border-stone-700 shadow-lg rounded-xl bg-white dark:bg-stone-800 max-h-[92vh] overflow-y-auto">
+            <div className="flex items-center justify-between px-4 sm:px-6 py-4 border-b border-stone-200 dark:border-stone-700">
+              <div>
+                <h3 className="text-lg font-semibold text-stone-900 dark:text-stone-100">Record Delivery</h3>
+                <p className="text-sm text-stone-500 dark:text-stone-400 mt-1">
+                  {getSupplierName(deliveryPO.supplierId)} - {deliveryPO.invoiceNumber || 'N/A'}
+                </p>
+              </div>
+              <button
+                onClick={() => setDeliveryPO(null)}
+                className="text-stone-500 hover:text-stone-800 dark:hover:text-stone-200 transition-colors"
+              >
+                <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="px-4 sm:px-6 py-4 space-y-4">
+              <p className="text-xs sm:text-sm text-stone-500 dark:text-stone-400">
+                Enter what physically arrived. Damaged units are recorded but not added to stock.
+                A shortfall can stay in transit for a later delivery or be written off.
+              </p>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-stone-200 dark:divide-stone-700 text-xs sm:text-sm">
+                  <thead>
+                    <tr className="text-left text-[10px] sm:text-xs font-medium text-stone-500 dark:text-stone-400 uppercase tracking-wider">
+                      <th className="px-2 py-2">Description</th>
+                      <th className="px-2 py-2 text-right">Expected</th>
+                      <th className="px-2 py-2 text-right">Received</th>
+                      <th className="px-2 py-2 text-right">Damaged</th>
+                      <th className="px-2 py-2">Shortfall</th>
+                      <th className="px-2 py-2">Note / photo</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-stone-200 dark:divide-stone-700">
+                    {getPOLines(deliveryPO.id)
+                      .filter((line) => deliveryLines[line.id])
+                      .map((line) => {
+                        const input = deliveryLines[line.id];
+                        const expected = getLineReceiveStatus(line).remainingQuantity;
+                        const received = Number(input.received || 0);
+                        const short = Math.max(expected - received, 0);
+                        const over = Math.max(received - expected, 0);
+                        return (
+                          <tr key={line.id}>
+                            <td className="px-2 py-2 text-stone-900 dark:text-stone-100">
+                              {line.description}
+                              {over > 0 && (
+                                <span className="block text-[11px] text-blue-700 dark:text-blue-400">{over} over</span>
+                              )}
+                            </td>
+                            <td className="px-2 py-2 text-right text-stone-600 dark:text-stone-300">{expected}</td>
+                            <td className="px-2 py-2 text-right">
+                              <input
+                                type="number"
+                                min={0}
+                                value={input.received}
+                                onChange={(e) => handleUpdateDeliveryLine(line.id, { received: e.target.value })}
+                                className="w-16 rounded-md bg-[#f9f9f8] dark:bg-stone-800 border border-stone-200 dark:border-stone-700 text-stone-900 dark:text-stone-100 text-xs px-2 py-1 focus:outline-none focus:ring-1 focus:ring-amber-600"
+                              />
+                            </td>
+                            <td className="px-2 py-2 text-right">
+                              <input
+                                type="number"
+                                min={0}
+                                value={input.damaged}
+                                onChange={(e) => handleUpdateDeliveryLine(line.id, { damaged: e.target.value })}
+                                className="w-16 rounded-md bg-[#f9f9f8] dark:bg-stone-800 border border-stone-200 dark:border-stone-700 text-stone-900 dark:text-stone-100 text-xs px-2 py-1 focus:outline-none focus:ring-1 focus:ring-amber-600"
+                              />
+                            </td>
+                            <td className="px-2 py-2">
+                              {short > 0 ? (
+                                <select
+                                  value={input.shortfallAction}
+                                  onChange={(e) => handleUpdateDeliveryLine(line.id, { shortfallAction: e.target.value as ShortfallAction })}
+                                  className="text-xs px-1.5 py-1 border border-stone-200 dark:border-stone-700 rounded-md text-stone-700 dark:text-stone-300 bg-white dark:bg-stone-800"
+                                >
+                                  <option value="keep_open">{short} still due</option>
+                                  <option value="write_off">Write off {short}</option>
+                                </select>
+                              ) : (
+                                <span className="text-stone-400">-</span>
+                              )}
+                            </td>
+                            <td className="px-2 py-2">
+                              <input
+                                type="text"
+                                value={input.note}
+                                onChange={(e) => handleUpdateDeliveryLine(line.id, { note: e.target.value })}
+                                placeholder="Note"
+                                className="w-full min-w-[8rem] rounded-md bg-[#f9f9f8] dark:bg-stone-800 border border-stone-200 dark:border-stone-700 text-stone-900 dark:text-stone-100 text-xs px-2 py-1 focus:outline-none focus:ring-1 focus:ring-amber-600"
+                              />
+                              <input
+                                type="file"
+                                accept="image/*"
+                                onChange={(e) => handleUpdateDeliveryLine(line.id, { photo: e.target.files?.[0] ?? null })}
+                                className="mt-1 block w-full text-[11px] text-stone-500 dark:text-stone-400"
+                              />
+                            </td>
+                          </tr>
+                        );
+                      })}
+                  </tbody>
+                </table>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-stone-600 dark:text-stone-400 mb-1">Delivery notes</label>
+                <textarea
+                  rows={2}
+                  value={deliveryNotes}
+                  onChange={(e) => setDeliveryNotes(e.target.value)}
+                  placeholder="Carrier, packaging condition, who received it..."
+                  className="w-full rounded-md bg-white dark:bg-stone-900 border border-stone-300 dark:border-stone-600 text-stone-900 dark:text-stone-100 text-sm px-3 py-2 focus:outline-none focus:ring-2 focus:ring-amber-600"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2 px-4 sm:px-6 py-4 border-t border-stone-200 dark:border-stone-700">
+              <button
+                onClick={() => setDeliveryPO(null)}
+                disabled={savingDelivery}
+                className="px-4 py-2 text-sm font-medium text-stone-700 dark:text-stone-300 border border-stone-200 dark:border-stone-700 rounded-md hover:bg-stone-50 dark:hover:bg-stone-700 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveDelivery}
+                disabled={savingDelivery}
+                className="px-4 py-2 text-sm font-medium text-white bg-amber-600 rounded-md hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-600 disabled:opacity-50"
+              >
+                {savingDelivery ? 'Saving...' : 'Save Goods Received Note'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Return to Supplier Modal */}
+      {returnPO && (
+        <div className="fixed inset-0 bg-black/70 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-3 sm:top-6 mx-auto w-[95vw] max-w-4xl border border-stone-200 dark:border-stone-700 shadow-lg rounded-xl bg-white dark:bg-stone-800 max-h-[92vh] overflow-y-auto">
+            <div className="flex items-center justify-between px-4 sm:px-6 py-4 border-b border-stone-200 dark:border-stone-700">
+              <div>
+                <h3 className="text-lg font-semibold text-stone-900 dark:text-stone-100">Return to Supplier</h3>
+                <p className="text-sm text-stone-500 dark:text-stone-400 mt-1">
+                  {getSupplierName(returnPO.supplierId)} - {returnPO.invoiceNumber || 'N/A'}
+                </p>
+              </div>
+              <button
+                onClick={() => setReturnPO(null)}
+                className="text-stone-500 hover:text-stone-800 dark:hover:text-stone-200 transition-colors"
+              >
+                <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="px-4 sm:px-6 py-4 space-y-4">
+              <p className="text-xs sm:text-sm text-stone-500 dark:text-stone-400">
+                Returned stock leaves on-hand at the cost it was bought at. Cancelled units are taken out of transit
+                without ever reaching stock. Record the supplier&apos;s credit note once it arrives.
+              </p>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-stone-200 dark:divide-stone-700 text-xs sm:text-sm">
+                  <thead>
+                    <tr className="text-left text-[10px] sm:text-xs font-medium text-stone-500 dark:text-stone-400 uppercase tracking-wider">
+                      <th className="px-2 py-2">Description</th>
+                      <th className="px-2 py-2 text-right">Received</th>
+                      <th className="px-2 py-2 text-right">Return from stock</th>
+                      <th className="px-2 py-2 text-right">Still in transit</th>
+                      <th className="px-2 py-2 text-right">Cancel</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-stone-200 dark:divide-stone-700">
+                    {getPOLines(returnPO.id)
+                      .filter((line) => returnLines[line.id])
+                      .map((line) => {
+                        const input = returnLines[line.id];
+                        const lineStatus = getLineReceiveStatus(line);
+                        return (
+                          <tr key={line.id}>
+                            <td className="px-2 py-2 text-stone-900 dark:text-stone-100">{line.description}</td>
+                            <td className="px-2 py-2 text-right text-stone-600 dark:text-stone-300">{lineStatus.receivedQuantity}</td>
+                            <td className="px-2 py-2 text-right">
+                              <input
+                                type="number"
+                                min={0}
+                                max={lineStatus.receivedQuantity}
+                                value={input.onHand}
+                                disabled={lineStatus.receivedQuantity <= 0}
+                                onChange={(e) => handleUpdateReturnLine(line.id, { onHand: e.target.value })}
+                                className="w-16 rounded-md bg-[#f9f9f8] dark:bg-stone-800 border border-stone-200 dark:border-stone-700 text-stone-900 dark:text-stone-100 text-xs px-2 py-1 focus:outline-none focus:ring-1 focus:ring-amber-600 disabled:opacity-50"
+                              />
+                            </td>
+                            <td className="px-2 py-2 text-right text-stone-600 dark:text-stone-300">{lineStatus.remainingQuantity}</td>
+                            <td className="px-2 py-2 text-right">
+                              <input
+                                type="number"
+                                min={0}
+                                max={lineStatus.remainingQuantity}
+                                value={input.transit}
+                                disabled={lineStatus.remainingQuantity <= 0}
+                                onChange={(e) => handleUpdateReturnLine(line.id, { transit: e.target.value })}
+                                className="w-16 rounded-md bg-[#f9f9f8] dark:bg-stone-800 border border-stone-200 dark:border-stone-700 text-stone-900 dark:text-stone-100 text-xs px-2 py-1 focus:outline-none focus:ring-1 focus:ring-amber-600 disabled:opacity-50"
+                              />
+                            </td>
+                          </tr>
+                        );
+                      })}
+                  </tbody>
+                </table>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-stone-600 dark:text-stone-400 mb-1">Reason</label>
+                <input
+                  type="text"
+                  value={returnReason}
+                  onChange={(e) => setReturnReason(e.target.value)}
+                  placeholder="Faulty, wrong item, no longer needed..."
+                  className="w-full rounded-md bg-white dark:bg-stone-900 border border-stone-300 dark:border-stone-600 text-stone-900 dark:text-stone-100 text-sm px-3 py-2 focus:outline-none focus:ring-2 focus:ring-amber-600"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2 px-4 sm:px-6 py-4 border-t border-stone-200 dark:border-stone-700">
+              <button
+                onClick={() => setReturnPO(null)}
+                disabled={savingReturn}
+                className="px-4 py-2 text-sm font-medium text-stone-700 dark:text-stone-300 border border-stone-200 dark:border-stone-700 rounded-md hover:bg-stone-50 dark:hover:bg-stone-700 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveReturn}
+                disabled={savingReturn}
+                className="px-4 py-2 text-sm font-medium text-white bg-amber-600 rounded-md hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-600 disabled:opacity-50"
+              >
+                {savingReturn ? 'Saving...' : 'Record Return'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Invoice Match Modal */}
+      {matchPO && invoiceForm && (
+        <div className="fixed inset-0 bg-black/70 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-3 sm:top-6 mx-auto w-[95vw] max-w-5xl border border-stone-200 dark:border-stone-700 shadow-lg rounded-xl bg-white dark:bg-stone-800 max-h-[92vh] overflow-y-auto">
+            <div className="flex items-center justify-between px-4 sm:px-6 py-4 border-b border-stone-200 dark:border-stone-700">
+              <div>
+                <h3 className="text-lg font-semibold text-stone-900 dark:text-stone-100">Supplier Invoice Match</h3>
+                <p className="text-sm text-stone-500 dark:text-stone-400 mt-1">
+                  {getSupplierName(matchPO.supplierId)} - {matchPO.invoiceNumber || 'N/A'}
+                </p>
+              </div>
+              <button
+                onClick={() => setMatchPO(null)}
+                className="text-stone-500 hover:text-stone-800 dark:hover:text-stone-200 transition-colors"
+              >
+                <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="px-4 sm:px-6 py-4 space-y-4">
+              {matchReport && (
+                <div
+                  className={`rounded-lg border px-3 py-3 text-xs sm:text-sm ${
+                    matchReport.status === 'matched'
+                      ? 'bg-green-50 border-green-200 text-green-800 dark:bg-green-900/20 dark:border-green-800 dark:text-green-300'
+                      : 'bg-red-50 border-red-200 text-red-800 dark:bg-red-900/20 dark:border-red-800 dark:text-red-300'
+                  }`}
+                >
+                  <div className="flex flex-wrap gap-x-6 gap-y-1 font-medium">
+                    <span>{matchReport.status === 'matched' ? 'Invoice matches' : `${matchReport.discrepancies.length} discrepanc${matchReport.discrepancies.length === 1 ? 'y' : 'ies'}`}</span>
+                    <span>Ordered {formatCurrency(matchReport.totals.orderedGBP, 'GBP')}</span>
+                    <span>Received {formatCurrency(matchReport.totals.receivedGBP, 'GBP')}</span>
+                    <span>Invoiced {formatCurrency(matchReport.totals.invoicedGBP, 'GBP')}</span>
+                    {matchReport.totals.atRiskGBP > 0 && (
+                      <span>Billed but not received {formatCurrency(matchReport.totals.atRiskGBP, 'GBP')}</span>
+                    )}
+                  </div>
+                  {matchReport.discrepancies.length > 0 && (
+                    <ul className="mt-2 space-y-1">
+                      {matchReport.discrepancies.map((d, i) => (
+                        <li key={i} className="flex flex-wrap justify-between gap-2">
+                          <span>
+                            <span className="font-semibold">{DISCREPANCY_LABELS[d.kind]}</span> - {d.description}: {d.message}
+                          </span>
+                          <span className="font-mono">{formatCurrency(d.amountGBP, 'GBP')}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              <p className="text-xs sm:text-sm text-stone-500 dark:text-stone-400">
+                Enter the invoice as the supplier billed it (GBP, ex VAT). It is compared with the PO lines and
+                with what has been received so far.
+              </p>
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                {([
+                  ['invoiceNumber', 'Invoice number', 'text'],
+                  ['invoiceDate', 'Invoice date', 'date'],
+                  ['extras', 'Shipping & extras', 'number'],
+                  ['vat', 'VAT', 'number'],
+                  ['totalAmount', 'Invoice total', 'number'],
+                ] as const).map(([field, label, type]) => (
+                  <div key={field}>
+                    <label className="block text-xs font-medium text-stone-600 dark:text-stone-400 mb-1">{label}</label>
+                    <input
+                      type={type}
+                      step={type === 'number' ? '0.01' : undefined}
+                      value={invoiceForm[field]}
+                      onChange={(e) => setInvoiceForm((prev) => prev && { ...prev, [field]: e.target.value })}
+                      className="w-full rounded-md bg-[#f9f9f8] dark:bg-stone-800 border border-stone-200 dark:border-stone-700 text-stone-900 dark:text-stone-100 text-xs px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-amber-600"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-stone-200 dark:divide-stone-700 text-xs sm:text-sm">
+                  <thead>
+                    <tr className="text-left text-[10px] sm:text-xs font-medium text-stone-500 dark:text-stone-400 uppercase tracking-wider">
+                      <th className="px-2 py-2">Description</th>
+                      <th className="px-2 py-2">PO line</th>
+                      <th className="px-2 py-2 text-right">Qty billed</th>
+                      <th className="px-2 py-2 text-right">Unit cost</th>
+                      <th className="px-2 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-stone-200 dark:divide-stone-700">
+                    {invoiceForm.lines.map((line, index) => (
+                      <tr key={index}>
+                        <td className="px-2 py-2">
+                          <input
+                            type="text"
+                            value={line.description}
+                            onChange={(e) => handleUpdateInvoiceLine(index, { description: e.target.value })}
+                            className="w-full min-w-[10rem] rounded-md bg-[#f9f9f8] dark:bg-stone-800 border border-stone-200 dark:border-stone-700 text-stone-900 dark:text-stone-100 text-xs px-2 py-1 focus:outline-none focus:ring-1 focus:ring-amber-600"
+                          />
+                        </td>
+                        <td className="px-2 py-2">
+                          <select
+                            value={line.poLineId ?? ''}
+                            onChange={(e) => handleUpdateInvoiceLine(index, { poLineId: e.target.value || null })}
+                            className="text-xs px-1.5 py-1 border border-stone-200 dark:border-stone-700 rounded-md text-stone-700 dark:text-stone-300 bg-white dark:bg-stone-800 max-w-[12rem]"
+                          >
+                            <option value="">Not on order</option>
+                            {getPOLines(matchPO.id).map((poLine) => (
+                              <option key={poLine.id} value={poLine.id}>{poLine.description}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-2 py-2 text-right">
+                          <input
+                            type="number"
+                            min={0}
+                            value={line.quantity}
+                            onChange={(e) => handleUpdateInvoiceLine(index, { quantity: e.target.value })}
+                            className="w-16 rounded-md bg-[#f9f9f8] dark:bg-stone-800 border border-stone-200 dark:border-stone-700 text-stone-900 dark:text-stone-100 text-xs px-2 py-1 focus:outline-none focus:ring-1 focus:ring-amber-600"
+                          />
+                        </td>
+                        <td className="px-2 py-2 text-right">
+                          <input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            value={line.unitCostExVAT}
+                            onChange={(e) => handleUpdateInvoiceLine(index, { unitCostExVAT: e.target.value })}
+                            className="w-20 rounded-md bg-[#f9f9f8] dark:bg-stone-800 border border-stone-200 dark:border-stone-700 text-stone-900 dark:text-stone-100 text-xs px-2 py-1 focus:outline-none focus:ring-1 focus:ring-amber-600"
+                          />
+                        </td>
+                        <td className="px-2 py-2 text-right">
+                          <button
+                            onClick={() => setInvoiceForm((prev) => prev && { ...prev, lines: prev.lines.filter((_, i) => i !== index) })}
+                            className="text-xs text-red-600 hover:text-red-800"
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <button
+                onClick={() => setInvoiceForm((prev) => prev && {
+                  ...prev,
+                  lines: [...prev.lines, { poLineId: null, description: '', quantity: '1', unitCostExVAT: '0' }],
+                })}
+                className="text-xs sm:text-sm font-medium text-amber-700 hover:text-amber-800"
+              >
+                + Add invoice line
+              </button>
+            </div>
+
+            <div className="flex justify-end gap-2 px-4 sm:px-6 py-4 border-t border-stone-200 dark:border-stone-700">
+              <button
+                onClick={() => setMatchPO(null)}
+                disabled={savingInvoice}
+                className="px-4 py-2 text-sm font-medium text-stone-700 dark:text-stone-300 border border-stone-200 dark:border-stone-700 rounded-md hover:bg-stone-50 dark:hover:bg-stone-700 disabled:opacity-50"
+              >
+                Close
+              </button>
+              <button
+                onClick={handleSaveInvoice}
+                disabled={savingInvoice}
+                className="px-4 py-2 text-sm font-medium text-white bg-amber-600 rounded-md hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-600 disabled:opacity-50"
+              >
+                {savingInvoice ? 'Matching...' : 'Save Invoice & Match'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Notes Modal */}
       {showNotesModal && selectedNotes && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
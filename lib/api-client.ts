@@ -1,7 +1,52 @@
 import { supabase } from './supabaseClient';
 
+const IDEMPOTENT_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+// Once a response arrives its key is kept this long, for a double tap that lands just after
+const REPEAT_WINDOW_MS = 2_000;
+// Without a response (dropped connection) the outcome is unknown, so retries keep the key this long
+const RETRY_WINDOW_MS = 10 * 60_000;
+// Waits for the first of two identical requests to finish before replaying its response
+const MAX_IN_PROGRESS_RETRIES = 30;
+
+// Idempotency keys by request signature; expiresAt is Infinity while the request is in flight
+const recentKeys = new Map<string, { key: string; expiresAt: number }>();
+
+// The same method, URL and body make the same request. Null when the body can't be compared.
+function requestSignature(url: string, method: string, body: RequestInit['body']): string | null {
+  if (body === undefined || body === null) return `${method} ${url}`;
+  if (typeof body === 'string') return `${method} ${url}\n${body}`;
+  if (body instanceof URLSearchParams) return `${method} ${url}\n${body.toString()}`;
+  if (body instanceof FormData) {
+    const parts: string[] = [];
+    body.forEach((value, name) => {
+      parts.push(typeof value === 'string' ? `${name}=${value}` : `${name}=file:${value.name}:${value.size}:${value.lastModified}`);
+    });
+    return `${method} ${url}\n${parts.join('\n')}`;
+  }
+  return null;
+}
+
+function idempotencyKeyFor(signature: string): { key: string; expiresAt: number } {
+  const now = Date.now();
+  for (const [sig, entry] of recentKeys) {
+    if (entry.expiresAt < now) recentKeys.delete(sig);
+  }
+
+  const existing = recentKeys.get(signature);
+  if (existing) {
+    existing.expiresAt = Infinity;
+    return existing;
+  }
+
+  const entry = { key: crypto.randomUUID(), expiresAt: Infinity };
+  recentKeys.set(signature, entry);
+  return entry;
+}
+
 /**
- * Authenticated fetch wrapper that automatically adds auth headers
+ * Authenticated fetch wrapper that automatically adds auth headers.
+ * Writes also get an Idempotency-Key, shared by identical requests sent while one is
+ * in flight or being retried, so a double tap or retry is not applied twice.
  */
 export async function authenticatedFetch(url: string, options: RequestInit = {}) {
   // Get the current session
@@ -31,8 +76,33 @@ export async function authenticatedFetch(url: string, options: RequestInit = {})
     delete headers['Content-Type'];
   }
 
-  return fetch(url, {
-    ...options,
-    headers,
-  });
+  const method = (options.method || 'GET').toUpperCase();
+  const hasKey = Object.keys(headers).some((name) => name.toLowerCase() === 'idempotency-key');
+  const signature = IDEMPOTENT_METHODS.has(method) && !hasKey ? requestSignature(url, method, options.body) : null;
+  if (signature === null) {
+    return fetch(url, {
+      ...options,
+      headers,
+    });
+  }
+
+  const entry = idempotencyKeyFor(signature);
+  headers['Idempotency-Key'] = entry.key;
+
+  try {
+    let response = await fetch(url, { ...options, headers });
+
+    // An identical request is still running on the server; wait for it, then get its response
+    for (let attempt = 0; attempt < MAX_IN_PROGRESS_RETRIES && response.status === 409 && response.headers.has('Retry-After'); attempt++) {
+      const seconds = Number(response.headers.get('Retry-After')) || 1;
+      await new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+      response = await fetch(url, { ...options, headers });
+    }
+
+    entry.expiresAt = Date.now() + REPEAT_WINDOW_MS;
+    return response;
+  } catch (error) {
+    entry.expiresAt = Date.now() + RETRY_WINDOW_MS;
+    throw error;
+  }
 }
@@ -1,4 +1,43 @@
 import { serverSupabase as supabase } from './supabase-server';
+import {
+  allocateLandedCosts,
+  type LandedCostAllocation,
+  type LandedCostCharge,
+  type LandedCostKind,
+  type LandedCostMethod,
+} from './landed-cost';
+import { convertAmount, convertLineAmounts, type ExchangeRateSource } from './fx/convert';
+import {
+  canTransitionPurchaseOrder,
+  PO_STATUS_TIMESTAMP_COLUMNS,
+  type PurchaseOrderStatus,
+} from './po-status';
+import { computeGrnLineQuantities, type ShortfallAction } from './grn';
+import type {
+  InventoryMovementActor,
+  InventoryMovementDescription,
+  InventoryMovementSourceType,
+  InventoryMovementType,
+} from './inventory-movements';
+import {
+  computeThreeWayMatch,
+  DEFAULT_MATCH_TOLERANCE,
+  type MatchTolerance,
+  type ThreeWayMatchResult,
+} from './three-way-match';
+import { computeOnHandReturn, type ReturnSource } from './supplier-returns';
+import type { StockAdjustmentPeriod, StockAdjustmentReason } from './stock-adjustments';
+import type { ExtractedData } from './extraction/types';
+import { hammingDistance, NEAR_DUPLICATE_DISTANCE, type FingerprintedFile } from './file-fingerprint';
+import type { SupplierTextLayout } from './extraction/text-parsers';
+import {
+  diffExtraction,
+  inferColumnRules,
+  isColumnRule,
+  mergeColumnRules,
+  type ColumnRule,
+  type ExtractionCorrection,
+} from './extraction/templates';
 
 // Define the database schema types
 export interface Supplier {
@@ -25,6 +64,17 @@ export interface PurchaseOrder {
   extras: number | null;
   vat: number | null;
   totalAmount: number | null;
+  landedCostMethod?: LandedCostMethod;
+  // Invoice currency, the rate used to convert it to GBP and the amounts as invoiced
+  sourceCurrency?: string | null;
+  fxRate?: number | null;
+  fxRateDate?: string | null;
+  fxRateSource?: ExchangeRateSource | null;
+  originalSubtotal?: number | null;
+  originalExtras?: number | null;
+  originalVat?: number | null;
+  originalTotal?: number | null;
+  status?: PurchaseOrderStatus;
   createdAt: string;
 }
 
@@ -37,6 +87,10 @@ export interface POLine {
   unitCostExVAT: number;
   lineTotalExVAT: number;
   rrp: number | null;
+  weightKg?: number | null;
+  landedUnitCostGBP?: number | null;
+  originalUnitCost?: number | null;
+  originalLineTotal?: number | null;
 }
 
 export interface Totals {
@@ -91,6 +145,7 @@ export async function findOrCreateSupplier(
 export async function createPurchaseOrder(
   poData: Omit<PurchaseOrder, 'id' | 'createdAt'> & { user_id: string }
 ): Promise<string> {
+  const status = poData.status ?? 'ordered';
   const { data: newPO, error } = await supabase
     .from('purchaseorders')
     .insert({
@@ -106,6 +161,17 @@ export async function createPurchaseOrder(
       extras: poData.extras ?? null,
       vat: poData.vat ?? null,
       totalamount: poData.totalAmount ?? null,
+      landedcostmethod: poData.landedCostMethod ?? 'value',
+      sourcecurrency: poData.sourceCurrency ?? null,
+      fxrate: poData.fxRate ?? null,
+      fxratedate: poData.fxRateDate ?? null,
+      fxratesource: poData.fxRateSource ?? null,
+      originalsubtotal: poData.originalSubtotal ?? null,
+      originalextras: poData.originalExtras ?? null,
+      originalvat: poData.originalVat ?? null,
+      originaltotal: poData.originalTotal ?? null,
+      status,
+      ...(status !== 'draft' ? { [PO_STATUS_TIMESTAMP_COLUMNS[status]]: new Date().toISOString() } : {}),
       user_id: poData.user_id,
     })
     .select('id')
@@ -137,6 +203,15 @@ export async function updatePurchaseOrder(
   if (updates.extras !== undefined) mappedUpdates.extras = updates.extras;
   if (updates.vat !== undefined) mappedUpdates.vat = updates.vat;
   if (updates.totalAmount !== undefined) mappedUpdates.totalamount = updates.totalAmount;
+  if (updates.landedCostMethod !== undefined) mappedUpdates.landedcostmethod = updates.landedCostMethod;
+  if (updates.sourceCurrency !== undefined) mappedUpdates.sourcecurrency = updates.sourceCurrency;
+  if (updates.fxRate !== undefined) mappedUpdates.fxrate = updates.fxRate;
+  if (updates.fxRateDate !== undefined) mappedUpdates.fxratedate = updates.fxRateDate;
+  if (updates.fxRateSource !== undefined) mappedUpdates.fxratesource = updates.fxRateSource;
+  if (updates.originalSubtotal !== undefined) mappedUpdates.originalsubtotal = updates.originalSubtotal;
+  if (updates.originalExtras !== undefined) mappedUpdates.originalextras = updates.originalExtras;
+  if (updates.originalVat !== undefined) mappedUpdates.originalvat = updates.originalVat;
+  if (updates.originalTotal !== undefined) mappedUpdates.originaltotal = updates.originalTotal;
 
   const { data, error } = await supabase
     .from('purchaseorders')
@@ -167,6 +242,9 @@ export async function createPOLines(
         unitcostexvat: line.unitCostExVAT,
         linetotalexvat: line.lineTotalExVAT,
         rrp: line.rrp,
+        weightkg: line.weightKg ?? null,
+        originalunitcost: line.originalUnitCost ?? null,
+        originallinetotal: line.originalLineTotal ?? null,
       }))
     )
     .select();
@@ -175,7 +253,40 @@ export async function createPOLines(
     throw new Error(`Failed to create PO lines: ${error?.message}`);
   }
 
-  return data.map((row: any) => ({
+  return data.map(mapPOLineRow);
+}
+
+// Helper function to load a purchase order's lines
+export async function getPOLinesForPurchaseOrder(purchaseOrderId: string): Promise<POLine[]> {
+  const { data, error } = await supabase
+    .from('polines')
+    .select('*')
+    .eq('purchaseorderid', purchaseOrderId);
+
+  if (error) {
+    throw new Error(`Failed to load PO lines: ${error.message}`);
+  }
+
+  return (data || []).map(mapPOLineRow);
+}
+
+type POLineRow = {
+  id: string;
+  purchaseorderid: string;
+  description: string;
+  suppliersku: string | null;
+  quantity: NumericColumn;
+  unitcostexvat: NumericColumn;
+  linetotalexvat: NumericColumn;
+  rrp: NumericColumn;
+  weightkg: NumericColumn;
+  landedunitcostgbp: NumericColumn;
+  originalunitcost: NumericColumn;
+  originallinetotal: NumericColumn;
+};
+
+function mapPOLineRow(row: POLineRow): POLine {
+  return {
     id: row.id,
     purchaseOrderId: row.purchaseorderid,
     description: row.description,
@@ -184,7 +295,11 @@ export async function createPOLines(
     unitCostExVAT: Number(row.unitcostexvat ?? 0),
     lineTotalExVAT: Number(row.linetotalexvat ?? 0),
     rrp: row.rrp != null ? Number(row.rrp) : null,
-  }));
+    weightKg: row.weightkg != null ? Number(row.weightkg) : null,
+    landedUnitCostGBP: row.landedunitcostgbp != null ? Number(row.landedunitcostgbp) : null,
+    originalUnitCost: row.originalunitcost != null ? Number(row.originalunitcost) : null,
+    originalLineTotal: row.originallinetotal != null ? Number(row.originallinetotal) : null,
+  };
 }
 
 // Helper function to update a line item
@@ -199,6 +314,9 @@ export async function updatePOLine(
   if (updates.unitCostExVAT !== undefined) mappedUpdates.unitcostexvat = updates.unitCostExVAT;
   if (updates.lineTotalExVAT !== undefined) mappedUpdates.linetotalexvat = updates.lineTotalExVAT;
   if (updates.rrp !== undefined) mappedUpdates.rrp = updates.rrp;
+  if (updates.weightKg !== undefined) mappedUpdates.weightkg = updates.weightKg;
+  if (updates.originalUnitCost !== undefined) mappedUpdates.originalunitcost = updates.originalUnitCost;
+  if (updates.originalLineTotal !== undefined) mappedUpdates.originallinetotal = updates.originalLineTotal;
 
   const { data, error } = await supabase
     .from('polines')
@@ -320,6 +438,8 @@ export interface Product {
   category: string | null;
   tags: string[];
   imageUrl: string | null;
+  // Bumped on every edit; product edits must send the revision they were made against
+  revision: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -355,16 +475,47 @@ export interface Invoice {
   invoiceNumber: string | null;
   invoiceDate: string | null;
   currency: string;
+  subtotalExVAT?: number | null;
+  extras?: number | null;
+  vat?: number | null;
+  totalAmount?: number | null;
+  matchStatus?: InvoiceMatchStatus;
+  matchedAt?: string | null;
+  creditedAmountGBP?: number;
   createdAt: string;
 }
 
+export type InvoiceMatchStatus = 'unmatched' | 'matched' | 'discrepancy';
+
+export interface InvoiceTotalsInput {
+  subtotalExVAT: number | null;
+  extras: number | null;
+  vat: number | null;
+  totalAmount: number | null;
+}
+
 export async function createOrUpdateInvoiceForPurchaseOrder(params: {
   purchaseOrderId: string;
   supplierId: string;
   invoiceNumber: string | null;
   invoiceDate: string | null;
   currency: string;
+  // The supplier's billed amounts; a change invalidates any earlier match
+  totals?: InvoiceTotalsInput;
+  user_id?: string;
 }): Promise<Invoice> {
+  const amounts = params.totals
+    ? {
+        subtotalexvat: params.totals.subtotalExVAT,
+        extras: params.totals.extras,
+        vat: params.totals.vat,
+        totalamount: params.totals.totalAmount,
+        matchstatus: 'unmatched',
+        matchedat: null,
+      }
+    : {};
+  const owner = params.user_id ? { user_id: params.user_id } : {};
+
   // Try to find existing invoice
   const { data: existing } = await supabase
     .from('invoices')
@@ -381,6 +532,8 @@ export async function createOrUpdateInvoiceForPurchaseOrder(params: {
         invoicenumber: params.invoiceNumber,
         invoicedate: params.invoiceDate,
         currency: params.currency,
+        ...amounts,
+        ...owner,
       })
       .eq('purchaseorderid', params.purchaseOrderId)
       .select()
@@ -402,6 +555,8 @@ export async function createOrUpdateInvoiceForPurchaseOrder(params: {
       invoicenumber: params.invoiceNumber,
       invoicedate: params.invoiceDate,
       currency: params.currency,
+      ...amounts,
+      ...owner,
     })
     .select()
     .single();
@@ -550,6 +705,40 @@ export async function findDuplicatePurchaseOrders(
 
 // --- Inventory & transit helpers ---
 
+type ProductRow = {
+  id: string;
+  name: string;
+  primarysku: string | null;
+  suppliersku: string | null;
+  barcodes: string[] | null;
+  aliases: string[] | null;
+  supplierid: string | null;
+  category: string | null;
+  tags: string[] | null;
+  imageurl: string | null;
+  revision: number | null;
+  created_at: string;
+  updated_at: string;
+};
+
+function productFromRow(row: ProductRow): Product {
+  return {
+    id: row.id,
+    name: row.name,
+    primarySku: row.primarysku ?? null,
+    supplierSku: row.suppliersku ?? null,
+    barcodes: row.barcodes ?? [],
+    aliases: row.aliases ?? [],
+    supplierId: row.supplierid ?? null,
+    category: row.category ?? null,
+    tags: row.tags ?? [],
+    imageUrl: row.imageurl ?? null,
+    revision: row.revision ?? 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
 // Normalize text into tokens for fuzzy matching
 function normalizeTextForMatch(text: string): string[] {
   return text
@@ -571,460 +760,3209 @@ function computeTokenSimilarity(aTokens: string[], bTokens: string[]): number {
   return union === 0 ? 0 : intersection / union;
 }
 
-// Sync purchase order lines into products + transit records
-export async function syncInventoryFromPurchaseOrder(params: {
+// Fuzzy description matches from the accept score up are taken as they are. From the
+// review score up they wait in the product match review queue; below it the line is a new product.
+const PRODUCT_MATCH_ACCEPT_SCORE = 0.8;
+const PRODUCT_MATCH_REVIEW_SCORE = 0.35;
+
+export interface ProductMatchCandidate {
+  productId: string;
+  name: string;
+  score: number;
+}
+
+// Candidates fetched per line (products sharing a description token); the app scores these and keeps the best five
+const PRODUCT_CANDIDATE_LIMIT = 20;
+
+// The user's products whose primary SKU, supplier SKU or a barcode is one of the codes
+async function findProductsByCode(userId: string, codes: string[]): Promise<Product[]> {
+  if (codes.length === 0) return [];
+
+  const { data, error } = await supabase.rpc('find_products_by_code', { p_user_id: userId, p_codes: codes });
+
+  if (error) {
+    throw new Error(`Failed to look up products by code: ${error.message}`);
+  }
+
+  return ((data || []) as ProductRow[]).map(productFromRow);
+}
+
+// Ids of the products sharing the most tokens with each description (by index), best first
+async function findProductCandidateIds(userId: string, descriptions: string[]): Promise<Map<number, string[]>> {
+  const candidates = new Map<number, string[]>();
+  if (descriptions.length === 0) return candidates;
+
+  const { data, error } = await supabase.rpc('match_product_candidates', {
+    p_user_id: userId,
+    p_descriptions: descriptions,
+    p_limit: PRODUCT_CANDIDATE_LIMIT,
+  });
+
+  if (error) {
+    throw new Error(`Failed to find product candidates: ${error.message}`);
+  }
+
+  for (const row of (data || []) as Array<{ line_index: number; product_id: string }>) {
+    candidates.set(row.line_index, [...(candidates.get(row.line_index) || []), row.product_id]);
+  }
+  return candidates;
+}
+
+async function getProductsByIds(ids: string[], userId: string): Promise<Product[]> {
+  const products: Product[] = [];
+
+  // Chunked to keep the request URL short
+  for (let i = 0; i < ids.length; i += 200) {
+    const { data, error } = await supabase
+      .from('products')
+      .select('*')
+      .eq('user_id', userId)
+      .in('id', ids.slice(i, i + 200));
+
+    if (error) {
+      throw new Error(`Failed to fetch products: ${error.message}`);
+    }
+    products.push(...(data || []).map(productFromRow));
+  }
+
+  return products;
+}
+
+// Products whose name or aliases resemble the description, best first
+function rankProductCandidates(description: string, products: Product[], limit = 5): ProductMatchCandidate[] {
+  const lineTokens = normalizeTextForMatch(description);
+  const candidates: ProductMatchCandidate[] = [];
+
+  for (const candidate of products) {
+    let score = computeTokenSimilarity(lineTokens, normalizeTextForMatch(candidate.name || ''));
+    for (const alias of candidate.aliases) {
+      score = Math.max(score, computeTokenSimilarity(lineTokens, normalizeTextForMatch(alias)));
+    }
+    if (score > 0) {
+      candidates.push({ productId: candidate.id, name: candidate.name, score: Number(score.toFixed(3)) });
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+// Keep the PO line's description as an alias so the next invoice matches it outright
+async function addProductAlias(product: Product, description: string, supplierId: string): Promise<void> {
+  const aliases = product.aliases.includes(description) ? product.aliases : [...product.aliases, description];
+  const { error } = await supabase
+    .from('products')
+    .update({
+      aliases,
+      supplierid: product.supplierId || supplierId,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', product.id);
+
+  if (error) {
+    console.error('Failed to update product:', error.message || 'Unknown error');
+    return;
+  }
+  product.aliases = aliases;
+  product.supplierId = product.supplierId || supplierId;
+}
+
+async function createProductFromPOLine(params: {
+  description: string;
+  supplierSku: string | null;
+  supplierId: string;
+  user_id: string;
+}): Promise<Product | null> {
+  const { data: newProduct, error } = await supabase
+    .from('products')
+    .insert({
+      name: params.description,
+      primarysku: params.supplierSku,
+      suppliersku: params.supplierSku,
+      barcodes: [],
+      aliases: [params.description],
+      supplierid: params.supplierId,
+      category: null,
+      tags: [],
+      imageurl: null,
+      user_id: params.user_id,
+    })
+    .select()
+    .single();
+
+  if (error || !newProduct) {
+    console.error('Failed to create product:', error?.message || 'Unknown error');
+    return null;
+  }
+  return productFromRow(newProduct);
+}
+
+// Remember the supplier's code for the product (and what it last cost)
+async function rememberSupplierSku(params: {
+  supplierId: string;
+  supplierSku: string;
+  productId: string;
+  line: POLine;
+  purchaseOrderId: string;
+  user_id: string;
+}): Promise<SupplierProduct | null> {
+  try {
+    return await recordSupplierProduct({
+      supplierId: params.supplierId,
+      supplierSku: params.supplierSku,
+      productId: params.productId,
+      unitCostGBP: typeof params.line.unitCostExVAT === 'number' ? params.line.unitCostExVAT : null,
+      purchaseOrderId: params.purchaseOrderId,
+      user_id: params.user_id,
+    });
+  } catch (error) {
+    console.error('Failed to record supplier product:', error);
+    return null;
+  }
+}
+
+// Put a PO line's quantity in transit. Returns false when there was nothing to put in transit.
+// Transit counts units of the product, so a line in packs of packSize is multiplied out.
+async function createTransitForPOLine(params: {
+  productId: string;
+  line: POLine;
+  packSize?: number;
   supplierId: string;
   purchaseOrderId: string;
-  poLines: POLine[];
   user_id: string;
-}): Promise<{
+}): Promise<boolean> {
+  const { line } = params;
+  const packSize = params.packSize && params.packSize > 0 ? params.packSize : 1;
+
+  // Validate quantity and unit cost before creating transit.
+  // Prefer the landed unit cost so allocated extras flow into average cost on receipt.
+  const quantity = typeof line.quantity === 'number' && line.quantity > 0 ? line.quantity * packSize : 0;
+  const lineUnitCost = typeof line.landedUnitCostGBP === 'number' ? line.landedUnitCostGBP : line.unitCostExVAT;
+  const unitCost = typeof lineUnitCost === 'number' && lineUnitCost >= 0
+    ? Number((lineUnitCost / packSize).toFixed(4))
+    : 0;
+
+  if (quantity <= 0) {
+    return false;
+  }
+
+  const { error: transitError } = await supabase
+    .from('transit')
+    .insert({
+      productid: params.productId,
+      purchaseorderid: params.purchaseOrderId,
+      polineid: line.id,
+      supplierid: params.supplierId,
+      quantity,
+      remainingquantity: quantity,
+      packsize: packSize,
+      unitcostgbp: unitCost,
+      status: 'in_transit',
+      user_id: params.user_id,
+    });
+
+  if (transitError) {
+    console.error('Failed to create transit record:', transitError.message || 'Unknown error');
+    return false;
+  }
+  return true;
+}
+
+export type InventorySyncLineResult = {
+  lineId: string;
+  outcome: 'matched' | 'created' | 'review';
+  productId: string | null;
+  transit: boolean;
+};
+
+export type InventorySyncResult = {
   productsCreated: number;
   productsMatched: number;
+  /** Lines waiting in the product match review queue (no transit yet) */
+  productsPendingReview: number;
   transitCreated: number;
-}> {
-  let productsCreated = 0;
-  let productsMatched = 0;
-  let transitCreated = 0;
-
-  const { data: products } = await supabase
-    .from('products')
-    .select('*');
+  lines: InventorySyncLineResult[];
+};
+
+// What to do with one PO line (by index), decided before anything is written: an existing
+// product, the nth product this order creates, or a review with its candidates. Products
+// this order creates are referred to as 'new:<n>' until they exist.
+type InventorySyncStep =
+  | { line: number; productId: string }
+  | { line: number; newProduct: number }
+  | { line: number; candidates: ProductMatchCandidate[] };
+
+export type InventorySyncPlan = { steps: InventorySyncStep[] };
+
+/**
+ * Decide which product each PO line is without writing anything; apply_inventory_sync
+ * (directly or through save_purchase_order) then carries the plan out in one transaction.
+ * supplierId is null for a supplier that doesn't exist yet.
+ */
+export async function planInventorySync(params: {
+  supplierId: string | null;
+  lines: Array<Pick<POLine, 'description' | 'supplierSku'>>;
+  user_id: string;
+}): Promise<InventorySyncPlan> {
+  const lines = params.lines
+    .map((line, index) => ({ index, description: line.description?.trim() || '', supplierSku: line.supplierSku?.trim() || null }))
+    .filter((line) => line.description);
+
+  const supplierProducts = params.supplierId
+    ? await getSupplierProductsBySku(params.supplierId)
+    : new Map<string, SupplierProduct>();
+
+  // Candidates come from the database: products carrying one of the lines' codes, the products
+  // this supplier's codes map to, and the products sharing tokens with each description
+  const codes = [...new Set(lines.map((line) => line.supplierSku).filter((code): code is string => !!code))];
+  const descriptions = lines.map((line) => line.description);
+  const [codeMatches, candidateIdsByLine] = await Promise.all([
+    findProductsByCode(params.user_id, codes),
+    findProductCandidateIds(params.user_id, descriptions),
+  ]);
+  const mappedIds = codes
+    .map((code) => supplierProducts.get(code.toLowerCase())?.productId)
+    .filter((id): id is string => !!id);
+  const candidateProducts = await getProductsByIds(
+    [...new Set([...mappedIds, ...[...candidateIdsByLine.values()].flat()])],
+    params.user_id
+  );
 
-  if (!products) {
-    throw new Error('Failed to fetch products');
+  // One object per product, so aliases added for one line are seen by the next
+  const productsById = new Map<string, Product>();
+  for (const product of [...codeMatches, ...candidateProducts]) {
+    if (!productsById.has(product.id)) productsById.set(product.id, product);
   }
+  // This supplier's codes, including ones first seen earlier in this order
+  const mappedProductIds = new Map([...supplierProducts].map(([code, mapping]) => [code, mapping.productId]));
+  // Products this order will create are candidates for its later lines too
+  const createdProducts: Product[] = [];
+  const steps: InventorySyncStep[] = [];
 
-  for (const line of params.poLines) {
-    const rawDescription = line.description?.trim();
-    if (!rawDescription) {
-      continue;
-    }
-
-    const supplierSku = line.supplierSku?.trim() || null;
+  for (const [lineIndex, line] of lines.entries()) {
+    const { description, supplierSku } = line;
 
-    // 1. Try exact SKU/barcode match first
+    // 1. This supplier's own code for the item
     let matchedProduct: Product | null = null;
     if (supplierSku) {
+      const mappedId = mappedProductIds.get(supplierSku.toLowerCase());
+      matchedProduct = (mappedId && productsById.get(mappedId)) || null;
+    }
+
+    // 2. Exact SKU/barcode match. Supplier codes only identify a product for the
+    // supplier it was recorded against; other suppliers may use the same code.
+    if (!matchedProduct && supplierSku) {
       const skuLower = supplierSku.toLowerCase();
       matchedProduct =
-        products.find(
+        [...codeMatches, ...createdProducts].find(
           (p) =>
             p.primarySku?.toLowerCase() === skuLower ||
-            p.supplierSku?.toLowerCase() === skuLower ||
-            (p.barcodes || []).some((code: string) => code.toLowerCase() === skuLower)
+            (p.supplierSku?.toLowerCase() === skuLower && (!p.supplierId || p.supplierId === params.supplierId)) ||
+            p.barcodes.some((code: string) => code.toLowerCase() === skuLower)
         ) || null;
     }
 
-    // 2. Fuzzy match on description if no SKU match
+    // 3. Fuzzy match on description if no SKU match. Close matches are taken; borderline
+    // ones wait for the user to choose before any stock is put in transit.
     if (!matchedProduct) {
-      const lineTokens = normalizeTextForMatch(rawDescription);
-      let bestScore = 0;
-      for (const candidate of products) {
-        const nameTokens = normalizeTextForMatch(candidate.name || '');
-        let score = computeTokenSimilarity(lineTokens, nameTokens);
-
-        if ((candidate.aliases || []).length > 0) {
-          for (const alias of candidate.aliases) {
-            const aliasTokens = normalizeTextForMatch(alias);
-            const aliasScore = computeTokenSimilarity(lineTokens, aliasTokens);
-            if (aliasScore > score) {
-              score = aliasScore;
-            }
-          }
-        }
-
-        if (score > bestScore) {
-          bestScore = score;
-          matchedProduct = candidate;
-        }
-      }
-
-      // Require a reasonable similarity threshold to avoid bad matches
-      if (bestScore < 0.5) {
-        matchedProduct = null;
+      const pool = [
+        ...(candidateIdsByLine.get(lineIndex) || []).map((id) => productsById.get(id)).filter((p): p is Product => !!p),
+        ...createdProducts,
+      ];
+      const candidates = rankProductCandidates(description, pool);
+      const best = candidates[0];
+      if (best && best.score >= PRODUCT_MATCH_ACCEPT_SCORE) {
+        matchedProduct = productsById.get(best.productId) || null;
+      } else if (best && best.score >= PRODUCT_MATCH_REVIEW_SCORE) {
+        steps.push({ line: line.index, candidates: candidates.filter((c) => c.score >= PRODUCT_MATCH_REVIEW_SCORE) });
+        continue;
       }
     }
 
-    const now = new Date().toISOString();
     let product: Product;
 
     if (matchedProduct) {
-      productsMatched++;
-      // Update aliases/supplier linkage if needed
-      const updatedAliases = matchedProduct.aliases || [];
-      if (!updatedAliases.includes(rawDescription)) {
-        updatedAliases.push(rawDescription);
-      }
-      const { error: updateError } = await supabase
-        .from('products')
-        .update({
-          aliases: updatedAliases,
-          supplierid: matchedProduct.supplierId || params.supplierId,
-          updated_at: now,
-        })
-        .eq('id', matchedProduct.id);
-      if (updateError) {
-        console.error('Failed to update product:', updateError.message || 'Unknown error');
+      // The description becomes an alias, as apply_inventory_sync will store it
+      if (!matchedProduct.aliases.includes(description)) {
+        matchedProduct.aliases = [...matchedProduct.aliases, description];
       }
+      matchedProduct.supplierId = matchedProduct.supplierId || params.supplierId;
       product = matchedProduct;
     } else {
-      // Create new product
-      const { data: newProduct, error: insertError } = await supabase
-        .from('products')
-        .insert({
-          name: rawDescription,
-          primarysku: supplierSku,
-          suppliersku: supplierSku,
-          barcodes: [],
-          aliases: [rawDescription],
-          supplierid: params.supplierId,
-          category: null,
-          tags: [],
-          imageurl: null,
-          user_id: params.user_id,
-        })
-        .select()
-        .single();
-
-      if (insertError || !newProduct) {
-        console.error('Failed to create product:', insertError?.message || 'Unknown error');
-        continue;
-      }
-      products.push(newProduct);
-      productsCreated++;
-      product = newProduct;
+      product = {
+        id: `new:${createdProducts.length}`,
+        name: description,
+        primarySku: supplierSku,
+        supplierSku,
+        barcodes: [],
+        aliases: [description],
+        supplierId: params.supplierId,
+        category: null,
+        tags: [],
+        imageUrl: null,
+        revision: 1,
+        createdAt: '',
+        updatedAt: '',
+      };
+      productsById.set(product.id, product);
+      createdProducts.push(product);
     }
 
-    // Validate quantity and unit cost before creating transit
-    const quantity = typeof line.quantity === 'number' && line.quantity > 0 ? line.quantity : 0;
-    const unitCost = typeof line.unitCostExVAT === 'number' && line.unitCostExVAT >= 0
-      ? Number(line.unitCostExVAT.toFixed(4))
-      : 0;
-
-    if (quantity <= 0) {
-      continue;
+    if (supplierSku) {
+      mappedProductIds.set(supplierSku.toLowerCase(), product.id);
     }
 
-    const { error: transitError } = await supabase
-      .from('transit')
-      .insert({
-        productid: product.id,
-        purchaseorderid: params.purchaseOrderId,
-        polineid: line.id,
-        supplierid: params.supplierId,
-        quantity,
-        remainingquantity: quantity,
-        unitcostgbp: unitCost,
-        status: 'in_transit',
-        user_id: params.user_id,
-      });
-
-    if (transitError) {
-      console.error('Failed to create transit record:', transitError.message || 'Unknown error');
-      continue;
-    }
-    transitCreated++;
+    const newProduct = createdProducts.indexOf(product);
+    steps.push(newProduct >= 0 ? { line: line.index, newProduct } : { line: line.index, productId: product.id });
   }
 
-  return {
-    productsCreated,
-    productsMatched,
-    transitCreated,
-  };
+  return { steps };
 }
 
-// Get an inventory snapshot (products + on-hand + quantity in transit)
-// Average cost is derived primarily from what is currently on order (transit),
-// and only falls back to the stored inventory.averagecostgbp when nothing is in transit.
-export async function getInventorySnapshot(): Promise<InventoryItemView[]> {
-  const [productsRes, inventoryRes, transitRes, poLinesRes] = await Promise.all([
-    supabase.from('products').select('*'),
-    supabase.from('inventory').select('*'),
-    supabase.from('transit').select('*'),
-    supabase.from('polines').select('id, unitcostexvat, purchaseorderid'),
-  ]);
+// The apply_inventory_sync arguments for a saved PO's lines
+async function planPurchaseOrderInventorySync(params: {
+  supplierId: string;
+  purchaseOrderId: string;
+  poLines: POLine[];
+  user_id: string;
+}) {
+  const { data: reviewRows } = await supabase
+    .from('product_match_reviews')
+    .select('polineid')
+    .eq('purchaseorderid', params.purchaseOrderId);
 
-  const rawProducts = productsRes.data || [];
-  const rawInventory = inventoryRes.data || [];
-  const rawTransit = transitRes.data || [];
-  const rawPoLines = poLinesRes.data || [];
+  // Lines already in the review queue are handled there
+  const reviewedLineIds = new Set((reviewRows || []).map((row: { polineid: string }) => row.polineid));
+  const lines = params.poLines.filter((line) => !reviewedLineIds.has(line.id));
 
-  const poLinesById = new Map<string, any>(
-    rawPoLines.map((l: any) => [l.id as string, l]),
-  );
+  const plan = await planInventorySync({ supplierId: params.supplierId, lines, user_id: params.user_id });
 
-  const typedProducts: Product[] = rawProducts.map((p: any) => ({
-    id: p.id,
-    name: p.name,
-    primarySku: p.primarysku ?? null,
-    supplierSku: p.suppliersku ?? null,
-    barcodes: p.barcodes ?? [],
-    aliases: p.aliases ?? [],
-    supplierId: p.supplierid ?? null,
-    category: p.category ?? null,
-    tags: p.tags ?? [],
-    imageUrl: p.imageurl ?? null,
-    createdAt: p.created_at,
-    updatedAt: p.updated_at,
-  }));
+  return {
+    p_user_id: params.user_id,
+    p_purchase_order_id: params.purchaseOrderId,
+    p_supplier_id: params.supplierId,
+    p_line_ids: lines.map((line) => line.id),
+    p_plan: plan,
+  };
+}
 
-  const items: InventoryItemView[] = typedProducts.map((product) => {
-    const invRow = rawInventory.find((i: any) => i.productid === product.id) || null;
+// Sync purchase order lines into products + transit records. Either every line is
+// synced or, on failure, nothing is.
+export async function syncInventoryFromPurchaseOrder(params: {
+  supplierId: string;
+  purchaseOrderId: string;
+  poLines: POLine[];
+  user_id: string;
+}): Promise<InventorySyncResult> {
+  const { data, error } = await supabase.rpc('apply_inventory_sync', await planPurchaseOrderInventorySync(params));
 
-    let inventory: InventoryRecord | null = invRow
-      ? {
-          id: invRow.id,
-          productId: invRow.productid,
-          quantityOnHand: Number(invRow.quantityonhand ?? 0),
-          averageCostGBP: Number(invRow.averagecostgbp ?? 0),
-          lastUpdated: invRow.lastupdated,
-        }
-      : null;
+  if (error || !data) {
+    throw new Error(`Failed to sync inventory: ${error?.message}`);
+  }
 
-    const productTransit = rawTransit.filter((t: any) => t.productid === product.id);
-    const remainingTransit = productTransit.filter(
-      (t: any) => Number(t.remainingquantity ?? 0) > 0,
-    );
+  return data as InventorySyncResult;
+}
 
-    const quantityInTransit = remainingTransit.reduce(
-      (sum: number, t: any) => sum + Number(t.remainingquantity ?? 0),
-      0,
-    );
+// --- Atomic purchase order save ---
 
-    // Derive expected average unit cost from on-hand + what is currently on order (transit)
-    const onHandQty = inventory ? inventory.quantityOnHand : 0;
-    const onHandAvg = inventory ? inventory.averageCostGBP : 0;
-    let blendedTotalQty = onHandQty;
-    let blendedTotalCost = onHandQty * onHandAvg;
+export interface SavePurchaseOrderInput {
+  supplier: { name: string; address: string | null; email: string | null; phone: string | null };
+  purchaseOrder: Omit<PurchaseOrder, 'id' | 'createdAt' | 'supplierId'>;
+  lines: Array<Omit<POLine, 'id' | 'purchaseOrderId' | 'landedUnitCostGBP'>>;
+  /** The supplier's billed amounts; null for a draft, which has no invoice yet */
+  invoice: InvoiceTotalsInput | null;
+  /** Put the lines in transit (drafts wait until they are placed) */
+  syncInventory: boolean;
+  user_id: string;
+}
 
-    if (remainingTransit.length > 0) {
-      for (const t of remainingTransit) {
-        const qty = Number(t.remainingquantity ?? 0);
-        if (!Number.isFinite(qty) || qty <= 0) continue;
+export interface SavePurchaseOrderResult {
+  supplierId: string;
+  supplierCreated: boolean;
+  purchaseOrderId: string;
+  invoiceId: string | null;
+  /** Saved line ids, in the order the lines were given */
+  lineIds: string[];
+  landedCosts: LandedCostAllocation;
+  inventorySync: InventorySyncResult | null;
+}
 
-        const poLine = poLinesById.get(t.polineid as string) || null;
+/**
+ * Save a new purchase order with its supplier, lines, invoice and transit in one
+ * transaction (save_purchase_order). Landed costs and product matches are worked out
+ * first without writing anything, so a failure leaves nothing half-saved.
+ */
+export async function savePurchaseOrder(input: SavePurchaseOrderInput): Promise<SavePurchaseOrderResult> {
+  if (!input.supplier.name || input.supplier.name.trim() === '') {
+    throw new Error('Supplier name is required');
+  }
 
-        let rawUnitCost = Number(t.unitcostgbp ?? 0);
-        if (!Number.isFinite(rawUnitCost) || rawUnitCost <= 0) {
-          rawUnitCost = Number(poLine?.unitcostexvat ?? 0);
-        }
+  // Spread extras (shipping, freight, handling) across the lines. A new order has no
+  // landed-cost charges yet, so the extras are the whole amount.
+  const landedCosts = allocateLandedCosts(
+    input.lines.map((line, index) => ({
+      id: String(index),
+      quantity: Number(line.quantity ?? 0),
+      unitCostExVAT: Number(line.unitCostExVAT ?? 0),
+      lineTotalExVAT: Number(line.lineTotalExVAT ?? 0),
+      weightKg: line.weightKg ?? null,
+    })),
+    Number(input.purchaseOrder.extras ?? 0),
+    input.purchaseOrder.landedCostMethod ?? 'value'
+  );
 
-        const unitCost = Number.isFinite(rawUnitCost) && rawUnitCost >= 0 ? rawUnitCost : 0;
+  let plan: InventorySyncPlan | null = null;
+  if (input.syncInventory) {
+    const { data: existingSupplier } = await supabase
+      .from('suppliers')
+      .select('id')
+      .ilike('name', input.supplier.name.trim().replace(/[\\%_]/g, '\\$&'))
+      .eq('user_id', input.user_id)
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    plan = await planInventorySync({
+      supplierId: existingSupplier?.id ?? null,
+      lines: input.lines,
+      user_id: input.user_id,
+    });
+  }
 
-        blendedTotalQty += qty;
-        blendedTotalCost += qty * unitCost;
-      }
+  const po = input.purchaseOrder;
+  const { data, error } = await supabase.rpc('save_purchase_order', {
+    p_user_id: input.user_id,
+    p_order: {
+      supplier: input.supplier,
+      purchaseOrder: {
+        invoicenumber: po.invoiceNumber,
+        invoicedate: po.invoiceDate,
+        currency: po.currency,
+        paymentterms: po.paymentTerms,
+        imageurl: po.imageUrl,
+        imageurls: po.imageUrls,
+        notes: po.notes,
+        subtotalexvat: po.subtotalExVAT ?? null,
+        extras: po.extras ?? null,
+        vat: po.vat ?? null,
+        totalamount: po.totalAmount ?? null,
+        landedcostmethod: po.landedCostMethod ?? 'value',
+        sourcecurrency: po.sourceCurrency ?? null,
+        fxrate: po.fxRate ?? null,
+        fxratedate: po.fxRateDate ?? null,
+        fxratesource: po.fxRateSource ?? null,
+        originalsubtotal: po.originalSubtotal ?? null,
+        originalextras: po.originalExtras ?? null,
+        originalvat: po.originalVat ?? null,
+        originaltotal: po.originalTotal ?? null,
+        status: po.status ?? 'ordered',
+      },
+      lines: input.lines.map((line, index) => ({
+        description: line.description,
+        suppliersku: line.supplierSku,
+        quantity: line.quantity,
+        unitcostexvat: line.unitCostExVAT,
+        linetotalexvat: line.lineTotalExVAT,
+        rrp: line.rrp,
+        weightkg: line.weightKg ?? null,
+        originalunitcost: line.originalUnitCost ?? null,
+        originallinetotal: line.originalLineTotal ?? null,
+        landedunitcostgbp: landedCosts.lines[index].landedUnitCostGBP,
+      })),
+      invoice: input.invoice
+        ? {
+            invoicenumber: po.invoiceNumber,
+            invoicedate: po.invoiceDate,
+            currency: po.currency,
+            subtotalexvat: input.invoice.subtotalExVAT,
+            extras: input.invoice.extras,
+            vat: input.invoice.vat,
+            totalamount: input.invoice.totalAmount,
+          }
+        : null,
+      inventory: plan,
+    },
+  });
+
+  if (error || !data) {
+    throw new Error(`Failed to save purchase order: ${error?.message}`);
+  }
+
+  const saved = data as Omit<SavePurchaseOrderResult, 'landedCosts'>;
+  return {
+    ...saved,
+    landedCosts: {
+      ...landedCosts,
+      lines: landedCosts.lines.map((line, index) => ({ ...line, lineId: saved.lineIds[index] })),
+    },
+  };
+}
+
+// --- Supplier product mappings ---
+
+export interface SupplierProduct {
+  id: string;
+  supplierId: string;
+  supplierSku: string;
+  productId: string;
+  /** Product units in one unit as invoiced by the supplier */
+  packSize: number;
+  lastCostGBP: number | null;
+  lastSeenAt: string | null;
+  lastPurchaseOrderId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type SupplierProductRow = {
+  id: string;
+  supplierid: string;
+  suppliersku: string;
+  productid: string;
+  packsize: number | string;
+  lastcostgbp: number | string | null;
+  lastseenat: string | null;
+  lastpurchaseorderid: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+function mapSupplierProductRow(row: SupplierProductRow): SupplierProduct {
+  return {
+    id: row.id,
+    supplierId: row.supplierid,
+    supplierSku: row.suppliersku,
+    productId: row.productid,
+    packSize: Number(row.packsize),
+    lastCostGBP: row.lastcostgbp === null ? null : Number(row.lastcostgbp),
+    lastSeenAt: row.lastseenat,
+    lastPurchaseOrderId: row.lastpurchaseorderid,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// A supplier's item codes, keyed by lower-cased code
+export async function getSupplierProductsBySku(supplierId: string): Promise<Map<string, SupplierProduct>> {
+  const { data, error } = await supabase
+    .from('supplier_products')
+    .select('*')
+    .eq('supplierid', supplierId);
+
+  if (error) {
+    throw new Error(`Failed to fetch supplier products: ${error.message}`);
+  }
+
+  return new Map((data || []).map((row: SupplierProductRow) => [row.suppliersku.toLowerCase(), mapSupplierProductRow(row)]));
+}
+
+// Every supplier a product is bought from, with their code for it
+export async function listSupplierProductsForProduct(
+  productId: string,
+  userId: string
+): Promise<Array<SupplierProduct & { supplierName: string | null }>> {
+  const { data, error } = await supabase
+    .from('supplier_products')
+    .select('*, suppliers(name)')
+    .eq('productid', productId)
+    .eq('user_id', userId)
+    .order('lastseenat', { ascending: false, nullsFirst: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch supplier products: ${error.message}`);
+  }
+
+  return (data || []).map((row: SupplierProductRow & { suppliers: { name: string } | null }) => ({
+    ...mapSupplierProductRow(row),
+    supplierName: row.suppliers?.name ?? null,
+  }));
+}
+
+export async function getSupplierProduct(id: string, userId: string): Promise<SupplierProduct | null> {
+  const { data } = await supabase
+    .from('supplier_products')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .single();
+
+  return data ? mapSupplierProductRow(data) : null;
+}
+
+/**
+ * Point a supplier's code at a product, creating the mapping or moving an existing
+ * one. A purchase order sighting also records the unit cost and when it was seen.
+ */
+export async function recordSupplierProduct(params: {
+  supplierId: string;
+  supplierSku: string;
+  productId: string;
+  packSize?: number;
+  unitCostGBP?: number | null;
+  purchaseOrderId?: string | null;
+  user_id: string;
+}): Promise<SupplierProduct> {
+  const supplierSku = params.supplierSku.trim();
+  const now = new Date().toISOString();
+
+  const { data: existing } = await supabase
+    .from('supplier_products')
+    .select('id, productid')
+    .eq('supplierid', params.supplierId)
+    .ilike('suppliersku', supplierSku.replace(/[\\%_]/g, '\\$&'))
+    .single();
+
+  const fields: Record<string, unknown> = {
+    productid: params.productId,
+    updated_at: now,
+  };
+  // A code moved to another product starts again at a pack size of 1
+  if (params.packSize !== undefined) fields.packsize = params.packSize;
+  else if (existing && existing.productid !== params.productId) fields.packsize = 1;
+  if (params.purchaseOrderId) {
+    fields.lastseenat = now;
+    fields.lastpurchaseorderid = params.purchaseOrderId;
+    if (params.unitCostGBP !== undefined && params.unitCostGBP !== null) {
+      fields.lastcostgbp = Number(params.unitCostGBP.toFixed(4));
+    }
+  }
+
+  const { data, error } = existing
+    ? await supabase.from('supplier_products').update(fields).eq('id', existing.id).select().single()
+    : await supabase
+        .from('supplier_products')
+        .insert({ ...fields, supplierid: params.supplierId, suppliersku: supplierSku, user_id: params.user_id })
+        .select()
+        .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to record supplier product: ${error?.message}`);
+  }
+
+  return mapSupplierProductRow(data);
+}
+
+export async function deleteSupplierProduct(id: string): Promise<void> {
+  const { error } = await supabase.from('supplier_products').delete().eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to delete supplier product: ${error.message}`);
+  }
+}
+
+// --- Product match reviews ---
+
+export type ProductMatchReviewStatus = 'pending' | 'matched' | 'created';
+
+export interface ProductMatchReview {
+  id: string;
+  purchaseOrderId: string;
+  poLineId: string;
+  supplierId: string | null;
+  description: string;
+  supplierSku: string | null;
+  quantity: number | null;
+  unitCostExVAT: number | null;
+  /** Best matching products when the line was synced */
+  candidates: ProductMatchCandidate[];
+  status: ProductMatchReviewStatus;
+  productId: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+type ProductMatchReviewRow = {
+  id: string;
+  purchaseorderid: string;
+  polineid: string;
+  supplierid: string | null;
+  description: string;
+  suppliersku: string | null;
+  quantity: number | string | null;
+  unitcostexvat: number | string | null;
+  candidates: ProductMatchCandidate[] | null;
+  status: ProductMatchReviewStatus;
+  productid: string | null;
+  resolvedat: string | null;
+  created_at: string;
+};
+
+function mapProductMatchReviewRow(row: ProductMatchReviewRow): ProductMatchReview {
+  return {
+    id: row.id,
+    purchaseOrderId: row.purchaseorderid,
+    poLineId: row.polineid,
+    supplierId: row.supplierid,
+    description: row.description,
+    supplierSku: row.suppliersku,
+    quantity: row.quantity === null ? null : Number(row.quantity),
+    unitCostExVAT: row.unitcostexvat === null ? null : Number(row.unitcostexvat),
+    candidates: row.candidates ?? [],
+    status: row.status,
+    productId: row.productid,
+    resolvedAt: row.resolvedat,
+    createdAt: row.created_at,
+  };
+}
+
+// Lines waiting for the user to pick a product, oldest first
+export async function listPendingProductMatchReviews(
+  userId: string
+): Promise<Array<ProductMatchReview & { invoiceNumber: string | null; supplierName: string | null }>> {
+  const { data, error } = await supabase
+    .from('product_match_reviews')
+    .select('*, purchaseorders(invoicenumber), suppliers(name)')
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+    .limit(200);
+
+  if (error) {
+    throw new Error(`Failed to fetch product match reviews: ${error.message}`);
+  }
+
+  type Row = ProductMatchReviewRow & { purchaseorders: { invoicenumber: string | null } | null; suppliers: { name: string } | null };
+  return (data || []).map((row: Row) => ({
+    ...mapProductMatchReviewRow(row),
+    invoiceNumber: row.purchaseorders?.invoicenumber ?? null,
+    supplierName: row.suppliers?.name ?? null,
+  }));
+}
+
+export async function getProductMatchReview(id: string, userId: string): Promise<ProductMatchReview | null> {
+  const { data } = await supabase
+    .from('product_match_reviews')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .single();
+
+  return data ? mapProductMatchReviewRow(data) : null;
+}
+
+/**
+ * Settle a review: match the line to an existing product (productId) or create a new
+ * product from it (productId null). The choice is remembered as a product alias and,
+ * with a supplier code, as a supplier product mapping; then the line goes into transit.
+ * Returns null when the review was already resolved.
+ */
+export async function resolveProductMatchReview(params: {
+  review: ProductMatchReview;
+  productId: string | null;
+  user_id: string;
+}): Promise<{ product: Product; transitCreated: boolean } | null> {
+  const { review } = params;
+
+  // Claim the review so a double submit cannot put the line in transit twice
+  const { data: claimed } = await supabase
+    .from('product_match_reviews')
+    .update({
+      status: params.productId ? 'matched' : 'created',
+      resolvedat: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', review.id)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (!claimed || claimed.length === 0) {
+    return null;
+  }
+
+  const [{ data: purchaseOrder }, lines] = await Promise.all([
+    supabase.from('purchaseorders').select('supplierid, status').eq('id', review.purchaseOrderId).single(),
+    getPOLinesForPurchaseOrder(review.purchaseOrderId),
+  ]);
+  const line = lines.find((l) => l.id === review.poLineId);
+  const supplierId = purchaseOrder?.supplierid ?? review.supplierId;
+
+  let product: Product | null = null;
+  if (line && supplierId) {
+    if (params.productId) {
+      const { data: productRow } = await supabase
+        .from('products')
+        .select('*')
+        .eq('id', params.productId)
+        .eq('user_id', params.user_id)
+        .single();
+      product = productRow ? productFromRow(productRow) : null;
+      if (product) await addProductAlias(product, review.description, supplierId);
+    } else {
+      product = await createProductFromPOLine({
+        description: review.description,
+        supplierSku: review.supplierSku,
+        supplierId,
+        user_id: params.user_id,
+      });
+    }
+  }
+
+  if (!line || !supplierId || !product) {
+    // Put the review back so it can be resolved again
+    await supabase.from('product_match_reviews').update({ status: 'pending', resolvedat: null }).eq('id', review.id);
+    throw new Error('Failed to resolve product match review: product or purchase order line not found');
+  }
+
+  const mapping = review.supplierSku
+    ? await rememberSupplierSku({
+        supplierId,
+        supplierSku: review.supplierSku,
+        productId: product.id,
+        line,
+        purchaseOrderId: review.purchaseOrderId,
+        user_id: params.user_id,
+      })
+    : null;
+
+  // Stock on a cancelled or closed order is not expected any more
+  const transitCreated = purchaseOrder?.status === 'cancelled' || purchaseOrder?.status === 'closed'
+    ? false
+    : await createTransitForPOLine({
+        productId: product.id,
+        line: { ...line, landedUnitCostGBP: line.landedUnitCostGBP ?? line.unitCostExVAT },
+        packSize: mapping?.packSize,
+        supplierId,
+        purchaseOrderId: review.purchaseOrderId,
+        user_id: params.user_id,
+      });
+
+  const { error } = await supabase
+    .from('product_match_reviews')
+    .update({ productid: product.id })
+    .eq('id', review.id);
+
+  if (error) {
+    console.error('Failed to record product match review result:', error.message);
+  }
+
+  return { product, transitCreated };
+}
+
+// --- Landed cost helpers ---
+
+export async function getLandedCostCharges(purchaseOrderId: string): Promise<LandedCostCharge[]> {
+  const { data, error } = await supabase
+    .from('po_landed_costs')
+    .select('*')
+    .eq('purchaseorderid', purchaseOrderId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load landed costs: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    purchaseOrderId: row.purchaseorderid,
+    kind: row.kind,
+    description: row.description ?? null,
+    amountGBP: Number(row.amountgbp ?? 0),
+    createdAt: row.created_at,
+  }));
+}
+
+// Replace the extra landed-cost charges (duty, brokerage, ...) recorded against a PO
+export async function replaceLandedCostCharges(params: {
+  purchaseOrderId: string;
+  charges: Array<{ kind: LandedCostKind; description: string | null; amountGBP: number }>;
+  user_id: string;
+}): Promise<LandedCostCharge[]> {
+  const { error: deleteError } = await supabase
+    .from('po_landed_costs')
+    .delete()
+    .eq('purchaseorderid', params.purchaseOrderId);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear landed costs: ${deleteError.message}`);
+  }
+
+  if (params.charges.length === 0) {
+    return [];
+  }
+
+  const { error: insertError } = await supabase
+    .from('po_landed_costs')
+    .insert(
+      params.charges.map((charge) => ({
+        purchaseorderid: params.purchaseOrderId,
+        kind: charge.kind,
+        description: charge.description,
+        amountgbp: charge.amountGBP,
+        user_id: params.user_id,
+      })),
+    );
+
+  if (insertError) {
+    throw new Error(`Failed to save landed costs: ${insertError.message}`);
+  }
+
+  return getLandedCostCharges(params.purchaseOrderId);
+}
+
+// Re-allocate PO extras + landed-cost charges across its lines, then push the new
+// landed unit cost into any transit rows that still have quantity to receive.
+// Units already received keep the cost they were received at.
+export async function reallocateLandedCostsForPurchaseOrder(
+  purchaseOrderId: string,
+): Promise<LandedCostAllocation> {
+  const { data: po, error: poError } = await supabase
+    .from('purchaseorders')
+    .select('id, extras, landedcostmethod')
+    .eq('id', purchaseOrderId)
+    .single();
+
+  if (poError || !po) {
+    throw new Error(`Purchase order not found: ${poError?.message}`);
+  }
+
+  const [linesRes, charges, transitRes] = await Promise.all([
+    supabase
+      .from('polines')
+      .select('id, quantity, unitcostexvat, linetotalexvat, weightkg')
+      .eq('purchaseorderid', purchaseOrderId),
+    getLandedCostCharges(purchaseOrderId),
+    supabase
+      .from('transit')
+      .select('polineid, packsize')
+      .eq('purchaseorderid', purchaseOrderId)
+      .gt('remainingquantity', 0),
+  ]);
+
+  if (linesRes.error || transitRes.error) {
+    throw new Error(`Failed to load PO lines: ${(linesRes.error || transitRes.error)?.message}`);
+  }
+
+  // Transit is costed per unit of the product, the line per unit as ordered
+  const packSizeByLineId = new Map(
+    (transitRes.data || []).map((t) => [t.polineid as string, Number(t.packsize ?? 1) || 1])
+  );
+
+  const lines = (linesRes.data || []).map((row) => ({
+    id: row.id as string,
+    quantity: Number(row.quantity ?? 0),
+    unitCostExVAT: Number(row.unitcostexvat ?? 0),
+    lineTotalExVAT: Number(row.linetotalexvat ?? 0),
+    weightKg: row.weightkg != null ? Number(row.weightkg) : null,
+  }));
+
+  const extras = Number(po.extras ?? 0);
+  const totalCharges =
+    (Number.isFinite(extras) ? extras : 0) +
+    charges.reduce((sum, charge) => sum + (Number.isFinite(charge.amountGBP) ? charge.amountGBP : 0), 0);
+
+  const allocation = allocateLandedCosts(lines, totalCharges, po.landedcostmethod ?? 'value');
+  const now = new Date().toISOString();
+
+  for (const line of allocation.lines) {
+    const { error: lineError } = await supabase
+      .from('polines')
+      .update({ landedunitcostgbp: line.landedUnitCostGBP })
+      .eq('id', line.lineId);
+
+    if (lineError) {
+      throw new Error(`Failed to update landed cost for line: ${lineError.message}`);
+    }
+
+    const { error: transitError } = await supabase
+      .from('transit')
+      .update({
+        unitcostgbp: Number((line.landedUnitCostGBP / (packSizeByLineId.get(line.lineId) ?? 1)).toFixed(4)),
+        updated_at: now,
+      })
+      .eq('polineid', line.lineId)
+      .gt('remainingquantity', 0);
+
+    if (transitError) {
+      throw new Error(`Failed to update transit cost: ${transitError.message}`);
+    }
+  }
+
+  return allocation;
+}
+
+// --- FX re-conversion helpers ---
+
+export interface ReconvertPurchaseOrderResult {
+  purchaseOrderId: string;
+  sourceCurrency: string;
+  previousRate: number | null;
+  rate: number;
+  rateDate: string | null;
+  linesUpdated: number;
+  subtotalExVAT: number | null;
+  extras: number | null;
+  vat: number | null;
+  totalAmount: number | null;
+  landedCosts: LandedCostAllocation;
+  revision: number;
+}
+
+// Re-convert a PO's GBP amounts from its invoice-currency amounts at a new rate
+// (e.g. the payment-date rate). Lines and totals are rewritten, landed costs are
+// re-allocated and transit rows still awaiting stock pick up the new cost.
+// Units already received keep the cost they were received at.
+// Returns null when the PO has moved on from `revision`; nothing is changed then
+export async function reconvertPurchaseOrder(params: {
+  purchaseOrderId: string;
+  rate: number;
+  rateDate: string | null;
+  rateSource: ExchangeRateSource;
+  revision: number;
+}): Promise<ReconvertPurchaseOrderResult | null> {
+  const { purchaseOrderId, rate, rateDate, rateSource, revision } = params;
+
+  const { data: po, error: poError } = await supabase
+    .from('purchaseorders')
+    .select('id, sourcecurrency, fxrate, subtotalexvat, extras, vat, totalamount, originalsubtotal, originalextras, originalvat, originaltotal')
+    .eq('id', purchaseOrderId)
+    .single();
+
+  if (poError || !po) {
+    throw new Error(`Purchase order not found: ${poError?.message}`);
+  }
+
+  if (!po.sourcecurrency) {
+    throw new Error('Purchase order has no source currency recorded');
+  }
+
+  const previousRate = po.fxrate != null && Number(po.fxrate) > 0 ? Number(po.fxrate) : null;
+
+  // POs saved before original amounts were kept can still be re-converted via their old rate
+  const toOriginal = (original: unknown, gbp: unknown): number | null => {
+    if (original != null) return Number(original);
+    if (gbp != null && previousRate) return Number(gbp) / previousRate;
+    return null;
+  };
+
+  const originalSubtotal = toOriginal(po.originalsubtotal, po.subtotalexvat);
+  const originalExtras = toOriginal(po.originalextras, po.extras);
+  const originalVat = toOriginal(po.originalvat, po.vat);
+  const originalTotal = toOriginal(po.originaltotal, po.totalamount);
+
+  const subtotalExVAT = originalSubtotal !== null ? convertAmount(originalSubtotal, rate) : null;
+  const extras = originalExtras !== null ? convertAmount(originalExtras, rate) : null;
+  const vat = originalVat !== null ? convertAmount(originalVat, rate) : null;
+  const totalAmount = originalTotal !== null ? convertAmount(originalTotal, rate) : null;
+
+  // The header goes first and claims the revision, so a concurrent edit gets a conflict
+  const { data: updatedPO, error: updateError } = await supabase
+    .from('purchaseorders')
+    .update({
+      revision: revision + 1,
+      fxrate: rate,
+      fxratedate: rateDate,
+      fxratesource: rateSource,
+      subtotalexvat: subtotalExVAT,
+      extras,
+      vat,
+      totalamount: totalAmount,
+      originalsubtotal: originalSubtotal,
+      originalextras: originalExtras,
+      originalvat: originalVat,
+      originaltotal: originalTotal,
+    })
+    .eq('id', purchaseOrderId)
+    .eq('revision', revision)
+    .select('revision')
+    .maybeSingle();
+
+  if (updateError) {
+    throw new Error(`Failed to update purchase order: ${updateError.message}`);
+  }
+  if (!updatedPO) {
+    return null;
+  }
+
+  const { data: lineRows, error: linesError } = await supabase
+    .from('polines')
+    .select('id, quantity, unitcostexvat, linetotalexvat, originalunitcost, originallinetotal')
+    .eq('purchaseorderid', purchaseOrderId);
+
+  if (linesError) {
+    throw new Error(`Failed to load PO lines: ${linesError.message}`);
+  }
+
+  let linesUpdated = 0;
+  for (const row of lineRows || []) {
+    const originalUnitCost = toOriginal(row.originalunitcost, row.unitcostexvat);
+    const originalLineTotal = toOriginal(row.originallinetotal, row.linetotalexvat);
+    if (originalUnitCost === null && originalLineTotal === null) continue;
+
+    const converted = convertLineAmounts(
+      {
+        quantity: Number(row.quantity ?? 0),
+        unitCost: originalUnitCost ?? 0,
+        lineTotal: originalLineTotal ?? 0,
+      },
+      rate,
+    );
+
+    const { error: lineError } = await supabase
+      .from('polines')
+      .update({
+        unitcostexvat: converted.unitCost,
+        linetotalexvat: converted.lineTotal,
+        originalunitcost: originalUnitCost,
+        originallinetotal: originalLineTotal,
+      })
+      .eq('id', row.id);
+
+    if (lineError) {
+      throw new Error(`Failed to update PO line: ${lineError.message}`);
+    }
+    linesUpdated++;
+  }
+
+  const landedCosts = await reallocateLandedCostsForPurchaseOrder(purchaseOrderId);
+
+  return {
+    purchaseOrderId,
+    sourceCurrency: po.sourcecurrency,
+    previousRate,
+    rate,
+    rateDate,
+    linesUpdated,
+    subtotalExVAT,
+    extras,
+    vat,
+    totalAmount,
+    landedCosts,
+    revision: updatedPO.revision,
+  };
+}
+
+// --- Inventory movements ---
+
+export interface InventoryMovement {
+  id: string;
+  productId: string;
+  quantityDelta: number;
+  quantityAfter: number;
+  unitCostGBP: number | null;
+  averageCostAfterGBP: number | null;
+  movementType: InventoryMovementType;
+  sourceType: InventoryMovementSourceType | null;
+  sourceId: string | null;
+  actor: InventoryMovementActor;
+  actorUserId: string | null;
+  context: Record<string, unknown>;
+  createdAt: string;
+}
+
+type InventoryMovementRow = {
+  id: string;
+  productid: string;
+  quantitydelta: NumericColumn;
+  quantityafter: NumericColumn;
+  unitcostgbp: NumericColumn;
+  averagecostafter: NumericColumn;
+  movementtype: InventoryMovementType;
+  sourcetype: InventoryMovementSourceType | null;
+  sourceid: string | null;
+  actor: InventoryMovementActor;
+  actoruserid: string | null;
+  context: Record<string, unknown> | null;
+  created_at: string;
+};
+
+function mapInventoryMovementRow(row: InventoryMovementRow): InventoryMovement {
+  return {
+    id: row.id,
+    productId: row.productid,
+    quantityDelta: Number(row.quantitydelta ?? 0),
+    quantityAfter: Number(row.quantityafter ?? 0),
+    unitCostGBP: toNumberOrNull(row.unitcostgbp),
+    averageCostAfterGBP: toNumberOrNull(row.averagecostafter),
+    movementType: row.movementtype,
+    sourceType: row.sourcetype ?? null,
+    sourceId: row.sourceid ?? null,
+    actor: row.actor,
+    actorUserId: row.actoruserid ?? null,
+    context: row.context ?? {},
+    createdAt: row.created_at,
+  };
+}
+
+// Change a product's on-hand stock by `delta`. The database appends the ledger row in the
+// same statement; incoming units with a unit cost are folded into the weighted average
+// unless `averageCostGBP` sets it outright.
+export async function applyInventoryMovement(params: {
+  productId: string;
+  delta: number;
+  movement: InventoryMovementDescription;
+  averageCostGBP?: number | null;
+  user_id: string;
+}): Promise<{ inventoryId: string; quantityOnHand: number; averageCostGBP: number }> {
+  const { data, error } = await supabase.rpc('apply_inventory_movement', {
+    p_user_id: params.user_id,
+    p_product_id: params.productId,
+    p_delta: params.delta,
+    p_movement: params.movement,
+    p_average_cost: params.averageCostGBP ?? null,
+  });
+
+  if (error || !data) {
+    throw new Error(`Failed to update inventory: ${error?.message}`);
+  }
+
+  return {
+    inventoryId: data.inventoryId,
+    quantityOnHand: Number(data.quantityOnHand ?? 0),
+    averageCostGBP: Number(data.averageCostGBP ?? 0),
+  };
+}
+
+// A product's movements, newest first, with a readable name for each source document.
+// Page back through older ones with `before` (the createdAt of the last movement shown).
+export async function listInventoryMovements(
+  productId: string,
+  userId: string,
+  options: {
+    before?: { createdAt: string; id: string } | null;
+    limit?: number;
+    movementType?: InventoryMovementType | null;
+  } = {},
+): Promise<Array<InventoryMovement & { sourceLabel: string | null; purchaseOrderId: string | null }>> {
+  let query = supabase
+    .from('inventory_movements')
+    .select('*')
+    .eq('productid', productId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(options.limit ?? 100);
+
+  // Keyset on (created_at, id), the sort order, so movements sharing a timestamp are not skipped
+  if (options.before) {
+    const { createdAt, id } = options.before;
+    query = query.or(`created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt.${id})`);
+  }
+  if (options.movementType) {
+    query = query.eq('movementtype', options.movementType);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch inventory movements: ${error.message}`);
+  }
+
+  const movements = ((data || []) as InventoryMovementRow[]).map(mapInventoryMovementRow);
+  const idsOf = (sourceType: InventoryMovementSourceType) =>
+    Array.from(new Set(movements.filter((m) => m.sourceType === sourceType && m.sourceId).map((m) => m.sourceId as string)));
+
+  const poLineIds = idsOf('po_line');
+  const returnIds = idsOf('supplier_return');
+  const [{ data: poLines }, { data: supplierReturns }] = await Promise.all([
+    poLineIds.length > 0
+      ? supabase.from('polines').select('id, purchaseorderid').in('id', poLineIds)
+      : Promise.resolve({ data: [] }),
+    returnIds.length > 0
+      ? supabase.from('supplier_returns').select('id, returnnumber, purchaseorderid').in('id', returnIds)
+      : Promise.resolve({ data: [] }),
+  ]);
+
+  const purchaseOrderIds = Array.from(new Set((poLines || []).map((l) => l.purchaseorderid as string)));
+  const { data: purchaseOrders } = purchaseOrderIds.length > 0
+    ? await supabase.from('purchaseorders').select('id, invoicenumber').in('id', purchaseOrderIds)
+    : { data: [] };
+
+  const invoiceNumberByPoId = new Map((purchaseOrders || []).map((po) => [po.id as string, po.invoicenumber as string | null]));
+  const poLineById = new Map((poLines || []).map((l) => [l.id as string, l.purchaseorderid as string]));
+  const returnById = new Map(
+    (supplierReturns || []).map((r) => [r.id as string, { returnNumber: r.returnnumber as string, purchaseOrderId: r.purchaseorderid as string }])
+  );
+
+  return movements.map((movement) => {
+    let sourceLabel: string | null = null;
+    let purchaseOrderId: string | null = null;
+
+    if (movement.sourceType === 'po_line' && movement.sourceId) {
+      purchaseOrderId = poLineById.get(movement.sourceId) ?? null;
+      sourceLabel = purchaseOrderId
+        ? `PO ${invoiceNumberByPoId.get(purchaseOrderId) || purchaseOrderId.slice(0, 8)}`
+        : 'Deleted PO line';
+    } else if (movement.sourceType === 'supplier_return' && movement.sourceId) {
+      const supplierReturn = returnById.get(movement.sourceId);
+      purchaseOrderId = supplierReturn?.purchaseOrderId ?? null;
+      sourceLabel = supplierReturn ? `Return ${supplierReturn.returnNumber}` : 'Supplier return';
+    } else if (movement.sourceType === 'order' && movement.sourceId) {
+      sourceLabel = `Shopify order ${movement.sourceId}`;
+    } else if (movement.sourceType === 'import_batch') {
+      sourceLabel = 'Inventory import';
+    } else if (movement.sourceType === 'user_adjustment') {
+      const reason = typeof movement.context.reason === 'string' ? movement.context.reason : null;
+      sourceLabel = reason ? `Stock adjustment (${reason.replace('_', '-')})` : 'Stock adjustment';
+    }
+
+    return { ...movement, sourceLabel, purchaseOrderId };
+  });
+}
+
+// --- Stock adjustments ---
+
+export interface StockAdjustment {
+  id: string;
+  productId: string;
+  reason: StockAdjustmentReason;
+  quantityDelta: number;
+  quantityBefore: number;
+  quantityAfter: number;
+  /** Average cost per unit when the adjustment was made */
+  unitCostGBP: number;
+  costImpactGBP: number;
+  note: string | null;
+  createdAt: string;
+}
+
+type StockAdjustmentRow = {
+  id: string;
+  productid: string;
+  reason: StockAdjustmentReason;
+  quantitydelta: NumericColumn;
+  quantitybefore: NumericColumn;
+  quantityafter: NumericColumn;
+  unitcostgbp: NumericColumn;
+  costimpactgbp: NumericColumn;
+  note: string | null;
+  created_at: string;
+};
+
+function mapStockAdjustmentRow(row: StockAdjustmentRow): StockAdjustment {
+  return {
+    id: row.id,
+    productId: row.productid,
+    reason: row.reason,
+    quantityDelta: Number(row.quantitydelta ?? 0),
+    quantityBefore: Number(row.quantitybefore ?? 0),
+    quantityAfter: Number(row.quantityafter ?? 0),
+    unitCostGBP: Number(row.unitcostgbp ?? 0),
+    costImpactGBP: Number(row.costimpactgbp ?? 0),
+    note: row.note ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+export interface StockAdjustmentReportRow {
+  /** First day of the period, YYYY-MM-DD */
+  period: string;
+  reason: StockAdjustmentReason;
+  adjustments: number;
+  quantity: number;
+  costImpactGBP: number;
+}
+
+// Adjust on-hand stock for a reason. The database values it at the current average cost,
+// leaves the average unchanged and appends the movement, all in one transaction.
+export async function createStockAdjustment(params: {
+  productId: string;
+  reason: StockAdjustmentReason;
+  quantityDelta: number;
+  note: string | null;
+  user_id: string;
+}): Promise<StockAdjustment> {
+  const { data, error } = await supabase.rpc('record_stock_adjustment', {
+    p_user_id: params.user_id,
+    p_product_id: params.productId,
+    p_reason: params.reason,
+    p_delta: params.quantityDelta,
+    p_note: params.note,
+  });
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (error || !row) {
+    throw new Error(`Failed to record stock adjustment: ${error?.message}`);
+  }
+
+  return mapStockAdjustmentRow(row as StockAdjustmentRow);
+}
+
+// Adjustments newest first, with the product's name, optionally for one product or reason
+export async function listStockAdjustments(
+  userId: string,
+  options: {
+    productId?: string | null;
+    reason?: StockAdjustmentReason | null;
+    from?: string | null;
+    to?: string | null;
+    limit?: number;
+  } = {},
+): Promise<Array<StockAdjustment & { productName: string | null }>> {
+  let query = supabase
+    .from('stock_adjustments')
+    .select('*, products(name)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 100);
+
+  if (options.productId) {
+    query = query.eq('productid', options.productId);
+  }
+  if (options.reason) {
+    query = query.eq('reason', options.reason);
+  }
+  if (options.from) {
+    query = query.gte('created_at', options.from);
+  }
+  if (options.to) {
+    query = query.lt('created_at', options.to);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch stock adjustments: ${error.message}`);
+  }
+
+  return ((data || []) as Array<StockAdjustmentRow & { products: { name: string | null } | null }>).map((row) => ({
+    ...mapStockAdjustmentRow(row),
+    productName: row.products?.name ?? null,
+  }));
+}
+
+// Adjustment count, units and cost impact per reason and period, for [from, to)
+export async function getStockAdjustmentReport(params: {
+  from: string;
+  to: string;
+  period: StockAdjustmentPeriod;
+  user_id: string;
+}): Promise<StockAdjustmentReportRow[]> {
+  const { data, error } = await supabase.rpc('stock_adjustment_report', {
+    p_user_id: params.user_id,
+    p_from: params.from,
+    p_to: params.to,
+    p_period: params.period,
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch stock adjustment report: ${error.message}`);
+  }
+
+  return ((data || []) as Array<{
+    period: string;
+    reason: StockAdjustmentReason;
+    adjustments: number;
+    quantity: NumericColumn;
+    costimpactgbp: NumericColumn;
+  }>).map((row) => ({
+    period: row.period,
+    reason: row.reason,
+    adjustments: Number(row.adjustments ?? 0),
+    quantity: Number(row.quantity ?? 0),
+    costImpactGBP: Number(row.costimpactgbp ?? 0),
+  }));
+}
+
+// --- Purchase order status helpers ---
+
+// Move a PO to `to`, stamping the matching timestamp column.
+// Callers are responsible for checking the transition is allowed. Cancelling goes through
+// cancelPurchaseOrder, and placing a draft through placeDraftPurchaseOrder, as both change stock.
+export async function setPurchaseOrderStatus(
+  purchaseOrderId: string,
+  to: PurchaseOrderStatus,
+): Promise<void> {
+  const updates: Record<string, string> = { status: to };
+  if (to !== 'draft') {
+    updates[PO_STATUS_TIMESTAMP_COLUMNS[to]] = new Date().toISOString();
+  }
+
+  const { error } = await supabase
+    .from('purchaseorders')
+    .update(updates)
+    .eq('id', purchaseOrderId);
+
+  if (error) {
+    throw new Error(`Failed to update purchase order status: ${error.message}`);
+  }
+}
+
+// Cancel a PO and write off what it still has in transit, in one transaction
+// (cancel_purchase_order). Returns the units written off.
+export async function cancelPurchaseOrder(params: {
+  purchaseOrderId: string;
+  user_id: string;
+}): Promise<number> {
+  const { data, error } = await supabase.rpc('cancel_purchase_order', {
+    p_user_id: params.user_id,
+    p_purchase_order_id: params.purchaseOrderId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to cancel purchase order: ${error.message}`);
+  }
+
+  return Number(data ?? 0);
+}
+
+// Place a draft PO: move it to ordered and put its lines into transit, as saving an invoice
+// does, in one transaction (place_draft_purchase_order). Fails if the PO is not a draft.
+export async function placeDraftPurchaseOrder(params: {
+  purchaseOrderId: string;
+  supplierId: string;
+  user_id: string;
+}): Promise<InventorySyncResult> {
+  const args = await planPurchaseOrderInventorySync({
+    supplierId: params.supplierId,
+    purchaseOrderId: params.purchaseOrderId,
+    poLines: await getPOLinesForPurchaseOrder(params.purchaseOrderId),
+    user_id: params.user_id,
+  });
+
+  const { data, error } = await supabase.rpc('place_draft_purchase_order', args);
+
+  if (error || !data) {
+    throw new Error(`Failed to place draft purchase order: ${error?.message}`);
+  }
+
+  return data as InventorySyncResult;
+}
+
+// Derive partially received / received from the PO's transit rows and promote the
+// PO if that is a valid move from its current state. Closed and cancelled POs are left alone.
+export async function syncPurchaseOrderStatusFromTransit(
+  purchaseOrderId: string,
+): Promise<PurchaseOrderStatus | null> {
+  const [poRes, transitRes] = await Promise.all([
+    supabase.from('purchaseorders').select('id, status').eq('id', purchaseOrderId).single(),
+    supabase.from('transit').select('quantity, remainingquantity').eq('purchaseorderid', purchaseOrderId),
+  ]);
+
+  if (poRes.error || !poRes.data) {
+    return null;
+  }
+
+  const current = (poRes.data.status ?? 'ordered') as PurchaseOrderStatus;
+  const rows = transitRes.data || [];
+  if (transitRes.error || rows.length === 0) {
+    return current;
+  }
+
+  const totalQuantity = rows.reduce((sum, r) => sum + Number(r.quantity ?? 0), 0);
+  const totalRemaining = rows.reduce((sum, r) => sum + Number(r.remainingquantity ?? 0), 0);
+
+  let target: PurchaseOrderStatus | null = null;
+  if (totalRemaining <= 0) target = 'received';
+  else if (totalRemaining < totalQuantity) target = 'partially_received';
+
+  if (!target || target === current || !canTransitionPurchaseOrder(current, target)) {
+    return current;
+  }
+
+  await setPurchaseOrderStatus(purchaseOrderId, target);
+  return target;
+}
+
+// Get an inventory snapshot (products + on-hand + quantity in transit)
+// Average cost is derived primarily from what is currently on order (transit),
+// and only falls back to the stored inventory.averagecostgbp when nothing is in transit.
+export async function getInventorySnapshot(): Promise<InventoryItemView[]> {
+  const [productsRes, inventoryRes, transitRes, poLinesRes] = await Promise.all([
+    supabase.from('products').select('*'),
+    supabase.from('inventory').select('*'),
+    supabase.from('transit').select('*'),
+    supabase.from('polines').select('id, unitcostexvat, purchaseorderid'),
+  ]);
+
+  const rawProducts = productsRes.data || [];
+  const rawInventory = inventoryRes.data || [];
+  const rawTransit = transitRes.data || [];
+  const rawPoLines = poLinesRes.data || [];
+
+  const poLinesById = new Map<string, any>(
+    rawPoLines.map((l: any) => [l.id as string, l]),
+  );
+
+  const typedProducts: Product[] = rawProducts.map((p: any) => ({
+    id: p.id,
+    name: p.name,
+    primarySku: p.primarysku ?? null,
+    supplierSku: p.suppliersku ?? null,
+    barcodes: p.barcodes ?? [],
+    aliases: p.aliases ?? [],
+    supplierId: p.supplierid ?? null,
+    category: p.category ?? null,
+    tags: p.tags ?? [],
+    imageUrl: p.imageurl ?? null,
+    revision: p.revision ?? 1,
+    createdAt: p.created_at,
+    updatedAt: p.updated_at,
+  }));
+
+  const items: InventoryItemView[] = typedProducts.map((product) => {
+    const invRow = rawInventory.find((i: any) => i.productid === product.id) || null;
+
+    let inventory: InventoryRecord | null = invRow
+      ? {
+          id: invRow.id,
+          productId: invRow.productid,
+          quantityOnHand: Number(invRow.quantityonhand ?? 0),
+          averageCostGBP: Number(invRow.averagecostgbp ?? 0),
+          lastUpdated: invRow.lastupdated,
+        }
+      : null;
+
+    const productTransit = rawTransit.filter((t: any) => t.productid === product.id);
+    const remainingTransit = productTransit.filter(
+      (t: any) => Number(t.remainingquantity ?? 0) > 0,
+    );
+
+    const quantityInTransit = remainingTransit.reduce(
+      (sum: number, t: any) => sum + Number(t.remainingquantity ?? 0),
+      0,
+    );
+
+    // Derive expected average unit cost from on-hand + what is currently on order (transit)
+    const onHandQty = inventory ? inventory.quantityOnHand : 0;
+    const onHandAvg = inventory ? inventory.averageCostGBP : 0;
+    let blendedTotalQty = onHandQty;
+    let blendedTotalCost = onHandQty * onHandAvg;
+
+    if (remainingTransit.length > 0) {
+      for (const t of remainingTransit) {
+        const qty = Number(t.remainingquantity ?? 0);
+        if (!Number.isFinite(qty) || qty <= 0) continue;
+
+        const poLine = poLinesById.get(t.polineid as string) || null;
+
+        let rawUnitCost = Number(t.unitcostgbp ?? 0);
+        if (!Number.isFinite(rawUnitCost) || rawUnitCost <= 0) {
+          rawUnitCost = Number(poLine?.unitcostexvat ?? 0) / (Number(t.packsize ?? 1) || 1);
+        }
+
+        const unitCost = Number.isFinite(rawUnitCost) && rawUnitCost >= 0 ? rawUnitCost : 0;
+
+        blendedTotalQty += qty;
+        blendedTotalCost += qty * unitCost;
+      }
+    }
+
+    let displayAverageCost = inventory ? inventory.averageCostGBP : 0;
+    if (blendedTotalQty > 0 && blendedTotalCost > 0) {
+      displayAverageCost = Number((blendedTotalCost / blendedTotalQty).toFixed(4));
+    }
+
+    // Fallback: if average is still 0 but we have transit history, derive from ALL
+    // transit records (including received) using PO line unit costs
+    if (displayAverageCost <= 0 && productTransit.length > 0) {
+      let fallbackTotalQty = 0;
+      let fallbackTotalCost = 0;
+      for (const t of productTransit) {
+        const qty = Number(t.quantity ?? 0);
+        if (!Number.isFinite(qty) || qty <= 0) continue;
+
+        const poLine = poLinesById.get(t.polineid as string) || null;
+        let unitCost = Number(t.unitcostgbp ?? 0);
+        if (!Number.isFinite(unitCost) || unitCost <= 0) {
+          unitCost = Number(poLine?.unitcostexvat ?? 0) / (Number(t.packsize ?? 1) || 1);
+        }
+        if (!Number.isFinite(unitCost) || unitCost <= 0) continue;
+
+        fallbackTotalQty += qty;
+        fallbackTotalCost += qty * unitCost;
+      }
+      if (fallbackTotalQty > 0 && fallbackTotalCost > 0) {
+        displayAverageCost = Number((fallbackTotalCost / fallbackTotalQty).toFixed(4));
+      }
+    }
+
+    if (inventory) {
+      inventory = { ...inventory, averageCostGBP: displayAverageCost };
+    } else if (displayAverageCost > 0) {
+      // No on-hand inventory yet, but we do have pricing from POs in transit.
+      inventory = {
+        id: product.id,
+        productId: product.id,
+        quantityOnHand: 0,
+        averageCostGBP: displayAverageCost,
+        lastUpdated: product.updatedAt || product.createdAt,
+      };
+    }
+
+    return {
+      product,
+      inventory,
+      quantityInTransit,
+    };
+  });
+
+  return items;
+}
+
+export interface ReceiveStockResult {
+  productId: string;
+  receivedQuantity: number;
+  remainingRequestedQuantity: number;
+  newQuantityOnHand: number;
+  newAverageCostGBP: number;
+  affectedTransitIds: string[];
+  purchaseOrderStatuses: Record<string, PurchaseOrderStatus>;
+}
+
+// Add units to on-hand stock, folding their value into the weighted average cost
+async function addToInventoryOnHand(
+  productId: string,
+  quantity: number,
+  totalValueGBP: number,
+  movement: Omit<InventoryMovementDescription, 'unitCostGBP'>,
+  userId: string,
+): Promise<{ newOnHand: number; newAvg: number }> {
+  const result = await applyInventoryMovement({
+    productId,
+    delta: quantity,
+    movement: { ...movement, unitCostGBP: quantity > 0 ? totalValueGBP / quantity : 0 },
+    user_id: userId,
+  });
+
+  return { newOnHand: result.quantityOnHand, newAvg: result.averageCostGBP };
+}
+
+// Move quantities from transit to on-hand inventory using dollar cost averaging
+export async function receiveStockForProduct(params: {
+  productId: string;
+  quantity: number;
+  poLineId?: string;
+  // Recorded on the stock movements, e.g. the goods received note
+  context?: Record<string, unknown>;
+  user_id: string;
+}): Promise<ReceiveStockResult> {
+  const { productId, quantity, poLineId } = params;
+
+  if (!productId) {
+    throw new Error('productId is required');
+  }
+
+  if (typeof quantity !== 'number' || !Number.isFinite(quantity) || quantity <= 0) {
+    throw new Error('Quantity must be a positive number');
+  }
+
+  const { data: product } = await supabase
+    .from('products')
+    .select('*')
+    .eq('id', productId)
+    .single();
+
+  if (!product) {
+    throw new Error('Product not found');
+  }
+
+  const now = new Date().toISOString();
+
+  // Get transit records sorted by creation date
+  let transitQuery = supabase
+    .from('transit')
+    .select('*')
+    .eq('productid', productId)
+    .gt('remainingquantity', 0);
+
+  if (poLineId) {
+    transitQuery = transitQuery.eq('polineid', poLineId);
+  }
+
+  const { data: transitRecords, error: transitError } = await transitQuery.order(
+    'created_at',
+    { ascending: true },
+  );
+
+  if (transitError) {
+    throw new Error(`Failed to load transit records: ${transitError.message}`);
+  }
+
+  if (!transitRecords || transitRecords.length === 0) {
+    throw new Error('No in-transit quantity available for this product');
+  }
+
+  let remainingToReceive = quantity;
+  let receivedQuantity = 0;
+  const affectedTransitIds: string[] = [];
+  // Units and value received per PO line, each recorded as its own stock movement
+  const receivedByLine = new Map<string | null, { quantity: number; value: number; purchaseOrderId: string | null }>();
+  const affectedPurchaseOrderIds = new Set<string>();
+
+  for (const t of transitRecords) {
+    if (remainingToReceive <= 0) break;
+
+    const available = Number(t.remainingquantity ?? 0);
+    if (available <= 0) continue;
+
+    const take = Math.min(remainingToReceive, available);
+
+    // Supabase returns NUMERIC columns as strings; coerce to number safely
+    const rawUnitCost = Number(t.unitcostgbp);
+    const unitCost = Number.isFinite(rawUnitCost) && rawUnitCost >= 0 ? rawUnitCost : 0;
+
+    const lineKey: string | null = t.polineid ?? null;
+    const lineReceived = receivedByLine.get(lineKey) ?? { quantity: 0, value: 0, purchaseOrderId: t.purchaseorderid ?? null };
+    lineReceived.quantity += take;
+    lineReceived.value += take * unitCost;
+    receivedByLine.set(lineKey, lineReceived);
+    receivedQuantity += take;
+    const newRemaining = available - take;
+    const newStatus = newRemaining > 0 ? 'partially_received' : 'received';
+
+    await supabase
+      .from('transit')
+      .update({
+        remainingquantity: newRemaining,
+        status: newStatus,
+        updated_at: now,
+      })
+      .eq('id', t.id);
+
+    affectedTransitIds.push(t.id);
+    if (t.purchaseorderid) affectedPurchaseOrderIds.add(t.purchaseorderid);
+    remainingToReceive -= take;
+  }
+
+  if (receivedQuantity <= 0) {
+    throw new Error('Unable to receive stock: no available in-transit quantity for this product');
+  }
+
+  let newOnHand = 0;
+  let newAvg = 0;
+  for (const [lineId, received] of receivedByLine) {
+    ({ newOnHand, newAvg } = await addToInventoryOnHand(
+      productId,
+      received.quantity,
+      received.value,
+      {
+        movementType: 'purchase_receipt',
+        sourceType: lineId ? 'po_line' : null,
+        sourceId: lineId,
+        actor: 'user',
+        actorUserId: params.user_id,
+        context: { ...params.context, purchaseOrderId: received.purchaseOrderId },
+      },
+      params.user_id,
+    ));
+  }
+
+  // Promote the affected POs to partially received / received as their transit drains
+  const purchaseOrderStatuses: Record<string, PurchaseOrderStatus> = {};
+  for (const purchaseOrderId of affectedPurchaseOrderIds) {
+    const status = await syncPurchaseOrderStatusFromTransit(purchaseOrderId);
+    if (status) purchaseOrderStatuses[purchaseOrderId] = status;
+  }
+
+  return {
+    productId,
+    receivedQuantity,
+    remainingRequestedQuantity: remainingToReceive,
+    newQuantityOnHand: newOnHand,
+    newAverageCostGBP: newAvg,
+    affectedTransitIds,
+    purchaseOrderStatuses,
+  };
+}
+
+// --- Goods received notes ---
+
+export interface GoodsReceivedNoteLine {
+  id: string;
+  grnId: string;
+  poLineId: string | null;
+  productId: string | null;
+  description: string | null;
+  expectedQuantity: number;
+  receivedQuantity: number;
+  damagedQuantity: number;
+  shortQuantity: number;
+  overQuantity: number;
+  acceptedQuantity: number;
+  writtenOffQuantity: number;
+  shortfallAction: ShortfallAction;
+  unitCostGBP: number | null;
+  note: string | null;
+  photoUrl: string | null;
+}
+
+export interface GoodsReceivedNote {
+  id: string;
+  grnNumber: string;
+  purchaseOrderId: string;
+  supplierId: string | null;
+  receivedAt: string;
+  notes: string | null;
+  createdAt: string;
+  lines: GoodsReceivedNoteLine[];
+}
+
+export interface GoodsReceivedLineInput {
+  poLineId: string;
+  receivedQuantity: number;
+  damagedQuantity?: number;
+  shortfallAction?: ShortfallAction;
+  note?: string | null;
+  photoUrl?: string | null;
+}
+
+type NumericColumn = number | string | null;
+
+interface GoodsReceivedNoteLineRow {
+  id: string;
+  grnid: string;
+  polineid: string | null;
+  productid: string | null;
+  description: string | null;
+  expectedquantity: NumericColumn;
+  receivedquantity: NumericColumn;
+  damagedquantity: NumericColumn;
+  shortquantity: NumericColumn;
+  overquantity: NumericColumn;
+  acceptedquantity: NumericColumn;
+  writtenoffquantity: NumericColumn;
+  shortfallaction: ShortfallAction | null;
+  unitcostgbp: NumericColumn;
+  note: string | null;
+  photourl: string | null;
+}
+
+interface GoodsReceivedNoteRow {
+  id: string;
+  grnnumber: string;
+  purchaseorderid: string;
+  supplierid: string | null;
+  receivedat: string;
+  notes: string | null;
+  created_at: string;
+}
+
+function mapGoodsReceivedNoteLineRow(row: GoodsReceivedNoteLineRow): GoodsReceivedNoteLine {
+  return {
+    id: row.id,
+    grnId: row.grnid,
+    poLineId: row.polineid ?? null,
+    productId: row.productid ?? null,
+    description: row.description ?? null,
+    expectedQuantity: Number(row.expectedquantity ?? 0),
+    receivedQuantity: Number(row.receivedquantity ?? 0),
+    damagedQuantity: Number(row.damagedquantity ?? 0),
+    shortQuantity: Number(row.shortquantity ?? 0),
+    overQuantity: Number(row.overquantity ?? 0),
+    acceptedQuantity: Number(row.acceptedquantity ?? 0),
+    writtenOffQuantity: Number(row.writtenoffquantity ?? 0),
+    shortfallAction: row.shortfallaction ?? 'keep_open',
+    unitCostGBP: row.unitcostgbp != null ? Number(row.unitcostgbp) : null,
+    note: row.note ?? null,
+    photoUrl: row.photourl ?? null,
+  };
+}
+
+function mapGoodsReceivedNoteRow(row: GoodsReceivedNoteRow, lines: GoodsReceivedNoteLine[]): GoodsReceivedNote {
+  return {
+    id: row.id,
+    grnNumber: row.grnnumber,
+    purchaseOrderId: row.purchaseorderid,
+    supplierId: row.supplierid ?? null,
+    receivedAt: row.receivedat,
+    notes: row.notes ?? null,
+    createdAt: row.created_at,
+    lines,
+  };
+}
+
+// Take units out of a PO line's open transit (oldest first), counting them in the given
+// column rather than as received. Returns the quantity actually drained.
+async function drainTransitQuantity(
+  poLineId: string,
+  quantity: number,
+  column: 'returnedquantity',
+): Promise<number> {
+  const { data: transitRecords, error } = await supabase
+    .from('transit')
+    .select('*')
+    .eq('polineid', poLineId)
+    .gt('remainingquantity', 0)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load transit records: ${error.message}`);
+  }
+
+  const now = new Date().toISOString();
+  let remainingToDrain = quantity;
+
+  for (const t of transitRecords || []) {
+    if (remainingToDrain <= 0) break;
+
+    const available = Number(t.remainingquantity ?? 0);
+    const take = Math.min(remainingToDrain, available);
+    const newRemaining = available - take;
+
+    const { error: updateError } = await supabase
+      .from('transit')
+      .update({
+        remainingquantity: newRemaining,
+        [column]: Number(t[column] ?? 0) + take,
+        status: newRemaining > 0 ? 'partially_received' : 'received',
+        updated_at: now,
+      })
+      .eq('id', t.id);
+
+    if (updateError) {
+      throw new Error(`Failed to update transit quantity: ${updateError.message}`);
+    }
+
+    remainingToDrain -= take;
+  }
+
+  return quantity - remainingToDrain;
+}
+
+// What a PO line still has in transit, and the product it is for
+export async function getOpenTransitForPOLine(
+  poLineId: string,
+): Promise<{ productId: string | null; remainingQuantity: number }> {
+  const { data, error } = await supabase
+    .from('transit')
+    .select('productid, remainingquantity')
+    .eq('polineid', poLineId);
+
+  if (error) {
+    throw new Error(`Failed to load transit records: ${error.message}`);
+  }
+
+  return {
+    productId: data?.[0]?.productid ?? null,
+    remainingQuantity: (data || []).reduce((sum, t) => sum + Math.max(Number(t.remainingquantity ?? 0), 0), 0),
+  };
+}
+
+// Record a delivery against a purchase order. Each line is compared with the PO line's
+// open transit quantity: good units go to on-hand (over-deliveries at the line's cost),
+// damaged units and written-off shortfalls leave transit, kept-open shortfalls stay in it.
+export async function createGoodsReceivedNote(params: {
+  purchaseOrderId: string;
+  lines: GoodsReceivedLineInput[];
+  notes?: string | null;
+  receivedAt?: string | null;
+  user_id: string;
+}): Promise<{ note: GoodsReceivedNote; purchaseOrderStatus: PurchaseOrderStatus | null }> {
+  const { data: po, error: poError } = await supabase
+    .from('purchaseorders')
+    .select('id, supplierid')
+    .eq('id', params.purchaseOrderId)
+    .single();
+
+  if (poError || !po) {
+    throw new Error('Purchase order not found');
+  }
+
+  const poLineIds = params.lines.map((l) => l.poLineId);
+  const [{ data: poLines, error: linesError }, { data: transitRows, error: transitError }] = await Promise.all([
+    supabase.from('polines').select('id, description').eq('purchaseorderid', po.id).in('id', poLineIds),
+    supabase
+      .from('transit')
+      .select('polineid, productid, remainingquantity, unitcostgbp')
+      .eq('purchaseorderid', po.id)
+      .in('polineid', poLineIds),
+  ]);
+
+  if (linesError || transitError) {
+    throw new Error(`Failed to load purchase order lines: ${(linesError || transitError)?.message}`);
+  }
+
+  const descriptionByLineId = new Map((poLines || []).map((l) => [l.id, l.description as string]));
+  for (const line of params.lines) {
+    if (!descriptionByLineId.has(line.poLineId)) {
+      throw new Error('Line does not belong to this purchase order');
+    }
+  }
+
+  // Work out every line before touching stock, so a bad line fails the whole note
+  const plans = params.lines.map((line) => {
+    const transit = (transitRows || []).filter((t) => t.polineid === line.poLineId);
+    const productId: string | null = transit[0]?.productid ?? null;
+    const unitCostGBP = transit.length > 0 ? Number(transit[0].unitcostgbp ?? 0) : null;
+    const expectedQuantity = transit.reduce((sum, t) => sum + Number(t.remainingquantity ?? 0), 0);
+    const shortfallAction = line.shortfallAction ?? 'keep_open';
+
+    const quantities = computeGrnLineQuantities({
+      expectedQuantity,
+      receivedQuantity: line.receivedQuantity,
+      damagedQuantity: line.damagedQuantity ?? 0,
+      shortfallAction,
+    });
+
+    if (!productId && (quantities.acceptedQuantity > 0 || quantities.writtenOffQuantity > 0)) {
+      throw new Error(`No in-transit stock for "${descriptionByLineId.get(line.poLineId)}"`);
+    }
+
+    return { line, productId, unitCostGBP, expectedQuantity, shortfallAction, quantities };
+  });
+
+  // The note, its lines and every stock change are written in one transaction
+  const { data: grnId, error: recordError } = await supabase.rpc('record_goods_received_note', {
+    p_user_id: params.user_id,
+    p_purchase_order_id: po.id,
+    p_supplier_id: po.supplierid ?? null,
+    p_received_at: params.receivedAt || new Date().toISOString(),
+    p_notes: params.notes ?? null,
+    p_lines: plans.map(({ line, productId, unitCostGBP, expectedQuantity, shortfallAction, quantities }) => ({
+      poLineId: line.poLineId,
+      productId,
+      description: descriptionByLineId.get(line.poLineId) ?? null,
+      expectedQuantity,
+      receivedQuantity: line.receivedQuantity,
+      damagedQuantity: line.damagedQuantity ?? 0,
+      shortQuantity: quantities.shortQuantity,
+      overQuantity: quantities.overQuantity,
+      acceptedQuantity: quantities.acceptedQuantity,
+      receivedFromTransit: quantities.receivedFromTransit,
+      acceptedOverQuantity: quantities.acceptedOverQuantity,
+      writtenOffQuantity: quantities.writtenOffQuantity,
+      shortfallAction,
+      unitCostGBP,
+      note: line.note ?? null,
+      photoUrl: line.photoUrl ?? null,
+    })),
+  });
+
+  if (recordError || !grnId) {
+    throw new Error(`Failed to create goods received note: ${recordError?.message}`);
+  }
+
+  const note = await getGoodsReceivedNote(grnId as string);
+  if (!note) {
+    throw new Error('Failed to load goods received note');
+  }
+
+  // Write-offs can close out a PO just like receipts do
+  const purchaseOrderStatus = await syncPurchaseOrderStatusFromTransit(po.id);
+
+  return { note, purchaseOrderStatus };
+}
+
+// Attach a photo to a GRN line after upload (the line must exist first for its storage path)
+export async function setGoodsReceivedNoteLinePhoto(lineId: string, photoUrl: string): Promise<void> {
+  const { error } = await supabase
+    .from('goods_received_note_lines')
+    .update({ photourl: photoUrl })
+    .eq('id', lineId);
+
+  if (error) {
+    throw new Error(`Failed to save goods received photo: ${error.message}`);
+  }
+}
+
+export async function getGoodsReceivedNote(grnId: string): Promise<GoodsReceivedNote | null> {
+  const [{ data: header }, { data: lines, error: linesError }] = await Promise.all([
+    supabase.from('goods_received_notes').select('*').eq('id', grnId).single(),
+    supabase.from('goods_received_note_lines').select('*').eq('grnid', grnId).order('created_at', { ascending: true }),
+  ]);
+
+  if (!header) {
+    return null;
+  }
+  if (linesError) {
+    throw new Error(`Failed to load goods received note lines: ${linesError.message}`);
+  }
+
+  return mapGoodsReceivedNoteRow(header, (lines || []).map(mapGoodsReceivedNoteLineRow));
+}
+
+export async function listGoodsReceivedNotes(purchaseOrderId: string): Promise<GoodsReceivedNote[]> {
+  const { data: headers, error } = await supabase
+    .from('goods_received_notes')
+    .select('*')
+    .eq('purchaseorderid', purchaseOrderId)
+    .order('receivedat', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load goods received notes: ${error.message}`);
+  }
+  if (!headers || headers.length === 0) {
+    return [];
+  }
+
+  const { data: lines, error: linesError } = await supabase
+    .from('goods_received_note_lines')
+    .select('*')
+    .in('grnid', headers.map((h) => h.id))
+    .order('created_at', { ascending: true });
+
+  if (linesError) {
+    throw new Error(`Failed to load goods received note lines: ${linesError.message}`);
+  }
+
+  const mappedLines = (lines || []).map(mapGoodsReceivedNoteLineRow);
+  return headers.map((h) => mapGoodsReceivedNoteRow(h, mappedLines.filter((l) => l.grnId === h.id)));
+}
+
+// --- Invoice matching ---
+
+export interface InvoiceLine {
+  id: string;
+  invoiceId: string;
+  poLineId: string | null;
+  description: string;
+  supplierSku: string | null;
+  quantity: number;
+  unitCostExVAT: number;
+  lineTotalExVAT: number;
+}
+
+export type InvoiceLineInput = Omit<InvoiceLine, 'id' | 'invoiceId'>;
+
+interface InvoiceRow {
+  id: string;
+  purchaseorderid: string;
+  supplierid: string;
+  invoicenumber: string | null;
+  invoicedate: string | null;
+  currency: string;
+  subtotalexvat: NumericColumn;
+  extras: NumericColumn;
+  vat: NumericColumn;
+  totalamount: NumericColumn;
+  matchstatus: InvoiceMatchStatus | null;
+  matchedat: string | null;
+  creditedamountgbp: NumericColumn;
+  created_at: string;
+}
+
+interface InvoiceLineRow {
+  id: string;
+  invoiceid: string;
+  polineid: string | null;
+  description: string;
+  suppliersku: string | null;
+  quantity: NumericColumn;
+  unitcostexvat: NumericColumn;
+  linetotalexvat: NumericColumn;
+}
+
+const toNumberOrNull = (value: NumericColumn) => (value != null ? Number(value) : null);
+
+function mapInvoiceRow(row: InvoiceRow): Invoice {
+  return {
+    id: row.id,
+    purchaseOrderId: row.purchaseorderid,
+    supplierId: row.supplierid,
+    invoiceNumber: row.invoicenumber ?? null,
+    invoiceDate: row.invoicedate ?? null,
+    currency: row.currency,
+    subtotalExVAT: toNumberOrNull(row.subtotalexvat),
+    extras: toNumberOrNull(row.extras),
+    vat: toNumberOrNull(row.vat),
+    totalAmount: toNumberOrNull(row.totalamount),
+    matchStatus: row.matchstatus ?? 'unmatched',
+    matchedAt: row.matchedat ?? null,
+    creditedAmountGBP: Number(row.creditedamountgbp ?? 0),
+    createdAt: row.created_at,
+  };
+}
+
+function mapInvoiceLineRow(row: InvoiceLineRow): InvoiceLine {
+  return {
+    id: row.id,
+    invoiceId: row.invoiceid,
+    poLineId: row.polineid ?? null,
+    description: row.description,
+    supplierSku: row.suppliersku ?? null,
+    quantity: Number(row.quantity ?? 0),
+    unitCostExVAT: Number(row.unitcostexvat ?? 0),
+    lineTotalExVAT: Number(row.linetotalexvat ?? 0),
+  };
+}
+
+// Replace everything the supplier billed on an invoice with a fresh set of lines
+export async function replaceInvoiceLines(
+  invoiceId: string,
+  lines: InvoiceLineInput[],
+  user_id: string,
+): Promise<InvoiceLine[]> {
+  const { error: deleteError } = await supabase
+    .from('invoice_lines')
+    .delete()
+    .eq('invoiceid', invoiceId);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear invoice lines: ${deleteError.message}`);
+  }
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('invoice_lines')
+    .insert(
+      lines.map((line) => ({
+        invoiceid: invoiceId,
+        polineid: line.poLineId,
+        description: line.description,
+        suppliersku: line.supplierSku,
+        quantity: line.quantity,
+        unitcostexvat: line.unitCostExVAT,
+        linetotalexvat: line.lineTotalExVAT,
+        user_id,
+      }))
+    )
+    .select();
+
+  if (error || !data) {
+    throw new Error(`Failed to save invoice lines: ${error?.message}`);
+  }
+
+  return data.map(mapInvoiceLineRow);
+}
+
+export async function getInvoiceForPurchaseOrder(
+  purchaseOrderId: string
+): Promise<{ invoice: Invoice; lines: InvoiceLine[] } | null> {
+  const { data: invoice } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('purchaseorderid', purchaseOrderId)
+    .single();
+
+  if (!invoice) {
+    return null;
+  }
+
+  const { data: lines, error } = await supabase
+    .from('invoice_lines')
+    .select('*')
+    .eq('invoiceid', invoice.id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load invoice lines: ${error.message}`);
+  }
+
+  return { invoice: mapInvoiceRow(invoice), lines: (lines || []).map(mapInvoiceLineRow) };
+}
+
+// Good units of the product received per PO line: drained from transit (net of write-offs and
+// cancellations) plus any over-delivery accepted on a goods received note. With inLineUnits the
+// quantities are divided back by the line's pack size, to compare with the quantity ordered.
+export async function getReceivedQuantitiesByPOLine(
+  purchaseOrderId: string,
+  options: { inLineUnits?: boolean } = {},
+): Promise<Record<string, number>> {
+  const [{ data: transitRows, error: transitError }, { data: grnLines, error: grnError }] = await Promise.all([
+    supabase
+      .from('transit')
+      .select('polineid, quantity, remainingquantity, writtenoffquantity, returnedquantity, packsize')
+      .eq('purchaseorderid', purchaseOrderId),
+    supabase
+      .from('goods_received_note_lines')
+      .select('polineid, expectedquantity, receivedquantity, damagedquantity, shortfallaction, goods_received_notes!inner(purchaseorderid)')
+      .eq('goods_received_notes.purchaseorderid', purchaseOrderId),
+  ]);
+
+  if (transitError || grnError) {
+    throw new Error(`Failed to load received quantities: ${(transitError || grnError)?.message}`);
+  }
+
+  const received: Record<string, number> = {};
+  const add = (poLineId: string | null, quantity: number) => {
+    if (!poLineId || quantity <= 0) return;
+    received[poLineId] = (received[poLineId] ?? 0) + quantity;
+  };
+
+  for (const t of transitRows || []) {
+    add(
+      t.polineid,
+      Number(t.quantity ?? 0) -
+        Number(t.remainingquantity ?? 0) -
+        Number(t.writtenoffquantity ?? 0) -
+        Number(t.returnedquantity ?? 0)
+    );
+  }
+  for (const line of grnLines || []) {
+    const { acceptedOverQuantity } = computeGrnLineQuantities({
+      expectedQuantity: Number(line.expectedquantity ?? 0),
+      receivedQuantity: Number(line.receivedquantity ?? 0),
+      damagedQuantity: Number(line.damagedquantity ?? 0),
+      shortfallAction: line.shortfallaction ?? 'keep_open',
+    });
+    add(line.polineid, acceptedOverQuantity);
+  }
+
+  if (options.inLineUnits) {
+    const packSizeByLineId = new Map((transitRows || []).map((t) => [t.polineid as string, Number(t.packsize ?? 1) || 1]));
+    for (const poLineId of Object.keys(received)) {
+      received[poLineId] = received[poLineId] / (packSizeByLineId.get(poLineId) ?? 1);
     }
+  }
+
+  return received;
+}
+
+export async function getMatchTolerance(userId: string): Promise<MatchTolerance> {
+  const { data: settings } = await supabase
+    .from('user_settings')
+    .select('match_price_tolerance_pct, match_quantity_tolerance, match_amount_tolerance_gbp')
+    .eq('user_id', userId)
+    .single();
+
+  return {
+    pricePercent: Number(settings?.match_price_tolerance_pct ?? DEFAULT_MATCH_TOLERANCE.pricePercent),
+    quantityUnits: Number(settings?.match_quantity_tolerance ?? DEFAULT_MATCH_TOLERANCE.quantityUnits),
+    amountGBP: Number(settings?.match_amount_tolerance_gbp ?? DEFAULT_MATCH_TOLERANCE.amountGBP),
+  };
+}
+
+// Compare a PO's lines, what has been received and what the supplier billed,
+// and record the outcome on the invoice. Returns null when no invoice is recorded.
+export async function runThreeWayMatch(
+  purchaseOrderId: string,
+  tolerance: MatchTolerance
+): Promise<{ invoice: Invoice; lines: InvoiceLine[]; result: ThreeWayMatchResult } | null> {
+  const [recorded, poLines, receivedByLineId] = await Promise.all([
+    getInvoiceForPurchaseOrder(purchaseOrderId),
+    getPOLinesForPurchaseOrder(purchaseOrderId),
+    getReceivedQuantitiesByPOLine(purchaseOrderId, { inLineUnits: true }),
+  ]);
+
+  if (!recorded) {
+    return null;
+  }
+
+  const result = computeThreeWayMatch({
+    poLines,
+    receivedByLineId,
+    invoiceLines: recorded.lines,
+    invoiceTotals: {
+      subtotalExVAT: recorded.invoice.subtotalExVAT ?? null,
+      extras: recorded.invoice.extras ?? null,
+      vat: recorded.invoice.vat ?? null,
+      totalAmount: recorded.invoice.totalAmount ?? null,
+    },
+    tolerance,
+  });
+
+  const matchedAt = new Date().toISOString();
+  const { error } = await supabase
+    .from('invoices')
+    .update({ matchstatus: result.status, matchedat: matchedAt })
+    .eq('id', recorded.invoice.id);
+
+  if (error) {
+    throw new Error(`Failed to save match result: ${error.message}`);
+  }
+
+  return {
+    invoice: { ...recorded.invoice, matchStatus: result.status, matchedAt },
+    lines: recorded.lines,
+    result,
+  };
+}
+
+// --- Supplier returns ---
+
+export type SupplierReturnStatus = 'awaiting_credit' | 'credited';
+
+export interface SupplierReturnLine {
+  id: string;
+  returnId: string;
+  poLineId: string | null;
+  productId: string | null;
+  description: string | null;
+  source: ReturnSource;
+  quantity: number;
+  unitCostGBP: number;
+  valueGBP: number;
+}
+
+export interface SupplierReturn {
+  id: string;
+  returnNumber: string;
+  purchaseOrderId: string;
+  supplierId: string | null;
+  invoiceId: string | null;
+  reason: string | null;
+  notes: string | null;
+  returnedAt: string;
+  totalValueGBP: number;
+  status: SupplierReturnStatus;
+  creditNoteNumber: string | null;
+  creditNoteDate: string | null;
+  creditAmountGBP: number | null;
+  creditedAt: string | null;
+  createdAt: string;
+  lines: SupplierReturnLine[];
+}
+
+export interface SupplierReturnLineInput {
+  poLineId: string;
+  source: ReturnSource;
+  quantity: number;
+}
+
+interface SupplierReturnLineRow {
+  id: string;
+  returnid: string;
+  polineid: string | null;
+  productid: string | null;
+  description: string | null;
+  source: ReturnSource;
+  quantity: NumericColumn;
+  unitcostgbp: NumericColumn;
+  valuegbp: NumericColumn;
+}
+
+interface SupplierReturnRow {
+  id: string;
+  returnnumber: string;
+  purchaseorderid: string;
+  supplierid: string | null;
+  invoiceid: string | null;
+  reason: string | null;
+  notes: string | null;
+  returnedat: string;
+  totalvaluegbp: NumericColumn;
+  status: SupplierReturnStatus | null;
+  creditnotenumber: string | null;
+  creditnotedate: string | null;
+  creditamountgbp: NumericColumn;
+  creditedat: string | null;
+  created_at: string;
+}
+
+function mapSupplierReturnLineRow(row: SupplierReturnLineRow): SupplierReturnLine {
+  return {
+    id: row.id,
+    returnId: row.returnid,
+    poLineId: row.polineid ?? null,
+    productId: row.productid ?? null,
+    description: row.description ?? null,
+    source: row.source,
+    quantity: Number(row.quantity ?? 0),
+    unitCostGBP: Number(row.unitcostgbp ?? 0),
+    valueGBP: Number(row.valuegbp ?? 0),
+  };
+}
+
+function mapSupplierReturnRow(row: SupplierReturnRow, lines: SupplierReturnLine[]): SupplierReturn {
+  return {
+    id: row.id,
+    returnNumber: row.returnnumber,
+    purchaseOrderId: row.purchaseorderid,
+    supplierId: row.supplierid ?? null,
+    invoiceId: row.invoiceid ?? null,
+    reason: row.reason ?? null,
+    notes: row.notes ?? null,
+    returnedAt: row.returnedat,
+    totalValueGBP: Number(row.totalvaluegbp ?? 0),
+    status: row.status ?? 'awaiting_credit',
+    creditNoteNumber: row.creditnotenumber ?? null,
+    creditNoteDate: row.creditnotedate ?? null,
+    creditAmountGBP: toNumberOrNull(row.creditamountgbp),
+    creditedAt: row.creditedat ?? null,
+    createdAt: row.created_at,
+    lines,
+  };
+}
+
+// Numbers come from a per-user counter, so they never repeat after a PO (and its returns) is deleted
+async function nextSupplierReturnNumber(userId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('next_document_number', { p_user_id: userId, p_kind: 'supplier_return' });
+
+  if (error || data == null) {
+    throw new Error(`Failed to number supplier return: ${error?.message}`);
+  }
+
+  return `RTN-${String(data).padStart(5, '0')}`;
+}
+
+// Send stock back to the supplier against a purchase order. On-hand units leave at the
+// PO line's landed cost (re-averaging what is left); transit units are cancelled before
+// delivery. The PO lines and transit quantities themselves are never rewritten.
+export async function createSupplierReturn(params: {
+  purchaseOrderId: string;
+  lines: SupplierReturnLineInput[];
+  reason?: string | null;
+  notes?: string | null;
+  returnedAt?: string | null;
+  user_id: string;
+}): Promise<{ supplierReturn: SupplierReturn; purchaseOrderStatus: PurchaseOrderStatus | null }> {
+  const { data: po, error: poError } = await supabase
+    .from('purchaseorders')
+    .select('id, supplierid')
+    .eq('id', params.purchaseOrderId)
+    .single();
+
+  if (poError || !po) {
+    throw new Error('Purchase order not found');
+  }
+
+  const poLineIds = params.lines.map((l) => l.poLineId);
+  const [{ data: poLines, error: linesError }, { data: transitRows, error: transitError }, { data: invoice }] =
+    await Promise.all([
+      supabase.from('polines').select('id, description').eq('purchaseorderid', po.id).in('id', poLineIds),
+      supabase
+        .from('transit')
+        .select('polineid, productid, remainingquantity, unitcostgbp')
+        .eq('purchaseorderid', po.id)
+        .in('polineid', poLineIds),
+      supabase.from('invoices').select('id').eq('purchaseorderid', po.id).single(),
+    ]);
+
+  if (linesError || transitError) {
+    throw new Error(`Failed to load purchase order lines: ${(linesError || transitError)?.message}`);
+  }
+
+  const descriptionByLineId = new Map((poLines || []).map((l) => [l.id, l.description as string]));
+
+  // On-hand returns are capped per line at what the PO delivered, less what has gone back already
+  const [receivedByLine, { data: earlierReturns, error: earlierReturnsError }] = await Promise.all([
+    getReceivedQuantitiesByPOLine(po.id),
+    supabase.from('supplier_return_lines').select('polineid, quantity').eq('source', 'on_hand').in('polineid', poLineIds),
+  ]);
+
+  if (earlierReturnsError) {
+    throw new Error(`Failed to load earlier returns: ${earlierReturnsError.message}`);
+  }
+
+  const returnedByLine = new Map<string, number>();
+  for (const r of earlierReturns || []) {
+    returnedByLine.set(r.polineid, (returnedByLine.get(r.polineid) ?? 0) + Number(r.quantity ?? 0));
+  }
+
+  const productIds = Array.from(
+    new Set((transitRows || []).map((t) => t.productid as string | null).filter((id): id is string => !!id))
+  );
+  const { data: inventoryRows, error: inventoryError } = productIds.length > 0
+    ? await supabase.from('inventory').select('id, productid, quantityonhand, averagecostgbp').in('productid', productIds)
+    : { data: [], error: null };
+
+  if (inventoryError) {
+    throw new Error(`Failed to load inventory: ${inventoryError.message}`);
+  }
 
-    let displayAverageCost = inventory ? inventory.averageCostGBP : 0;
-    if (blendedTotalQty > 0 && blendedTotalCost > 0) {
-      displayAverageCost = Number((blendedTotalCost / blendedTotalQty).toFixed(4));
-    }
+  // Running on-hand position per product, so two lines for one product are valued in turn
+  const stock = new Map(
+    (inventoryRows || []).map((inv) => [
+      inv.productid as string,
+      { id: inv.id as string, quantity: Number(inv.quantityonhand ?? 0), average: Number(inv.averagecostgbp ?? 0) },
+    ])
+  );
 
-    // Fallback: if average is still 0 but we have transit history, derive from ALL
-    // transit records (including received) using PO line unit costs
-    if (displayAverageCost <= 0 && productTransit.length > 0) {
-      let fallbackTotalQty = 0;
-      let fallbackTotalCost = 0;
-      for (const t of productTransit) {
-        const qty = Number(t.quantity ?? 0);
-        if (!Number.isFinite(qty) || qty <= 0) continue;
+  // Work out every line before touching stock, so a bad line fails the whole return
+  const plans = params.lines.map((line) => {
+    const description = descriptionByLineId.get(line.poLineId);
+    if (description === undefined) {
+      throw new Error('Line does not belong to this purchase order');
+    }
 
-        const poLine = poLinesById.get(t.polineid as string) || null;
-        let unitCost = Number(t.unitcostgbp ?? 0);
-        if (!Number.isFinite(unitCost) || unitCost <= 0) {
-          unitCost = Number(poLine?.unitcostexvat ?? 0);
-        }
-        if (!Number.isFinite(unitCost) || unitCost <= 0) continue;
+    const transit = (transitRows || []).filter((t) => t.polineid === line.poLineId);
+    const productId: string | null = transit[0]?.productid ?? null;
+    if (!productId) {
+      throw new Error(`No stock is linked to "${description}"`);
+    }
+    const unitCostGBP = Number(transit[0].unitcostgbp ?? 0);
 
-        fallbackTotalQty += qty;
-        fallbackTotalCost += qty * unitCost;
-      }
-      if (fallbackTotalQty > 0 && fallbackTotalCost > 0) {
-        displayAverageCost = Number((fallbackTotalCost / fallbackTotalQty).toFixed(4));
+    if (line.source === 'transit') {
+      const open = transit.reduce((sum, t) => sum + Number(t.remainingquantity ?? 0), 0);
+      if (line.quantity > open) {
+        throw new Error(`Only ${open} of "${description}" still in transit`);
       }
+      return { line, description, productId, unitCostGBP, valueGBP: Number((line.quantity * unitCostGBP).toFixed(2)), inventory: null };
     }
 
-    if (inventory) {
-      inventory = { ...inventory, averageCostGBP: displayAverageCost };
-    } else if (displayAverageCost > 0) {
-      // No on-hand inventory yet, but we do have pricing from POs in transit.
-      inventory = {
-        id: product.id,
-        productId: product.id,
-        quantityOnHand: 0,
-        averageCostGBP: displayAverageCost,
-        lastUpdated: product.updatedAt || product.createdAt,
-      };
+    const returnable = (receivedByLine[line.poLineId] ?? 0) - (returnedByLine.get(line.poLineId) ?? 0);
+    if (line.quantity > returnable) {
+      throw new Error(`Only ${Math.max(returnable, 0)} of "${description}" received on this order and not yet returned`);
+    }
+
+    const position = stock.get(productId);
+    if (!position) {
+      throw new Error(`No "${description}" on hand to return`);
     }
+    const valuation = computeOnHandReturn({
+      quantityOnHand: position.quantity,
+      averageCostGBP: position.average,
+      returnQuantity: line.quantity,
+      unitCostGBP,
+    });
+    position.quantity = valuation.newQuantityOnHand;
+    position.average = valuation.newAverageCostGBP;
 
     return {
-      product,
-      inventory,
-      quantityInTransit,
+      line,
+      description,
+      productId,
+      unitCostGBP,
+      valueGBP: valuation.valueRemovedGBP,
+      inventory: { id: position.id, quantity: valuation.newQuantityOnHand, average: valuation.newAverageCostGBP },
     };
   });
 
-  return items;
-}
+  const totalValueGBP = Number(plans.reduce((sum, p) => sum + p.valueGBP, 0).toFixed(2));
 
-export interface ReceiveStockResult {
-  productId: string;
-  receivedQuantity: number;
-  remainingRequestedQuantity: number;
-  newQuantityOnHand: number;
-  newAverageCostGBP: number;
-  affectedTransitIds: string[];
-}
+  const { data: header, error: headerError } = await supabase
+    .from('supplier_returns')
+    .insert({
+      returnnumber: await nextSupplierReturnNumber(params.user_id),
+      purchaseorderid: po.id,
+      supplierid: po.supplierid ?? null,
+      invoiceid: invoice?.id ?? null,
+      reason: params.reason ?? null,
+      notes: params.notes ?? null,
+      returnedat: params.returnedAt || new Date().toISOString(),
+      totalvaluegbp: totalValueGBP,
+      user_id: params.user_id,
+    })
+    .select()
+    .single();
 
-// Move quantities from transit to on-hand inventory using dollar cost averaging
-export async function receiveStockForProduct(params: {
-  productId: string;
-  quantity: number;
-  poLineId?: string;
-}): Promise<ReceiveStockResult> {
-  const { productId, quantity, poLineId } = params;
+  if (headerError || !header) {
+    throw new Error(`Failed to create supplier return: ${headerError?.message}`);
+  }
 
-  if (!productId) {
-    throw new Error('productId is required');
+  for (const plan of plans) {
+    if (plan.inventory) {
+      await applyInventoryMovement({
+        productId: plan.productId,
+        delta: -plan.line.quantity,
+        averageCostGBP: plan.inventory.average,
+        movement: {
+          movementType: 'supplier_return',
+          sourceType: 'supplier_return',
+          sourceId: header.id,
+          actor: 'user',
+          actorUserId: params.user_id,
+          unitCostGBP: plan.unitCostGBP,
+          context: { poLineId: plan.line.poLineId, purchaseOrderId: po.id },
+        },
+        user_id: params.user_id,
+      });
+    } else {
+      await drainTransitQuantity(plan.line.poLineId, plan.line.quantity, 'returnedquantity');
+    }
   }
 
-  if (typeof quantity !== 'number' || !Number.isFinite(quantity) || quantity <= 0) {
-    throw new Error('Quantity must be a positive number');
+  const { data: insertedLines, error: insertLinesError } = await supabase
+    .from('supplier_return_lines')
+    .insert(
+      plans.map((plan) => ({
+        returnid: header.id,
+        polineid: plan.line.poLineId,
+        productid: plan.productId,
+        description: plan.description,
+        source: plan.line.source,
+        quantity: plan.line.quantity,
+        unitcostgbp: plan.unitCostGBP,
+        valuegbp: plan.valueGBP,
+        user_id: params.user_id,
+      }))
+    )
+    .select();
+
+  if (insertLinesError || !insertedLines) {
+    throw new Error(`Failed to save supplier return lines: ${insertLinesError?.message}`);
   }
 
-  const { data: product } = await supabase
-    .from('products')
-    .select('*')
-    .eq('id', productId)
-    .single();
+  // Cancelling the last open units completes the PO just like receiving them
+  const purchaseOrderStatus = await syncPurchaseOrderStatusFromTransit(po.id);
 
-  if (!product) {
-    throw new Error('Product not found');
+  return {
+    supplierReturn: mapSupplierReturnRow(header, insertedLines.map(mapSupplierReturnLineRow)),
+    purchaseOrderStatus,
+  };
+}
+
+// Record the supplier's credit note for a return, and add it to the original invoice's
+// credited total. The difference from the stock value removed stays visible on the return.
+export async function recordSupplierCreditNote(params: {
+  returnId: string;
+  creditNoteNumber: string | null;
+  creditNoteDate: string | null;
+  amountGBP: number;
+}): Promise<SupplierReturn> {
+  const existing = await getSupplierReturn(params.returnId);
+  if (!existing) {
+    throw new Error('Supplier return not found');
+  }
+  if (existing.status === 'credited') {
+    throw new Error('A credit note has already been recorded for this return');
   }
 
-  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('supplier_returns')
+    .update({
+      status: 'credited',
+      creditnotenumber: params.creditNoteNumber,
+      creditnotedate: params.creditNoteDate,
+      creditamountgbp: params.amountGBP,
+      creditedat: new Date().toISOString(),
+    })
+    .eq('id', params.returnId);
 
-  // Get or create inventory record (raw DB row)
-  let inventoryRecord: any = null;
-  const { data: existingInventory } = await supabase
-    .from('inventory')
-    .select('*')
-    .eq('productid', productId)
-    .single();
+  if (error) {
+    throw new Error(`Failed to record credit note: ${error.message}`);
+  }
 
-  if (existingInventory) {
-    inventoryRecord = existingInventory;
-  } else {
-    const { data: newInventory, error: insertError } = await supabase
-      .from('inventory')
-      .insert({
-        productid: productId,
-        quantityonhand: 0,
-        averagecostgbp: 0,
-      })
-      .select()
+  if (existing.invoiceId) {
+    const { data: invoice } = await supabase
+      .from('invoices')
+      .select('id, creditedamountgbp')
+      .eq('id', existing.invoiceId)
       .single();
 
-    if (insertError || !newInventory) {
-      throw new Error(`Failed to create inventory record: ${insertError?.message}`);
+    if (invoice) {
+      const { error: invoiceError } = await supabase
+        .from('invoices')
+        .update({ creditedamountgbp: Number(invoice.creditedamountgbp ?? 0) + params.amountGBP })
+        .eq('id', invoice.id);
+
+      if (invoiceError) {
+        throw new Error(`Failed to update invoice credit: ${invoiceError.message}`);
+      }
     }
-    inventoryRecord = newInventory;
   }
 
-  // Get transit records sorted by creation date
-  let transitQuery = supabase
-    .from('transit')
+  return (await getSupplierReturn(params.returnId))!;
+}
+
+export async function getSupplierReturn(returnId: string): Promise<SupplierReturn | null> {
+  const [{ data: header }, { data: lines, error: linesError }] = await Promise.all([
+    supabase.from('supplier_returns').select('*').eq('id', returnId).single(),
+    supabase.from('supplier_return_lines').select('*').eq('returnid', returnId).order('created_at', { ascending: true }),
+  ]);
+
+  if (!header) {
+    return null;
+  }
+  if (linesError) {
+    throw new Error(`Failed to load supplier return lines: ${linesError.message}`);
+  }
+
+  return mapSupplierReturnRow(header, (lines || []).map(mapSupplierReturnLineRow));
+}
+
+export async function listSupplierReturns(purchaseOrderId: string): Promise<SupplierReturn[]> {
+  const { data: headers, error } = await supabase
+    .from('supplier_returns')
     .select('*')
-    .eq('productid', productId)
-    .gt('remainingquantity', 0);
+    .eq('purchaseorderid', purchaseOrderId)
+    .order('returnedat', { ascending: false });
 
-  if (poLineId) {
-    transitQuery = transitQuery.eq('polineid', poLineId);
+  if (error) {
+    throw new Error(`Failed to load supplier returns: ${error.message}`);
+  }
+  if (!headers || headers.length === 0) {
+    return [];
   }
 
-  const { data: transitRecords, error: transitError } = await transitQuery.order(
-    'created_at',
-    { ascending: true },
-  );
+  const { data: lines, error: linesError } = await supabase
+    .from('supplier_return_lines')
+    .select('*')
+    .in('returnid', headers.map((h) => h.id))
+    .order('created_at', { ascending: true });
 
-  if (transitError) {
-    throw new Error(`Failed to load transit records: ${transitError.message}`);
+  if (linesError) {
+    throw new Error(`Failed to load supplier return lines: ${linesError.message}`);
   }
 
-  if (!transitRecords || transitRecords.length === 0) {
-    throw new Error('No in-transit quantity available for this product');
+  const mappedLines = (lines || []).map(mapSupplierReturnLineRow);
+  return headers.map((h) => mapSupplierReturnRow(h, mappedLines.filter((l) => l.returnId === h.id)));
+}
+
+// --- Supplier extraction templates ---
+
+export interface SupplierExtractionTemplate {
+  id: string;
+  supplierId: string;
+  columnRules: ColumnRule[];
+  aliases: string[];
+  notes: string | null;
+  textHeaders: SupplierTextLayout['headers'] | null;
+  correctionCount: number;
+  updatedAt: string;
+}
+
+interface SupplierExtractionTemplateRow {
+  id: string;
+  supplierid: string;
+  columnrules: unknown;
+  aliases: unknown;
+  notes: string | null;
+  textheaders: SupplierTextLayout['headers'] | null;
+  correctioncount: number | null;
+  updated_at: string;
+}
+
+function mapSupplierExtractionTemplateRow(row: SupplierExtractionTemplateRow): SupplierExtractionTemplate {
+  return {
+    id: row.id,
+    supplierId: row.supplierid,
+    // Edited by hand through the template API, so anything unrecognised is dropped
+    columnRules: Array.isArray(row.columnrules) ? row.columnrules.filter(isColumnRule) : [],
+    aliases: Array.isArray(row.aliases) ? row.aliases.filter((a): a is string => typeof a === 'string') : [],
+    notes: row.notes ?? null,
+    textHeaders: row.textheaders ?? null,
+    correctionCount: row.correctioncount ?? 0,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function getSupplierExtractionTemplate(supplierId: string): Promise<SupplierExtractionTemplate | null> {
+  const { data } = await supabase
+    .from('supplier_extraction_templates')
+    .select('*')
+    .eq('supplierid', supplierId)
+    .single();
+
+  return data ? mapSupplierExtractionTemplateRow(data) : null;
+}
+
+export async function listSupplierExtractionTemplates(userId: string): Promise<SupplierExtractionTemplate[]> {
+  const { data, error } = await supabase
+    .from('supplier_extraction_templates')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to load extraction templates: ${error.message}`);
   }
 
-  let remainingToReceive = quantity;
-  let receivedQuantity = 0;
-  let incomingTotalValue = 0;
-  const affectedTransitIds: string[] = [];
+  return (data || []).map(mapSupplierExtractionTemplateRow);
+}
 
-  for (const t of transitRecords) {
-    if (remainingToReceive <= 0) break;
+export async function getRecentExtractionCorrections(supplierId: string, limit = 10): Promise<ExtractionCorrection[]> {
+  const { data, error } = await supabase
+    .from('supplier_extraction_corrections')
+    .select('field, extractedvalue, correctedvalue, context')
+    .eq('supplierid', supplierId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
 
-    const available = Number(t.remainingquantity ?? 0);
-    if (available <= 0) continue;
+  if (error) {
+    throw new Error(`Failed to load extraction corrections: ${error.message}`);
+  }
 
-    const take = Math.min(remainingToReceive, available);
+  return (data || []).map((row) => ({
+    field: row.field,
+    extractedValue: row.extractedvalue ?? null,
+    correctedValue: row.correctedvalue ?? null,
+    context: row.context ?? null,
+  }));
+}
 
-    // Supabase returns NUMERIC columns as strings; coerce to number safely
-    const rawUnitCost = Number(t.unitcostgbp);
-    const unitCost = Number.isFinite(rawUnitCost) && rawUnitCost >= 0 ? rawUnitCost : 0;
+export async function upsertSupplierExtractionTemplate(params: {
+  supplierId: string;
+  columnRules?: ColumnRule[];
+  aliases?: string[];
+  notes?: string | null;
+  textHeaders?: SupplierTextLayout['headers'] | null;
+  correctionCount?: number;
+  user_id: string;
+}): Promise<SupplierExtractionTemplate> {
+  const row: Record<string, unknown> = {
+    supplierid: params.supplierId,
+    user_id: params.user_id,
+    updated_at: new Date().toISOString(),
+  };
+  if (params.columnRules !== undefined) row.columnrules = params.columnRules;
+  if (params.aliases !== undefined) row.aliases = params.aliases;
+  if (params.notes !== undefined) row.notes = params.notes;
+  if (params.textHeaders !== undefined) row.textheaders = params.textHeaders;
+  if (params.correctionCount !== undefined) row.correctioncount = params.correctionCount;
 
-    incomingTotalValue += take * unitCost;
-    receivedQuantity += take;
-    const newRemaining = available - take;
-    const newStatus = newRemaining > 0 ? 'partially_received' : 'received';
+  const { data, error } = await supabase
+    .from('supplier_extraction_templates')
+    .upsert(row, { onConflict: 'supplierid' })
+    .select()
+    .single();
 
-    await supabase
-      .from('transit')
-      .update({
-        remainingquantity: newRemaining,
-        status: newStatus,
-        updated_at: now,
-      })
-      .eq('id', t.id);
+  if (error || !data) {
+    throw new Error(`Failed to save extraction template: ${error?.message}`);
+  }
 
-    affectedTransitIds.push(t.id);
-    remainingToReceive -= take;
+  return mapSupplierExtractionTemplateRow(data);
+}
+
+export async function deleteSupplierExtractionTemplate(supplierId: string): Promise<void> {
+  const [{ error }, { error: correctionsError }] = await Promise.all([
+    supabase.from('supplier_extraction_templates').delete().eq('supplierid', supplierId),
+    supabase.from('supplier_extraction_corrections').delete().eq('supplierid', supplierId),
+  ]);
+
+  if (error || correctionsError) {
+    throw new Error(`Failed to reset extraction template: ${(error || correctionsError)?.message}`);
   }
+}
 
-  if (receivedQuantity <= 0) {
-    throw new Error('Unable to receive stock: no available in-transit quantity for this product');
+// Keep what the user changed between extraction and save, and fold any repeated
+// pattern into the supplier's column rules. The supplier name the document used is
+// remembered as an alias when the user renamed it to an existing supplier.
+export async function learnFromExtractionCorrections(params: {
+  supplierId: string;
+  supplierName: string;
+  purchaseOrderId: string | null;
+  extracted: ExtractedData;
+  corrected: ExtractedData;
+  user_id: string;
+}): Promise<{ corrections: number; template: SupplierExtractionTemplate | null }> {
+  const corrections = diffExtraction(params.extracted, params.corrected);
+  if (corrections.length === 0) {
+    return { corrections: 0, template: null };
   }
 
-  if (!inventoryRecord) {
-    throw new Error('Failed to get inventory record');
+  const { error } = await supabase.from('supplier_extraction_corrections').insert(
+    corrections.map((c) => ({
+      supplierid: params.supplierId,
+      purchaseorderid: params.purchaseOrderId,
+      field: c.field,
+      extractedvalue: c.extractedValue,
+      correctedvalue: c.correctedValue,
+      context: c.context,
+      user_id: params.user_id,
+    }))
+  );
+
+  if (error) {
+    throw new Error(`Failed to record extraction corrections: ${error.message}`);
   }
 
-  const currentOnHand = Number(inventoryRecord.quantityonhand ?? 0);
-  const currentAvg = Number(inventoryRecord.averagecostgbp ?? 0);
-  const currentValue = currentOnHand * currentAvg;
+  const existing = await getSupplierExtractionTemplate(params.supplierId);
+  const aliases = [...(existing?.aliases ?? [])];
+  const printedName = params.extracted.supplier?.name?.trim();
+  if (
+    printedName &&
+    printedName.toLowerCase() !== params.supplierName.trim().toLowerCase() &&
+    !aliases.some((a) => a.toLowerCase() === printedName.toLowerCase())
+  ) {
+    aliases.push(printedName);
+  }
 
-  const newOnHand = currentOnHand + receivedQuantity;
-  const newAvg = newOnHand > 0
-    ? Number(((currentValue + incomingTotalValue) / newOnHand).toFixed(4))
-    : 0;
+  const template = await upsertSupplierExtractionTemplate({
+    supplierId: params.supplierId,
+    columnRules: mergeColumnRules(existing?.columnRules ?? [], inferColumnRules(params.extracted, params.corrected)),
+    aliases,
+    correctionCount: (existing?.correctionCount ?? 0) + corrections.length,
+    user_id: params.user_id,
+  });
 
-  await supabase
-    .from('inventory')
-    .update({
-      quantityonhand: newOnHand,
-      averagecostgbp: newAvg,
-      lastupdated: now,
-    })
-    .eq('id', inventoryRecord.id);
+  return { corrections: corrections.length, template };
+}
 
-  return {
-    productId,
-    receivedQuantity,
-    remainingRequestedQuantity: remainingToReceive,
-    newQuantityOnHand: newOnHand,
-    newAverageCostGBP: newAvg,
-    affectedTransitIds,
+// --- Invoice file fingerprints ---
+
+export interface InvoiceFileMatch {
+  /** The uploaded file that matched */
+  fileName: string;
+  match: 'exact' | 'similar';
+  /** Bits between the image hashes (0 for exact matches) */
+  distance: number;
+  previousFileName: string | null;
+  purchaseOrderId: string | null;
+  invoiceNumber: string | null;
+  supplierName: string | null;
+  /** Set while the earlier upload is still waiting for review */
+  extractionJobId: string | null;
+  uploadedAt: string;
+}
+
+export async function recordInvoiceFileFingerprints(params: {
+  files: FingerprintedFile[];
+  purchaseOrderId?: string | null;
+  extractionJobId?: string | null;
+  user_id: string;
+}): Promise<void> {
+  if (params.files.length === 0) return;
+
+  const { error } = await supabase.from('invoice_file_fingerprints').insert(
+    params.files.map((file) => ({
+      sha256: file.fingerprint.sha256,
+      phash: file.fingerprint.phash,
+      filename: file.name,
+      filesize: file.size,
+      purchaseorderid: params.purchaseOrderId ?? null,
+      extractionjobid: params.extractionJobId ?? null,
+      user_id: params.user_id,
+    }))
+  );
+
+  if (error) {
+    throw new Error(`Failed to record invoice file fingerprints: ${error.message}`);
+  }
+}
+
+/**
+ * Earlier uploads of the same files: byte-identical ones, and images whose
+ * difference hash is within NEAR_DUPLICATE_DISTANCE bits. Uploads of jobs that
+ * were removed without saving a purchase order are not reported.
+ */
+export async function findInvoiceFileMatches(userId: string, files: FingerprintedFile[]): Promise<InvoiceFileMatch[]> {
+  if (files.length === 0) return [];
+
+  const columns = 'sha256, phash, filename, purchaseorderid, extractionjobid, created_at, purchaseorders(invoicenumber, suppliers(name))';
+  const hashes = [...new Set(files.map((f) => f.fingerprint.sha256))];
+  const hasImages = files.some((f) => f.fingerprint.phash);
+
+  const [exactResult, imageResult] = await Promise.all([
+    supabase.from('invoice_file_fingerprints').select(columns).eq('user_id', userId).in('sha256', hashes),
+    hasImages
+      ? supabase
+          .from('invoice_file_fingerprints')
+          .select(columns)
+          .eq('user_id', userId)
+          .not('phash', 'is', null)
+          .order('created_at', { ascending: false })
+          .limit(5000)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (exactResult.error || imageResult.error) {
+    throw new Error(`Failed to check invoice file fingerprints: ${(exactResult.error || imageResult.error)?.message}`);
+  }
+
+  type FingerprintRow = {
+    sha256: string;
+    phash: string | null;
+    filename: string | null;
+    purchaseorderid: string | null;
+    extractionjobid: string | null;
+    created_at: string;
+    purchaseorders: { invoicenumber: string | null; suppliers: { name: string } | null } | null;
   };
+  const rows = ([...(exactResult.data || []), ...(imageResult.data || [])] as unknown as FingerprintRow[])
+    .filter((row) => row.purchaseorderid || row.extractionjobid);
+
+  const matches: InvoiceFileMatch[] = [];
+  for (const file of files) {
+    let best: { row: FingerprintRow; distance: number } | null = null;
+    for (const row of rows) {
+      const distance = row.sha256 === file.fingerprint.sha256
+        ? 0
+        : file.fingerprint.phash && row.phash
+          ? hammingDistance(file.fingerprint.phash, row.phash)
+          : Infinity;
+      if (distance <= NEAR_DUPLICATE_DISTANCE && (!best || distance < best.distance)) {
+        best = { row, distance };
+      }
+    }
+
+    if (best) {
+      matches.push({
+        fileName: file.name,
+        match: best.row.sha256 === file.fingerprint.sha256 ? 'exact' : 'similar',
+        distance: best.distance,
+        previousFileName: best.row.filename ?? null,
+        purchaseOrderId: best.row.purchaseorderid ?? null,
+        invoiceNumber: best.row.purchaseorders?.invoicenumber ?? null,
+        supplierName: best.row.purchaseorders?.suppliers?.name ?? null,
+        extractionJobId: best.row.purchaseorderid ? null : best.row.extractionjobid,
+        uploadedAt: best.row.created_at,
+      });
+    }
+  }
+
+  return matches;
+}
+
+// A queued upload became a purchase order: its files now count as imported
+export async function linkInvoiceFilesToPurchaseOrder(extractionJobId: string, purchaseOrderId: string): Promise<void> {
+  const { error } = await supabase
+    .from('invoice_file_fingerprints')
+    .update({ purchaseorderid: purchaseOrderId })
+    .eq('extractionjobid', extractionJobId)
+    .is('purchaseorderid', null);
+
+  if (error) {
+    throw new Error(`Failed to link invoice files to purchase order: ${error.message}`);
+  }
 }
 
 // Attach a barcode to a product (used for scanner-based lookup)
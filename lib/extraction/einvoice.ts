@@ -0,0 +1,288 @@
+/**
+ * Structured e-invoice import.
+ *
+ * UBL 2.1 invoices (including Peppol BIS Billing 3.0, which is a UBL profile)
+ * and UN/CEFACT CII invoices (Factur-X / ZUGFeRD, usually embedded in a PDF/A-3
+ * as an attached XML file) carry every figure we need, so they are mapped
+ * straight into ExtractedData without going near a model. Amounts stay in the
+ * invoice currency; the extract route converts them to GBP as usual.
+ */
+
+import { inflateSync } from 'zlib';
+import type { ExtractedData, VatBreakdownEntry } from './types';
+import { find, findAll, parseXml, textAt, type XmlElement } from './xml';
+
+export type StructuredInvoiceFormat = 'ubl' | 'cii';
+
+export interface StructuredInvoice {
+  format: StructuredInvoiceFormat;
+  /** Specification identifier from the document, e.g. the Peppol BIS or Factur-X profile URN */
+  profile: string | null;
+  data: ExtractedData;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function amount(element: XmlElement | undefined): number | null {
+  const text = element?.text.trim();
+  if (!text) return null;
+  const value = parseFloat(text);
+  return Number.isFinite(value) ? value : null;
+}
+
+function amountAt(element: XmlElement | undefined, ...path: string[]): number | null {
+  return amount(find(element, ...path));
+}
+
+// Tax totals can be repeated in the accounting currency; prefer the one in the invoice currency
+function amountInCurrency(elements: XmlElement[], currency: string): number | null {
+  const match = elements.find((el) => !el.attributes.currencyID || el.attributes.currencyID === currency);
+  return amount(match ?? elements[0]);
+}
+
+function joinAddress(parts: Array<string | undefined>): string | undefined {
+  const address = parts.filter(Boolean).join(', ');
+  return address || undefined;
+}
+
+// --- UBL 2.1 / Peppol BIS ---
+
+function mapUbl(invoice: XmlElement): ExtractedData {
+  const currency = textAt(invoice, 'DocumentCurrencyCode') || 'GBP';
+  const party = find(invoice, 'AccountingSupplierParty', 'Party');
+  const postal = find(party, 'PostalAddress');
+
+  const poLines = findAll(invoice, 'InvoiceLine').map((line) => {
+    const quantity = amountAt(line, 'InvoicedQuantity') ?? 0;
+    const lineTotal = amountAt(line, 'LineExtensionAmount');
+    const price = amountAt(line, 'Price', 'PriceAmount');
+    const baseQuantity = amountAt(line, 'Price', 'BaseQuantity') || 1;
+    const unitCost = price !== null ? price / baseQuantity : quantity > 0 && lineTotal !== null ? lineTotal / quantity : 0;
+    return {
+      description: textAt(line, 'Item', 'Name') || textAt(line, 'Item', 'Description') || '',
+      supplierSku: textAt(line, 'Item', 'SellersItemIdentification', 'ID'),
+      quantity,
+      unitCostExVAT: unitCost,
+      lineTotalExVAT: lineTotal ?? round2(quantity * unitCost),
+      rrp: null,
+    };
+  });
+
+  const monetary = find(invoice, 'LegalMonetaryTotal');
+  const taxTotals = findAll(invoice, 'TaxTotal');
+  const taxTotal = taxTotals.find((t) => find(t, 'TaxSubtotal')) ?? taxTotals[0];
+  const subtotal = amountAt(monetary, 'LineExtensionAmount') ?? round2(poLines.reduce((s, l) => s + l.lineTotalExVAT, 0));
+  const taxExclusive = amountAt(monetary, 'TaxExclusiveAmount') ?? subtotal;
+  const vat = amountInCurrency(taxTotals.map((t) => find(t, 'TaxAmount')).filter((el): el is XmlElement => !!el), currency) ?? 0;
+
+  const vatBreakdown: VatBreakdownEntry[] = findAll(taxTotal, 'TaxSubtotal').map((sub) => ({
+    categoryCode: textAt(sub, 'TaxCategory', 'ID') ?? null,
+    ratePercent: amountAt(sub, 'TaxCategory', 'Percent'),
+    taxableAmount: amountAt(sub, 'TaxableAmount') ?? 0,
+    taxAmount: amountAt(sub, 'TaxAmount') ?? 0,
+  }));
+
+  return {
+    supplier: {
+      name: textAt(party, 'PartyName', 'Name') || textAt(party, 'PartyLegalEntity', 'RegistrationName') || '',
+      address: joinAddress([
+        textAt(postal, 'StreetName'),
+        textAt(postal, 'AdditionalStreetName'),
+        textAt(postal, 'CityName'),
+        textAt(postal, 'PostalZone'),
+        textAt(postal, 'Country', 'IdentificationCode'),
+      ]),
+      email: textAt(party, 'Contact', 'ElectronicMail'),
+      phone: textAt(party, 'Contact', 'Telephone'),
+      vatNumber: textAt(party, 'PartyTaxScheme', 'CompanyID'),
+    },
+    purchaseOrder: {
+      invoiceNumber: textAt(invoice, 'ID') || '',
+      invoiceDate: textAt(invoice, 'IssueDate') || '',
+      originalCurrency: currency,
+      paymentTerms: textAt(invoice, 'PaymentTerms', 'Note')
+        || (textAt(invoice, 'DueDate') ? `Due ${textAt(invoice, 'DueDate')}` : undefined),
+    },
+    poLines,
+    totals: {
+      subtotal,
+      // Document-level charges net of allowances (shipping, handling, discounts)
+      extras: round2(taxExclusive - subtotal),
+      vat,
+      total: amountAt(monetary, 'TaxInclusiveAmount') ?? round2(taxExclusive + vat),
+    },
+    vatBreakdown,
+  };
+}
+
+// --- UN/CEFACT CII (Factur-X / ZUGFeRD) ---
+
+// CII dates are usually format 102 (YYYYMMDD)
+function ciiDate(element: XmlElement | undefined): string {
+  const raw = textAt(element, 'DateTimeString') || '';
+  const match = raw.match(/^(\d{4})(\d{2})(\d{2})$/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : raw;
+}
+
+function mapCii(invoice: XmlElement): ExtractedData {
+  const transaction = find(invoice, 'SupplyChainTradeTransaction');
+  const seller = find(transaction, 'ApplicableHeaderTradeAgreement', 'SellerTradeParty');
+  const postal = find(seller, 'PostalTradeAddress');
+  const settlement = find(transaction, 'ApplicableHeaderTradeSettlement');
+  const currency = textAt(settlement, 'InvoiceCurrencyCode') || 'GBP';
+
+  // Seller VAT number has scheme "VA"; "FC" is the local tax number
+  const registrations = findAll(seller, 'SpecifiedTaxRegistration').map((r) => find(r, 'ID')).filter((id): id is XmlElement => !!id);
+  const vatRegistration = registrations.find((id) => id.attributes.schemeID === 'VA') ?? registrations[0];
+
+  const poLines = findAll(transaction, 'IncludedSupplyChainTradeLineItem').map((line) => {
+    const quantity = amountAt(line, 'SpecifiedLineTradeDelivery', 'BilledQuantity') ?? 0;
+    const lineTotal = amountAt(line, 'SpecifiedLineTradeSettlement', 'SpecifiedTradeSettlementLineMonetarySummation', 'LineTotalAmount');
+    const netPrice = find(line, 'SpecifiedLineTradeAgreement', 'NetPriceProductTradePrice');
+    const price = amountAt(netPrice, 'ChargeAmount');
+    const basisQuantity = amountAt(netPrice, 'BasisQuantity') || 1;
+    const unitCost = price !== null ? price / basisQuantity : quantity > 0 && lineTotal !== null ? lineTotal / quantity : 0;
+    return {
+      description: textAt(line, 'SpecifiedTradeProduct', 'Name') || textAt(line, 'SpecifiedTradeProduct', 'Description') || '',
+      supplierSku: textAt(line, 'SpecifiedTradeProduct', 'SellerAssignedID'),
+      quantity,
+      unitCostExVAT: unitCost,
+      lineTotalExVAT: lineTotal ?? round2(quantity * unitCost),
+      rrp: null,
+    };
+  });
+
+  const summation = find(settlement, 'SpecifiedTradeSettlementHeaderMonetarySummation');
+  const subtotal = amountAt(summation, 'LineTotalAmount') ?? round2(poLines.reduce((s, l) => s + l.lineTotalExVAT, 0));
+  const taxBasis = amountAt(summation, 'TaxBasisTotalAmount') ?? subtotal;
+  const vat = amountInCurrency(findAll(summation, 'TaxTotalAmount'), currency) ?? 0;
+
+  const vatBreakdown: VatBreakdownEntry[] = findAll(settlement, 'ApplicableTradeTax').map((tax) => ({
+    categoryCode: textAt(tax, 'CategoryCode') ?? null,
+    ratePercent: amountAt(tax, 'RateApplicablePercent'),
+    taxableAmount: amountAt(tax, 'BasisAmount') ?? 0,
+    taxAmount: amountAt(tax, 'CalculatedAmount') ?? 0,
+  }));
+
+  const terms = find(settlement, 'SpecifiedTradePaymentTerms');
+  const dueDate = find(terms, 'DueDateDateTime');
+
+  return {
+    supplier: {
+      name: textAt(seller, 'Name') || '',
+      address: joinAddress([
+        textAt(postal, 'LineOne'),
+        textAt(postal, 'LineTwo'),
+        textAt(postal, 'CityName'),
+        textAt(postal, 'PostcodeCode'),
+        textAt(postal, 'CountryID'),
+      ]),
+      email: textAt(seller, 'DefinedTradeContact', 'EmailURIUniversalCommunication', 'URIID')
+        || textAt(seller, 'URIUniversalCommunication', 'URIID'),
+      phone: textAt(seller, 'DefinedTradeContact', 'TelephoneUniversalCommunication', 'CompleteNumber'),
+      vatNumber: vatRegistration?.text.trim() || undefined,
+    },
+    purchaseOrder: {
+      invoiceNumber: textAt(invoice, 'ExchangedDocument', 'ID') || '',
+      invoiceDate: ciiDate(find(invoice, 'ExchangedDocument', 'IssueDateTime')),
+      originalCurrency: currency,
+      paymentTerms: textAt(terms, 'Description') || (dueDate ? `Due ${ciiDate(dueDate)}` : undefined),
+    },
+    poLines,
+    totals: {
+      subtotal,
+      // Document-level charges net of allowances (shipping, handling, discounts)
+      extras: round2(taxBasis - subtotal),
+      vat,
+      total: amountAt(summation, 'GrandTotalAmount') ?? round2(taxBasis + vat),
+    },
+    vatBreakdown,
+  };
+}
+
+// --- Detection ---
+
+/**
+ * Pull the embedded invoice XML out of a Factur-X / ZUGFeRD PDF. Embedded files
+ * are never inside object streams, so scanning for /Type /EmbeddedFile stream
+ * objects and inflating them is enough without a full PDF parser.
+ */
+export function extractEmbeddedInvoiceXml(pdf: Buffer): string | null {
+  const text = pdf.toString('latin1');
+  const marker = /\/Type\s*\/EmbeddedFile\b/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = marker.exec(text)) !== null) {
+    const objStart = text.lastIndexOf(' obj', match.index);
+    const streamStart = text.indexOf('stream', match.index);
+    const objEnd = text.indexOf('endobj', match.index);
+    if (objStart === -1 || streamStart === -1 || (objEnd !== -1 && objEnd < streamStart)) continue;
+
+    const dictionary = text.slice(objStart, streamStart);
+    let dataStart = streamStart + 'stream'.length;
+    if (text[dataStart] === '\r') dataStart++;
+    if (text[dataStart] === '\n') dataStart++;
+
+    // Use a direct /Length when present; indirect lengths fall back to the endstream keyword
+    const length = dictionary.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+    const dataEnd = length ? dataStart + parseInt(length[1], 10) : text.indexOf('endstream', dataStart);
+    if (dataEnd <= dataStart) continue;
+
+    let content: Buffer = pdf.subarray(dataStart, dataEnd);
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        content = inflateSync(content);
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      continue;
+    }
+
+    const xml = content.toString('utf8');
+    if (/CrossIndustryInvoice|urn:oasis:names:specification:ubl:schema:xsd:Invoice-2/.test(xml)) {
+      return xml;
+    }
+  }
+
+  return null;
+}
+
+function looksLikeXml(file: { data: Buffer; mimeType: string; name?: string }): boolean {
+  if (/[/+]xml$/.test(file.mimeType) || file.name?.toLowerCase().endsWith('.xml')) return true;
+  return /^\uFEFF?\s*<(\?xml|[A-Za-z])/.test(file.data.subarray(0, 64).toString('utf8'));
+}
+
+function looksLikePdf(file: { data: Buffer; mimeType: string; name?: string }): boolean {
+  return file.data.subarray(0, 5).toString('latin1') === '%PDF-';
+}
+
+/**
+ * Detect and map a structured e-invoice. Returns null for anything else
+ * (scans, photos, plain PDFs), which should go through model extraction instead.
+ * Throws when a file is XML but cannot be read as a supported invoice.
+ */
+export function parseStructuredInvoice(file: { data: Buffer; mimeType: string; name?: string }): StructuredInvoice | null {
+  let xml: string | null = null;
+  if (looksLikePdf(file)) {
+    xml = extractEmbeddedInvoiceXml(file.data);
+    if (!xml) return null;
+  } else if (looksLikeXml(file)) {
+    xml = file.data.toString('utf8');
+  } else {
+    return null;
+  }
+
+  const root = parseXml(xml);
+
+  if (root.name === 'Invoice') {
+    return { format: 'ubl', profile: textAt(root, 'CustomizationID') ?? null, data: mapUbl(root) };
+  }
+
+  if (root.name === 'CrossIndustryInvoice') {
+    const profile = textAt(root, 'ExchangedDocumentContext', 'GuidelineSpecifiedDocumentContextParameter', 'ID') ?? null;
+    return { format: 'cii', profile, data: mapCii(root) };
+  }
+
+  throw new Error(`Unsupported XML invoice format: <${root.name}>`);
+}
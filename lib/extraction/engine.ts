@@ -0,0 +1,133 @@
+/**
+ * Document extraction engine.
+ *
+ * Routes describe what they want (a prompt, optional files and the JSON schema
+ * of the answer); the engine sends it to the configured provider, parses and
+ * validates the reply, and asks the model to repair its own output when the JSON
+ * is malformed or does not match the schema.
+ *
+ * The provider is chosen with EXTRACTION_PROVIDER ("gemini" by default,
+ * "openai" for any OpenAI-compatible endpoint, or "fake" to answer from local
+ * fixtures so the whole import flow runs offline without an API key).
+ */
+
+import { createFakeProvider, createGeminiProvider, createOpenAICompatibleProvider } from './providers';
+import { validateSchema, type JsonSchema } from './schema';
+import type { ExtractionProvider, ExtractionProviderName, ExtractionRequest } from './types';
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+function configuredProviderName(): ExtractionProviderName {
+  const raw = process.env.EXTRACTION_PROVIDER?.trim().toLowerCase();
+  return raw === 'openai' || raw === 'fake' ? raw : 'gemini';
+}
+
+// Returns null when the configured provider has no credentials
+export function getExtractionProvider(): ExtractionProvider | null {
+  const name = configuredProviderName();
+
+  if (name === 'fake') return createFakeProvider();
+
+  if (name === 'openai') {
+    // Local OpenAI-compatible servers often need no key, so a base URL alone is enough
+    return process.env.OPENAI_API_KEY || process.env.OPENAI_BASE_URL ? createOpenAICompatibleProvider() : null;
+  }
+
+  const apiKey = process.env.GEMINI_API_KEY;
+  return apiKey ? createGeminiProvider(apiKey) : null;
+}
+
+function positiveIntFromEnv(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// Models like to wrap JSON in markdown fences, add a sentence around it, or leave trailing commas
+export function parseJsonLoose(text: string): unknown {
+  const cleaned = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    const start = cleaned.indexOf('{');
+    const end = cleaned.lastIndexOf('}');
+    if (start === -1 || end <= start) throw new Error('Response did not contain a JSON object');
+    return JSON.parse(cleaned.slice(start, end + 1).replace(/,\s*([}\]])/g, '$1'));
+  }
+}
+
+function getRepairPrompt(request: ExtractionRequest, previousOutput: string, problems: string[]): string {
+  return `${request.prompt}
+
+Your previous answer could not be used:
+${problems.map((problem) => `- ${problem}`).join('\n')}
+
+Previous answer:
+${previousOutput.slice(0, 20_000)}
+
+Return the corrected answer as a single valid JSON object only, with no commentary or markdown.`;
+}
+
+// Bad requests and auth failures will not succeed on retry; timeouts, 429 and 5xx might
+function isRetryable(error: unknown): boolean {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status !== 'number') return true;
+  return status === 408 || status === 429 || status >= 500;
+}
+
+export interface ExtractionResult<T> {
+  data: T;
+  provider: ExtractionProviderName;
+  attempts: number;
+}
+
+export async function runExtraction<T>(options: {
+  provider: ExtractionProvider;
+  request: ExtractionRequest;
+  schema: JsonSchema;
+  timeoutMs?: number;
+  maxAttempts?: number;
+}): Promise<ExtractionResult<T>> {
+  const { provider, request, schema } = options;
+  const timeoutMs = options.timeoutMs ?? positiveIntFromEnv(process.env.EXTRACTION_TIMEOUT_MS, DEFAULT_TIMEOUT_MS);
+  const maxAttempts = options.maxAttempts ?? positiveIntFromEnv(process.env.EXTRACTION_MAX_ATTEMPTS, DEFAULT_MAX_ATTEMPTS);
+
+  let prompt = request.prompt;
+  let lastError = 'No attempts made';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let text: string;
+    try {
+      text = await provider.generate({ ...request, prompt }, AbortSignal.timeout(timeoutMs));
+    } catch (error) {
+      lastError = error instanceof Error && error.name === 'TimeoutError'
+        ? `${provider.name} did not respond within ${timeoutMs}ms`
+        : error instanceof Error ? error.message : String(error);
+      console.warn(`Extraction attempt ${attempt}/${maxAttempts} failed:`, lastError);
+      if (!isRetryable(error)) break;
+      if (attempt < maxAttempts) await new Promise((resolve) => setTimeout(resolve, 500 * attempt));
+      continue;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = parseJsonLoose(text);
+    } catch (error) {
+      lastError = `Failed to parse AI response as JSON: ${error instanceof Error ? error.message : String(error)}`;
+      console.warn(`Extraction attempt ${attempt}/${maxAttempts}: ${lastError}`);
+      prompt = getRepairPrompt(request, text, ['The response was not valid JSON']);
+      continue;
+    }
+
+    const problems = validateSchema(parsed, schema);
+    if (problems.length === 0) {
+      return { data: parsed as T, provider: provider.name, attempts: attempt };
+    }
+
+    lastError = `AI response did not match the expected shape: ${problems.slice(0, 5).join('; ')}`;
+    console.warn(`Extraction attempt ${attempt}/${maxAttempts}: ${lastError}`);
+    prompt = getRepairPrompt(request, text, problems.slice(0, 20));
+  }
+
+  throw new Error(lastError);
+}
@@ -0,0 +1,389 @@
+/**
+ * Invoice extraction pipeline.
+ *
+ * Turns uploaded invoice files into PO data: structured e-invoices are mapped
+ * directly, born-digital PDFs are parsed from their text layer, and everything
+ * else goes to the configured extraction provider with any supplier-specific
+ * hints. Amounts are converted to GBP and self-checked. In statement mode one
+ * upload can yield several invoices, each checked on its own. Used by the
+ * extract endpoint and by the extraction job worker.
+ */
+
+import { serverSupabase as supabase } from '../supabase-server';
+import { getRecentExtractionCorrections, listSupplierExtractionTemplates } from '../db';
+import { isValidDateString } from '../validation';
+import { convertAmount, convertLineAmounts, toNumber, type ExchangeRates } from '../fx/convert';
+import { lookupRate, resolveRates, todayDateString } from '../fx/rates';
+import type { FxRate } from '../fx/types';
+import { getExtractionProvider, runExtraction } from './engine';
+import { getInvoiceExtractionPrompt, getStatementExtractionPrompt } from './prompts';
+import { EXTRACTED_DATA_SCHEMA, EXTRACTED_INVOICES_SCHEMA } from './schema';
+import type { ExtractedData, ExtractionFile } from './types';
+import { validateExtractedData, type ExtractionValidation } from './validate';
+import { parseStructuredInvoice, type StructuredInvoice } from './einvoice';
+import { combineTextLayers, readPdfTextLayer, type PdfTextLayer } from './pdf-text';
+import {
+  findKnownSupplier,
+  parseInvoiceText,
+  SUPPLIER_TEXT_LAYOUTS,
+  type SupplierTextLayout,
+  type TextParseResult,
+} from './text-parsers';
+import { applyColumnRules, buildSupplierHints, type ColumnRuleKind } from './templates';
+import { describePages, splitTextLayer } from './split';
+
+export interface InvoiceFile {
+  name: string;
+  type: string;
+  data: Buffer;
+}
+
+export type InvoiceExtractionStage = 'reading_files' | 'parsing_text' | 'extracting' | 'checking';
+
+export interface InvoiceExtractionResult {
+  data: ExtractedData;
+  validation: ExtractionValidation;
+  /** 'ai', 'text' (PDF text layer), or the e-invoice format */
+  method: 'ai' | 'text' | StructuredInvoice['format'];
+  profile: string | null;
+  supplierTemplate: { supplierId: string; supplierName: string; appliedRules: ColumnRuleKind[] } | null;
+  /** Statement mode: every invoice found in the upload when there was more than one; the fields above repeat the first */
+  candidates?: InvoiceExtractionCandidate[];
+}
+
+export type InvoiceExtractionCandidate = Omit<InvoiceExtractionResult, 'candidates'> & {
+  /** Pages of the upload the invoice was printed on, when known */
+  pages: number[] | null;
+};
+
+export const MAX_INVOICE_FILES = 20;
+// SECURITY: Cap individual file size to 20 MB
+export const MAX_INVOICE_FILE_BYTES = 20 * 1024 * 1024;
+
+// Error with the HTTP status the extract endpoint should answer with (400 = the upload itself is unusable)
+function extractionError(message: string, status: number): Error & { status: number } {
+  return Object.assign(new Error(message), { status });
+}
+
+// Images, PDFs or e-invoice XML within the size limit; returns the reason a file is rejected
+export function checkInvoiceFile(file: { name: string; type: string; size: number }): string | null {
+  const isImage = file.type.startsWith('image/');
+  const isPDF = file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+  const isXML = file.type === 'application/xml' || file.type === 'text/xml' || file.name.toLowerCase().endsWith('.xml');
+
+  if (!isImage && !isPDF && !isXML) {
+    return `Invalid file type: ${file.name}. Please upload image files (PNG, JPG), PDFs or e-invoice XML.`;
+  }
+  if (file.size > MAX_INVOICE_FILE_BYTES) {
+    return `File "${file.name}" exceeds the 20 MB size limit.`;
+  }
+  return null;
+}
+
+function convertToGBP(extractedData: ExtractedData, fxRate: FxRate | null) {
+  if (!fxRate) {
+    return;
+  }
+
+  const originalCurrency = fxRate.currency;
+  const rate = fxRate.rate;
+
+  // Keep the invoice-currency amounts so the PO can be re-converted at a different rate later
+  extractedData.purchaseOrder.originalCurrency = originalCurrency;
+  extractedData.purchaseOrder.exchangeRate = rate;
+  extractedData.purchaseOrder.exchangeRateDate = fxRate.rateDate;
+  extractedData.purchaseOrder.exchangeRateSource = originalCurrency === 'GBP' ? null : fxRate.source;
+
+  if (originalCurrency === 'GBP') {
+    return;
+  }
+
+  extractedData.poLines = extractedData.poLines.map((line) => {
+    const quantity = toNumber(line.quantity);
+    const originalUnitCost = toNumber(line.unitCostExVAT);
+    let originalLineTotal = toNumber(line.lineTotalExVAT);
+    if (originalLineTotal <= 0 && originalUnitCost > 0 && quantity > 0) {
+      originalLineTotal = originalUnitCost * quantity;
+    }
+
+    const converted = convertLineAmounts(
+      { quantity, unitCost: originalUnitCost, lineTotal: originalLineTotal },
+      rate,
+    );
+
+    return {
+      ...line,
+      quantity,
+      unitCostExVAT: converted.unitCost,
+      lineTotalExVAT: converted.lineTotal,
+      originalUnitCost: quantity > 0 && originalLineTotal > 0 ? originalLineTotal / quantity : originalUnitCost,
+      originalLineTotal,
+    };
+  });
+
+  if (extractedData.totals) {
+    const { subtotal, extras, vat, total } = extractedData.totals;
+    extractedData.originalTotals = {
+      subtotal: toNumber(subtotal),
+      extras: toNumber(extras),
+      vat: toNumber(vat),
+      total: toNumber(total),
+    };
+    extractedData.totals = {
+      subtotal: convertAmount(subtotal, rate),
+      extras: convertAmount(extras, rate),
+      vat: convertAmount(vat, rate),
+      total: convertAmount(total, rate),
+    };
+  }
+
+  if (extractedData.vatBreakdown) {
+    extractedData.vatBreakdown = extractedData.vatBreakdown.map((entry) => ({
+      ...entry,
+      taxableAmount: convertAmount(entry.taxableAmount, rate),
+      taxAmount: convertAmount(entry.taxAmount, rate),
+    }));
+  }
+}
+
+export async function extractInvoice(params: {
+  files: InvoiceFile[];
+  userId: string;
+  /** Only honoured if it is one of the user's suppliers */
+  supplierId?: string | null;
+  /** The upload may hold several invoices (a statement); each is returned as a candidate */
+  split?: boolean;
+  onStage?: (stage: InvoiceExtractionStage) => Promise<void> | void;
+}): Promise<InvoiceExtractionResult> {
+  const { files, userId } = params;
+  const onStage = params.onStage ?? (() => undefined);
+
+  // 1. Get current exchange rates (listed in the prompt for reference only)
+  await onStage('reading_files');
+  const today = todayDateString();
+  const resolvedRates = await resolveRates(today, userId);
+  const exchangeRates: ExchangeRates = {};
+  for (const [currency, fx] of Object.entries(resolvedRates)) {
+    exchangeRates[currency] = fx.rate;
+  }
+
+  // 2. Read all files; structured e-invoices (UBL XML, Factur-X PDFs) are mapped directly
+  const extractionFiles: ExtractionFile[] = [];
+  const pdfBuffers: Buffer[] = [];
+  let structured: StructuredInvoice | null = null;
+  for (const file of files) {
+    const isImage = file.type.startsWith('image/');
+    const isPDF = file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+    // Determine MIME type
+    let mimeType = file.type;
+    if (isPDF && !mimeType) {
+      mimeType = 'application/pdf';
+    }
+
+    if (!structured && !isImage) {
+      try {
+        structured = parseStructuredInvoice({ data: file.data, mimeType, name: file.name });
+      } catch (error) {
+        throw extractionError(`Could not read e-invoice "${file.name}": ${error instanceof Error ? error.message : 'Invalid XML'}`, 400);
+      }
+    }
+
+    if (isPDF) pdfBuffers.push(file.data);
+    extractionFiles.push({ data: file.data.toString('base64'), mimeType, name: file.name });
+  }
+
+  // 3. The user's suppliers, with what was learned from corrections to their past invoices
+  const [{ data: supplierRows }, templates] = await Promise.all([
+    supabase.from('suppliers').select('id, name, email').eq('user_id', userId),
+    listSupplierExtractionTemplates(userId),
+  ]);
+  const templateBySupplierId = new Map(templates.map((t) => [t.supplierId, t]));
+  const knownSuppliers = (supplierRows || []).map((s) => ({
+    id: s.id as string,
+    name: s.name as string,
+    email: s.email as string | null,
+    aliases: templateBySupplierId.get(s.id)?.aliases ?? [],
+  }));
+  const learnedLayouts: SupplierTextLayout[] = knownSuppliers.flatMap((s) => {
+    const headers = templateBySupplierId.get(s.id)?.textHeaders;
+    return headers ? [{ id: s.name, supplierName: s.name, identifiers: [s.name, ...s.aliases], headers }] : [];
+  });
+  let supplier = knownSuppliers.find((s) => s.id === params.supplierId) ?? null;
+
+  // 4. Born-digital PDFs: parse the text layer locally (supplier layouts, then the generic table parser).
+  //    In statement mode the pages are split where the invoice number or date changes and
+  //    each invoice is parsed on its own.
+  let textParses: Array<{ parse: TextParseResult; pages: number[] | null }> | null = null;
+  let segmentCount: number | null = null;
+  let boundaryHint = '';
+  if (!structured && pdfBuffers.length === files.length) {
+    await onStage('parsing_text');
+    try {
+      const layers: PdfTextLayer[] = [];
+      for (const buffer of pdfBuffers) {
+        layers.push(await readPdfTextLayer(buffer));
+      }
+      const layer = combineTextLayers(layers);
+      const parseOptions = { knownSuppliers, layouts: [...SUPPLIER_TEXT_LAYOUTS, ...learnedLayouts] };
+      supplier = supplier ?? findKnownSupplier(layer.text, knownSuppliers);
+
+      const segments = params.split && layer.hasTextLayer ? splitTextLayer(layer) : [];
+      if (segments.length > 0) segmentCount = segments.length;
+
+      if (segments.length > 1) {
+        const parsed = segments.map((segment) => parseInvoiceText(segment.layer, parseOptions));
+        if (parsed.every((parse) => parse !== null)) {
+          textParses = parsed.map((parse, i) => ({ parse: parse!, pages: segments[i].pages }));
+        } else {
+          boundaryHint = `The text layer suggests ${segments.length} invoices: ${segments
+            .map((segment) => `${describePages(segment.pages)}${segment.invoiceNumber ? ` (invoice ${segment.invoiceNumber})` : ''}`)
+            .join(', ')}.`;
+        }
+      } else {
+        const textParse = parseInvoiceText(layer, parseOptions);
+        if (textParse) textParses = [{ parse: textParse, pages: null }];
+      }
+    } catch (error) {
+      console.warn('PDF text-layer parsing failed, falling back to AI extraction:', error);
+    }
+  }
+
+  let extracted: Array<{ data: ExtractedData; pages: number[] | null; profile: string | null }>;
+  if (structured) {
+    // 5a. Exact figures from the e-invoice – no AI needed
+    extracted = [{ data: structured.data, pages: null, profile: structured.profile ?? null }];
+  } else if (textParses) {
+    // 5b. Text layer parsed and the arithmetic checks out – no AI needed
+    extracted = textParses.map(({ parse, pages }) => ({ data: parse.data, pages, profile: parse.parser }));
+  } else {
+    // 5c. Scans, photos and PDFs the local parsers could not read go to the configured
+    //     extraction provider (EXTRACTION_PROVIDER, Gemini by default)
+    const provider = getExtractionProvider();
+    if (!provider) {
+      throw extractionError('Extraction provider not configured (set GEMINI_API_KEY, or EXTRACTION_PROVIDER=fake for offline use)', 500);
+    }
+
+    // 6. Extract with the provider; malformed or off-schema JSON is repaired by re-prompting.
+    //    Invoices from a supplier we have corrected before carry those corrections as hints.
+    //    Statement mode asks for every invoice separately unless the text layer showed only one.
+    await onStage('extracting');
+    const template = supplier ? templateBySupplierId.get(supplier.id) : undefined;
+    const supplierHints = supplier && template
+      ? buildSupplierHints(supplier.name, template, await getRecentExtractionCorrections(supplier.id))
+      : '';
+    const statement = !!params.split && segmentCount !== 1;
+
+    try {
+      if (statement) {
+        const prompt = getStatementExtractionPrompt(exchangeRates, boundaryHint) + supplierHints
+          + `\n\nPlease analyze ${files.length === 1 ? 'this document' : `these ${files.length} documents`} and extract every invoice in it.`;
+        const result = await runExtraction<{ invoices: Array<ExtractedData & { pages?: number[] | null }> }>({
+          provider,
+          request: { task: 'invoice-statement', prompt, files: extractionFiles },
+          schema: EXTRACTED_INVOICES_SCHEMA,
+        });
+        extracted = result.data.invoices.map(({ pages, ...data }) => ({ data, pages: pages?.length ? pages : null, profile: null }));
+      } else {
+        const extractionPrompt = getInvoiceExtractionPrompt(exchangeRates) + supplierHints;
+        const prompt = extractionPrompt + `\n\nPlease analyze ${files.length === 1 ? 'this invoice document' : `these ${files.length} invoice documents (they are all part of the same order)`} and extract the data.`;
+        const result = await runExtraction<ExtractedData>({
+          provider,
+          request: { task: 'invoice', prompt, files: extractionFiles },
+          schema: EXTRACTED_DATA_SCHEMA,
+        });
+        extracted = [{ data: result.data, pages: null, profile: null }];
+      }
+    } catch (error) {
+      console.error('Extraction error:', error);
+      throw extractionError(`Failed to process files: ${error instanceof Error ? error.message : 'Unknown error'}`, 500);
+    }
+  }
+
+  const fromModel = !structured && !textParses;
+  const method: InvoiceExtractionResult['method'] = structured ? structured.format : textParses ? 'text' : 'ai';
+
+  const checkInvoice = async (extractedData: ExtractedData): Promise<Omit<InvoiceExtractionCandidate, 'method' | 'profile' | 'pages'>> => {
+    // 7. Match the invoice to a known supplier by its printed name or a learned alias, and
+    //    apply the column rules learned for that supplier to model output
+    const printedName = extractedData.supplier?.name?.trim().toLowerCase();
+    const matchedSupplier = supplier ?? knownSuppliers.find((s) =>
+      s.name.trim().toLowerCase() === printedName || s.aliases.some((a) => a.trim().toLowerCase() === printedName)
+    ) ?? null;
+    let appliedRules: ColumnRuleKind[] = [];
+    if (matchedSupplier) {
+      extractedData.supplier = { ...extractedData.supplier, name: matchedSupplier.name };
+      const template = templateBySupplierId.get(matchedSupplier.id);
+      if (template && fromModel) {
+        const result = applyColumnRules(extractedData, template.columnRules);
+        extractedData = result.data;
+        appliedRules = result.applied;
+      }
+    }
+
+    // 8. Convert all monetary values from original currency to GBP at the rate for the invoice date
+    const originalCurrency = extractedData.purchaseOrder?.originalCurrency?.trim().toUpperCase();
+    if (originalCurrency) {
+      const invoiceDate = extractedData.purchaseOrder.invoiceDate;
+      const rateDate = isValidDateString(invoiceDate) ? invoiceDate : today;
+      const fxRate = rateDate === today && resolvedRates[originalCurrency]
+        ? resolvedRates[originalCurrency]
+        : await lookupRate(originalCurrency, rateDate, userId);
+      convertToGBP(extractedData, fxRate);
+    }
+
+    // 9. Sanity check: if sum of line totals is way off from the invoice total,
+    //    the AI likely confused unit costs with line totals. Auto-correct.
+    if (fromModel && extractedData.totals?.total > 0 && extractedData.poLines.length > 0) {
+      const lineSum = extractedData.poLines.reduce((s, l) => s + (l.lineTotalExVAT || 0), 0);
+      const invoiceTotal = extractedData.totals.total;
+      // If line items sum to more than 1.5× the invoice total, the prices were likely
+      // line totals that the AI treated as unit costs (then multiplied by quantity again)
+      if (lineSum > invoiceTotal * 1.5) {
+        extractedData.poLines = extractedData.poLines.map((line) => {
+          const qty = line.quantity || 1;
+          // The current unitCostExVAT is actually the line total; fix it
+          const correctedLineTotal = line.unitCostExVAT;
+          const correctedUnit = Number((correctedLineTotal / qty).toFixed(2));
+          // Apply the same correction to the invoice-currency amounts
+          const originalLineTotal = typeof line.originalUnitCost === 'number' ? line.originalUnitCost : null;
+          return {
+            ...line,
+            unitCostExVAT: correctedUnit,
+            lineTotalExVAT: Number(correctedLineTotal.toFixed(2)),
+            originalUnitCost: originalLineTotal !== null ? originalLineTotal / qty : line.originalUnitCost,
+            originalLineTotal: originalLineTotal !== null ? originalLineTotal : line.originalLineTotal,
+          };
+        });
+        // Recalculate subtotal
+        const newSubtotal = extractedData.poLines.reduce((s, l) => s + l.lineTotalExVAT, 0);
+        extractedData.totals.subtotal = Number(newSubtotal.toFixed(2));
+        if (extractedData.originalTotals) {
+          const newOriginalSubtotal = extractedData.poLines.reduce((s, l) => s + (l.originalLineTotal || 0), 0);
+          extractedData.originalTotals.subtotal = newOriginalSubtotal;
+        }
+      }
+    }
+
+    // 10. Self-check the arithmetic so suspect lines can be reviewed before saving
+    const validation = validateExtractedData(extractedData);
+
+    return {
+      data: extractedData,
+      validation,
+      supplierTemplate: matchedSupplier && templateBySupplierId.has(matchedSupplier.id)
+        ? { supplierId: matchedSupplier.id, supplierName: matchedSupplier.name, appliedRules }
+        : null,
+    };
+  };
+
+  await onStage('checking');
+  const candidates: InvoiceExtractionCandidate[] = [];
+  for (const { data, pages, profile } of extracted) {
+    candidates.push({ ...(await checkInvoice(data)), method, profile, pages });
+  }
+
+  const { data, validation, profile, supplierTemplate } = candidates[0];
+  const result: InvoiceExtractionResult = { data, validation, method, profile, supplierTemplate };
+  return candidates.length > 1 ? { ...result, candidates } : result;
+}
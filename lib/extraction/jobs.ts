@@ -0,0 +1,378 @@
+/**
+ * Background invoice extraction jobs.
+ *
+ * Uploads are stored and queued instead of being extracted inside the request,
+ * following the shopify_webhook_jobs pattern: claim_extraction_jobs locks due
+ * jobs for a worker, failures are re-queued with exponential backoff, and jobs
+ * that run out of attempts are left 'dead' with their last error until the
+ * user retries or removes them. Results stay on the job for later review.
+ */
+
+import { serverSupabase as supabase } from '../supabase-server';
+import { deleteStoredFiles, downloadStoredFile, type StoredFile } from '../storage';
+import { extractInvoice, type InvoiceExtractionResult, type InvoiceExtractionStage } from './invoice';
+
+export type ExtractionJobStatus = 'queued' | 'processing' | 'succeeded' | 'dead' | 'saved';
+
+export type ExtractionJobSource = 'upload' | 'email';
+
+export interface ExtractionJobError {
+  message: string;
+  /** HTTP-style status from the pipeline; 400 means the upload itself is unusable */
+  status?: number;
+}
+
+export interface SavedCandidate {
+  /** Position in result.candidates */
+  index: number;
+  /** Null while the candidate's save is in progress */
+  purchaseOrderId: string | null;
+}
+
+export interface ExtractionJob {
+  id: string;
+  label: string | null;
+  files: StoredFile[];
+  supplierId: string | null;
+  source: ExtractionJobSource;
+  /** Sender address for invoices received by email */
+  sender: string | null;
+  /** Statement mode: the upload may contain several invoices */
+  split: boolean;
+  status: ExtractionJobStatus;
+  stage: InvoiceExtractionStage | null;
+  result: InvoiceExtractionResult | null;
+  purchaseOrderId: string | null;
+  savedCandidates: SavedCandidate[];
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lastError: ExtractionJobError | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ExtractionJobRow {
+  id: string;
+  label: string | null;
+  files: StoredFile[] | null;
+  supplierid: string | null;
+  source: ExtractionJobSource | null;
+  sender: string | null;
+  splitinvoices: boolean | null;
+  status: ExtractionJobStatus;
+  stage: InvoiceExtractionStage | null;
+  result: InvoiceExtractionResult | null;
+  purchaseorderid: string | null;
+  savedcandidates: SavedCandidate[] | null;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  last_error: ExtractionJobError | null;
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+function mapExtractionJobRow(row: ExtractionJobRow): ExtractionJob {
+  return {
+    id: row.id,
+    label: row.label ?? null,
+    files: row.files ?? [],
+    supplierId: row.supplierid ?? null,
+    source: row.source ?? 'upload',
+    sender: row.sender ?? null,
+    split: row.splitinvoices ?? false,
+    status: row.status,
+    stage: row.stage ?? null,
+    result: row.result ?? null,
+    purchaseOrderId: row.purchaseorderid ?? null,
+    savedCandidates: row.savedcandidates ?? [],
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAt: row.run_at,
+    lastError: row.last_error ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function enqueueExtractionJob(params: {
+  id: string;
+  label: string | null;
+  files: StoredFile[];
+  supplierId: string | null;
+  source?: ExtractionJobSource;
+  sender?: string | null;
+  split?: boolean;
+  user_id: string;
+}): Promise<ExtractionJob> {
+  const { data, error } = await supabase
+    .from('extraction_jobs')
+    .insert({
+      id: params.id,
+      label: params.label,
+      files: params.files,
+      supplierid: params.supplierId,
+      source: params.source ?? 'upload',
+      sender: params.sender ?? null,
+      splitinvoices: params.split ?? false,
+      user_id: params.user_id,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to enqueue extraction job: ${error?.message}`);
+  }
+
+  return mapExtractionJobRow(data);
+}
+
+export async function getExtractionJob(jobId: string, userId: string): Promise<ExtractionJob | null> {
+  const { data } = await supabase
+    .from('extraction_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .single();
+
+  return data ? mapExtractionJobRow(data) : null;
+}
+
+// Jobs still waiting to be reviewed (saved ones have become purchase orders)
+export async function listExtractionJobs(userId: string, limit = 50): Promise<ExtractionJob[]> {
+  const { data, error } = await supabase
+    .from('extraction_jobs')
+    .select('*')
+    .eq('user_id', userId)
+    .neq('status', 'saved')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load extraction jobs: ${error.message}`);
+  }
+
+  return (data || []).map(mapExtractionJobRow);
+}
+
+// Give a dead job a fresh set of attempts, starting now
+export async function retryExtractionJob(jobId: string): Promise<void> {
+  const { error } = await supabase
+    .from('extraction_jobs')
+    .update({
+      status: 'queued',
+      stage: null,
+      attempts: 0,
+      run_at: new Date().toISOString(),
+      locked_at: null,
+      locked_by: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', jobId)
+    .eq('status', 'dead');
+
+  if (error) {
+    throw new Error(`Failed to retry extraction job: ${error.message}`);
+  }
+}
+
+/**
+ * Claim a job's candidate before saving its purchase order (a single-invoice job
+ * has just candidate 0). Returns false when another save already claimed it.
+ */
+export async function claimExtractionCandidate(jobId: string, candidateIndex = 0): Promise<boolean> {
+  const { data, error } = await supabase.rpc('claim_extraction_candidate', {
+    p_job_id: jobId,
+    p_index: candidateIndex,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim extraction candidate: ${error.message}`);
+  }
+
+  return data === true;
+}
+
+// Give a claim back when its purchase order could not be saved
+export async function releaseExtractionCandidate(jobId: string, candidateIndex = 0): Promise<void> {
+  const { error } = await supabase.rpc('release_extraction_candidate', {
+    p_job_id: jobId,
+    p_index: candidateIndex,
+  });
+
+  if (error) {
+    throw new Error(`Failed to release extraction candidate: ${error.message}`);
+  }
+}
+
+/**
+ * Record a purchase order saved from a claimed candidate. The job stays open for
+ * review until every candidate of a statement is saved.
+ */
+export async function markExtractionJobSaved(job: ExtractionJob, purchaseOrderId: string, candidateIndex = 0): Promise<void> {
+  const { error } = await supabase.rpc('complete_extraction_candidate', {
+    p_job_id: job.id,
+    p_index: candidateIndex,
+    p_purchase_order_id: purchaseOrderId,
+    p_candidate_count: job.result?.candidates?.length ?? 0,
+  });
+
+  if (error) {
+    throw new Error(`Failed to update extraction job: ${error.message}`);
+  }
+}
+
+// Remove a job and its uploads. Files of a saved job belong to the purchase order and are kept.
+export async function deleteExtractionJob(job: ExtractionJob): Promise<void> {
+  // Fingerprints of files that never became a purchase order no longer count as imported
+  await supabase.from('invoice_file_fingerprints').delete().eq('extractionjobid', job.id).is('purchaseorderid', null);
+
+  const { error } = await supabase.from('extraction_jobs').delete().eq('id', job.id);
+
+  if (error) {
+    throw new Error(`Failed to delete extraction job: ${error.message}`);
+  }
+
+  if (job.status !== 'saved') {
+    await deleteStoredFiles(job.files.map((f) => f.path));
+  }
+}
+
+// --- Worker ---
+
+export type ProcessExtractionJobsResult = {
+  processed: number;
+  succeeded: number;
+  retried: number;
+  dead: number;
+};
+
+function computeBackoffSeconds(attempts: number): number {
+  const n = Math.max(1, attempts);
+  const seconds = 15 * Math.pow(2, n - 1);
+  return Math.min(60 * 30, Math.floor(seconds));
+}
+
+async function setJobStage(jobId: string, stage: InvoiceExtractionStage) {
+  await supabase
+    .from('extraction_jobs')
+    .update({ stage, updated_at: new Date().toISOString() })
+    .eq('id', jobId);
+}
+
+async function markJobSucceeded(jobId: string, result: InvoiceExtractionResult) {
+  await supabase
+    .from('extraction_jobs')
+    .update({
+      status: 'succeeded',
+      stage: null,
+      result,
+      locked_at: null,
+      locked_by: null,
+      last_error: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', jobId);
+}
+
+async function requeueJob(jobId: string, attempts: number, error: ExtractionJobError) {
+  const delaySeconds = computeBackoffSeconds(attempts);
+  const runAt = new Date(Date.now() + delaySeconds * 1000).toISOString();
+
+  await supabase
+    .from('extraction_jobs')
+    .update({
+      status: 'queued',
+      stage: null,
+      run_at: runAt,
+      locked_at: null,
+      locked_by: null,
+      last_error: error,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', jobId);
+}
+
+async function markJobDead(jobId: string, error: ExtractionJobError) {
+  await supabase
+    .from('extraction_jobs')
+    .update({
+      status: 'dead',
+      stage: null,
+      locked_at: null,
+      locked_by: null,
+      last_error: error,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', jobId);
+}
+
+export async function processExtractionJobs(params: {
+  workerId: string;
+  maxJobs: number;
+  /** Claim only this job (used to start a job straight after upload) */
+  jobId?: string;
+}): Promise<ProcessExtractionJobsResult> {
+  const result: ProcessExtractionJobsResult = {
+    processed: 0,
+    succeeded: 0,
+    retried: 0,
+    dead: 0,
+  };
+
+  const { data: jobs, error } = await supabase.rpc('claim_extraction_jobs', {
+    p_max_jobs: params.maxJobs,
+    p_worker_id: params.workerId,
+    p_job_id: params.jobId ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim extraction jobs: ${error.message}`);
+  }
+
+  const claimed: ExtractionJobRow[] = Array.isArray(jobs) ? jobs : [];
+  for (const job of claimed) {
+    result.processed++;
+
+    try {
+      await setJobStage(job.id, 'reading_files');
+      const files = await Promise.all(
+        (job.files || []).map(async (file) => ({
+          name: file.name,
+          type: file.type,
+          data: await downloadStoredFile(file.path),
+        }))
+      );
+
+      const extraction = await extractInvoice({
+        files,
+        userId: job.user_id,
+        supplierId: job.supplierid,
+        split: job.splitinvoices ?? false,
+        onStage: (stage) => setJobStage(job.id, stage),
+      });
+
+      await markJobSucceeded(job.id, extraction);
+      result.succeeded++;
+    } catch (e) {
+      const status = (e as { status?: number }).status;
+      const jobError: ExtractionJobError = {
+        message: e instanceof Error ? e.message : 'Unknown error',
+        ...(status ? { status } : {}),
+      };
+
+      // An unreadable upload fails the same way every time – no point retrying
+      if (status !== 400 && job.attempts < job.max_attempts) {
+        await requeueJob(job.id, job.attempts, jobError);
+        result.retried++;
+      } else {
+        await markJobDead(job.id, jobError);
+        result.dead++;
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,138 @@
+/**
+ * PDF text-layer reader.
+ *
+ * Born-digital invoices (exported from accounting or ERP software) carry their
+ * text with positions, so rows and columns can be rebuilt locally instead of
+ * sending page images to a model. Scans and photos have no text layer; callers
+ * check hasTextLayer and fall back to vision extraction.
+ */
+
+import { getDocumentProxy } from 'unpdf';
+
+export interface TextCell {
+  text: string;
+  /** Left and right edges in PDF points */
+  x: number;
+  right: number;
+}
+
+export interface TextLine {
+  page: number;
+  /** Baseline, in PDF points from the bottom of the page */
+  y: number;
+  cells: TextCell[];
+  text: string;
+}
+
+export interface PdfTextLayer {
+  pageCount: number;
+  lines: TextLine[];
+  text: string;
+  /** False for scans: too little extractable text to be worth parsing */
+  hasTextLayer: boolean;
+}
+
+interface PositionedText {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+// Fewer characters than this per page means the PDF is an image with at most a stray label
+const MIN_CHARACTERS_PER_PAGE = 40;
+
+function groupIntoLines(items: PositionedText[], page: number): TextLine[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: PositionedText[][] = [];
+
+  for (const item of sorted) {
+    const row = rows[rows.length - 1];
+    // Same row when baselines are within a third of the font size (superscripts, mixed fonts)
+    if (row && Math.abs(row[0].y - item.y) <= Math.max(2, item.fontSize / 3)) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+
+  return rows.map((row) => {
+    row.sort((a, b) => a.x - b.x);
+    const cells: TextCell[] = [];
+    for (const item of row) {
+      const previous = cells[cells.length - 1];
+      // A gap wider than about a character starts a new column
+      if (previous && item.x - previous.right < item.fontSize * 0.8) {
+        const joiner = item.x - previous.right > item.fontSize * 0.15 ? ' ' : '';
+        previous.text += joiner + item.text;
+        previous.right = Math.max(previous.right, item.x + item.width);
+      } else {
+        cells.push({ text: item.text, x: item.x, right: item.x + item.width });
+      }
+    }
+    return {
+      page,
+      y: row[0].y,
+      cells,
+      text: cells.map((c) => c.text).join('  '),
+    };
+  });
+}
+
+export async function readPdfTextLayer(data: Buffer): Promise<PdfTextLayer> {
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+  const pageCount = pdf.numPages;
+  const lines: TextLine[] = [];
+  let characters = 0;
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items: PositionedText[] = [];
+
+      for (const item of content.items) {
+        if (!('str' in item)) continue;
+        const text = item.str.trim();
+        if (!text) continue;
+        const [a, b, , , x, y] = item.transform as number[];
+        items.push({
+          text,
+          x,
+          y,
+          width: item.width,
+          fontSize: Math.hypot(a, b) || item.height || 10,
+        });
+        characters += text.length;
+      }
+
+      lines.push(...groupIntoLines(items, pageNumber));
+    }
+  } finally {
+    await pdf.loadingTask.destroy();
+  }
+
+  return {
+    pageCount,
+    lines,
+    text: lines.map((line) => line.text).join('\n'),
+    hasTextLayer: characters >= MIN_CHARACTERS_PER_PAGE * Math.max(1, pageCount),
+  };
+}
+
+// Several PDFs uploaded as one invoice read as one document, pages numbered on
+export function combineTextLayers(layers: PdfTextLayer[]): PdfTextLayer {
+  const lines: TextLine[] = [];
+  let pageOffset = 0;
+  for (const layer of layers) {
+    lines.push(...layer.lines.map((line) => ({ ...line, page: line.page + pageOffset })));
+    pageOffset += layer.pageCount;
+  }
+  return {
+    pageCount: pageOffset,
+    lines,
+    text: lines.map((line) => line.text).join('\n'),
+    hasTextLayer: layers.length > 0 && layers.every((layer) => layer.hasTextLayer),
+  };
+}
@@ -0,0 +1,151 @@
+import type { ExchangeRates } from '@/lib/fx/convert';
+
+// Prompt for structured invoice / delivery note extraction
+export function getInvoiceExtractionPrompt(exchangeRates: ExchangeRates): string {
+  const ratesList = Object.entries(exchangeRates)
+    .slice(0, 10)
+    .map(([curr, rate]) => `${curr}: ${rate.toFixed(4)}`)
+    .join(', ');
+
+  return `You are an expert at extracting structured data from invoices and delivery notes.
+
+Extract the following information from the invoice/delivery note image(s) and return it as a JSON object:
+
+{
+  "supplier": {
+    "name": "Company name",
+    "address": "Full address",
+    "email": "Email if present",
+    "phone": "Phone if present",
+    "vatNumber": "VAT/Tax number if present"
+  },
+  "purchaseOrder": {
+    "invoiceNumber": "Invoice or delivery note number",
+    "invoiceDate": "Date in YYYY-MM-DD format",
+    "originalCurrency": "Original currency code on invoice (e.g., GBP, USD, EUR)",
+    "paymentTerms": "Payment terms if mentioned"
+  },
+  "poLines": [
+    {
+      "description": "Item description",
+      "supplierSku": "Item code/SKU (alphanumeric product code, NOT the quantity)",
+      "quantity": number,
+      "unitCostExVAT": number,
+      "lineTotalExVAT": number,
+      "rrp": number
+    }
+  ],
+  "totals": {
+    "subtotal": number,
+    "extras": number,
+    "vat": number,
+    "total": number
+  }
+}
+
+**CURRENCY HANDLING - CRITICAL - READ CAREFULLY:**
+
+Exchange rates the SERVER will use to convert TO GBP (for your reference ONLY, do not apply them yourself): ${ratesList}
+
+**CURRENCY DETECTION:**
+- Look for currency symbols: £ (GBP), $ (USD), € (EUR), ¥ (JPY/CNY), etc.
+- Common currency indicators:
+  * £ or GBP or "Pound" = GBP (no conversion needed)
+  * $ or USD or "Dollar" = USD
+  * € or EUR or "Euro" = EUR
+  * ¥ or JPY or "Yen" = JPY (Japanese Yen)
+  * ¥ or CNY or "Yuan" or "RMB" = CNY (Chinese Yuan)
+- **IMPORTANT**: If you see ¥ symbol, check the supplier location/language:
+  * Japanese text/supplier = JPY
+  * Chinese text/supplier = CNY
+- Store the ORIGINAL currency in "originalCurrency" field (e.g., "JPY", "USD", "EUR")
+
+**NO CURRENCY CONVERSION BY YOU:**
+- Do NOT convert any numbers to GBP.
+- Always output all monetary values (unit costs, line totals, subtotal, extras, VAT, total) in the ORIGINAL invoice currency.
+- The server will use the originalCurrency and the exchange rates above to convert everything to GBP.
+
+**SKU/Item Code Extraction (VERY IMPORTANT):**
+- Look for product codes in a dedicated column or field, often labeled: "SKU", "Item #", "Code", "Product Code", "Item Code", "Part #", "Ref", "Article No"
+- SKUs are typically alphanumeric codes like: "TCG-001", "ABC123", "PROD-2024-001", "12345-A"
+- SKUs are usually positioned BEFORE or AFTER the description, in their own column
+- DO NOT extract the quantity as the SKU - quantity is always a simple number (1, 2, 10, etc.)
+- DO NOT extract prices, dates, or invoice numbers as SKUs
+- If you see a column with mixed alphanumeric codes next to descriptions, that's likely the SKU
+- If no clear SKU column exists, leave supplierSku as empty string or null
+- When in doubt, prefer leaving it empty rather than guessing incorrectly
+
+**RRP (Recommended Retail Price) Extraction:**
+- Look for columns labeled: "RRP", "Retail Price", "MSRP", "Recommended Price", "Selling Price", "List Price"
+- RRP is usually higher than the unit cost and represents the suggested selling price
+- Common on distributor invoices, especially for retail goods like trading cards, games, collectibles
+- If multiple price columns exist, RRP is typically the highest price (excluding VAT)
+- If no RRP is clearly indicated, set rrp to null - do NOT guess or use unit cost
+- RRP should be in the same currency as other prices on the invoice
+- Look for text like "RRP:" or "Retail:" followed by a price
+
+**UNIT COST vs LINE TOTAL - CRITICAL:**
+- Each line item has a quantity, a unit cost (price per single unit), and a line total (quantity × unit cost).
+- Some invoices only show ONE price per line (not both unit cost and line total).
+- When only ONE price is shown per line, you MUST determine if it is the unit cost or line total:
+  1. Sum ALL the single prices across all line items.
+  2. Compare that sum to the invoice subtotal/total (ignoring shipping/extras/VAT).
+  3. If the sum of prices ≈ the subtotal/total → the prices are LINE TOTALS. Calculate unit cost = price / quantity.
+  4. If the sum of (price × quantity) ≈ the subtotal/total → the prices are UNIT COSTS. Calculate line total = price × quantity.
+- Example: "5 Widget ¥53,500" with invoice total ≈ sum of all such prices → ¥53,500 is the LINE TOTAL, unit cost = ¥53,500 / 5 = ¥10,700.
+- ALWAYS verify: the sum of all lineTotalExVAT values should approximately equal the subtotal.
+
+**Other Important Rules:**
+- If multiple files/pages are provided, they are ALL part of the SAME invoice/order - combine all data
+- Extract ALL line items from ALL documents/pages
+- **EXTRAS field**: Extract shipping, delivery, handling, freight charges (NOT part of line items). Set to 0 if none.
+- **SUBTOTAL**: Sum of all line items BEFORE extras and VAT
+- **TOTAL**: subtotal + extras + VAT
+- If a field is not present, use null or empty string (use 0 for numeric fields like extras)
+- Ensure all numbers are numeric values, not strings
+- Combine line items from all pages into a single poLines array`;
+}
+
+// Prompt for uploads that may hold several invoices (statements, batch exports)
+export function getStatementExtractionPrompt(exchangeRates: ExchangeRates, boundaryHint = ''): string {
+  return `${getInvoiceExtractionPrompt(exchangeRates)}
+
+**MULTIPLE INVOICES - OVERRIDES THE RULES ABOVE:**
+- This upload may contain SEVERAL SEPARATE invoices (e.g. a monthly statement or a batch of invoices in one PDF).
+- Do NOT combine them. A new invoice starts where the invoice number or invoice date changes.
+- Return one object per invoice, each in the shape above with its own lines and totals, plus "pages": the 1-based page numbers it was printed on.
+- Ignore statement summary pages that only list invoices and balances without line items.
+- If the upload contains only one invoice, return a single entry.${boundaryHint ? `
+- ${boundaryHint}` : ''}
+
+Return: {"invoices": [ { "supplier": ..., "purchaseOrder": ..., "poLines": [...], "totals": ..., "pages": [1, 2] }, ... ]}`;
+}
+
+// Prompt for mapping CSV headers onto the inventory import fields
+export function getColumnMappingPrompt(headers: string[], sampleRows?: string[][]): string {
+  return `You are mapping CSV column headers to a product inventory schema.
+
+The target fields are:
+- name (required): Product name / description
+- primarySku: SKU, item code, product code
+- supplierSku: Supplier-specific SKU
+- category: Product category, folder, group
+- barcodes: Barcode, EAN, UPC, GTIN
+- quantityOnHand: Quantity in stock, count
+- quantityInTransit: Quantity in transit, not yet received
+- averageCostGBP: Unit cost, purchase price (in GBP)
+- supplier: Supplier or vendor name
+
+The CSV has these headers: ${JSON.stringify(headers)}
+
+${sampleRows && sampleRows.length > 0 ? `Here are the first ${sampleRows.length} sample data rows for context:\n${sampleRows.map((row) => JSON.stringify(row)).join('\n')}` : ''}
+
+Return a JSON object mapping each CSV header to one of the target fields above, or null if it doesn't match any field.
+Each target field should only be used ONCE (pick the best match).
+"name" MUST be mapped to exactly one column.
+
+Example output:
+{"Product Name": "name", "SKU": "primarySku", "Stock": "quantityOnHand", "Notes": null}
+
+Return ONLY the JSON object, no commentary.`;
+}
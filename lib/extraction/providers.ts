@@ -0,0 +1,127 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import invoiceFixture from './fixtures/invoice.json';
+import invoiceStatementFixture from './fixtures/invoice-statement.json';
+import columnMappingFixture from './fixtures/column-mapping.json';
+import type { ExtractionProvider, ExtractionTask } from './types';
+
+// Errors carry the HTTP status so the engine can tell a bad request from a transient failure
+function httpError(provider: string, status: number, statusText: string, body: string): Error {
+  console.error(`${provider} API error:`, body);
+  return Object.assign(new Error(`${provider} API error: ${status} ${statusText}`), { status });
+}
+
+// --- Google Gemini ---
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash';
+
+export function createGeminiProvider(
+  apiKey: string,
+  model: string = process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL,
+): ExtractionProvider {
+  return {
+    name: 'gemini',
+    async generate(request, signal) {
+      const response = await fetch(
+        `https://generativelanguage.googleapis.com/v1/models/${model}:generateContent?key=${apiKey}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            contents: [{
+              parts: [
+                { text: request.prompt },
+                ...(request.files || []).map((file) => ({
+                  inlineData: { data: file.data, mimeType: file.mimeType },
+                })),
+              ],
+            }],
+          }),
+          signal,
+        },
+      );
+
+      if (!response.ok) {
+        throw httpError('Gemini', response.status, response.statusText, await response.text());
+      }
+
+      const data = await response.json();
+      return data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+    },
+  };
+}
+
+// --- OpenAI-compatible chat completions (OpenAI, Azure, vLLM, Ollama, LM Studio...) ---
+
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+export function createOpenAICompatibleProvider(options: {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+} = {}): ExtractionProvider {
+  const apiKey = options.apiKey ?? process.env.OPENAI_API_KEY;
+  const baseUrl = (options.baseUrl ?? process.env.OPENAI_BASE_URL ?? DEFAULT_OPENAI_BASE_URL).replace(/\/$/, '');
+  const model = options.model ?? process.env.OPENAI_MODEL ?? DEFAULT_OPENAI_MODEL;
+
+  return {
+    name: 'openai',
+    async generate(request, signal) {
+      const content = [
+        { type: 'text', text: request.prompt },
+        ...(request.files || []).map((file) =>
+          file.mimeType.startsWith('image/')
+            ? { type: 'image_url', image_url: { url: `data:${file.mimeType};base64,${file.data}` } }
+            : { type: 'file', file: { filename: file.name || 'document.pdf', file_data: `data:${file.mimeType};base64,${file.data}` } },
+        ),
+      ];
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content }],
+          response_format: { type: 'json_object' },
+          temperature: 0,
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw httpError('OpenAI-compatible', response.status, response.statusText, await response.text());
+      }
+
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content || '';
+    },
+  };
+}
+
+// --- Deterministic fake (offline development and tests) ---
+
+const BUILT_IN_FIXTURES: Record<ExtractionTask, unknown> = {
+  'invoice': invoiceFixture,
+  'invoice-statement': invoiceStatementFixture,
+  'column-mapping': columnMappingFixture,
+};
+
+// Answers every request with a fixture for its task: <EXTRACTION_FIXTURES_DIR>/<task>.json
+// when that directory is set, otherwise the fixtures bundled with this module
+export function createFakeProvider(
+  fixturesDir: string | undefined = process.env.EXTRACTION_FIXTURES_DIR,
+): ExtractionProvider {
+  return {
+    name: 'fake',
+    async generate(request) {
+      if (fixturesDir) {
+        return readFile(path.join(fixturesDir, `${request.task}.json`), 'utf8');
+      }
+      return JSON.stringify(BUILT_IN_FIXTURES[request.task]);
+    },
+  };
+}
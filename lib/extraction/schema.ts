@@ -0,0 +1,149 @@
+/**
+ * JSON schema checks for model output.
+ *
+ * Only the subset of JSON Schema the extraction shapes need: type (single or a
+ * list, including "null"), properties, required, items and additionalProperties.
+ * Errors are plain strings with a JSON path so they can be fed back to the model.
+ */
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  type: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  additionalProperties?: JsonSchema | boolean;
+  minItems?: number;
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, expected: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  if (actual === expected) return true;
+  // Every integer is also a number
+  return expected === 'number' && actual === 'integer' && Number.isFinite(value as number);
+}
+
+export function validateSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (!types.some((t) => matchesType(value, t))) {
+    return [`${path} should be ${types.join(' or ')}, got ${typeOf(value)}`];
+  }
+
+  const errors: string[] = [];
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) errors.push(`${path}.${key} is required`);
+    }
+    for (const [key, child] of Object.entries(record)) {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        errors.push(...validateSchema(child, childSchema, `${path}.${key}`));
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateSchema(child, schema.additionalProperties, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path} should have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateSchema(item, schema.items!, `${path}[${index}]`)));
+    }
+  }
+
+  return errors;
+}
+
+const optionalString: JsonSchema = { type: ['string', 'null'] };
+const optionalNumber: JsonSchema = { type: ['number', 'null'] };
+
+// The invoice shape the extract route expects back from the model (amounts in invoice currency)
+export const EXTRACTED_DATA_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['supplier', 'purchaseOrder', 'poLines'],
+  properties: {
+    supplier: {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name: optionalString,
+        address: optionalString,
+        email: optionalString,
+        phone: optionalString,
+        vatNumber: optionalString,
+      },
+    },
+    purchaseOrder: {
+      type: 'object',
+      properties: {
+        invoiceNumber: optionalString,
+        invoiceDate: optionalString,
+        originalCurrency: optionalString,
+        paymentTerms: optionalString,
+      },
+    },
+    poLines: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['description', 'quantity'],
+        properties: {
+          description: { type: 'string' },
+          supplierSku: optionalString,
+          quantity: { type: 'number' },
+          unitCostExVAT: optionalNumber,
+          lineTotalExVAT: optionalNumber,
+          rrp: optionalNumber,
+        },
+      },
+    },
+    totals: {
+      type: ['object', 'null'],
+      properties: {
+        subtotal: optionalNumber,
+        extras: optionalNumber,
+        vat: optionalNumber,
+        total: optionalNumber,
+      },
+    },
+  },
+};
+
+// Statement mode: every invoice found in the upload, with the pages it was printed on
+export const EXTRACTED_INVOICES_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['invoices'],
+  properties: {
+    invoices: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        ...EXTRACTED_DATA_SCHEMA,
+        properties: {
+          ...EXTRACTED_DATA_SCHEMA.properties,
+          pages: { type: ['array', 'null'], items: { type: 'integer' } },
+        },
+      },
+    },
+  },
+};
+
+// CSV header -> inventory field (or null when the column is not needed)
+export const COLUMN_MAPPING_SCHEMA: JsonSchema = {
+  type: 'object',
+  additionalProperties: { type: ['string', 'null'] },
+};
@@ -0,0 +1,66 @@
+/**
+ * Invoice boundaries in multi-invoice PDFs.
+ *
+ * Some suppliers send one PDF (a monthly statement, a batch export) holding
+ * several invoices. Each page's printed invoice number and invoice date are
+ * read from the text layer; a page whose number (or, without numbers, date)
+ * differs from the invoice before it starts a new invoice. Pages without either
+ * are continuation pages of the invoice before them.
+ */
+
+import type { PdfTextLayer } from './pdf-text';
+import { findInvoiceReference } from './text-parsers';
+
+export interface InvoiceSegment {
+  /** 1-based page numbers in the combined upload */
+  pages: number[];
+  invoiceNumber: string | null;
+  invoiceDate: string | null;
+  layer: PdfTextLayer;
+}
+
+// The part of a text layer on the given pages, renumbered from page 1
+function pageLayer(layer: PdfTextLayer, pages: number[]): PdfTextLayer {
+  const lines = layer.lines
+    .filter((line) => pages.includes(line.page))
+    .map((line) => ({ ...line, page: pages.indexOf(line.page) + 1 }));
+  return {
+    pageCount: pages.length,
+    lines,
+    text: lines.map((line) => line.text).join('\n'),
+    hasTextLayer: layer.hasTextLayer,
+  };
+}
+
+export function splitTextLayer(layer: PdfTextLayer): InvoiceSegment[] {
+  const segments: Array<Omit<InvoiceSegment, 'layer'>> = [];
+
+  for (let page = 1; page <= layer.pageCount; page++) {
+    const reference = findInvoiceReference(layer.lines.filter((line) => line.page === page));
+    const current = segments[segments.length - 1];
+
+    const newNumber = !!current && !!reference.invoiceNumber && !!current.invoiceNumber
+      && reference.invoiceNumber.toLowerCase() !== current.invoiceNumber.toLowerCase();
+    const sameNumber = !!current && !!reference.invoiceNumber && reference.invoiceNumber === current.invoiceNumber;
+    const newDate = !!current && !sameNumber && !!reference.invoiceDate && !!current.invoiceDate
+      && reference.invoiceDate !== current.invoiceDate;
+
+    if (!current || newNumber || newDate) {
+      segments.push({ pages: [page], ...reference });
+    } else {
+      current.pages.push(page);
+      current.invoiceNumber ??= reference.invoiceNumber;
+      current.invoiceDate ??= reference.invoiceDate;
+    }
+  }
+
+  return segments.map((segment) => ({ ...segment, layer: pageLayer(layer, segment.pages) }));
+}
+
+// "pages 1–2", "page 3"
+export function describePages(pages: number[]): string {
+  if (pages.length === 0) return '';
+  const first = pages[0];
+  const last = pages[pages.length - 1];
+  return first === last ? `page ${first}` : `pages ${first}–${last}`;
+}
@@ -0,0 +1,274 @@
+/**
+ * Supplier extraction templates learned from corrections.
+ *
+ * When a user fixes an extracted PO before saving, the differences between what
+ * was extracted and what was saved are kept per supplier. Repeated patterns
+ * (RRP read as the unit cost, SKU buried in the description...) become column
+ * rules applied to the next extraction for that supplier, and recent corrections
+ * are fed back to the model as supplier-specific hints.
+ */
+
+import type { ExtractedData } from './types';
+
+export type ColumnRuleKind =
+  | 'swap_unit_cost_and_rrp'
+  | 'unit_cost_from_line_total'
+  | 'sku_from_description'
+  | 'clear_quantity_sku';
+
+export type SkuPosition = 'prefix' | 'suffix' | 'brackets';
+
+export interface ColumnRule {
+  kind: ColumnRuleKind;
+  /** Where the SKU sits in the description (sku_from_description only) */
+  position?: SkuPosition;
+}
+
+export const COLUMN_RULE_KINDS: ColumnRuleKind[] = [
+  'swap_unit_cost_and_rrp',
+  'unit_cost_from_line_total',
+  'sku_from_description',
+  'clear_quantity_sku',
+];
+
+export const SKU_POSITIONS: SkuPosition[] = ['prefix', 'suffix', 'brackets'];
+
+export function isColumnRule(value: unknown): value is ColumnRule {
+  if (!value || typeof value !== 'object') return false;
+  const rule = value as Record<string, unknown>;
+  if (!COLUMN_RULE_KINDS.includes(rule.kind as ColumnRuleKind)) return false;
+  if (rule.kind === 'sku_from_description') return SKU_POSITIONS.includes(rule.position as SkuPosition);
+  return rule.position === undefined;
+}
+
+export function describeColumnRule(rule: ColumnRule): string {
+  switch (rule.kind) {
+    case 'swap_unit_cost_and_rrp':
+      return 'The unit cost and RRP columns are easily swapped: the unit cost is the LOWER of the two prices.';
+    case 'unit_cost_from_line_total':
+      return 'The unit cost must be derived as line total ÷ quantity; the printed price column is not the unit cost.';
+    case 'sku_from_description':
+      return `There is no separate SKU column: the supplier SKU is printed ${rule.position === 'brackets' ? 'in brackets within' : rule.position === 'prefix' ? 'at the start of' : 'at the end of'} the description.`;
+    case 'clear_quantity_sku':
+      return 'Numbers that repeat the quantity are not SKUs; leave supplierSku empty when there is no code.';
+  }
+}
+
+export interface ExtractionCorrection {
+  /** e.g. "purchaseOrder.invoiceNumber" or "poLines[].supplierSku" */
+  field: string;
+  extractedValue: string | null;
+  correctedValue: string | null;
+  /** Line description, for line-level corrections */
+  context: string | null;
+}
+
+type Line = ExtractedData['poLines'][number];
+
+const LINE_FIELDS = ['description', 'supplierSku', 'quantity', 'unitCostExVAT', 'lineTotalExVAT', 'rrp'] as const;
+const HEADER_FIELDS: Array<[keyof ExtractedData, string]> = [
+  ['supplier', 'name'],
+  ['supplier', 'vatNumber'],
+  ['purchaseOrder', 'invoiceNumber'],
+  ['purchaseOrder', 'invoiceDate'],
+  ['purchaseOrder', 'originalCurrency'],
+  ['purchaseOrder', 'paymentTerms'],
+];
+
+function toText(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  return text === '' ? null : text;
+}
+
+function num(value: unknown): number | null {
+  const n = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(n) ? n : null;
+}
+
+function close(a: number | null, b: number | null): boolean {
+  if (a === null || b === null) return false;
+  return Math.abs(a - b) <= Math.max(0.01, Math.abs(b) * 0.005);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  const na = num(a);
+  const nb = num(b);
+  if (typeof a === 'number' || typeof b === 'number') return (na === null && nb === null) || close(na, nb);
+  return (toText(a) ?? '').toLowerCase() === (toText(b) ?? '').toLowerCase();
+}
+
+// Lines are compared by position when the user kept the same number of lines, otherwise by description
+function pairLines(extracted: Line[], corrected: Line[]): Array<[Line, Line]> {
+  if (extracted.length === corrected.length) {
+    return extracted.map((line, i) => [line, corrected[i]]);
+  }
+  const byDescription = new Map(corrected.map((line) => [(line.description || '').trim().toLowerCase(), line]));
+  return extracted.flatMap((line) => {
+    const match = byDescription.get((line.description || '').trim().toLowerCase());
+    return match ? [[line, match] as [Line, Line]] : [];
+  });
+}
+
+export function diffExtraction(extracted: ExtractedData, corrected: ExtractedData): ExtractionCorrection[] {
+  const corrections: ExtractionCorrection[] = [];
+
+  for (const [section, key] of HEADER_FIELDS) {
+    const before = (extracted[section] as unknown as Record<string, unknown> | undefined)?.[key];
+    const after = (corrected[section] as unknown as Record<string, unknown> | undefined)?.[key];
+    if (!sameValue(before, after)) {
+      corrections.push({ field: `${section}.${key}`, extractedValue: toText(before), correctedValue: toText(after), context: null });
+    }
+  }
+
+  for (const [before, after] of pairLines(extracted.poLines || [], corrected.poLines || [])) {
+    for (const key of LINE_FIELDS) {
+      if (!sameValue(before[key], after[key])) {
+        corrections.push({
+          field: `poLines[].${key}`,
+          extractedValue: toText(before[key]),
+          correctedValue: toText(after[key]),
+          context: toText(after.description),
+        });
+      }
+    }
+  }
+
+  return corrections;
+}
+
+function skuPosition(description: string, sku: string): SkuPosition | null {
+  const text = description.trim();
+  if (text.includes(`(${sku})`) || text.includes(`[${sku}]`)) return 'brackets';
+  if (text.startsWith(`${sku} `)) return 'prefix';
+  if (text.endsWith(` ${sku}`)) return 'suffix';
+  return null;
+}
+
+/**
+ * Rules that explain at least half of the corrected lines in this save. One
+ * save is enough to learn a rule; they can be removed through the template API.
+ */
+export function inferColumnRules(extracted: ExtractedData, corrected: ExtractedData): ColumnRule[] {
+  const pairs = pairLines(extracted.poLines || [], corrected.poLines || []);
+  if (pairs.length === 0) return [];
+
+  const counts = new Map<string, { rule: ColumnRule; count: number }>();
+  const vote = (rule: ColumnRule) => {
+    const key = `${rule.kind}:${rule.position ?? ''}`;
+    const entry = counts.get(key) ?? { rule, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  };
+
+  for (const [before, after] of pairs) {
+    const beforeUnit = num(before.unitCostExVAT);
+    const afterUnit = num(after.unitCostExVAT);
+    const quantity = num(after.quantity);
+
+    if (!close(beforeUnit, afterUnit)) {
+      if (close(beforeUnit, num(after.rrp)) && close(num(before.rrp), afterUnit)) {
+        vote({ kind: 'swap_unit_cost_and_rrp' });
+      } else if (quantity && quantity > 0 && close(num(before.lineTotalExVAT) !== null ? num(before.lineTotalExVAT)! / quantity : null, afterUnit)) {
+        vote({ kind: 'unit_cost_from_line_total' });
+      }
+    }
+
+    const beforeSku = toText(before.supplierSku);
+    const afterSku = toText(after.supplierSku);
+    if (afterSku && beforeSku !== afterSku) {
+      const position = skuPosition(before.description || '', afterSku);
+      if (position) vote({ kind: 'sku_from_description', position });
+    } else if (!afterSku && beforeSku && /^\d+$/.test(beforeSku) && Number(beforeSku) === num(before.quantity)) {
+      vote({ kind: 'clear_quantity_sku' });
+    }
+  }
+
+  const threshold = Math.max(1, Math.ceil(pairs.length / 2));
+  return [...counts.values()].filter((entry) => entry.count >= threshold).map((entry) => entry.rule);
+}
+
+export function mergeColumnRules(existing: ColumnRule[], learned: ColumnRule[]): ColumnRule[] {
+  const merged = [...existing];
+  for (const rule of learned) {
+    if (!merged.some((r) => r.kind === rule.kind && r.position === rule.position)) merged.push(rule);
+  }
+  return merged;
+}
+
+function skuFromDescription(description: string, position: SkuPosition): string | null {
+  const text = description.trim();
+  const match = position === 'brackets'
+    ? text.match(/[([]([A-Za-z0-9][\w./-]*)[)\]]/)
+    : position === 'prefix'
+      ? text.match(/^([A-Za-z0-9][\w./-]*\d[\w./-]*)\s/)
+      : text.match(/\s([A-Za-z0-9][\w./-]*\d[\w./-]*)$/);
+  return match ? match[1] : null;
+}
+
+// Deterministic fixes for the mistakes this supplier's documents are known to cause
+export function applyColumnRules(data: ExtractedData, rules: ColumnRule[]): { data: ExtractedData; applied: ColumnRuleKind[] } {
+  const applied = new Set<ColumnRuleKind>();
+
+  const poLines = (data.poLines || []).map((original) => {
+    const line = { ...original };
+    for (const rule of rules) {
+      if (rule.kind === 'swap_unit_cost_and_rrp') {
+        const unit = num(line.unitCostExVAT);
+        const rrp = num(line.rrp);
+        if (unit !== null && rrp !== null && rrp < unit) {
+          line.unitCostExVAT = rrp;
+          line.rrp = unit;
+          applied.add(rule.kind);
+        }
+      } else if (rule.kind === 'unit_cost_from_line_total') {
+        const quantity = num(line.quantity);
+        const lineTotal = num(line.lineTotalExVAT);
+        if (quantity && quantity > 0 && lineTotal !== null && !close(num(line.unitCostExVAT), lineTotal / quantity)) {
+          line.unitCostExVAT = lineTotal / quantity;
+          applied.add(rule.kind);
+        }
+      } else if (rule.kind === 'sku_from_description' && rule.position) {
+        const sku = skuFromDescription(line.description || '', rule.position);
+        if (sku && sku !== toText(line.supplierSku)) {
+          line.supplierSku = sku;
+          applied.add(rule.kind);
+        }
+      } else if (rule.kind === 'clear_quantity_sku') {
+        const sku = toText(line.supplierSku);
+        if (sku && /^\d+$/.test(sku) && Number(sku) === num(line.quantity)) {
+          line.supplierSku = '';
+          applied.add(rule.kind);
+        }
+      }
+    }
+    return line;
+  });
+
+  return { data: { ...data, poLines }, applied: [...applied] };
+}
+
+// Prompt section with what we know about this supplier's documents
+export function buildSupplierHints(
+  supplierName: string,
+  template: { columnRules: ColumnRule[]; notes: string | null },
+  corrections: ExtractionCorrection[],
+): string {
+  const lines: string[] = [];
+  if (template.notes) lines.push(...template.notes.split('\n').map((note) => note.trim()).filter(Boolean));
+  lines.push(...template.columnRules.map(describeColumnRule));
+
+  const examples = corrections.slice(0, 10).map((c) => {
+    const where = c.context ? `line "${c.context}", ` : '';
+    return `${where}${c.field.replace('poLines[].', '')}: extracted ${c.extractedValue === null ? 'nothing' : `"${c.extractedValue}"`}, correct value ${c.correctedValue === null ? 'empty' : `"${c.correctedValue}"`}`;
+  });
+
+  if (lines.length === 0 && examples.length === 0) return '';
+
+  return `
+
+**SUPPLIER-SPECIFIC NOTES for invoices from ${supplierName} (learned from previous corrections):**
+${lines.map((line) => `- ${line}`).join('\n')}${examples.length > 0 ? `
+Past mistakes on this supplier's invoices, do not repeat them:
+${examples.map((example) => `- ${example}`).join('\n')}` : ''}`;
+}
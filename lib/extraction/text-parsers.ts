@@ -0,0 +1,425 @@
+/**
+ * Invoice parsing from a PDF text layer.
+ *
+ * Supplier layouts are tried first (matched on the supplier's name or other
+ * identifiers appearing in the document), then a generic parser that finds the
+ * line-item table by its header row. A parse only counts when the arithmetic
+ * self-check passes cleanly; anything less is left to model extraction, so a
+ * wrong local parse never costs more than the model call it was meant to save.
+ */
+
+import type { PdfTextLayer, TextCell, TextLine } from './pdf-text';
+import type { ExtractedData } from './types';
+import { validateExtractedData } from './validate';
+
+export type TextColumn = 'sku' | 'description' | 'quantity' | 'unitCost' | 'lineTotal' | 'rrp';
+
+export interface SupplierTextLayout {
+  id: string;
+  /** Name to put on the PO when the layout matches */
+  supplierName?: string;
+  /** The layout applies when any of these appear in the document text (case-insensitive) */
+  identifiers: string[];
+  /** Header labels per column (exact cell text, case-insensitive); unlisted columns use the generic labels */
+  headers?: Partial<Record<TextColumn, string[]>>;
+  currency?: string;
+}
+
+export interface KnownSupplier {
+  name: string;
+  email?: string | null;
+  /** Other names the supplier is printed under (learned from corrections) */
+  aliases?: string[];
+}
+
+export interface TextParseResult {
+  /** Layout id, or "generic" */
+  parser: string;
+  data: ExtractedData;
+}
+
+// Layouts for suppliers whose invoices defeat the generic header matching
+export const SUPPLIER_TEXT_LAYOUTS: SupplierTextLayout[] = [];
+
+const GENERIC_HEADERS: Record<TextColumn, RegExp> = {
+  sku: /^(sku|code|item code|product code|stock code|part|part no\.?|part number|part #|ref\.?|reference|article|article no\.?|item #|item no\.?|cat\.? no\.?)$/,
+  description: /^(description|item|items|product|products|details|item description|product description|goods|title)$/,
+  quantity: /^(qty\.?|quantity|units|qty ordered|qty shipped|qty supplied|qty invoiced|no\.? of units)$/,
+  unitCost: /^(unit price|price|unit cost|cost|rate|each|price each|net price|unit net|trade price|trade)$/,
+  lineTotal: /^(total|amount|line total|net|net amount|value|net value|goods value|ext\.? price|extended price|net total|line value)$/,
+  rrp: /^(rrp|srp|msrp|retail|retail price|rec\.? retail|ssp)$/,
+};
+
+const COLUMN_ORDER: TextColumn[] = ['rrp', 'sku', 'quantity', 'unitCost', 'lineTotal', 'description'];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function normalizeHeader(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\(.*?\)/g, '')
+    .replace(/[£$€:]/g, '')
+    .replace(/\b(ex|excl?|exc)\.?\s*vat\b/g, '')
+    .replace(/\b(gbp|eur|usd)\b/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// "£1,234.56", "1.234,56 €", "(12.00)" and "12.00-" all parse; anything with letters left over does not
+export function parseAmount(text: string | undefined): number | null {
+  if (!text) return null;
+  let value = text.replace(/[£$€]|\b(GBP|EUR|USD)\b/gi, '').replace(/\s+/g, '');
+  let negative = false;
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  if (value.endsWith('-')) {
+    negative = true;
+    value = value.slice(0, -1);
+  }
+  if (value.startsWith('-')) {
+    negative = !negative;
+    value = value.slice(1);
+  }
+
+  if (/^\d{1,3}(\.\d{3})+(,\d+)?$/.test(value) || /^\d+,\d{1,2}$/.test(value)) {
+    value = value.replace(/\./g, '').replace(',', '.');
+  } else {
+    value = value.replace(/,/g, '');
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(value)) return null;
+  const amount = parseFloat(value);
+  return negative ? -amount : amount;
+}
+
+function parseQuantity(text: string | undefined): number | null {
+  const match = text?.trim().match(/^(-?[\d.,]+)\s*(x|ea|each|pcs?|units?|boxes?|packs?)?$/i);
+  return match ? parseAmount(match[1]) : null;
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// UK invoices: numeric dates are day first
+export function parseDate(text: string): string | null {
+  let match = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (match) return isoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})\b/);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    return isoDate(year, Number(match[2]), Number(match[1]));
+  }
+
+  match = text.match(/\b(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3})[a-z]*\.?,?\s+(\d{4})\b/i);
+  if (match && MONTHS.includes(match[2].toLowerCase())) {
+    return isoDate(Number(match[3]), MONTHS.indexOf(match[2].toLowerCase()) + 1, Number(match[1]));
+  }
+
+  match = text.match(/\b([a-z]{3})[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/i);
+  if (match && MONTHS.includes(match[1].toLowerCase())) {
+    return isoDate(Number(match[3]), MONTHS.indexOf(match[1].toLowerCase()) + 1, Number(match[2]));
+  }
+
+  return null;
+}
+
+// --- Header fields ---
+
+function findInvoiceNumber(lines: TextLine[]): string {
+  for (const line of lines) {
+    const match = line.text.match(/\binvoice\s*(?:no\.?|number|num\.?|#|ref(?:erence)?)?\s*[:#.]?\s+([A-Z0-9][A-Z0-9\-/]{2,})\b/i);
+    if (match && !/^date$/i.test(match[1]) && /\d/.test(match[1])) return match[1];
+  }
+  return '';
+}
+
+function findLabelledInvoiceDate(lines: TextLine[]): string {
+  for (const line of lines) {
+    if (/\b(invoice|tax point|document)?\s*date\b/i.test(line.text) && !/\bdue\b/i.test(line.text)) {
+      const date = parseDate(line.text);
+      if (date) return date;
+    }
+  }
+  return '';
+}
+
+function findInvoiceDate(lines: TextLine[]): string {
+  const labelled = findLabelledInvoiceDate(lines);
+  if (labelled) return labelled;
+  for (const line of lines) {
+    const date = parseDate(line.text);
+    if (date) return date;
+  }
+  return '';
+}
+
+// Invoice number and labelled date printed on a page, used to tell invoices in one PDF apart
+export function findInvoiceReference(lines: TextLine[]): { invoiceNumber: string | null; invoiceDate: string | null } {
+  return {
+    invoiceNumber: findInvoiceNumber(lines) || null,
+    invoiceDate: findLabelledInvoiceDate(lines) || null,
+  };
+}
+
+function findCurrency(text: string): string {
+  if (/€|\bEUR\b/.test(text)) return 'EUR';
+  if (/\bUSD\b|US\$/.test(text)) return 'USD';
+  if (/£|\bGBP\b/.test(text)) return 'GBP';
+  if (/\$/.test(text)) return 'USD';
+  return 'GBP';
+}
+
+function findVatNumber(text: string): string | undefined {
+  const match = text.match(/\bVAT\s*(?:reg(?:istration)?\.?\s*)?(?:no\.?|number|#)?\s*[:.]?\s*((?:GB)?\s?\d{3}\s?\d{4}\s?\d{2}(?:\s?\d{3})?|[A-Z]{2}[0-9A-Z]{8,12})\b/i);
+  return match ? match[1].replace(/\s+/g, '') : undefined;
+}
+
+function findPaymentTerms(lines: TextLine[]): string | undefined {
+  for (const line of lines) {
+    const match = line.text.match(/\b(?:payment\s+)?terms\s*[:.]?\s+(.+)$/i);
+    if (match) return match[1].trim().slice(0, 100);
+  }
+  return undefined;
+}
+
+// The known supplier whose name, alias or email appears in the document text
+export function findKnownSupplier<T extends KnownSupplier>(text: string, knownSuppliers: T[]): T | null {
+  const lowerText = text.toLowerCase();
+  const mentions = (name: string) => name.trim().length > 2 && lowerText.includes(name.trim().toLowerCase());
+  // Longest name first so "Acme Wholesale" beats "Acme"
+  return [...knownSuppliers]
+    .sort((a, b) => b.name.length - a.name.length)
+    .find((s) => mentions(s.name)
+      || (s.aliases || []).some(mentions)
+      || (s.email && lowerText.includes(s.email.toLowerCase()))) ?? null;
+}
+
+function findSupplierName(lines: TextLine[], knownSuppliers: KnownSupplier[], text: string): string {
+  const known = findKnownSupplier(text, knownSuppliers);
+  if (known) return known.name;
+
+  // Otherwise the first heading on page 1 that is not a document title
+  const heading = lines.find((line) => line.page === 1 && !/invoice|tax|page|statement|delivery|date/i.test(line.text) && /[a-z]{3}/i.test(line.text));
+  return heading ? heading.cells[0].text : '';
+}
+
+// --- Line items ---
+
+interface ColumnAnchor {
+  column: TextColumn;
+  x: number;
+  right: number;
+}
+
+function matchHeader(cell: TextCell, layout: SupplierTextLayout | null, used: Set<TextColumn>): TextColumn | null {
+  const normalized = normalizeHeader(cell.text);
+  for (const column of COLUMN_ORDER) {
+    if (used.has(column)) continue;
+    const custom = layout?.headers?.[column];
+    if (custom ? custom.some((label) => normalizeHeader(label) === normalized) : GENERIC_HEADERS[column].test(normalized)) {
+      return column;
+    }
+  }
+  return null;
+}
+
+function detectHeader(line: TextLine, layout: SupplierTextLayout | null): ColumnAnchor[] | null {
+  const used = new Set<TextColumn>();
+  const anchors: ColumnAnchor[] = [];
+  for (const cell of line.cells) {
+    const column = matchHeader(cell, layout, used);
+    if (column) {
+      used.add(column);
+      anchors.push({ column, x: cell.x, right: cell.right });
+    }
+  }
+  const complete = used.has('description') && used.has('quantity') && (used.has('unitCost') || used.has('lineTotal'));
+  return complete ? anchors.sort((a, b) => a.x - b.x) : null;
+}
+
+// Each cell belongs to the column whose span (widened to halfway to its neighbours) holds the cell's centre
+function assignCells(cells: TextCell[], anchors: ColumnAnchor[]): Partial<Record<TextColumn, string>> {
+  const values: Partial<Record<TextColumn, string>> = {};
+  for (const cell of cells) {
+    const centre = (cell.x + cell.right) / 2;
+    const index = anchors.findIndex((anchor, i) => {
+      const lo = i === 0 ? -Infinity : (anchors[i - 1].right + anchor.x) / 2;
+      const hi = i === anchors.length - 1 ? Infinity : (anchor.right + anchors[i + 1].x) / 2;
+      return centre >= lo && centre < hi;
+    });
+    if (index === -1) continue;
+    const column = anchors[index].column;
+    values[column] = values[column] ? `${values[column]} ${cell.text}` : cell.text;
+  }
+  return values;
+}
+
+const TOTALS_LABEL = /\b(sub\s*-?\s*total|total|vat|carriage|delivery|shipping|freight|postage|amount due|balance)\b/i;
+// Rows further apart than this have left the table (footer, bank details)
+const MAX_ROW_GAP = 40;
+
+function parseLineItems(lines: TextLine[], layout: SupplierTextLayout | null): { poLines: ExtractedData['poLines']; lastIndex: number } | null {
+  const poLines: ExtractedData['poLines'] = [];
+  let anchors: ColumnAnchor[] | null = null;
+  let lastRow: TextLine | null = null;
+  let lastIndex = -1;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // The header is usually repeated on every page
+    const header = detectHeader(line, layout);
+    if (header) {
+      anchors = header;
+      lastRow = line;
+      continue;
+    }
+    if (!anchors || !lastRow) continue;
+
+    if (line.page !== lastRow.page || lastRow.y - line.y > MAX_ROW_GAP) {
+      anchors = null;
+      continue;
+    }
+
+    const values = assignCells(line.cells, anchors);
+    const quantity = parseQuantity(values.quantity);
+    const unitCost = parseAmount(values.unitCost);
+    const lineTotal = parseAmount(values.lineTotal);
+
+    if (quantity !== null && quantity > 0 && (unitCost !== null || lineTotal !== null) && values.description) {
+      poLines.push({
+        description: values.description,
+        supplierSku: values.sku,
+        quantity,
+        unitCostExVAT: unitCost ?? (lineTotal! / quantity),
+        lineTotalExVAT: lineTotal ?? Math.round(quantity * unitCost! * 100) / 100,
+        rrp: parseAmount(values.rrp),
+      });
+      lastRow = line;
+      lastIndex = i;
+    } else if (TOTALS_LABEL.test(line.text)) {
+      anchors = null;
+    } else if (poLines.length > 0 && values.description && !values.quantity && !values.unitCost && !values.lineTotal) {
+      // Descriptions that wrap onto a second row
+      poLines[poLines.length - 1].description += ` ${values.description}`;
+      lastRow = line;
+      lastIndex = i;
+    }
+  }
+
+  return poLines.length > 0 ? { poLines, lastIndex } : null;
+}
+
+// --- Totals ---
+
+function lastAmount(line: TextLine): number | null {
+  for (let i = line.cells.length - 1; i >= 0; i--) {
+    const amount = parseAmount(line.cells[i].text);
+    if (amount !== null) return amount;
+  }
+  return null;
+}
+
+// Null when the document prints neither a subtotal nor a total: nothing to check the lines against
+function parseTotals(lines: TextLine[]): ExtractedData['totals'] | null {
+  let subtotal: number | null = null;
+  let vat: number | null = null;
+  let total: number | null = null;
+  let extras = 0;
+
+  for (const line of lines) {
+    const label = line.cells.filter((cell) => parseAmount(cell.text) === null).map((cell) => cell.text).join(' ').toLowerCase();
+    const amount = lastAmount(line);
+    if (!label || amount === null) continue;
+
+    if (/sub\s*-?\s*total|net total|total net|total ex|goods total|total goods|nett? value/.test(label)) {
+      subtotal ??= amount;
+    } else if (/\b(carriage|delivery|shipping|freight|postage|handling)\b/.test(label)) {
+      extras += amount;
+    } else if (/\b(v\.?a\.?t|tax)\b/.test(label) && !/\b(inc|incl|including)\b/.test(label) && !/\btotal\b.*\b(due|payable)\b/.test(label)) {
+      vat ??= amount;
+    } else if (/\b(total|amount due|balance due|amount payable)\b/.test(label)) {
+      total ??= amount;
+    }
+  }
+
+  if (subtotal === null && total === null) return null;
+
+  const resolvedSubtotal = subtotal ?? total! - (vat ?? 0) - extras;
+  const resolvedVat = vat ?? (total !== null ? total - resolvedSubtotal - extras : 0);
+
+  return {
+    subtotal: Math.round(resolvedSubtotal * 100) / 100,
+    extras: Math.round(extras * 100) / 100,
+    vat: Math.round(resolvedVat * 100) / 100,
+    total: Math.round((total ?? resolvedSubtotal + extras + resolvedVat) * 100) / 100,
+  };
+}
+
+// --- Entry point ---
+
+function parseWithLayout(layer: PdfTextLayer, layout: SupplierTextLayout | null, knownSuppliers: KnownSupplier[]): ExtractedData | null {
+  const items = parseLineItems(layer.lines, layout);
+  if (!items) return null;
+
+  const totals = parseTotals(layer.lines.slice(items.lastIndex + 1));
+  if (!totals) return null;
+
+  const email = layer.text.match(/[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i)?.[0];
+  const phone = layer.text.match(/\b(?:tel|phone|telephone|t)\s*[:.]?\s*(\+?[\d][\d\s()-]{7,}\d)/i)?.[1]?.trim();
+
+  return {
+    supplier: {
+      name: layout?.supplierName || findSupplierName(layer.lines, knownSuppliers, layer.text),
+      email,
+      phone,
+      vatNumber: findVatNumber(layer.text),
+    },
+    purchaseOrder: {
+      invoiceNumber: findInvoiceNumber(layer.lines),
+      invoiceDate: findInvoiceDate(layer.lines),
+      originalCurrency: layout?.currency || findCurrency(layer.text),
+      paymentTerms: findPaymentTerms(layer.lines),
+    },
+    poLines: items.poLines,
+    totals,
+  };
+}
+
+/**
+ * Try the matching supplier layouts, then the generic parser. Returns null when
+ * nothing produces line items whose arithmetic checks out.
+ */
+export function parseInvoiceText(
+  layer: PdfTextLayer,
+  options: { knownSuppliers?: KnownSupplier[]; layouts?: SupplierTextLayout[] } = {},
+): TextParseResult | null {
+  if (!layer.hasTextLayer) return null;
+
+  const knownSuppliers = options.knownSuppliers || [];
+  const lowerText = layer.text.toLowerCase();
+  const layouts = (options.layouts ?? SUPPLIER_TEXT_LAYOUTS).filter((layout) =>
+    layout.identifiers.some((identifier) => identifier.trim() && lowerText.includes(identifier.trim().toLowerCase()))
+  );
+
+  const candidates: Array<{ parser: string; layout: SupplierTextLayout | null }> = [
+    ...layouts.map((layout) => ({ parser: layout.id, layout })),
+    { parser: 'generic', layout: null },
+  ];
+
+  for (const { parser, layout } of candidates) {
+    const data = parseWithLayout(layer, layout, knownSuppliers);
+    if (!data) continue;
+    const validation = validateExtractedData(data);
+    if (validation.warnings.length === 0) {
+      return { parser, data };
+    }
+  }
+
+  return null;
+}
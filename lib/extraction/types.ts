@@ -0,0 +1,79 @@
+import type { ExchangeRateSource } from '@/lib/fx/convert';
+
+export type ExtractionProviderName = 'gemini' | 'openai' | 'fake';
+
+// What the caller wants back; the fake provider picks its fixture by task
+export type ExtractionTask = 'invoice' | 'invoice-statement' | 'column-mapping';
+
+export interface ExtractionFile {
+  /** Base64-encoded file contents */
+  data: string;
+  mimeType: string;
+  name?: string;
+}
+
+export interface ExtractionRequest {
+  task: ExtractionTask;
+  prompt: string;
+  files?: ExtractionFile[];
+}
+
+export interface ExtractionProvider {
+  name: ExtractionProviderName;
+  /** Send the prompt (and any files) to the model and return its raw text reply */
+  generate(request: ExtractionRequest, signal: AbortSignal): Promise<string>;
+}
+
+// One rate band of the VAT summary on an invoice
+export interface VatBreakdownEntry {
+  categoryCode: string | null;
+  ratePercent: number | null;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+// Invoice data as extracted from a supplier document, before it is saved as a PO
+export interface ExtractedData {
+  supplier: {
+    name: string;
+    address?: string;
+    email?: string;
+    phone?: string;
+    vatNumber?: string;
+  };
+  purchaseOrder: {
+    invoiceNumber: string;
+    invoiceDate: string;
+    originalCurrency: string;
+    paymentTerms?: string;
+    // Set by the server: rate applied to convert originalCurrency to GBP
+    exchangeRate?: number | null;
+    exchangeRateDate?: string | null;
+    exchangeRateSource?: ExchangeRateSource | null;
+  };
+  poLines: Array<{
+    description: string;
+    supplierSku?: string;
+    quantity: number;
+    unitCostExVAT: number;
+    lineTotalExVAT: number;
+    rrp?: number | null;
+    originalUnitCost?: number | null;
+    originalLineTotal?: number | null;
+  }>;
+  totals: {
+    subtotal: number;
+    extras: number;
+    vat: number;
+    total: number;
+  };
+  // Totals as printed on the invoice, before conversion to GBP
+  originalTotals?: {
+    subtotal: number;
+    extras: number;
+    vat: number;
+    total: number;
+  };
+  // Only structured e-invoices carry a per-rate VAT summary (GBP once converted)
+  vatBreakdown?: VatBreakdownEntry[];
+}
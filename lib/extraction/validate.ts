@@ -0,0 +1,154 @@
+/**
+ * Post-extraction self-check.
+ *
+ * The prompt asks the model to make the numbers add up, but nothing guarantees
+ * it did. This re-does the arithmetic on the extracted invoice (GBP amounts,
+ * after conversion) and flags the fields a person should look at before saving,
+ * with an overall confidence score between 0 and 1.
+ */
+
+import type { ExtractedData } from './types';
+
+export type ExtractionWarningCode =
+  | 'line_total_mismatch'
+  | 'missing_price'
+  | 'invalid_quantity'
+  | 'implausible_sku'
+  | 'subtotal_mismatch'
+  | 'total_mismatch'
+  | 'missing_totals';
+
+export type ExtractionWarningSeverity = 'error' | 'warning';
+
+export interface ExtractionWarning {
+  code: ExtractionWarningCode;
+  severity: ExtractionWarningSeverity;
+  /** Path of the suspect field, e.g. "poLines[2].lineTotalExVAT" or "totals.subtotal" */
+  field: string;
+  /** Set for line-level warnings so the UI can highlight the row */
+  lineIndex?: number;
+  message: string;
+}
+
+export interface ExtractionValidation {
+  /** 1 = every check passed; each warning lowers it */
+  confidence: number;
+  warnings: ExtractionWarning[];
+}
+
+// How much each finding costs in confidence
+const SEVERITY_PENALTY: Record<ExtractionWarningSeverity, number> = {
+  error: 0.25,
+  warning: 0.1,
+};
+
+function num(value: unknown): number {
+  const n = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(n) ? n : 0;
+}
+
+// Rounding on invoices is per line, so allow a penny or a small percentage, whichever is larger
+function withinTolerance(actual: number, expected: number, minAbsolute: number, percent: number): boolean {
+  return Math.abs(actual - expected) <= Math.max(minAbsolute, Math.abs(expected) * percent / 100);
+}
+
+const money = (value: number) => `£${value.toFixed(2)}`;
+
+export function validateExtractedData(data: ExtractedData): ExtractionValidation {
+  const warnings: ExtractionWarning[] = [];
+  const lines = data.poLines || [];
+
+  lines.forEach((line, index) => {
+    const quantity = num(line.quantity);
+    const unitCost = num(line.unitCostExVAT);
+    const lineTotal = num(line.lineTotalExVAT);
+    const label = `Line ${index + 1}`;
+
+    if (quantity <= 0) {
+      warnings.push({
+        code: 'invalid_quantity',
+        severity: 'error',
+        field: `poLines[${index}].quantity`,
+        lineIndex: index,
+        message: `${label}: quantity is missing or not positive`,
+      });
+    }
+
+    if (unitCost <= 0 && lineTotal <= 0) {
+      warnings.push({
+        code: 'missing_price',
+        severity: 'error',
+        field: `poLines[${index}].unitCostExVAT`,
+        lineIndex: index,
+        message: `${label}: no unit cost or line total was found`,
+      });
+    } else if (quantity > 0 && unitCost > 0 && lineTotal > 0
+      && !withinTolerance(quantity * unitCost, lineTotal, 0.02, 0.5)) {
+      warnings.push({
+        code: 'line_total_mismatch',
+        severity: 'warning',
+        field: `poLines[${index}].lineTotalExVAT`,
+        lineIndex: index,
+        message: `${label}: ${quantity} × ${money(unitCost)} = ${money(quantity * unitCost)}, but the line total is ${money(lineTotal)}`,
+      });
+    }
+
+    // A numeric "SKU" equal to the quantity is almost always the quantity column read twice
+    const sku = (line.supplierSku || '').trim();
+    if (sku && /^\d+(\.\d+)?$/.test(sku) && Number(sku) === quantity) {
+      warnings.push({
+        code: 'implausible_sku',
+        severity: 'warning',
+        field: `poLines[${index}].supplierSku`,
+        lineIndex: index,
+        message: `${label}: SKU "${sku}" looks like the quantity`,
+      });
+    }
+  });
+
+  const subtotal = num(data.totals?.subtotal);
+  const extras = num(data.totals?.extras);
+  const vat = num(data.totals?.vat);
+  const total = num(data.totals?.total);
+
+  if (subtotal <= 0 && total <= 0) {
+    if (lines.length > 0) {
+      warnings.push({
+        code: 'missing_totals',
+        severity: 'warning',
+        field: 'totals.total',
+        message: 'No subtotal or total was found, so the line items could not be checked against the invoice',
+      });
+    }
+  } else {
+    if (subtotal > 0 && lines.length > 0) {
+      const lineSum = lines.reduce((sum, line) => {
+        const lineTotal = num(line.lineTotalExVAT);
+        return sum + (lineTotal > 0 ? lineTotal : num(line.quantity) * num(line.unitCostExVAT));
+      }, 0);
+      if (!withinTolerance(lineSum, subtotal, 0.05, 1)) {
+        warnings.push({
+          code: 'subtotal_mismatch',
+          severity: 'warning',
+          field: 'totals.subtotal',
+          message: `Line totals add up to ${money(lineSum)}, but the subtotal is ${money(subtotal)} – a line may be missing or misread`,
+        });
+      }
+    }
+
+    if (subtotal > 0 && total > 0 && !withinTolerance(subtotal + extras + vat, total, 0.05, 1)) {
+      warnings.push({
+        code: 'total_mismatch',
+        severity: 'warning',
+        field: 'totals.total',
+        message: `Subtotal + extras + VAT = ${money(subtotal + extras + vat)}, but the total is ${money(total)}`,
+      });
+    }
+  }
+
+  const penalty = warnings.reduce((sum, warning) => sum + SEVERITY_PENALTY[warning.severity], 0);
+  return {
+    confidence: Number(Math.max(0, 1 - penalty).toFixed(2)),
+    warnings,
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Minimal XML reader for structured e-invoices.
+ *
+ * Builds a plain element tree with namespace prefixes dropped (UBL and CII
+ * documents use different prefixes for the same namespaces depending on the
+ * software that wrote them). Enough for well-formed invoice documents; DTDs are
+ * rejected outright rather than expanded.
+ */
+
+export interface XmlElement {
+  /** Local name, without namespace prefix */
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const localName = (qualified: string) => qualified.slice(qualified.indexOf(':') + 1);
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    if (entity === 'lt') return '<';
+    if (entity === 'gt') return '>';
+    if (entity === 'amp') return '&';
+    if (entity === 'quot') return '"';
+    if (entity === 'apos') return "'";
+    const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    if (match[1].startsWith('xmlns')) continue;
+    attributes[localName(match[1])] = decodeEntities(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+}
+
+// Index of the '>' that closes the tag starting at `start`, skipping quoted attribute values
+function findTagEnd(xml: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start; i < xml.length; i++) {
+    const char = xml[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+export function parseXml(xml: string): XmlElement {
+  const source = xml.replace(/^\uFEFF/, '');
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  let i = 0;
+
+  while (i < source.length) {
+    const lt = source.indexOf('<', i);
+    const current = stack[stack.length - 1];
+    if (lt === -1) {
+      current.text += decodeEntities(source.slice(i));
+      break;
+    }
+    if (lt > i) current.text += decodeEntities(source.slice(i, lt));
+
+    if (source.startsWith('<?', lt)) {
+      const end = source.indexOf('?>', lt);
+      if (end === -1) throw new Error('Unterminated processing instruction');
+      i = end + 2;
+    } else if (source.startsWith('<!--', lt)) {
+      const end = source.indexOf('-->', lt);
+      if (end === -1) throw new Error('Unterminated comment');
+      i = end + 3;
+    } else if (source.startsWith('<![CDATA[', lt)) {
+      const end = source.indexOf(']]>', lt);
+      if (end === -1) throw new Error('Unterminated CDATA section');
+      current.text += source.slice(lt + 9, end);
+      i = end + 3;
+    } else if (source.startsWith('<!', lt)) {
+      // SECURITY: No DTDs – entity expansion is a classic XML attack vector
+      throw new Error('XML document type declarations are not supported');
+    } else if (source[lt + 1] === '/') {
+      const end = source.indexOf('>', lt);
+      if (end === -1) throw new Error('Unterminated closing tag');
+      const name = localName(source.slice(lt + 2, end).trim());
+      if (stack.length === 1 || current.name !== name) {
+        throw new Error(`Unexpected closing tag </${name}>`);
+      }
+      stack.pop();
+      i = end + 1;
+    } else {
+      const end = findTagEnd(source, lt + 1);
+      if (end === -1) throw new Error('Unterminated tag');
+      const selfClosing = source[end - 1] === '/';
+      const body = source.slice(lt + 1, selfClosing ? end - 1 : end);
+      const nameEnd = body.search(/\s/);
+      const qualified = nameEnd === -1 ? body : body.slice(0, nameEnd);
+      const element: XmlElement = {
+        name: localName(qualified),
+        attributes: nameEnd === -1 ? {} : parseAttributes(body.slice(nameEnd)),
+        children: [],
+        text: '',
+      };
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+      i = end + 1;
+    }
+  }
+
+  if (stack.length !== 1) throw new Error(`Unclosed element <${stack[stack.length - 1].name}>`);
+  const documentElement = root.children[0];
+  if (!documentElement) throw new Error('XML document has no root element');
+  return documentElement;
+}
+
+// First element found by following a path of local names, e.g. find(invoice, 'AccountingSupplierParty', 'Party')
+export function find(element: XmlElement | undefined, ...path: string[]): XmlElement | undefined {
+  let current = element;
+  for (const name of path) {
+    current = current?.children.find((child) => child.name === name);
+  }
+  return current;
+}
+
+export function findAll(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element ? element.children.filter((child) => child.name === name) : [];
+}
+
+// Trimmed text at the path, or undefined when the element is missing or empty
+export function textAt(element: XmlElement | undefined, ...path: string[]): string | undefined {
+  const text = find(element, ...path)?.text.trim();
+  return text ? text : undefined;
+}
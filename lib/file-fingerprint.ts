@@ -0,0 +1,76 @@
+/**
+ * Fingerprints of uploaded invoice files.
+ *
+ * A SHA-256 of the bytes catches the same file being uploaded again. Photos of
+ * paper invoices are never byte-identical, so images also get a difference hash
+ * (dHash): the image is shrunk to 9×8 greyscale and each bit records whether a
+ * pixel is brighter than its right-hand neighbour. A re-photographed page lands
+ * within a few bits of the original.
+ */
+
+import { createHash } from 'crypto';
+
+export interface FileFingerprint {
+  sha256: string;
+  /** 64-bit difference hash as 16 hex characters (images only) */
+  phash: string | null;
+}
+
+export interface FingerprintedFile {
+  name: string;
+  size: number;
+  fingerprint: FileFingerprint;
+}
+
+// Hashes this many bits apart (of 64) or fewer are treated as the same page
+export const NEAR_DUPLICATE_DISTANCE = 6;
+
+async function differenceHash(data: Buffer): Promise<string | null> {
+  try {
+    const sharp = (await import('sharp')).default;
+    const pixels = await sharp(data)
+      .rotate() // honour EXIF orientation so a phone photo matches its scan
+      .greyscale()
+      .resize(9, 8, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+
+    let hash = BigInt(0);
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const bit = pixels[row * 9 + col] > pixels[row * 9 + col + 1] ? BigInt(1) : BigInt(0);
+        hash = (hash << BigInt(1)) | bit;
+      }
+    }
+    return hash.toString(16).padStart(16, '0');
+  } catch (error) {
+    // Unsupported or corrupt image: the exact hash still applies
+    console.warn('Could not compute image hash:', error);
+    return null;
+  }
+}
+
+export async function fingerprintFile(data: Buffer, type: string): Promise<FileFingerprint> {
+  return {
+    sha256: createHash('sha256').update(data).digest('hex'),
+    phash: type.startsWith('image/') ? await differenceHash(data) : null,
+  };
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff > BigInt(0)) {
+    count += Number(diff & BigInt(1));
+    diff >>= BigInt(1);
+  }
+  return count;
+}
+
+export async function fingerprintFiles(files: File[]): Promise<FingerprintedFile[]> {
+  return Promise.all(files.map(async (file) => ({
+    name: file.name,
+    size: file.size,
+    fingerprint: await fingerprintFile(Buffer.from(await file.arrayBuffer()), file.type),
+  })));
+}
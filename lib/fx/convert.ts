@@ -0,0 +1,58 @@
+/**
+ * Currency conversion helpers shared by invoice extraction and PO re-conversion.
+ *
+ * Rates are always expressed as "1 unit of source currency = rate GBP",
+ * so converting is a single multiplication.
+ */
+
+// Rates TO convert TO GBP, keyed by ISO currency code
+export type ExchangeRates = { [currency: string]: number };
+
+// live: fetched over HTTP, fallback: built-in static table, manual/csv: entered into fx_rates by the user
+export type ExchangeRateSource = 'live' | 'fallback' | 'manual' | 'csv';
+
+export interface LineAmounts {
+  quantity: number;
+  unitCost: number;
+  lineTotal: number;
+}
+
+export function toNumber(value: unknown): number {
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(num) ? num : 0;
+}
+
+export function convertAmount(value: unknown, rate: number): number {
+  return Number((toNumber(value) * rate).toFixed(2));
+}
+
+/**
+ * Convert a line's unit cost and line total at the given rate.
+ * The line total is treated as the source of truth when present, and the
+ * unit cost is derived from it so the two always agree after rounding.
+ */
+export function convertLineAmounts(line: LineAmounts, rate: number): { unitCost: number; lineTotal: number } {
+  const quantity = toNumber(line.quantity);
+  const convertedUnit = convertAmount(line.unitCost, rate);
+  const convertedLine = convertAmount(line.lineTotal, rate);
+
+  if (quantity <= 0) {
+    return { unitCost: convertedUnit, lineTotal: convertedLine };
+  }
+
+  if (convertedLine > 0) {
+    return { unitCost: Number((convertedLine / quantity).toFixed(2)), lineTotal: convertedLine };
+  }
+
+  if (convertedUnit > 0) {
+    return { unitCost: convertedUnit, lineTotal: Number((convertedUnit * quantity).toFixed(2)) };
+  }
+
+  return { unitCost: 0, lineTotal: 0 };
+}
+
+export function normalizeCurrencyCode(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const code = value.trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : null;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { parseFxRatesCsv } from './csv';
+
+describe('parseFxRatesCsv', () => {
+  it('reads the long layout', () => {
+    const result = parseFxRatesCsv('date,currency,rate\n2026-10-01,usd,0.79\n2026-10-01,EUR,0.86\n');
+
+    expect(result.errors).toEqual([]);
+    expect(result.rates).toEqual([
+      { currency: 'USD', rate: 0.79, rateDate: '2026-10-01', source: 'csv' },
+      { currency: 'EUR', rate: 0.86, rateDate: '2026-10-01', source: 'csv' },
+    ]);
+  });
+
+  it('reads the wide layout and skips gaps', () => {
+    const result = parseFxRatesCsv('Date,USD,EUR,GBP\n2026-10-01,0.79,,1\n2026-10-02,0.8,0.87,1');
+
+    expect(result.errors).toEqual([]);
+    expect(result.rates).toEqual([
+      { currency: 'USD', rate: 0.79, rateDate: '2026-10-01', source: 'csv' },
+      { currency: 'USD', rate: 0.8, rateDate: '2026-10-02', source: 'csv' },
+      { currency: 'EUR', rate: 0.87, rateDate: '2026-10-02', source: 'csv' },
+    ]);
+  });
+
+  it('inverts rates published per GBP', () => {
+    const result = parseFxRatesCsv('date,currency,rate\n2026-10-01,USD,1.25', { perGBP: true });
+
+    expect(result.rates[0].rate).toBe(0.8);
+  });
+
+  it('accepts UK dates, quoted cells and thousands separators', () => {
+    const result = parseFxRatesCsv('date,currency,rate\n1/10/2026,JPY,"0.0053"\n"02/10/2026",KRW,"1,000"');
+
+    expect(result.errors).toEqual([]);
+    expect(result.rates.map((r) => [r.rateDate, r.currency, r.rate])).toEqual([
+      ['2026-10-01', 'JPY', 0.0053],
+      ['2026-10-02', 'KRW', 1000],
+    ]);
+  });
+
+  it('reports bad rows by line number and keeps the good ones', () => {
+    const result = parseFxRatesCsv(
+      'date,currency,rate\n2026-02-30,USD,0.8\n2026-10-01,GBP,1\n2026-10-01,EURO,0.9\n2026-10-01,USD,-1\n2026-10-01,USD,0.8',
+    );
+
+    expect(result.errors).toEqual([
+      'Line 2: invalid date "2026-02-30"',
+      'Line 3: invalid currency "GBP"',
+      'Line 4: invalid currency "EURO"',
+      'Line 5: invalid rate "-1"',
+    ]);
+    expect(result.rates).toHaveLength(1);
+  });
+
+  it('keeps the last rate for a currency and day', () => {
+    const result = parseFxRatesCsv('date,currency,rate\n2026-10-01,USD,0.79\n2026-10-01,USD,0.81');
+
+    expect(result.rates).toEqual([{ currency: 'USD', rate: 0.81, rateDate: '2026-10-01', source: 'csv' }]);
+  });
+
+  it('refuses files without the columns it needs', () => {
+    expect(parseFxRatesCsv('date,currency,rate').errors).toEqual([
+      'CSV must have a header row and at least one data row',
+    ]);
+    expect(parseFxRatesCsv('currency,rate\nUSD,0.8').errors).toEqual(['CSV needs a "date" column']);
+    expect(parseFxRatesCsv('date,currency\n2026-10-01,USD').errors).toEqual(['CSV needs a "rate" column']);
+    expect(parseFxRatesCsv('date,notes\n2026-10-01,hello').errors).toEqual([
+      'CSV needs either "currency" and "rate" columns or one column per currency code',
+    ]);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * CSV import of historic exchange rates.
+ *
+ * Two layouts are accepted:
+ *   long:  date,currency,rate           (one row per currency per day)
+ *   wide:  date,USD,EUR,JPY,...         (one row per day, one column per currency)
+ *
+ * Values are GBP per 1 unit of the currency unless `perGBP` is set, in which case
+ * they are units of the currency per 1 GBP (the way most central banks publish them).
+ */
+
+import { normalizeCurrencyCode } from './convert';
+import type { FxRate } from './types';
+
+export interface FxCsvParseResult {
+  rates: FxRate[];
+  errors: string[];
+}
+
+const DATE_HEADERS = ['date', 'rate_date', 'ratedate', 'day'];
+const CURRENCY_HEADERS = ['currency', 'code', 'ccy', 'currency_code'];
+const RATE_HEADERS = ['rate', 'rate_to_gbp', 'gbp', 'value'];
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+// Accepts YYYY-MM-DD and DD/MM/YYYY
+function parseDate(value: string): string | null {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const uk = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  let result: string | null = null;
+  if (iso) result = value;
+  else if (uk) result = `${uk[3]}-${uk[2].padStart(2, '0')}-${uk[1].padStart(2, '0')}`;
+  if (!result) return null;
+
+  const date = new Date(`${result}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(result) ? result : null;
+}
+
+function parseRate(value: string, perGBP: boolean): number | null {
+  const num = parseFloat(value.replace(/,/g, ''));
+  if (!Number.isFinite(num) || num <= 0) return null;
+  return perGBP ? 1 / num : num;
+}
+
+export function parseFxRatesCsv(text: string, options: { perGBP?: boolean } = {}): FxCsvParseResult {
+  const perGBP = options.perGBP === true;
+  const lines = text.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  const rates: FxRate[] = [];
+  const errors: string[] = [];
+
+  if (lines.length < 2) {
+    return { rates, errors: ['CSV must have a header row and at least one data row'] };
+  }
+
+  const headers = splitCsvLine(lines[0]).map((h) => h.toLowerCase());
+  const dateIdx = headers.findIndex((h) => DATE_HEADERS.includes(h));
+  const currencyIdx = headers.findIndex((h) => CURRENCY_HEADERS.includes(h));
+  const rateIdx = headers.findIndex((h) => RATE_HEADERS.includes(h));
+
+  if (dateIdx === -1) {
+    return { rates, errors: ['CSV needs a "date" column'] };
+  }
+
+  // Wide layout: every other column headed by a currency code
+  const wideColumns = currencyIdx === -1
+    ? headers
+        .map((h, idx) => ({ idx, currency: normalizeCurrencyCode(h) }))
+        .filter((c): c is { idx: number; currency: string } => c.idx !== dateIdx && c.currency !== null && c.currency !== 'GBP')
+    : [];
+
+  if (currencyIdx === -1 && wideColumns.length === 0) {
+    return { rates, errors: ['CSV needs either "currency" and "rate" columns or one column per currency code'] };
+  }
+  if (currencyIdx !== -1 && rateIdx === -1) {
+    return { rates, errors: ['CSV needs a "rate" column'] };
+  }
+
+  for (let i = 1; i < lines.length; i++) {
+    const cells = splitCsvLine(lines[i]);
+    const lineNo = i + 1;
+    const rateDate = parseDate(cells[dateIdx] ?? '');
+    if (!rateDate) {
+      errors.push(`Line ${lineNo}: invalid date "${cells[dateIdx] ?? ''}"`);
+      continue;
+    }
+
+    if (currencyIdx !== -1) {
+      const currency = normalizeCurrencyCode(cells[currencyIdx]);
+      const rate = parseRate(cells[rateIdx] ?? '', perGBP);
+      if (!currency || currency === 'GBP') {
+        errors.push(`Line ${lineNo}: invalid currency "${cells[currencyIdx] ?? ''}"`);
+        continue;
+      }
+      if (rate === null) {
+        errors.push(`Line ${lineNo}: invalid rate "${cells[rateIdx] ?? ''}"`);
+        continue;
+      }
+      rates.push({ currency, rate, rateDate, source: 'csv' });
+      continue;
+    }
+
+    for (const column of wideColumns) {
+      const raw = cells[column.idx] ?? '';
+      if (!raw) continue; // Gaps (bank holidays) are normal in published series
+      const rate = parseRate(raw, perGBP);
+      if (rate === null) {
+        errors.push(`Line ${lineNo}: invalid ${column.currency} rate "${raw}"`);
+        continue;
+      }
+      rates.push({ currency: column.currency, rate, rateDate, source: 'csv' });
+    }
+  }
+
+  // One rate per currency per day; later rows win (a single upsert can't touch a row twice)
+  const unique = new Map<string, FxRate>();
+  for (const rate of rates) {
+    unique.set(`${rate.currency}|${rate.rateDate}`, rate);
+  }
+
+  return { rates: Array.from(unique.values()), errors };
+}
@@ -0,0 +1,98 @@
+import { serverSupabase as supabase } from '@/lib/supabase-server';
+import type { ExchangeRateProvider, FxRate, FxRateMap } from './types';
+
+// --- Local rate table (fx_rates) ---
+
+// Most recent rate per currency on or before the requested date
+export function createTableProvider(userId: string): ExchangeRateProvider {
+  return {
+    name: 'table',
+    async getRates(date) {
+      const { data, error } = await supabase.rpc('latest_fx_rates', { p_user_id: userId, p_date: date });
+
+      if (error) {
+        console.warn('Failed to load fx_rates, skipping table provider:', error.message);
+        return {};
+      }
+
+      const rates: FxRateMap = {};
+      for (const row of (data || []) as Array<{ currency: string; rate: number | string; rate_date: string; source: FxRate['source'] }>) {
+        rates[row.currency] = {
+          currency: row.currency,
+          rate: Number(row.rate),
+          rateDate: row.rate_date,
+          source: row.source,
+        };
+      }
+      return rates;
+    },
+  };
+}
+
+// --- HTTP (exchangerate-api.com) ---
+
+const DEFAULT_HTTP_URL = 'https://api.exchangerate-api.com/v4/latest/GBP';
+const HTTP_TIMEOUT_MS = 5_000;
+
+// Only knows today's rates, so it stays silent for historic dates
+export function createHttpProvider(url: string = process.env.FX_RATES_HTTP_URL || DEFAULT_HTTP_URL): ExchangeRateProvider {
+  return {
+    name: 'http',
+    async getRates(date) {
+      const today = new Date().toISOString().split('T')[0];
+      if (date !== today) return {};
+
+      try {
+        const response = await fetch(url, { signal: AbortSignal.timeout(HTTP_TIMEOUT_MS) });
+        if (!response.ok) {
+          console.warn('Failed to fetch exchange rates:', response.status);
+          return {};
+        }
+        const data = await response.json();
+
+        // Response is units per 1 GBP; invert to rates FROM other currencies TO GBP
+        const rates: FxRateMap = {};
+        for (const [currency, perGBP] of Object.entries(data.rates || {})) {
+          const value = Number(perGBP);
+          if (!Number.isFinite(value) || value <= 0) continue;
+          rates[currency] = { currency, rate: 1 / value, rateDate: today, source: 'live' };
+        }
+        return rates;
+      } catch (error) {
+        console.warn('Error fetching exchange rates:', error);
+        return {};
+      }
+    },
+  };
+}
+
+// --- Built-in static table ---
+
+// Approximate rates TO convert TO GBP (multiply foreign currency by this rate), updated Nov 2024
+const STATIC_RATES_DATE = '2024-11-01';
+const STATIC_RATES: Record<string, number> = {
+  'GBP': 1.0,
+  'USD': 0.79,      // 1 USD = 0.79 GBP
+  'EUR': 0.85,      // 1 EUR = 0.85 GBP
+  'JPY': 0.00493,   // 1 JPY = 0.00493 GBP (667,996 JPY = ~3,290 GBP)
+  'AUD': 0.52,      // 1 AUD = 0.52 GBP
+  'CAD': 0.57,      // 1 CAD = 0.57 GBP
+  'CHF': 0.90,      // 1 CHF = 0.90 GBP
+  'CNY': 0.11,      // 1 CNY = 0.11 GBP
+  'SEK': 0.075,     // 1 SEK = 0.075 GBP
+  'NZD': 0.48,      // 1 NZD = 0.48 GBP
+};
+
+// Last resort so extraction still works with no table entries and no network
+export function createStaticProvider(): ExchangeRateProvider {
+  return {
+    name: 'static',
+    async getRates() {
+      const rates: FxRateMap = {};
+      for (const [currency, rate] of Object.entries(STATIC_RATES)) {
+        rates[currency] = { currency, rate, rateDate: STATIC_RATES_DATE, source: 'fallback' };
+      }
+      return rates;
+    },
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Exchange-rate lookup.
+ *
+ * Rates come from a chain of providers, configured with FX_RATE_PROVIDERS
+ * (comma separated, default "table,http,static"). The first provider that knows
+ * a currency wins, so rates entered in fx_rates override anything fetched, and
+ * the built-in static table keeps extraction working with no network at all.
+ */
+
+import { serverSupabase as supabase } from '@/lib/supabase-server';
+import type { ExchangeRateSource } from './convert';
+import { createHttpProvider, createStaticProvider, createTableProvider } from './providers';
+import type { ExchangeRateProvider, ExchangeRateProviderName, FxRate, FxRateMap } from './types';
+
+const DEFAULT_PROVIDERS: ExchangeRateProviderName[] = ['table', 'http', 'static'];
+
+function configuredProviderNames(): ExchangeRateProviderName[] {
+  const raw = process.env.FX_RATE_PROVIDERS;
+  if (!raw) return DEFAULT_PROVIDERS;
+
+  const names = raw
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter((name): name is ExchangeRateProviderName => name === 'table' || name === 'http' || name === 'static');
+
+  return names.length > 0 ? names : DEFAULT_PROVIDERS;
+}
+
+export function getExchangeRateProviders(userId: string): ExchangeRateProvider[] {
+  return configuredProviderNames().map((name) => {
+    if (name === 'table') return createTableProvider(userId);
+    if (name === 'http') return createHttpProvider();
+    return createStaticProvider();
+  });
+}
+
+export function todayDateString(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+// Resolve rates for every currency any provider knows, as of the given date
+export async function resolveRates(
+  date: string,
+  userId: string,
+  providers: ExchangeRateProvider[] = getExchangeRateProviders(userId),
+): Promise<FxRateMap> {
+  const resolved: FxRateMap = {};
+
+  for (const provider of providers) {
+    const rates = await provider.getRates(date);
+
+    // Keep a local history of fetched rates so later lookups work offline
+    if (provider.name === 'http' && Object.keys(rates).length > 0) {
+      try {
+        await saveFxRates(userId, Object.values(rates).filter((r) => r.currency !== 'GBP'), { overwrite: false });
+      } catch (error) {
+        console.warn('Failed to store fetched exchange rates:', error);
+      }
+    }
+
+    for (const [currency, rate] of Object.entries(rates)) {
+      if (!resolved[currency]) resolved[currency] = rate;
+    }
+  }
+
+  resolved.GBP = { currency: 'GBP', rate: 1, rateDate: date, source: 'fallback' };
+  return resolved;
+}
+
+// Rate to convert `currency` to GBP as of `date`, or null if no provider knows it
+export async function lookupRate(currency: string, date: string, userId: string): Promise<FxRate | null> {
+  const code = currency.trim().toUpperCase();
+  if (code === 'GBP') {
+    return { currency: 'GBP', rate: 1, rateDate: date, source: 'fallback' };
+  }
+
+  const rates = await resolveRates(date, userId);
+  const found = rates[code] ?? null;
+
+  // Nothing recorded for that date: today's real rate beats the static table
+  const today = todayDateString();
+  if (found?.source === 'fallback' && date < today) {
+    const current = (await resolveRates(today, userId))[code];
+    if (current && current.source !== 'fallback') return current;
+  }
+
+  return found;
+}
+
+// --- fx_rates table ---
+
+export interface StoredFxRate extends FxRate {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function mapStoredRate(row: {
+  id: string;
+  currency: string;
+  rate: number | string;
+  rate_date: string;
+  source: ExchangeRateSource;
+  created_at: string;
+  updated_at: string;
+}): StoredFxRate {
+  return {
+    id: row.id,
+    currency: row.currency,
+    rate: Number(row.rate),
+    rateDate: row.rate_date,
+    source: row.source,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Insert rates, one per currency per day. Existing entries for the same day are
+// overwritten unless `overwrite` is false (fetched rates never replace manual ones).
+export async function saveFxRates(
+  userId: string,
+  rates: FxRate[],
+  options: { overwrite?: boolean } = {},
+): Promise<StoredFxRate[]> {
+  if (rates.length === 0) return [];
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('fx_rates')
+    .upsert(
+      rates.map((r) => ({
+        user_id: userId,
+        currency: r.currency,
+        rate: r.rate,
+        rate_date: r.rateDate,
+        source: r.source,
+        updated_at: now,
+      })),
+      { onConflict: 'user_id,currency,rate_date', ignoreDuplicates: options.overwrite === false },
+    )
+    .select('id, currency, rate, rate_date, source, created_at, updated_at');
+
+  if (error) {
+    throw new Error(`Failed to save exchange rates: ${error.message}`);
+  }
+
+  return (data || []).map(mapStoredRate);
+}
+
+export async function listFxRates(params: {
+  userId: string;
+  currency?: string | null;
+  from?: string | null;
+  to?: string | null;
+  limit: number;
+  offset: number;
+}): Promise<StoredFxRate[]> {
+  let query = supabase
+    .from('fx_rates')
+    .select('id, currency, rate, rate_date, source, created_at, updated_at')
+    .eq('user_id', params.userId);
+
+  if (params.currency) query = query.eq('currency', params.currency);
+  if (params.from) query = query.gte('rate_date', params.from);
+  if (params.to) query = query.lte('rate_date', params.to);
+
+  const { data, error } = await query
+    .order('rate_date', { ascending: false })
+    .order('currency', { ascending: true })
+    .range(params.offset, params.offset + params.limit - 1);
+
+  if (error) {
+    throw new Error(`Failed to load exchange rates: ${error.message}`);
+  }
+
+  return (data || []).map(mapStoredRate);
+}
+
+export async function deleteFxRate(userId: string, id: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('fx_rates')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete exchange rate: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
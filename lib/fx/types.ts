@@ -0,0 +1,22 @@
+import type { ExchangeRateSource } from './convert';
+
+// A single rate: 1 unit of `currency` = `rate` GBP, in effect on `rateDate`
+export interface FxRate {
+  currency: string;
+  rate: number;
+  rateDate: string;
+  source: ExchangeRateSource;
+}
+
+export type FxRateMap = Record<string, FxRate>;
+
+export type ExchangeRateProviderName = 'table' | 'http' | 'static';
+
+export interface ExchangeRateProvider {
+  name: ExchangeRateProviderName;
+  /**
+   * Rates in effect on the given date (YYYY-MM-DD), keyed by currency.
+   * Currencies the provider doesn't know are simply left out so the next provider can answer.
+   */
+  getRates(date: string): Promise<FxRateMap>;
+}
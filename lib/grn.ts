@@ -0,0 +1,65 @@
+/**
+ * Goods received note quantities.
+ *
+ * A delivery is compared with what is still expected on the PO line (its open
+ * transit quantity). Damaged units arrive but never reach on-hand stock; a
+ * shortfall either stays open in transit for a later delivery or is written off.
+ */
+
+export type ShortfallAction = 'keep_open' | 'write_off';
+
+export const SHORTFALL_ACTIONS: ShortfallAction[] = ['keep_open', 'write_off'];
+
+export interface GrnLineCount {
+  /** Open transit quantity for the line when the delivery arrived */
+  expectedQuantity: number;
+  /** Units that physically arrived, including damaged ones */
+  receivedQuantity: number;
+  damagedQuantity: number;
+  shortfallAction: ShortfallAction;
+}
+
+export interface GrnLineQuantities {
+  shortQuantity: number;
+  overQuantity: number;
+  /** Good units, added to on-hand stock */
+  acceptedQuantity: number;
+  /** Good units that drain transit (the rest of acceptedQuantity is over-delivery) */
+  receivedFromTransit: number;
+  /** Good units beyond what was expected */
+  acceptedOverQuantity: number;
+  /** Units removed from transit without reaching stock */
+  writtenOffQuantity: number;
+}
+
+export function isShortfallAction(value: unknown): value is ShortfallAction {
+  return typeof value === 'string' && (SHORTFALL_ACTIONS as string[]).includes(value);
+}
+
+export function computeGrnLineQuantities(count: GrnLineCount): GrnLineQuantities {
+  const expected = Math.max(count.expectedQuantity, 0);
+  const received = Math.max(count.receivedQuantity, 0);
+  const damaged = Math.min(Math.max(count.damagedQuantity, 0), received);
+
+  const shortQuantity = Math.max(expected - received, 0);
+  const overQuantity = Math.max(received - expected, 0);
+  const acceptedQuantity = received - damaged;
+
+  // Damaged units are counted against the order first: they were shipped for it
+  const arrivedAgainstOrder = Math.min(received, expected);
+  const damagedAgainstOrder = Math.min(damaged, arrivedAgainstOrder);
+  const receivedFromTransit = arrivedAgainstOrder - damagedAgainstOrder;
+  const acceptedOverQuantity = acceptedQuantity - receivedFromTransit;
+
+  const writtenOffQuantity =
+    damagedAgainstOrder + (count.shortfallAction === 'write_off' ? shortQuantity : 0);
+
+  return {
+    shortQuantity,
+    overQuantity,
+    acceptedQuantity,
+    receivedFromTransit,
+    acceptedOverQuantity,
+    writtenOffQuantity,
+  };
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it, vi } from 'vitest';
+import { hashRequest } from './idempotency';
+
+// The hash is pure; keep the module from creating a real client on import (vi.mock is hoisted)
+vi.mock('./supabase-server', () => ({ serverSupabase: {} }));
+
+describe('hashRequest', () => {
+  it('is a stable sha256 of the route and fingerprint', () => {
+    const hash = hashRequest('/api/purchasing/po/update', { id: 'po-1', revision: 3 });
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashRequest('/api/purchasing/po/update', { id: 'po-1', revision: 3 })).toBe(hash);
+  });
+
+  it('changes with the route or the body', () => {
+    const hash = hashRequest('/api/inventory/grn', { qty: 1 });
+
+    expect(hashRequest('/api/inventory/receive-line', { qty: 1 })).not.toBe(hash);
+    expect(hashRequest('/api/inventory/grn', { qty: 2 })).not.toBe(hash);
+    expect(hashRequest('/api/inventory/grn', [{ qty: 1 }])).not.toBe(hash);
+  });
+
+  it('treats a missing fingerprint as null', () => {
+    expect(hashRequest('/api/x', undefined)).toBe(hashRequest('/api/x', null));
+    expect(hashRequest('/api/x', null)).not.toBe(hashRequest('/api/x', {}));
+  });
+});
@@ -0,0 +1,191 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { serverSupabase as supabase } from './supabase-server';
+
+/**
+ * Idempotency keys for mutating routes.
+ *
+ * A client sends the same `Idempotency-Key` header when it repeats a request
+ * (double tap, retry after a dropped connection). The first request claims the
+ * key together with a hash of the request; its response is stored when it
+ * finishes. A repeat within the window gets the stored response back instead
+ * of running the side effect again.
+ */
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// How long a completed response is replayed for
+const IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000;
+// A claim still 'processing' after this long belongs to a request that died
+const PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+
+const KEY_PATTERN = /^[A-Za-z0-9_.:-]{8,255}$/;
+
+export interface IdempotentRequest {
+  /** Set when the request must not run: the original response replayed, or why the key was refused */
+  response: NextResponse | null;
+  /** Store the response for replays (errors from our side release the key instead) and return it */
+  complete(response: NextResponse): Promise<NextResponse>;
+  /** Forget the key after a failure so the client's retry runs again */
+  release(): Promise<void>;
+}
+
+type IdempotencyKeyRow = {
+  id: string;
+  requesthash: string;
+  status: 'processing' | 'completed';
+  responsestatus: number | null;
+  responsebody: unknown;
+  expiresat: string;
+  created_at: string;
+};
+
+const passThrough: IdempotentRequest = {
+  response: null,
+  complete: async (response) => response,
+  release: async () => {},
+};
+
+// Same route and fingerprint give the same hash; a key reused for a different request is refused
+export function hashRequest(route: string, fingerprint: unknown): string {
+  return createHash('sha256').update(`${route}\n${JSON.stringify(fingerprint ?? null)}`).digest('hex');
+}
+
+async function claimKey(row: { key: string; route: string; requesthash: string; user_id: string }): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('idempotency_keys')
+    .insert({ ...row, status: 'processing', expiresat: new Date(Date.now() + IDEMPOTENCY_WINDOW_MS).toISOString() })
+    .select('id')
+    .single();
+
+  if (!error && data) {
+    return data.id;
+  }
+
+  if (error?.code === '23505') {
+    return null;
+  }
+
+  throw new Error(`Failed to claim idempotency key: ${error?.message}`);
+}
+
+/**
+ * Claim the request's Idempotency-Key, if it has one. `fingerprint` is what makes two
+ * requests the same (normally the parsed body); call this after validation, right
+ * before the first side effect. Requests without the header run as before.
+ */
+export async function beginIdempotentRequest(
+  request: NextRequest,
+  userId: string,
+  fingerprint: unknown,
+): Promise<IdempotentRequest> {
+  const key = request.headers.get(IDEMPOTENCY_HEADER)?.trim();
+  if (!key) {
+    return passThrough;
+  }
+
+  if (!KEY_PATTERN.test(key)) {
+    return {
+      ...passThrough,
+      response: NextResponse.json(
+        { error: `${IDEMPOTENCY_HEADER} must be 8-255 letters, digits or -_.:` },
+        { status: 400 },
+      ),
+    };
+  }
+
+  const route = new URL(request.url).pathname;
+  const requesthash = hashRequest(route, fingerprint);
+  const claim = { key, route, requesthash, user_id: userId };
+
+  let claimedId = await claimKey(claim);
+  if (!claimedId) {
+    const { data: existing } = await supabase
+      .from('idempotency_keys')
+      .select('id, requesthash, status, responsestatus, responsebody, expiresat, created_at')
+      .eq('user_id', userId)
+      .eq('key', key)
+      .single();
+    const row = existing as IdempotencyKeyRow | null;
+
+    const abandoned = row?.status === 'processing' && Date.parse(row.created_at) < Date.now() - PROCESSING_TIMEOUT_MS;
+    if (!row || abandoned || Date.parse(row.expiresat) < Date.now()) {
+      // Expired or abandoned: the key is free again
+      if (row) await supabase.from('idempotency_keys').delete().eq('id', row.id);
+      claimedId = await claimKey(claim);
+    } else if (row.requesthash !== requesthash) {
+      return {
+        ...passThrough,
+        response: NextResponse.json(
+          { error: `${IDEMPOTENCY_HEADER} was already used for a different request` },
+          { status: 422 },
+        ),
+      };
+    } else if (row.status === 'processing') {
+      return {
+        ...passThrough,
+        response: NextResponse.json(
+          { error: 'This request is already being processed' },
+          { status: 409, headers: { 'Retry-After': '2' } },
+        ),
+      };
+    } else {
+      return {
+        ...passThrough,
+        response: NextResponse.json(row.responsebody, {
+          status: row.responsestatus ?? 200,
+          headers: { 'Idempotent-Replayed': 'true' },
+        }),
+      };
+    }
+
+    if (!claimedId) {
+      return {
+        ...passThrough,
+        response: NextResponse.json(
+          { error: 'This request is already being processed' },
+          { status: 409, headers: { 'Retry-After': '2' } },
+        ),
+      };
+    }
+  }
+
+  const id = claimedId;
+  const release = async () => {
+    const { error } = await supabase.from('idempotency_keys').delete().eq('id', id);
+    if (error) {
+      console.error('Failed to release idempotency key:', error.message);
+    }
+  };
+
+  return {
+    response: null,
+    release,
+    complete: async (response) => {
+      if (response.status >= 500) {
+        await release();
+        return response;
+      }
+
+      try {
+        const { error } = await supabase
+          .from('idempotency_keys')
+          .update({
+            status: 'completed',
+            responsestatus: response.status,
+            responsebody: await response.clone().json(),
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', id);
+
+        if (error) {
+          throw new Error(error.message);
+        }
+      } catch (error) {
+        // The side effect happened; a retry would be refused as in progress until the claim times out
+        console.error('Failed to store idempotent response:', error);
+      }
+      return response;
+    },
+  };
+}
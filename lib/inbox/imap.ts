@@ -0,0 +1,174 @@
+/**
+ * Minimal IMAP4rev1 client for the invoice inbox.
+ *
+ * Supports exactly what polling a mailbox needs: LOGIN, SELECT, UID SEARCH
+ * UNSEEN, UID FETCH of the raw message and UID STORE of the \Seen flag.
+ * Responses are read line by line with {n} literals collected as raw bytes.
+ */
+
+import net from 'node:net';
+import tls from 'node:tls';
+
+export interface ImapConfig {
+  host: string;
+  port: number;
+  user: string;
+  password: string;
+  mailbox: string;
+  /** Implicit TLS (port 993). Plain connections are only for local test servers. */
+  secure: boolean;
+  timeoutMs?: number;
+}
+
+export interface ImapSession {
+  /** UIDs of messages not yet marked \Seen */
+  searchUnseen(): Promise<number[]>;
+  /** Raw RFC 822 message, fetched without setting \Seen */
+  fetchMessage(uid: number): Promise<Buffer | null>;
+  markSeen(uid: number): Promise<void>;
+  logout(): Promise<void>;
+}
+
+interface ImapResponse {
+  text: string;
+  literals: Buffer[];
+}
+
+// Quoted string per RFC 3501
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+export async function openImapSession(config: ImapConfig): Promise<ImapSession> {
+  const timeoutMs = config.timeoutMs ?? 30_000;
+  const socket: net.Socket = config.secure
+    ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+    : net.connect({ host: config.host, port: config.port });
+
+  let buffer = Buffer.alloc(0);
+  let failure: Error | null = null;
+  let wake: (() => void) | null = null;
+
+  socket.on('data', (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    wake?.();
+  });
+  socket.on('error', (error) => {
+    failure = error;
+    wake?.();
+  });
+  socket.on('close', () => {
+    failure ??= new Error('IMAP connection closed');
+    wake?.();
+  });
+
+  // Wait until check() finds what it needs in the buffer (returns -1 while it doesn't)
+  async function waitFor(check: () => number): Promise<number> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const found = check();
+      if (found >= 0) return found;
+      if (failure) throw failure;
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) throw new Error('IMAP server did not respond in time');
+
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, remaining);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      wake = null;
+    }
+  }
+
+  async function readResponse(): Promise<ImapResponse> {
+    let text = '';
+    const literals: Buffer[] = [];
+
+    for (;;) {
+      const lineEnd = await waitFor(() => buffer.indexOf('\r\n'));
+      const line = buffer.subarray(0, lineEnd).toString('utf8');
+      buffer = buffer.subarray(lineEnd + 2);
+      text += line;
+
+      const literal = line.match(/\{(\d+)\}$/);
+      if (!literal) return { text, literals };
+
+      const size = Number(literal[1]);
+      await waitFor(() => (buffer.length >= size ? size : -1));
+      literals.push(Buffer.from(buffer.subarray(0, size)));
+      buffer = buffer.subarray(size);
+    }
+  }
+
+  let tagCounter = 0;
+
+  // Send a command and collect its untagged responses; throws unless the server answers OK
+  async function command(line: string, name: string): Promise<ImapResponse[]> {
+    const tag = `A${++tagCounter}`;
+    socket.write(`${tag} ${line}\r\n`);
+
+    const untagged: ImapResponse[] = [];
+    for (;;) {
+      const response = await readResponse();
+      if (response.text.startsWith(`${tag} `)) {
+        const status = response.text.slice(tag.length + 1);
+        if (!status.startsWith('OK')) {
+          throw new Error(`IMAP ${name} failed: ${status}`);
+        }
+        return untagged;
+      }
+      untagged.push(response);
+    }
+  }
+
+  try {
+    const greeting = await readResponse();
+    if (!greeting.text.startsWith('* OK') && !greeting.text.startsWith('* PREAUTH')) {
+      throw new Error(`Unexpected IMAP greeting: ${greeting.text}`);
+    }
+
+    if (!greeting.text.startsWith('* PREAUTH')) {
+      // The command name only: never let the password end up in an error message
+      await command(`LOGIN ${quote(config.user)} ${quote(config.password)}`, 'LOGIN');
+    }
+    await command(`SELECT ${quote(config.mailbox)}`, 'SELECT');
+  } catch (error) {
+    socket.destroy();
+    throw error;
+  }
+
+  return {
+    async searchUnseen() {
+      const responses = await command('UID SEARCH UNSEEN', 'SEARCH');
+      return responses
+        .filter((r) => r.text.startsWith('* SEARCH'))
+        .flatMap((r) => r.text.slice('* SEARCH'.length).trim().split(/\s+/))
+        .filter(Boolean)
+        .map(Number)
+        .filter((uid) => Number.isInteger(uid) && uid > 0);
+    },
+
+    async fetchMessage(uid: number) {
+      const responses = await command(`UID FETCH ${uid} BODY.PEEK[]`, 'FETCH');
+      const fetched = responses.find((r) => /^\* \d+ FETCH /.test(r.text) && r.literals.length > 0);
+      return fetched ? fetched.literals[0] : null;
+    },
+
+    async markSeen(uid: number) {
+      await command(`UID STORE ${uid} +FLAGS (\\Seen)`, 'STORE');
+    },
+
+    async logout() {
+      try {
+        await command('LOGOUT', 'LOGOUT');
+      } catch {
+        // The server may close the connection before the tagged OK
+      } finally {
+        socket.destroy();
+      }
+    },
+  };
+}
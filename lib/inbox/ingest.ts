@@ -0,0 +1,281 @@
+/**
+ * Invoice inbox ingestion.
+ *
+ * Reads new messages from the configured mailbox (IMAP, or a local Maildir or
+ * drop folder), matches the sender to a supplier by suppliers.email and queues
+ * an extraction job per invoice attachment. The jobs show up in the import
+ * page's queue for review like any upload. Every message read is recorded in
+ * inbox_messages so it is ingested once; failures are retried on later polls.
+ */
+
+import { serverSupabase as supabase } from '../supabase-server';
+import { uploadExtractionJobFiles } from '../storage';
+import { checkInvoiceFile, MAX_INVOICE_FILES } from '../extraction/invoice';
+import { enqueueExtractionJob } from '../extraction/jobs';
+import { findInvoiceFileMatches, recordInvoiceFileFingerprints } from '../db';
+import { fingerprintFiles } from '../file-fingerprint';
+import { openImapSession, type ImapConfig } from './imap';
+import { readLocalInbox } from './maildir';
+import { parseEmail, type MailAttachment } from './mime';
+import type { InboxItem } from './types';
+
+// A message that keeps failing is given up on (and marked read) after this many polls
+const MAX_MESSAGE_ATTEMPTS = 3;
+
+export interface InboxConfig {
+  /** Account the emailed invoices are queued for */
+  userId: string;
+  /** Maildir or drop folder */
+  dir: string | null;
+  imap: ImapConfig | null;
+}
+
+export type InboxPollResult = {
+  read: number;
+  queued: number;
+  ignored: number;
+  skipped: number;
+  failed: number;
+  jobIds: string[];
+};
+
+// Inbox settings from the environment; null when no mailbox is configured
+export function getInboxConfig(): InboxConfig | null {
+  const userId = process.env.INVOICE_INBOX_USER_ID;
+  const dir = process.env.INVOICE_INBOX_DIR || null;
+  const host = process.env.INVOICE_INBOX_IMAP_HOST;
+
+  if (!userId || (!dir && !host)) return null;
+
+  const imap: ImapConfig | null = host
+    ? {
+        host,
+        port: Number(process.env.INVOICE_INBOX_IMAP_PORT) || 993,
+        user: process.env.INVOICE_INBOX_IMAP_USER ?? '',
+        password: process.env.INVOICE_INBOX_IMAP_PASSWORD ?? '',
+        mailbox: process.env.INVOICE_INBOX_IMAP_MAILBOX || 'INBOX',
+        secure: process.env.INVOICE_INBOX_IMAP_TLS !== 'false',
+      }
+    : null;
+
+  return { userId, dir, imap };
+}
+
+function emailAddresses(value: string | null): string[] {
+  return (value ?? '').toLowerCase().match(/[^\s,;<>"]+@[^\s,;<>"]+/g) ?? [];
+}
+
+/**
+ * Supplier whose email matches the sender. Falls back to the sender's domain
+ * (invoices often come from a billing or no-reply address) when exactly one
+ * supplier uses it.
+ */
+export async function findSupplierBySender(userId: string, sender: string | null): Promise<string | null> {
+  if (!sender) return null;
+
+  const { data: suppliers, error } = await supabase
+    .from('suppliers')
+    .select('id, email')
+    .eq('user_id', userId)
+    .not('email', 'is', null);
+
+  if (error) {
+    throw new Error(`Failed to load suppliers: ${error.message}`);
+  }
+
+  const address = sender.toLowerCase();
+  const exact = (suppliers || []).find((s) => emailAddresses(s.email).includes(address));
+  if (exact) return exact.id;
+
+  const domain = address.split('@')[1];
+  const sameDomain = (suppliers || []).filter((s) => emailAddresses(s.email).some((e) => e.split('@')[1] === domain));
+  return sameDomain.length === 1 ? sameDomain[0].id : null;
+}
+
+// PDFs and e-invoices are one invoice each; images in one message are pages of the same invoice
+function groupAttachments(attachments: MailAttachment[]): MailAttachment[][] {
+  const documents = attachments.filter((a) => !a.contentType.startsWith('image/'));
+  const images = attachments.filter((a) => a.contentType.startsWith('image/'));
+  const groups = documents.map((a) => [a]);
+  if (images.length > 0) groups.push(images.slice(0, MAX_INVOICE_FILES));
+  return groups;
+}
+
+function jobLabel(item: InboxItem, group: MailAttachment[], groupCount: number): string {
+  const files = group.map((a) => a.filename).join(', ');
+  const title = groupCount > 1 || !item.email.subject ? files : item.email.subject;
+  return title.slice(0, 200);
+}
+
+async function getInboxMessageState(userId: string, key: string): Promise<{ status: string; attempts: number; jobids: string[] } | null> {
+  const { data } = await supabase
+    .from('inbox_messages')
+    .select('status, attempts, jobids')
+    .eq('user_id', userId)
+    .eq('messagekey', key)
+    .single();
+
+  return data ?? null;
+}
+
+async function recordInboxMessage(params: {
+  item: InboxItem;
+  supplierId: string | null;
+  attachmentCount: number;
+  jobIds: string[];
+  status: 'queued' | 'ignored' | 'failed';
+  attempts: number;
+  error: string | null;
+  userId: string;
+}) {
+  const { error } = await supabase
+    .from('inbox_messages')
+    .upsert({
+      source: params.item.source,
+      messagekey: params.item.key,
+      sender: params.item.email.from,
+      subject: params.item.email.subject?.slice(0, 500) ?? null,
+      receivedat: params.item.email.date,
+      supplierid: params.supplierId,
+      attachmentcount: params.attachmentCount,
+      jobids: params.jobIds,
+      status: params.status,
+      attempts: params.attempts,
+      error: params.error,
+      user_id: params.userId,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'user_id,messagekey' });
+
+  if (error) {
+    throw new Error(`Failed to record inbox message: ${error.message}`);
+  }
+}
+
+async function ingestMessage(item: InboxItem, userId: string, result: InboxPollResult) {
+  const previous = await getInboxMessageState(userId, item.key);
+  if (previous && previous.status !== 'failed') {
+    // Already ingested, e.g. the mailbox flag could not be set last time
+    await item.markDone();
+    result.skipped++;
+    return;
+  }
+
+  const attempts = (previous?.attempts ?? 0) + 1;
+  const attachments = item.email.attachments.filter((a) =>
+    checkInvoiceFile({ name: a.filename, type: a.contentType, size: a.data.length }) === null
+  );
+
+  if (attachments.length === 0) {
+    await recordInboxMessage({ item, supplierId: null, attachmentCount: 0, jobIds: [], status: 'ignored', attempts, error: null, userId });
+    await item.markDone();
+    result.ignored++;
+    return;
+  }
+
+  let supplierId: string | null = null;
+  // Jobs queued by an earlier attempt that failed part-way are not queued again
+  const jobIds: string[] = [...(previous?.jobids ?? [])];
+  try {
+    supplierId = await findSupplierBySender(userId, item.email.from);
+
+    const groups = groupAttachments(attachments);
+    let alreadyImported = 0;
+    for (const group of groups.slice(jobIds.length)) {
+      const files = group.map((a) => new File([new Uint8Array(a.data)], a.filename, { type: a.contentType }));
+
+      // Suppliers resend invoices (reminders, statements); skip files that are byte-identical to an
+      // earlier upload. Similar-looking images are left for the reviewer, since no one confirms here.
+      const fingerprints = await fingerprintFiles(files);
+      const matches = await findInvoiceFileMatches(userId, fingerprints);
+      if (matches.filter((m) => m.match === 'exact').length === files.length) {
+        alreadyImported++;
+        continue;
+      }
+
+      const jobId = crypto.randomUUID();
+      const storedFiles = await uploadExtractionJobFiles(files, jobId);
+      await enqueueExtractionJob({
+        id: jobId,
+        label: jobLabel(item, group, groups.length),
+        files: storedFiles,
+        supplierId,
+        source: 'email',
+        sender: item.email.from,
+        user_id: userId,
+      });
+      jobIds.push(jobId);
+      await recordInvoiceFileFingerprints({ files: fingerprints, extractionJobId: jobId, user_id: userId });
+    }
+
+    if (jobIds.length === 0 && alreadyImported > 0) {
+      await recordInboxMessage({ item, supplierId, attachmentCount: attachments.length, jobIds, status: 'ignored', attempts, error: 'Already imported', userId });
+      await item.markDone();
+      result.ignored++;
+      return;
+    }
+
+    await recordInboxMessage({ item, supplierId, attachmentCount: attachments.length, jobIds, status: 'queued', attempts, error: null, userId });
+    await item.markDone();
+    result.queued++;
+    result.jobIds.push(...jobIds);
+  } catch (error) {
+    console.error(`Inbox message ${item.key} failed:`, error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await recordInboxMessage({ item, supplierId, attachmentCount: attachments.length, jobIds, status: 'failed', attempts, error: message, userId });
+    // Give up on the message after a few polls
+    if (attempts >= MAX_MESSAGE_ATTEMPTS) await item.markDone();
+    result.failed++;
+  }
+}
+
+async function readImapInbox(config: ImapConfig, limit: number): Promise<{ items: InboxItem[]; close: () => Promise<void> }> {
+  const session = await openImapSession(config);
+  try {
+    const uids = (await session.searchUnseen()).slice(0, limit);
+    const items: InboxItem[] = [];
+
+    for (const uid of uids) {
+      const raw = await session.fetchMessage(uid);
+      if (!raw) continue;
+      const email = parseEmail(raw);
+      items.push({
+        source: 'imap',
+        key: email.messageId ?? `imap:${config.host}/${config.mailbox}/${uid}`,
+        email,
+        markDone: () => session.markSeen(uid),
+      });
+    }
+
+    return { items, close: () => session.logout() };
+  } catch (error) {
+    await session.logout();
+    throw error;
+  }
+}
+
+// Read up to `limit` new messages from each configured source and queue their invoices
+export async function pollInvoiceInbox(config: InboxConfig, limit = 25): Promise<InboxPollResult> {
+  const result: InboxPollResult = { read: 0, queued: 0, ignored: 0, skipped: 0, failed: 0, jobIds: [] };
+
+  if (config.dir) {
+    const items = await readLocalInbox(config.dir, limit);
+    for (const item of items) {
+      result.read++;
+      await ingestMessage(item, config.userId, result);
+    }
+  }
+
+  if (config.imap) {
+    const { items, close } = await readImapInbox(config.imap, limit);
+    try {
+      for (const item of items) {
+        result.read++;
+        await ingestMessage(item, config.userId, result);
+      }
+    } finally {
+      await close();
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,133 @@
+/**
+ * Local inbox sources: a Maildir (new/ and cur/, as written by fetchmail,
+ * getmail or a mail server's local delivery) or a plain drop folder.
+ *
+ * A drop folder takes .eml files, or invoice files dropped as they are. Bare
+ * files in a sub-folder named after an email address are treated as sent from
+ * that address, so scanners and test stand-ins can feed the inbox without
+ * building a MIME message. Handled drop-folder files are moved to processed/.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { parseEmail, type MailAttachment } from './mime';
+import type { InboxItem } from './types';
+
+const PROCESSED_DIR = 'processed';
+
+const CONTENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  xml: 'application/xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  heic: 'image/heic',
+};
+
+async function isDirectory(dir: string): Promise<boolean> {
+  try {
+    return (await fs.stat(dir)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+// Maildir file names carry flags after ":2,", e.g. 1700000000.M1P2.host:2,S
+function maildirFlags(name: string): { base: string; flags: string } {
+  const info = name.lastIndexOf(':2,');
+  return info === -1 ? { base: name, flags: '' } : { base: name.slice(0, info), flags: name.slice(info + 3) };
+}
+
+async function readMaildir(dir: string, limit: number): Promise<InboxItem[]> {
+  const items: InboxItem[] = [];
+
+  for (const sub of ['new', 'cur']) {
+    const names = (await fs.readdir(path.join(dir, sub))).filter((name) => !name.startsWith('.')).sort();
+    for (const name of names) {
+      if (items.length >= limit) return items;
+
+      const { base, flags } = maildirFlags(name);
+      // Messages already marked seen in cur/ have been handled
+      if (sub === 'cur' && flags.includes('S')) continue;
+
+      const file = path.join(dir, sub, name);
+      const email = parseEmail(await fs.readFile(file));
+      items.push({
+        source: 'maildir',
+        key: email.messageId ?? `maildir:${base}`,
+        email,
+        markDone: async () => {
+          const seenFlags = [...new Set(`${flags}S`)].sort().join('');
+          await fs.rename(file, path.join(dir, 'cur', `${base}:2,${seenFlags}`));
+        },
+      });
+    }
+  }
+
+  return items;
+}
+
+function bareFileEmail(name: string, data: Buffer, from: string | null) {
+  const ext = name.split('.').pop()?.toLowerCase() ?? '';
+  const attachment: MailAttachment = { filename: name, contentType: CONTENT_TYPES[ext] ?? 'application/octet-stream', data };
+  return { messageId: null, from, fromName: null, subject: name, date: null, attachments: [attachment] };
+}
+
+async function readDropFolder(dir: string, limit: number): Promise<InboxItem[]> {
+  const items: InboxItem[] = [];
+
+  const addFile = async (relative: string, from: string | null) => {
+    const file = path.join(dir, relative);
+    const [data, stat] = await Promise.all([fs.readFile(file), fs.stat(file)]);
+    const isEmail = relative.toLowerCase().endsWith('.eml');
+    const email = isEmail ? parseEmail(data) : bareFileEmail(path.basename(relative), data, from);
+
+    items.push({
+      source: 'maildir',
+      // Re-dropping a changed file under the same name counts as a new message
+      key: email.messageId ?? `file:${relative}:${stat.size}:${Math.floor(stat.mtimeMs)}`,
+      email: isEmail && !email.from && from ? { ...email, from } : email,
+      markDone: async () => {
+        const target = path.join(dir, PROCESSED_DIR, relative);
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.rename(file, target);
+      },
+    });
+  };
+
+  const entries = (await fs.readdir(dir, { withFileTypes: true }))
+    .filter((entry) => !entry.name.startsWith('.') && entry.name !== PROCESSED_DIR)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    if (items.length >= limit) break;
+
+    if (entry.isFile()) {
+      await addFile(entry.name, null);
+    } else if (entry.isDirectory() && entry.name.includes('@')) {
+      const sender = entry.name.toLowerCase();
+      const files = (await fs.readdir(path.join(dir, entry.name), { withFileTypes: true }))
+        .filter((file) => file.isFile() && !file.name.startsWith('.'))
+        .map((file) => file.name)
+        .sort();
+      for (const name of files) {
+        if (items.length >= limit) break;
+        await addFile(path.join(entry.name, name), sender);
+      }
+    }
+  }
+
+  return items;
+}
+
+// Unhandled messages in a Maildir or drop folder, oldest names first
+export async function readLocalInbox(dir: string, limit: number): Promise<InboxItem[]> {
+  if (!(await isDirectory(dir))) {
+    throw new Error(`Inbox folder not found: ${dir}`);
+  }
+
+  const isMaildir = (await isDirectory(path.join(dir, 'new'))) && (await isDirectory(path.join(dir, 'cur')));
+  return isMaildir ? readMaildir(dir, limit) : readDropFolder(dir, limit);
+}
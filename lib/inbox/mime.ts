@@ -0,0 +1,210 @@
+/**
+ * Minimal RFC 822 / MIME reader for invoice emails.
+ *
+ * Walks multipart bodies and decodes base64 and quoted-printable parts, which is
+ * all supplier invoice mails need: the sender, subject and the attached files.
+ * HTML and text bodies are skipped; inline images with a Content-ID (signature
+ * logos) are ignored unless explicitly marked as attachments.
+ */
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface ParsedEmail {
+  messageId: string | null;
+  /** Bare address of the sender, lower-cased */
+  from: string | null;
+  fromName: string | null;
+  subject: string | null;
+  date: string | null;
+  attachments: MailAttachment[];
+}
+
+type Headers = Map<string, string>;
+
+// Encoded words, e.g. =?UTF-8?B?SW52b2ljZQ==?= or =?iso-8859-1?Q?Rechnung_f=FCr?=
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : Buffer.from(text.replace(/_/g, ' ').replace(/=([0-9A-Fa-f]{2})/g, (__, hex: string) => String.fromCharCode(parseInt(hex, 16))), 'latin1');
+      return decodeCharset(bytes, charset);
+    });
+}
+
+function decodeCharset(bytes: Buffer, charset: string): string {
+  try {
+    return new TextDecoder(charset.trim().toLowerCase()).decode(bytes);
+  } catch {
+    return bytes.toString('latin1');
+  }
+}
+
+function parseHeaders(block: string): Headers {
+  const headers: Headers = new Map();
+  // Continuation lines start with whitespace
+  for (const line of block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+  return headers;
+}
+
+// Value and parameters of a structured header, e.g. Content-Type: multipart/mixed; boundary="x"
+function parseParameters(value: string): { value: string; params: Record<string, string> } {
+  const [first, ...rest] = value.split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  const continued: Record<string, string[]> = {};
+
+  for (const part of rest) {
+    const eq = part.indexOf('=');
+    if (eq === -1) continue;
+    const key = part.slice(0, eq).trim().toLowerCase();
+    let paramValue = part.slice(eq + 1).trim();
+    if (paramValue.startsWith('"') && paramValue.endsWith('"')) {
+      paramValue = paramValue.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+
+    // RFC 2231: filename*=UTF-8''Rechnung%20123.pdf, possibly split as filename*0*, filename*1*
+    const extended = key.match(/^([^*]+)\*(\d+)?(\*)?$/);
+    if (extended) {
+      const [, base, index, encoded] = extended;
+      let decoded = paramValue;
+      if (encoded || index === undefined) {
+        const charsetMatch = decoded.match(/^([^']*)'[^']*'(.*)$/);
+        const charset = charsetMatch ? charsetMatch[1] || 'utf-8' : 'utf-8';
+        const text = charsetMatch ? charsetMatch[2] : decoded;
+        decoded = decodeCharset(Buffer.from(text.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))), 'latin1'), charset);
+      }
+      (continued[base] ??= [])[Number(index ?? 0)] = decoded;
+    } else {
+      params[key] = decodeEncodedWords(paramValue);
+    }
+  }
+
+  for (const [key, parts] of Object.entries(continued)) {
+    params[key] = parts.join('');
+  }
+
+  return { value: first.trim().toLowerCase(), params };
+}
+
+function decodeBody(body: Buffer, transferEncoding: string | undefined): Buffer {
+  const encoding = (transferEncoding || '').trim().toLowerCase();
+  if (encoding === 'base64') {
+    return Buffer.from(body.toString('latin1').replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+  }
+  if (encoding === 'quoted-printable') {
+    const text = body.toString('latin1').replace(/=\r?\n/g, '');
+    return Buffer.from(text.replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))), 'latin1');
+  }
+  return body;
+}
+
+// Split a raw entity into its header block and body
+function splitEntity(raw: Buffer): { headers: Headers; body: Buffer } {
+  const crlf = raw.indexOf('\r\n\r\n');
+  const lf = raw.indexOf('\n\n');
+  const [end, separator] = crlf !== -1 && (lf === -1 || crlf < lf) ? [crlf, 4] : lf !== -1 ? [lf, 2] : [raw.length, 0];
+  return {
+    headers: parseHeaders(raw.subarray(0, end).toString('latin1')),
+    body: raw.subarray(Math.min(raw.length, end + separator)),
+  };
+}
+
+function splitMultipart(body: Buffer, boundary: string): Buffer[] {
+  const delimiter = Buffer.from(`--${boundary}`, 'latin1');
+  const parts: Buffer[] = [];
+  let start = body.indexOf(delimiter);
+
+  while (start !== -1) {
+    const afterDelimiter = start + delimiter.length;
+    // Closing delimiter: --boundary--
+    if (body.subarray(afterDelimiter, afterDelimiter + 2).toString('latin1') === '--') break;
+    const contentStart = body.indexOf('\n', afterDelimiter);
+    if (contentStart === -1) break;
+    const next = body.indexOf(delimiter, contentStart);
+    const contentEnd = next === -1 ? body.length : next;
+    // Strip the line break that belongs to the next delimiter
+    let end = contentEnd;
+    if (body[end - 1] === 0x0a) end--;
+    if (body[end - 1] === 0x0d) end--;
+    parts.push(body.subarray(contentStart + 1, Math.max(contentStart + 1, end)));
+    start = next;
+  }
+
+  return parts;
+}
+
+function collectAttachments(raw: Buffer, attachments: MailAttachment[], depth: number) {
+  // Guard against pathological nesting
+  if (depth > 10) return;
+
+  const { headers, body } = splitEntity(raw);
+  const contentType = parseParameters(headers.get('content-type') || 'text/plain');
+  const disposition = parseParameters(headers.get('content-disposition') || '');
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary) {
+    for (const part of splitMultipart(body, contentType.params.boundary)) {
+      collectAttachments(part, attachments, depth + 1);
+    }
+    return;
+  }
+
+  // Forwarded invoices arrive as an attached message
+  if (contentType.value === 'message/rfc822') {
+    collectAttachments(decodeBody(body, headers.get('content-transfer-encoding')), attachments, depth + 1);
+    return;
+  }
+
+  const filename = disposition.params.filename || contentType.params.name;
+  const isAttachment = disposition.value === 'attachment';
+  const isInlineImage = contentType.value.startsWith('image/') && headers.has('content-id');
+  if (!filename || (!isAttachment && isInlineImage)) return;
+  if (!isAttachment && contentType.value.startsWith('text/')) return;
+
+  attachments.push({
+    filename: filename.replace(/[\\/]/g, '_'),
+    contentType: contentType.value,
+    data: decodeBody(body, headers.get('content-transfer-encoding')),
+  });
+}
+
+function parseAddress(value: string | undefined): { address: string | null; name: string | null } {
+  if (!value) return { address: null, name: null };
+  const decoded = decodeEncodedWords(value);
+  const angle = decoded.match(/^(.*)<([^>]+)>/);
+  if (angle) {
+    const name = angle[1].trim().replace(/^"|"$/g, '');
+    return { address: angle[2].trim().toLowerCase(), name: name || null };
+  }
+  const bare = decoded.match(/[^\s<>"]+@[^\s<>"]+/);
+  return { address: bare ? bare[0].toLowerCase() : null, name: null };
+}
+
+export function parseEmail(raw: Buffer): ParsedEmail {
+  const { headers } = splitEntity(raw);
+  const from = parseAddress(headers.get('from') ?? headers.get('reply-to'));
+  const attachments: MailAttachment[] = [];
+  collectAttachments(raw, attachments, 0);
+
+  const subject = headers.get('subject');
+  const date = headers.get('date');
+  const parsedDate = date ? new Date(date) : null;
+
+  return {
+    messageId: headers.get('message-id')?.replace(/^<|>$/g, '').trim() || null,
+    from: from.address,
+    fromName: from.name,
+    subject: subject ? decodeEncodedWords(subject) : null,
+    date: parsedDate && !Number.isNaN(parsedDate.getTime()) ? parsedDate.toISOString() : null,
+    attachments,
+  };
+}
@@ -0,0 +1,13 @@
+import type { ParsedEmail } from './mime';
+
+export type InboxSource = 'imap' | 'maildir';
+
+// One message waiting in a mailbox or drop folder
+export interface InboxItem {
+  source: InboxSource;
+  /** Stable key (Message-ID, or mailbox position) used to ingest each message once */
+  key: string;
+  email: ParsedEmail;
+  /** Mark the message as handled in the mailbox so it is not read again */
+  markDone(): Promise<void>;
+}
@@ -0,0 +1,56 @@
+/**
+ * Inventory movement ledger.
+ *
+ * Every change to a product's on-hand quantity is one append-only row in
+ * inventory_movements, so on-hand can always be rebuilt by adding up the
+ * deltas. The row says what kind of movement it was, which document caused it
+ * (PO line, Shopify order, import batch, supplier return, user adjustment) and
+ * who made it.
+ */
+
+export type InventoryMovementType =
+  | 'opening_balance'
+  | 'purchase_receipt'
+  | 'supplier_return'
+  | 'sale'
+  | 'sale_reversal'
+  | 'import'
+  | 'adjustment'
+  | 'unattributed';
+
+export const INVENTORY_MOVEMENT_TYPES: InventoryMovementType[] = [
+  'opening_balance',
+  'purchase_receipt',
+  'supplier_return',
+  'sale',
+  'sale_reversal',
+  'import',
+  'adjustment',
+  'unattributed',
+];
+
+// The document a movement came from; sourceId is that document's id
+export type InventoryMovementSourceType =
+  | 'po_line'
+  | 'order'
+  | 'import_batch'
+  | 'supplier_return'
+  | 'user_adjustment';
+
+export type InventoryMovementActor = 'user' | 'shopify' | 'system';
+
+// What a writer says about a change to on-hand, passed to apply_inventory_movement
+export interface InventoryMovementDescription {
+  movementType: InventoryMovementType;
+  sourceType: InventoryMovementSourceType | null;
+  sourceId: string | null;
+  actor: InventoryMovementActor;
+  actorUserId: string | null;
+  /** Cost per unit moved; incoming units with a cost are folded into the average */
+  unitCostGBP?: number | null;
+  context?: Record<string, unknown>;
+}
+
+export function isInventoryMovementType(value: unknown): value is InventoryMovementType {
+  return typeof value === 'string' && (INVENTORY_MOVEMENT_TYPES as string[]).includes(value);
+}
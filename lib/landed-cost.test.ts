@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { allocateLandedCosts, isLandedCostKind, isLandedCostMethod, type AllocatableLine } from './landed-cost';
+
+const line = (id: string, quantity: number, unitCostExVAT: number, weightKg: number | null = null): AllocatableLine => ({
+  id,
+  quantity,
+  unitCostExVAT,
+  lineTotalExVAT: quantity * unitCostExVAT,
+  weightKg,
+});
+
+const sum = (values: number[]) => Number(values.reduce((total, v) => total + v, 0).toFixed(2));
+
+describe('allocateLandedCosts', () => {
+  it('splits charges by line value by default', () => {
+    const result = allocateLandedCosts([line('a', 10, 3), line('b', 5, 2)], 20);
+
+    expect(result.method).toBe('value');
+    expect(result.totalChargesGBP).toBe(20);
+    expect(result.lines).toEqual([
+      { lineId: 'a', allocatedGBP: 15, landedUnitCostGBP: 4.5 },
+      { lineId: 'b', allocatedGBP: 5, landedUnitCostGBP: 3 },
+    ]);
+  });
+
+  it('splits charges by quantity', () => {
+    const result = allocateLandedCosts([line('a', 3, 100), line('b', 1, 1)], 8, 'quantity');
+
+    expect(result.lines.map((l) => l.allocatedGBP)).toEqual([6, 2]);
+  });
+
+  it('splits charges by total line weight', () => {
+    const result = allocateLandedCosts([line('a', 2, 1, 0.5), line('b', 1, 1, 3)], 10, 'weight');
+
+    expect(result.method).toBe('weight');
+    expect(result.lines.map((l) => l.allocatedGBP)).toEqual([2.5, 7.5]);
+  });
+
+  it('pushes the rounding residue onto the largest line so the total is exact', () => {
+    const result = allocateLandedCosts([line('a', 1, 1), line('b', 1, 1), line('c', 1, 2)], 10);
+
+    // 2.5 / 2.5 / 5 splits cleanly; a three-way third does not
+    expect(sum(result.lines.map((l) => l.allocatedGBP))).toBe(10);
+
+    const thirds = allocateLandedCosts([line('a', 1, 1), line('b', 1, 1), line('c', 1, 1.01)], 10);
+    expect(sum(thirds.lines.map((l) => l.allocatedGBP))).toBe(10);
+    expect(thirds.lines.map((l) => l.allocatedGBP)).toEqual([3.32, 3.32, 3.36]);
+  });
+
+  it('rounds the charge total to pence and landed unit costs to 4dp', () => {
+    const result = allocateLandedCosts([line('a', 3, 1)], 1.005);
+
+    expect(result.totalChargesGBP).toBe(1);
+    expect(result.lines[0].landedUnitCostGBP).toBe(1.3333);
+  });
+
+  it('falls back from weight to value to quantity when the basis is all zero', () => {
+    expect(allocateLandedCosts([line('a', 1, 2), line('b', 1, 6)], 4, 'weight').method).toBe('value');
+    expect(allocateLandedCosts([line('a', 1, 0), line('b', 3, 0)], 4, 'weight').method).toBe('quantity');
+  });
+
+  it('uses unit cost times quantity when a line has no stored total', () => {
+    const result = allocateLandedCosts(
+      [{ id: 'a', quantity: 1, unitCostExVAT: 3, lineTotalExVAT: 0 }, line('b', 1, 1)],
+      4,
+    );
+
+    expect(result.lines.map((l) => l.allocatedGBP)).toEqual([3, 1]);
+  });
+
+  it('allocates nothing for a zero, negative or non-finite total', () => {
+    for (const total of [0, -5, Number.NaN, Number.POSITIVE_INFINITY]) {
+      const result = allocateLandedCosts([line('a', 2, 5)], total);
+      expect(result.totalChargesGBP).toBe(0);
+      expect(result.lines).toEqual([{ lineId: 'a', allocatedGBP: 0, landedUnitCostGBP: 5 }]);
+    }
+  });
+
+  it('keeps the supplier cost on lines with no quantity', () => {
+    const result = allocateLandedCosts([line('a', 0, 4), line('b', 2, 1)], 6, 'quantity');
+
+    expect(result.lines[0]).toEqual({ lineId: 'a', allocatedGBP: 0, landedUnitCostGBP: 4 });
+    expect(result.lines[1].allocatedGBP).toBe(6);
+  });
+});
+
+describe('landed cost guards', () => {
+  it('accepts only known methods and kinds', () => {
+    expect(isLandedCostMethod('weight')).toBe(true);
+    expect(isLandedCostMethod('volume')).toBe(false);
+    expect(isLandedCostMethod(undefined)).toBe(false);
+    expect(isLandedCostKind('duty')).toBe(true);
+    expect(isLandedCostKind('tax')).toBe(false);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Landed-cost allocation.
+ *
+ * Spreads invoice-level charges (shipping, freight, handling, duty, brokerage)
+ * across purchase order lines so that the cost of getting stock into the
+ * warehouse ends up in each product's average cost, not just the supplier price.
+ */
+
+export type LandedCostMethod = 'value' | 'quantity' | 'weight';
+
+export const LANDED_COST_METHODS: LandedCostMethod[] = ['value', 'quantity', 'weight'];
+
+export type LandedCostKind = 'shipping' | 'freight' | 'handling' | 'duty' | 'brokerage' | 'other';
+
+export const LANDED_COST_KINDS: LandedCostKind[] = [
+  'shipping',
+  'freight',
+  'handling',
+  'duty',
+  'brokerage',
+  'other',
+];
+
+export interface LandedCostCharge {
+  id: string;
+  purchaseOrderId: string;
+  kind: LandedCostKind;
+  description: string | null;
+  amountGBP: number;
+  createdAt: string;
+}
+
+export interface AllocatableLine {
+  id: string;
+  quantity: number;
+  unitCostExVAT: number;
+  lineTotalExVAT: number;
+  weightKg?: number | null;
+}
+
+export interface LineAllocation {
+  lineId: string;
+  allocatedGBP: number;
+  landedUnitCostGBP: number;
+}
+
+export interface LandedCostAllocation {
+  /** Method actually used – may differ from the requested one when its basis is all zero */
+  method: LandedCostMethod;
+  totalChargesGBP: number;
+  lines: LineAllocation[];
+}
+
+export function isLandedCostMethod(value: unknown): value is LandedCostMethod {
+  return typeof value === 'string' && (LANDED_COST_METHODS as string[]).includes(value);
+}
+
+export function isLandedCostKind(value: unknown): value is LandedCostKind {
+  return typeof value === 'string' && (LANDED_COST_KINDS as string[]).includes(value);
+}
+
+function toPositive(value: unknown): number {
+  const num = Number(value);
+  return Number.isFinite(num) && num > 0 ? num : 0;
+}
+
+function basisFor(line: AllocatableLine, method: LandedCostMethod): number {
+  const quantity = toPositive(line.quantity);
+  if (method === 'quantity') return quantity;
+  if (method === 'weight') return toPositive(line.weightKg) * quantity;
+
+  const lineTotal = toPositive(line.lineTotalExVAT);
+  return lineTotal > 0 ? lineTotal : toPositive(line.unitCostExVAT) * quantity;
+}
+
+// Weight falls back to value (lines often have no weights), value falls back to quantity
+function resolveMethod(lines: AllocatableLine[], requested: LandedCostMethod): LandedCostMethod {
+  const order: LandedCostMethod[] =
+    requested === 'weight' ? ['weight', 'value', 'quantity'] : requested === 'value' ? ['value', 'quantity'] : ['quantity'];
+
+  for (const method of order) {
+    const total = lines.reduce((sum, line) => sum + basisFor(line, method), 0);
+    if (total > 0) return method;
+  }
+  return requested;
+}
+
+/**
+ * Allocate a total of extra charges across lines proportionally to the chosen basis.
+ * Rounding residue is pushed onto the largest line so allocations always sum to the total.
+ */
+export function allocateLandedCosts(
+  lines: AllocatableLine[],
+  totalChargesGBP: number,
+  requestedMethod: LandedCostMethod = 'value',
+): LandedCostAllocation {
+  const total = Number.isFinite(totalChargesGBP) && totalChargesGBP > 0
+    ? Number(totalChargesGBP.toFixed(2))
+    : 0;
+  const method = resolveMethod(lines, requestedMethod);
+  const bases = lines.map((line) => basisFor(line, method));
+  const basisTotal = bases.reduce((sum, b) => sum + b, 0);
+
+  const allocated = lines.map((_, idx) =>
+    total > 0 && basisTotal > 0 ? Number(((total * bases[idx]) / basisTotal).toFixed(2)) : 0,
+  );
+
+  const residue = Number((total - allocated.reduce((sum, a) => sum + a, 0)).toFixed(2));
+  if (residue !== 0 && basisTotal > 0) {
+    let largest = 0;
+    for (let i = 1; i < bases.length; i++) {
+      if (bases[i] > bases[largest]) largest = i;
+    }
+    allocated[largest] = Number((allocated[largest] + residue).toFixed(2));
+  }
+
+  return {
+    method,
+    totalChargesGBP: total,
+    lines: lines.map((line, idx) => {
+      const quantity = toPositive(line.quantity);
+      const unitCost = Number.isFinite(Number(line.unitCostExVAT)) && Number(line.unitCostExVAT) >= 0
+        ? Number(line.unitCostExVAT)
+        : 0;
+      const landedUnitCostGBP = quantity > 0
+        ? Number((unitCost + allocated[idx] / quantity).toFixed(4))
+        : Number(unitCost.toFixed(4));
+
+      return {
+        lineId: line.id,
+        allocatedGBP: allocated[idx],
+        landedUnitCostGBP,
+      };
+    }),
+  };
+}
@@ -0,0 +1,337 @@
+/**
+ * Purchasing documents.
+ *
+ * The outbound purchase order we send to the supplier, the goods received
+ * note printed for each delivery and the return note that goes back with
+ * returned stock. PO amounts are shown in the currency agreed
+ * with the supplier: the original invoice currency when the PO was converted
+ * to GBP, otherwise the PO's own currency.
+ */
+
+import { jsPDF } from 'jspdf';
+import { autoTable } from 'jspdf-autotable';
+import type { GoodsReceivedNote, POLine, PurchaseOrder, Supplier, SupplierReturn } from './db';
+
+export interface CompanyDetails {
+  name: string | null;
+  address: string | null;
+  email: string | null;
+  phone: string | null;
+  vatNumber: string | null;
+}
+
+export interface PurchaseOrderPdfInput {
+  company: CompanyDetails;
+  supplier: Pick<Supplier, 'name' | 'address' | 'email' | 'phone'>;
+  purchaseOrder: PurchaseOrder;
+  lines: POLine[];
+}
+
+const MARGIN = 15;
+const ACCENT: [number, number, number] = [217, 119, 6]; // amber-600
+
+// Reference printed on the document: the PO number if one was entered, else derived from the id
+export function purchaseOrderReference(po: Pick<PurchaseOrder, 'id' | 'invoiceNumber'>): string {
+  return po.invoiceNumber?.trim() || `PO-${po.id.slice(0, 8).toUpperCase()}`;
+}
+
+function documentCurrency(po: PurchaseOrder): { code: string; useOriginal: boolean } {
+  const source = po.sourceCurrency?.toUpperCase();
+  if (source && source !== 'GBP' && po.fxRate) {
+    return { code: source, useOriginal: true };
+  }
+  return { code: (po.currency || 'GBP').toUpperCase(), useOriginal: false };
+}
+
+function formatMoney(value: number | null | undefined, currency: string): string {
+  const amount = Number(value ?? 0);
+  try {
+    return new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(amount);
+  } catch {
+    // Unknown ISO code – fall back to a plain amount with the code
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+function formatDate(value: string | null | undefined): string {
+  if (!value) return '';
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
+function textBlock(lines: Array<string | null | undefined>): string[] {
+  return lines
+    .flatMap((line) => (line ? line.split(/\r?\n/) : []))
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+function lastTableEnd(doc: jsPDF, fallback: number): number {
+  return (doc as unknown as { lastAutoTable?: { finalY?: number } }).lastAutoTable?.finalY ?? fallback;
+}
+
+// Company block top-left and document title top-right; returns the y below the header
+function drawHeader(doc: jsPDF, company: CompanyDetails, title: string, details: string[]): number {
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  doc.setFillColor(...ACCENT);
+  doc.rect(0, 0, pageWidth, 4, 'F');
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.setTextColor(28, 25, 23);
+  doc.text(company.name || title, MARGIN, 18);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(87, 83, 78);
+  const companyLines = textBlock([
+    company.address,
+    company.email,
+    company.phone,
+    company.vatNumber ? `VAT No. ${company.vatNumber}` : null,
+  ]);
+  doc.text(companyLines, MARGIN, 24);
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.setTextColor(...ACCENT);
+  doc.text(title.toUpperCase(), pageWidth - MARGIN, 18, { align: 'right' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(87, 83, 78);
+  doc.text(details, pageWidth - MARGIN, 24, { align: 'right' });
+
+  return Math.max(24 + companyLines.length * 4, 24 + details.length * 4, 44) + 6;
+}
+
+// Labelled block of text lines; returns the y below it
+function drawBlock(doc: jsPDF, label: string, lines: string[], x: number, y: number): number {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.setTextColor(28, 25, 23);
+  doc.text(label, x, y);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(68, 64, 60);
+  doc.text(lines, x, y + 5);
+
+  return y + 9 + lines.length * 4;
+}
+
+export function renderPurchaseOrderPdf(input: PurchaseOrderPdfInput): ArrayBuffer {
+  const { company, supplier, purchaseOrder: po, lines } = input;
+  const { code: currency, useOriginal } = documentCurrency(po);
+
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  const headerEnd = drawHeader(doc, company, 'Purchase Order', [
+    `Reference: ${purchaseOrderReference(po)}`,
+    `Date: ${formatDate(po.invoiceDate || po.createdAt)}`,
+    `Currency: ${currency}`,
+    `Payment terms: ${po.paymentTerms || 'As agreed'}`,
+  ]);
+  const supplierEnd = drawBlock(
+    doc,
+    'Supplier',
+    textBlock([supplier.name, supplier.address, supplier.email, supplier.phone]),
+    MARGIN,
+    headerEnd,
+  );
+
+  // Lines
+  const unitCost = (line: POLine) => (useOriginal ? line.originalUnitCost ?? line.unitCostExVAT / po.fxRate! : line.unitCostExVAT);
+  const lineTotal = (line: POLine) => (useOriginal ? line.originalLineTotal ?? line.lineTotalExVAT / po.fxRate! : line.lineTotalExVAT);
+
+  autoTable(doc, {
+    startY: supplierEnd,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [['SKU', 'Description', 'Qty', `Unit cost (${currency})`, `Total (${currency})`]],
+    body: lines.map((line) => [
+      line.supplierSku || '',
+      line.description,
+      String(line.quantity),
+      formatMoney(unitCost(line), currency),
+      formatMoney(lineTotal(line), currency),
+    ]),
+    theme: 'striped',
+    headStyles: { fillColor: ACCENT, textColor: 255, fontStyle: 'bold' },
+    styles: { fontSize: 9, cellPadding: 2 },
+    columnStyles: {
+      0: { cellWidth: 30 },
+      2: { halign: 'right', cellWidth: 15 },
+      3: { halign: 'right', cellWidth: 32 },
+      4: { halign: 'right', cellWidth: 32 },
+    },
+  });
+
+  // Totals (ex VAT unless the PO carries VAT)
+  const amount = (original: number | null | undefined, gbp: number | null) =>
+    useOriginal ? original ?? (gbp != null ? gbp / po.fxRate! : null) : gbp;
+  const subtotal = amount(po.originalSubtotal, po.subtotalExVAT) ?? lines.reduce((sum, line) => sum + lineTotal(line), 0);
+  const extras = amount(po.originalExtras, po.extras);
+  const vat = amount(po.originalVat, po.vat);
+  const total = amount(po.originalTotal, po.totalAmount) ?? subtotal + (extras ?? 0) + (vat ?? 0);
+
+  const totalsRows: string[][] = [['Subtotal (ex VAT)', formatMoney(subtotal, currency)]];
+  if (extras) totalsRows.push(['Shipping & extras', formatMoney(extras, currency)]);
+  if (vat) totalsRows.push(['VAT', formatMoney(vat, currency)]);
+  totalsRows.push(['Total', formatMoney(total, currency)]);
+
+  const tableEnd = lastTableEnd(doc, 100);
+  autoTable(doc, {
+    startY: tableEnd + 4,
+    margin: { left: pageWidth - MARGIN - 80, right: MARGIN },
+    body: totalsRows,
+    theme: 'plain',
+    styles: { fontSize: 9, cellPadding: 1.5 },
+    columnStyles: { 1: { halign: 'right' } },
+    didParseCell: (data) => {
+      if (data.row.index === totalsRows.length - 1) data.cell.styles.fontStyle = 'bold';
+    },
+  });
+
+  if (po.notes) {
+    drawBlock(doc, 'Notes', doc.splitTextToSize(po.notes, pageWidth - MARGIN * 2), MARGIN, lastTableEnd(doc, tableEnd) + 8);
+  }
+
+  return doc.output('arraybuffer');
+}
+
+export interface GoodsReceivedNotePdfInput {
+  company: CompanyDetails;
+  supplier: Pick<Supplier, 'name' | 'address'> | null;
+  purchaseOrder: Pick<PurchaseOrder, 'id' | 'invoiceNumber'>;
+  note: GoodsReceivedNote;
+}
+
+// Delivery record: what arrived against what was expected, per line, with a signature box
+export function renderGoodsReceivedNotePdf(input: GoodsReceivedNotePdfInput): ArrayBuffer {
+  const { company, supplier, purchaseOrder, note } = input;
+
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  const headerEnd = drawHeader(doc, company, 'Goods Received Note', [
+    `GRN: ${note.grnNumber}`,
+    `Purchase order: ${purchaseOrderReference(purchaseOrder)}`,
+    `Received: ${formatDate(note.receivedAt)}`,
+  ]);
+  const supplierEnd = supplier
+    ? drawBlock(doc, 'Supplier', textBlock([supplier.name, supplier.address]), MARGIN, headerEnd)
+    : headerEnd;
+
+  const shortfallLabel = (line: GoodsReceivedNote['lines'][number]) =>
+    line.shortQuantity > 0 ? (line.shortfallAction === 'write_off' ? 'Written off' : 'Still due') : '';
+
+  autoTable(doc, {
+    startY: supplierEnd,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [['Description', 'Expected', 'Received', 'Damaged', 'Short', 'Over', 'Accepted', 'Shortfall', 'Note']],
+    body: note.lines.map((line) => [
+      line.description || '',
+      String(line.expectedQuantity),
+      String(line.receivedQuantity),
+      line.damagedQuantity ? String(line.damagedQuantity) : '',
+      line.shortQuantity ? String(line.shortQuantity) : '',
+      line.overQuantity ? String(line.overQuantity) : '',
+      String(line.acceptedQuantity),
+      shortfallLabel(line),
+      [line.note, line.photoUrl ? 'Photo on file' : null].filter(Boolean).join('\n'),
+    ]),
+    theme: 'striped',
+    headStyles: { fillColor: ACCENT, textColor: 255, fontStyle: 'bold', fontSize: 8 },
+    styles: { fontSize: 8, cellPadding: 1.5 },
+    columnStyles: {
+      1: { halign: 'right' },
+      2: { halign: 'right' },
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+      5: { halign: 'right' },
+      6: { halign: 'right' },
+      8: { cellWidth: 35 },
+    },
+  });
+
+  let y = lastTableEnd(doc, 100) + 8;
+  if (note.notes) {
+    y = drawBlock(doc, 'Delivery notes', doc.splitTextToSize(note.notes, pageWidth - MARGIN * 2), MARGIN, y) + 4;
+  }
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(68, 64, 60);
+  doc.text('Received by:', MARGIN, y + 8);
+  doc.line(MARGIN + 22, y + 8, MARGIN + 90, y + 8);
+  doc.text('Signature:', pageWidth / 2, y + 8);
+  doc.line(pageWidth / 2 + 18, y + 8, pageWidth - MARGIN, y + 8);
+
+  return doc.output('arraybuffer');
+}
+
+export interface SupplierReturnPdfInput {
+  company: CompanyDetails;
+  supplier: Pick<Supplier, 'name' | 'address'> | null;
+  purchaseOrder: Pick<PurchaseOrder, 'id' | 'invoiceNumber'>;
+  supplierReturn: SupplierReturn;
+}
+
+// Return note sent with goods going back to the supplier (or cancelling undelivered units)
+export function renderSupplierReturnPdf(input: SupplierReturnPdfInput): ArrayBuffer {
+  const { company, supplier, purchaseOrder, supplierReturn } = input;
+
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  const headerEnd = drawHeader(doc, company, 'Return Note', [
+    `Return: ${supplierReturn.returnNumber}`,
+    `Purchase order: ${purchaseOrderReference(purchaseOrder)}`,
+    `Date: ${formatDate(supplierReturn.returnedAt)}`,
+  ]);
+  const supplierEnd = supplier
+    ? drawBlock(doc, 'Return to', textBlock([supplier.name, supplier.address]), MARGIN, headerEnd)
+    : headerEnd;
+
+  autoTable(doc, {
+    startY: supplierEnd,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [['Description', 'Type', 'Qty', 'Unit cost (GBP)', 'Value (GBP)']],
+    body: supplierReturn.lines.map((line) => [
+      line.description || '',
+      line.source === 'transit' ? 'Cancel undelivered' : 'Returned goods',
+      String(line.quantity),
+      formatMoney(line.unitCostGBP, 'GBP'),
+      formatMoney(line.valueGBP, 'GBP'),
+    ]),
+    foot: [['', '', '', 'Credit requested', formatMoney(supplierReturn.totalValueGBP, 'GBP')]],
+    theme: 'striped',
+    headStyles: { fillColor: ACCENT, textColor: 255, fontStyle: 'bold' },
+    footStyles: { fillColor: [245, 245, 244], textColor: [28, 25, 23], fontStyle: 'bold' },
+    styles: { fontSize: 9, cellPadding: 2 },
+    columnStyles: {
+      2: { halign: 'right', cellWidth: 15 },
+      3: { halign: 'right', cellWidth: 32 },
+      4: { halign: 'right', cellWidth: 32 },
+    },
+  });
+
+  let y = lastTableEnd(doc, 100) + 8;
+  const details = textBlock([
+    supplierReturn.reason ? `Reason: ${supplierReturn.reason}` : null,
+    supplierReturn.notes,
+  ]);
+  if (details.length > 0) {
+    y = drawBlock(doc, 'Details', doc.splitTextToSize(details.join('\n'), pageWidth - MARGIN * 2), MARGIN, y) + 4;
+  }
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(68, 64, 60);
+  doc.text('Please issue a credit note quoting the return number above.', MARGIN, y + 4);
+
+  return doc.output('arraybuffer');
+}
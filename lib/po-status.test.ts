@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PO_STATUSES,
+  PO_STATUS_TIMESTAMP_COLUMNS,
+  PO_STATUS_TRANSITIONS,
+  canTransitionPurchaseOrder,
+  isPurchaseOrderStatus,
+  mapStatusTimestamps,
+} from './po-status';
+
+describe('purchase order status transitions', () => {
+  it('follows the lifecycle forwards', () => {
+    expect(canTransitionPurchaseOrder('draft', 'ordered')).toBe(true);
+    expect(canTransitionPurchaseOrder('ordered', 'shipped')).toBe(true);
+    expect(canTransitionPurchaseOrder('shipped', 'partially_received')).toBe(true);
+    expect(canTransitionPurchaseOrder('partially_received', 'received')).toBe(true);
+    expect(canTransitionPurchaseOrder('received', 'closed')).toBe(true);
+  });
+
+  it('lets an order skip straight to receiving', () => {
+    expect(canTransitionPurchaseOrder('ordered', 'received')).toBe(true);
+    expect(canTransitionPurchaseOrder('ordered', 'partially_received')).toBe(true);
+  });
+
+  it('never goes backwards', () => {
+    expect(canTransitionPurchaseOrder('ordered', 'draft')).toBe(false);
+    expect(canTransitionPurchaseOrder('received', 'shipped')).toBe(false);
+    expect(canTransitionPurchaseOrder('closed', 'received')).toBe(false);
+  });
+
+  it('only cancels before stock starts arriving', () => {
+    const cancellable = PO_STATUSES.filter((s) => canTransitionPurchaseOrder(s, 'cancelled'));
+    expect(cancellable).toEqual(['draft', 'ordered', 'shipped']);
+  });
+
+  it('treats closed and cancelled as final', () => {
+    expect(PO_STATUS_TRANSITIONS.closed).toEqual([]);
+    expect(PO_STATUS_TRANSITIONS.cancelled).toEqual([]);
+  });
+
+  it('has no self-transitions and only known targets', () => {
+    for (const from of PO_STATUSES) {
+      expect(canTransitionPurchaseOrder(from, from)).toBe(false);
+      for (const to of PO_STATUS_TRANSITIONS[from]) {
+        expect(isPurchaseOrderStatus(to)).toBe(true);
+      }
+    }
+  });
+
+  it('has a timestamp column for every state a transition can enter', () => {
+    const targets = new Set(PO_STATUSES.flatMap((s) => PO_STATUS_TRANSITIONS[s]));
+    for (const target of targets) {
+      expect(PO_STATUS_TIMESTAMP_COLUMNS[target as keyof typeof PO_STATUS_TIMESTAMP_COLUMNS]).toBeTruthy();
+    }
+  });
+});
+
+describe('isPurchaseOrderStatus', () => {
+  it('rejects unknown values', () => {
+    expect(isPurchaseOrderStatus('ordered')).toBe(true);
+    expect(isPurchaseOrderStatus('Ordered')).toBe(false);
+    expect(isPurchaseOrderStatus('open')).toBe(false);
+    expect(isPurchaseOrderStatus(null)).toBe(false);
+  });
+});
+
+describe('mapStatusTimestamps', () => {
+  it('maps set columns and nulls the rest', () => {
+    expect(
+      mapStatusTimestamps({ ordered_at: '2026-10-01T09:00:00Z', shipped_at: null, received_at: 42 }),
+    ).toEqual({
+      orderedAt: '2026-10-01T09:00:00Z',
+      shippedAt: null,
+      partiallyReceivedAt: null,
+      receivedAt: null,
+      closedAt: null,
+      cancelledAt: null,
+    });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Purchase order lifecycle.
+ *
+ * draft → ordered → shipped → partially received → received → closed,
+ * with cancellation possible until stock starts arriving. Each state has
+ * its own timestamp column on purchaseorders (draft uses created_at).
+ */
+
+export type PurchaseOrderStatus =
+  | 'draft'
+  | 'ordered'
+  | 'shipped'
+  | 'partially_received'
+  | 'received'
+  | 'closed'
+  | 'cancelled';
+
+export const PO_STATUSES: PurchaseOrderStatus[] = [
+  'draft',
+  'ordered',
+  'shipped',
+  'partially_received',
+  'received',
+  'closed',
+  'cancelled',
+];
+
+// Allowed next states for each state. Receiving states can be skipped over
+// (an order can arrive in one go without ever being marked shipped).
+export const PO_STATUS_TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ['ordered', 'cancelled'],
+  ordered: ['shipped', 'partially_received', 'received', 'cancelled'],
+  shipped: ['partially_received', 'received', 'cancelled'],
+  partially_received: ['received', 'closed'],
+  received: ['closed'],
+  closed: [],
+  cancelled: [],
+};
+
+// DB column holding the time each state was entered
+export const PO_STATUS_TIMESTAMP_COLUMNS: Record<Exclude<PurchaseOrderStatus, 'draft'>, string> = {
+  ordered: 'ordered_at',
+  shipped: 'shipped_at',
+  partially_received: 'partially_received_at',
+  received: 'received_at',
+  closed: 'closed_at',
+  cancelled: 'cancelled_at',
+};
+
+export interface PurchaseOrderStatusTimestamps {
+  orderedAt: string | null;
+  shippedAt: string | null;
+  partiallyReceivedAt: string | null;
+  receivedAt: string | null;
+  closedAt: string | null;
+  cancelledAt: string | null;
+}
+
+export function isPurchaseOrderStatus(value: unknown): value is PurchaseOrderStatus {
+  return typeof value === 'string' && (PO_STATUSES as string[]).includes(value);
+}
+
+export function canTransitionPurchaseOrder(from: PurchaseOrderStatus, to: PurchaseOrderStatus): boolean {
+  return PO_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Map a purchaseorders row's timestamp columns to camelCase
+export function mapStatusTimestamps(row: Record<string, unknown>): PurchaseOrderStatusTimestamps {
+  const value = (column: string) => (typeof row[column] === 'string' ? (row[column] as string) : null);
+  return {
+    orderedAt: value('ordered_at'),
+    shippedAt: value('shipped_at'),
+    partiallyReceivedAt: value('partially_received_at'),
+    receivedAt: value('received_at'),
+    closedAt: value('closed_at'),
+    cancelledAt: value('cancelled_at'),
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Stock adjustments.
+ *
+ * Changes to on-hand that aren't a purchase, sale, import or supplier return,
+ * always with a reason. Losses take stock out, found stock adds it back and a
+ * correction (a recount) can go either way. Each adjustment is valued at the
+ * product's average cost when it's made, so shrinkage can be reported in money.
+ */
+
+export type StockAdjustmentReason =
+  | 'damaged'
+  | 'lost'
+  | 'theft'
+  | 'sample'
+  | 'found'
+  | 'correction'
+  | 'write_off';
+
+export const STOCK_ADJUSTMENT_REASONS: StockAdjustmentReason[] = [
+  'damaged',
+  'lost',
+  'theft',
+  'sample',
+  'found',
+  'correction',
+  'write_off',
+];
+
+// Which way each reason moves stock
+export const STOCK_ADJUSTMENT_DIRECTIONS: Record<StockAdjustmentReason, 'decrease' | 'increase' | 'either'> = {
+  damaged: 'decrease',
+  lost: 'decrease',
+  theft: 'decrease',
+  sample: 'decrease',
+  found: 'increase',
+  correction: 'either',
+  write_off: 'decrease',
+};
+
+// Stock that went missing or was spoiled, as opposed to given away on purpose or recounted
+export const SHRINKAGE_REASONS: StockAdjustmentReason[] = ['damaged', 'lost', 'theft', 'write_off'];
+
+export type StockAdjustmentPeriod = 'day' | 'week' | 'month';
+
+export const STOCK_ADJUSTMENT_PERIODS: StockAdjustmentPeriod[] = ['day', 'week', 'month'];
+
+export function isStockAdjustmentReason(value: unknown): value is StockAdjustmentReason {
+  return typeof value === 'string' && (STOCK_ADJUSTMENT_REASONS as string[]).includes(value);
+}
+
+export function isStockAdjustmentPeriod(value: unknown): value is StockAdjustmentPeriod {
+  return typeof value === 'string' && (STOCK_ADJUSTMENT_PERIODS as string[]).includes(value);
+}
+
+// Why `quantityDelta` doesn't suit `reason`, or null when it does
+export function stockAdjustmentDirectionError(reason: StockAdjustmentReason, quantityDelta: number): string | null {
+  if (quantityDelta === 0) {
+    return 'quantityDelta must not be zero';
+  }
+  const direction = STOCK_ADJUSTMENT_DIRECTIONS[reason];
+  if (direction === 'decrease' && quantityDelta > 0) {
+    return `A ${reason.replace('_', '-')} adjustment must reduce stock`;
+  }
+  if (direction === 'increase' && quantityDelta < 0) {
+    return `A ${reason.replace('_', '-')} adjustment must add stock`;
+  }
+  return null;
+}
@@ -1,4 +1,6 @@
 import { serverSupabase as supabase } from './supabase-server';
+import { recordInvoiceFileFingerprints } from './db';
+import { fingerprintFiles } from './file-fingerprint';
 
 const BUCKET_NAME = 'po-invoices';
 
@@ -24,9 +26,96 @@ export async function uploadInvoiceImage(file: File, purchaseOrderId: string): P
   return publicUrlData.publicUrl;
 }
 
-export async function uploadInvoiceImages(files: File[], purchaseOrderId: string): Promise<string[]> {
+export async function uploadInvoiceImages(files: File[], purchaseOrderId: string, userId?: string): Promise<string[]> {
   const uploadPromises = files.map(file => uploadInvoiceImage(file, purchaseOrderId));
-  return Promise.all(uploadPromises);
+  const urls = await Promise.all(uploadPromises);
+
+  // Fingerprint the stored files so a later re-upload of the same invoice is caught before extraction
+  if (userId) {
+    try {
+      await recordInvoiceFileFingerprints({ files: await fingerprintFiles(files), purchaseOrderId, user_id: userId });
+    } catch (error) {
+      console.error('Failed to fingerprint invoice files:', error);
+    }
+  }
+
+  return urls;
+}
+
+// Delivery photos (damage, packaging) are kept alongside invoices, under grn/<grnId>/
+export async function uploadGoodsReceivedPhoto(file: File, grnId: string): Promise<string> {
+  const fileExt = file.name.split('.').pop();
+  const fileName = `grn/${grnId}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from(BUCKET_NAME)
+    .upload(fileName, file, {
+      cacheControl: '3600',
+      upsert: false,
+    });
+
+  if (error) {
+    throw new Error(`Failed to upload photo: ${error.message}`);
+  }
+
+  const { data: publicUrlData } = supabase.storage
+    .from(BUCKET_NAME)
+    .getPublicUrl(fileName);
+
+  return publicUrlData.publicUrl;
+}
+
+export interface StoredFile {
+  path: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+// Uploads waiting for background extraction, under extraction-jobs/<jobId>/
+export async function uploadExtractionJobFiles(files: File[], jobId: string): Promise<StoredFile[]> {
+  return Promise.all(files.map(async (file, index) => {
+    const fileExt = file.name.split('.').pop();
+    const path = `extraction-jobs/${jobId}/${index}.${fileExt}`;
+
+    const { error } = await supabase.storage
+      .from(BUCKET_NAME)
+      .upload(path, file, {
+        cacheControl: '3600',
+        contentType: file.type || undefined,
+        upsert: false,
+      });
+
+    if (error) {
+      throw new Error(`Failed to upload file: ${error.message}`);
+    }
+
+    return { path, name: file.name, type: file.type, size: file.size };
+  }));
+}
+
+export async function downloadStoredFile(path: string): Promise<Buffer> {
+  const { data, error } = await supabase.storage.from(BUCKET_NAME).download(path);
+
+  if (error || !data) {
+    throw new Error(`Failed to download file: ${error?.message}`);
+  }
+
+  return Buffer.from(await data.arrayBuffer());
+}
+
+export function getStoredFileUrl(path: string): string {
+  return supabase.storage.from(BUCKET_NAME).getPublicUrl(path).data.publicUrl;
+}
+
+export async function deleteStoredFiles(paths: string[]): Promise<void> {
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(BUCKET_NAME).remove(paths);
+
+  if (error) {
+    console.error('Failed to delete files:', error);
+  }
 }
 
 export async function deleteInvoiceImages(imageUrls: string[]): Promise<void> {
@@ -0,0 +1,50 @@
+/**
+ * Supplier return valuation.
+ *
+ * Returned stock leaves at the cost it was bought at (the PO line's landed cost),
+ * not at today's average, so the purchase is reversed rather than re-priced.
+ * Whatever value remains is spread over the units left on hand.
+ */
+
+export type ReturnSource = 'on_hand' | 'transit';
+
+export const RETURN_SOURCES: ReturnSource[] = ['on_hand', 'transit'];
+
+export function isReturnSource(value: unknown): value is ReturnSource {
+  return typeof value === 'string' && (RETURN_SOURCES as string[]).includes(value);
+}
+
+export interface OnHandReturnValuation {
+  newQuantityOnHand: number;
+  newAverageCostGBP: number;
+  /** Stock value taken out by the return */
+  valueRemovedGBP: number;
+}
+
+export function computeOnHandReturn(params: {
+  quantityOnHand: number;
+  averageCostGBP: number;
+  returnQuantity: number;
+  unitCostGBP: number;
+}): OnHandReturnValuation {
+  const { quantityOnHand, averageCostGBP, returnQuantity, unitCostGBP } = params;
+  if (returnQuantity > quantityOnHand) {
+    throw new Error(`Only ${quantityOnHand} on hand to return`);
+  }
+
+  const currentValue = quantityOnHand * averageCostGBP;
+  const newQuantityOnHand = quantityOnHand - returnQuantity;
+  // Never take out more value than is on the books; returning everything takes all of it
+  const valueRemovedGBP = newQuantityOnHand > 0
+    ? Math.min(returnQuantity * unitCostGBP, currentValue)
+    : currentValue;
+  const newAverageCostGBP = newQuantityOnHand > 0
+    ? Number(((currentValue - valueRemovedGBP) / newQuantityOnHand).toFixed(4))
+    : 0;
+
+  return {
+    newQuantityOnHand,
+    newAverageCostGBP,
+    valueRemovedGBP: Number(valueRemovedGBP.toFixed(2)),
+  };
+}
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeThreeWayMatch,
+  linkInvoiceLinesToPOLines,
+  type MatchInvoiceLine,
+  type MatchPOLine,
+} from './three-way-match';
+
+const poLines: MatchPOLine[] = [
+  { id: 'po-1', description: 'Booster Box', supplierSku: 'BB-01', quantity: 10, unitCostExVAT: 5 },
+  { id: 'po-2', description: 'Sleeves', supplierSku: null, quantity: 4, unitCostExVAT: 2 },
+];
+
+const invoiceLine = (overrides: Partial<MatchInvoiceLine>): MatchInvoiceLine => ({
+  id: 'inv-1',
+  poLineId: 'po-1',
+  description: 'Booster Box',
+  supplierSku: 'BB-01',
+  quantity: 10,
+  unitCostExVAT: 5,
+  lineTotalExVAT: 50,
+  ...overrides,
+});
+
+const noTotals = { subtotalExVAT: null, extras: null, vat: null, totalAmount: null };
+
+describe('computeThreeWayMatch', () => {
+  it('matches when ordered, received and invoiced agree', () => {
+    const result = computeThreeWayMatch({
+      poLines,
+      receivedByLineId: { 'po-1': 10, 'po-2': 4 },
+      invoiceLines: [
+        invoiceLine({}),
+        invoiceLine({ id: 'inv-2', poLineId: 'po-2', description: 'Sleeves', quantity: 4, unitCostExVAT: 2, lineTotalExVAT: 8 }),
+      ],
+      invoiceTotals: { subtotalExVAT: 58, extras: 5, vat: 12.6, totalAmount: 75.6 },
+    });
+
+    expect(result.status).toBe('matched');
+    expect(result.discrepancies).toEqual([]);
+    expect(result.totals).toEqual({ orderedGBP: 58, receivedGBP: 58, invoicedGBP: 58, atRiskGBP: 0 });
+  });
+
+  it('flags goods billed but not received as money at risk', () => {
+    const result = computeThreeWayMatch({
+      poLines: [poLines[0]],
+      receivedByLineId: { 'po-1': 6 },
+      invoiceLines: [invoiceLine({})],
+      invoiceTotals: noTotals,
+    });
+
+    expect(result.status).toBe('discrepancy');
+    expect(result.discrepancies.map((d) => [d.kind, d.expected, d.actual, d.amountGBP])).toEqual([
+      ['unreceived', 6, 10, 20],
+    ]);
+    expect(result.totals.atRiskGBP).toBe(20);
+  });
+
+  it('flags received goods that were not billed', () => {
+    const result = computeThreeWayMatch({
+      poLines: [poLines[0]],
+      receivedByLineId: { 'po-1': 10 },
+      invoiceLines: [invoiceLine({ quantity: 7, lineTotalExVAT: 35 })],
+      invoiceTotals: noTotals,
+    });
+
+    expect(result.discrepancies.map((d) => [d.kind, d.amountGBP])).toEqual([['unbilled', -15]]);
+    expect(result.totals.atRiskGBP).toBe(0);
+  });
+
+  it('allows price differences within the tolerance', () => {
+    const within = computeThreeWayMatch({
+      poLines: [poLines[0]],
+      receivedByLineId: { 'po-1': 10 },
+      invoiceLines: [invoiceLine({ unitCostExVAT: 5.1, lineTotalExVAT: 51 })],
+      invoiceTotals: noTotals,
+    });
+    expect(within.status).toBe('matched');
+
+    const beyond = computeThreeWayMatch({
+      poLines: [poLines[0]],
+      receivedByLineId: { 'po-1': 10 },
+      invoiceLines: [invoiceLine({ unitCostExVAT: 5.2, lineTotalExVAT: 52 })],
+      invoiceTotals: noTotals,
+    });
+    expect(beyond.discrepancies.map((d) => [d.kind, d.expected, d.actual, d.amountGBP])).toEqual([
+      ['price_variance', 5, 5.2, 2],
+    ]);
+  });
+
+  it('flags invoicing beyond the ordered quantity', () => {
+    const result = computeThreeWayMatch({
+      poLines: [poLines[0]],
+      receivedByLineId: { 'po-1': 12 },
+      invoiceLines: [invoiceLine({ quantity: 12, lineTotalExVAT: 60 })],
+      invoiceTotals: noTotals,
+    });
+
+    expect(result.discrepancies.map((d) => d.kind)).toEqual(['quantity_variance']);
+    expect(result.discrepancies[0].amountGBP).toBe(10);
+  });
+
+  it('honours a custom quantity tolerance', () => {
+    const result = computeThreeWayMatch({
+      poLines: [poLines[0]],
+      receivedByLineId: { 'po-1': 9 },
+      invoiceLines: [invoiceLine({})],
+      invoiceTotals: noTotals,
+      tolerance: { quantityUnits: 1 },
+    });
+
+    expect(result.status).toBe('matched');
+    expect(result.tolerance).toEqual({ pricePercent: 2, quantityUnits: 1, amountGBP: 1 });
+  });
+
+  it('flags billed items that are not on the order', () => {
+    const result = computeThreeWayMatch({
+      poLines: [poLines[0]],
+      receivedByLineId: { 'po-1': 10 },
+      invoiceLines: [
+        invoiceLine({}),
+        invoiceLine({ id: 'inv-9', poLineId: null, description: 'Playmat', supplierSku: null, quantity: 1, unitCostExVAT: 12, lineTotalExVAT: 12 }),
+      ],
+      invoiceTotals: noTotals,
+    });
+
+    expect(result.discrepancies.map((d) => [d.kind, d.invoiceLineId, d.amountGBP])).toEqual([
+      ['not_on_order', 'inv-9', 12],
+    ]);
+    expect(result.totals.atRiskGBP).toBe(12);
+    expect(result.lines.at(-1)).toMatchObject({ poLineId: null, invoicedQuantity: 1, poUnitCost: null });
+  });
+
+  it('checks the invoice total against its lines, extras and VAT', () => {
+    const result = computeThreeWayMatch({
+      poLines: [poLines[0]],
+      receivedByLineId: { 'po-1': 10 },
+      invoiceLines: [invoiceLine({})],
+      invoiceTotals: { subtotalExVAT: 50, extras: 5, vat: 11, totalAmount: 70 },
+    });
+
+    expect(result.discrepancies.map((d) => [d.kind, d.expected, d.actual, d.amountGBP])).toEqual([
+      ['total_variance', 66, 70, 4],
+    ]);
+  });
+});
+
+describe('linkInvoiceLinesToPOLines', () => {
+  it('links by supplier SKU, then description, and uses each PO line once', () => {
+    const linked = linkInvoiceLinesToPOLines(
+      [
+        invoiceLine({ id: 'a', poLineId: null, description: 'Something else', supplierSku: ' bb-01 ' }),
+        invoiceLine({ id: 'b', poLineId: null, description: 'SLEEVES', supplierSku: null }),
+        invoiceLine({ id: 'c', poLineId: null, description: 'Sleeves', supplierSku: null }),
+      ],
+      poLines,
+    );
+
+    expect(linked.map((l) => l.poLineId)).toEqual(['po-1', 'po-2', null]);
+  });
+
+  it('keeps explicit links and does not reuse their PO lines', () => {
+    const linked = linkInvoiceLinesToPOLines(
+      [
+        invoiceLine({ id: 'a', poLineId: null, description: 'Sleeves', supplierSku: null }),
+        invoiceLine({ id: 'b', poLineId: 'po-2', description: 'Card sleeves', supplierSku: null }),
+      ],
+      poLines,
+    );
+
+    expect(linked.map((l) => l.poLineId)).toEqual([null, 'po-2']);
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Three-way match.
+ *
+ * Compares what was ordered (PO lines), what arrived (accepted quantities from
+ * receiving) and what the supplier billed (invoice lines), and reports every
+ * difference beyond the configured tolerance – most importantly, goods that
+ * were invoiced but never received.
+ */
+
+export interface MatchTolerance {
+  /** Unit price difference allowed, as a percentage of the PO unit cost */
+  pricePercent: number;
+  /** Quantity difference allowed, in units */
+  quantityUnits: number;
+  /** Difference allowed between the invoice total and its lines, in GBP */
+  amountGBP: number;
+}
+
+export const DEFAULT_MATCH_TOLERANCE: MatchTolerance = {
+  pricePercent: 2,
+  quantityUnits: 0,
+  amountGBP: 1,
+};
+
+export type DiscrepancyKind =
+  | 'price_variance'
+  | 'quantity_variance'
+  | 'unreceived'
+  | 'unbilled'
+  | 'not_on_order'
+  | 'total_variance';
+
+export interface MatchPOLine {
+  id: string;
+  description: string;
+  supplierSku: string | null;
+  quantity: number;
+  unitCostExVAT: number;
+}
+
+export interface MatchInvoiceLine {
+  id: string;
+  poLineId: string | null;
+  description: string;
+  supplierSku: string | null;
+  quantity: number;
+  unitCostExVAT: number;
+  lineTotalExVAT: number;
+}
+
+export interface MatchInvoiceTotals {
+  subtotalExVAT: number | null;
+  extras: number | null;
+  vat: number | null;
+  totalAmount: number | null;
+}
+
+export interface MatchLineResult {
+  poLineId: string | null;
+  description: string;
+  orderedQuantity: number;
+  receivedQuantity: number;
+  invoicedQuantity: number;
+  poUnitCost: number | null;
+  invoicedUnitCost: number | null;
+}
+
+export interface Discrepancy {
+  kind: DiscrepancyKind;
+  poLineId: string | null;
+  invoiceLineId: string | null;
+  description: string;
+  expected: number;
+  actual: number;
+  /** GBP at stake: positive means we are billed more than we should pay */
+  amountGBP: number;
+  message: string;
+}
+
+export interface ThreeWayMatchResult {
+  status: 'matched' | 'discrepancy';
+  tolerance: MatchTolerance;
+  lines: MatchLineResult[];
+  discrepancies: Discrepancy[];
+  totals: {
+    orderedGBP: number;
+    receivedGBP: number;
+    invoicedGBP: number;
+    /** Invoiced value of goods that have not been received */
+    atRiskGBP: number;
+  };
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const normalize = (value: string | null | undefined) => (value || '').trim().toLowerCase();
+
+// Link invoice lines without an explicit PO line by supplier SKU, then by description
+export function linkInvoiceLinesToPOLines<T extends Omit<MatchInvoiceLine, 'id'>>(
+  invoiceLines: T[],
+  poLines: MatchPOLine[],
+): T[] {
+  const taken = new Set(invoiceLines.map((l) => l.poLineId).filter(Boolean));
+  return invoiceLines.map((line) => {
+    if (line.poLineId) return line;
+
+    const candidates = poLines.filter((p) => !taken.has(p.id));
+    const sku = normalize(line.supplierSku);
+    const match =
+      (sku && candidates.find((p) => normalize(p.supplierSku) === sku)) ||
+      candidates.find((p) => normalize(p.description) === normalize(line.description));
+
+    if (!match) return line;
+    taken.add(match.id);
+    return { ...line, poLineId: match.id };
+  });
+}
+
+export function computeThreeWayMatch(params: {
+  poLines: MatchPOLine[];
+  /** Accepted (good) units per PO line id */
+  receivedByLineId: Record<string, number>;
+  invoiceLines: MatchInvoiceLine[];
+  invoiceTotals: MatchInvoiceTotals;
+  tolerance?: Partial<MatchTolerance>;
+}): ThreeWayMatchResult {
+  const tolerance = { ...DEFAULT_MATCH_TOLERANCE, ...params.tolerance };
+  const discrepancies: Discrepancy[] = [];
+  const lines: MatchLineResult[] = [];
+  let orderedGBP = 0;
+  let receivedGBP = 0;
+  let atRiskGBP = 0;
+
+  for (const poLine of params.poLines) {
+    const billed = params.invoiceLines.filter((l) => l.poLineId === poLine.id);
+    const ordered = poLine.quantity;
+    const received = params.receivedByLineId[poLine.id] ?? 0;
+    const invoiced = billed.reduce((sum, l) => sum + l.quantity, 0);
+    const invoicedValue = billed.reduce((sum, l) => sum + l.lineTotalExVAT, 0);
+    const invoicedUnit = invoiced > 0 ? invoicedValue / invoiced : null;
+
+    orderedGBP += ordered * poLine.unitCostExVAT;
+    receivedGBP += received * poLine.unitCostExVAT;
+
+    lines.push({
+      poLineId: poLine.id,
+      description: poLine.description,
+      orderedQuantity: ordered,
+      receivedQuantity: received,
+      invoicedQuantity: invoiced,
+      poUnitCost: poLine.unitCostExVAT,
+      invoicedUnitCost: invoicedUnit != null ? round2(invoicedUnit) : null,
+    });
+
+    const base = { poLineId: poLine.id, invoiceLineId: billed[0]?.id ?? null, description: poLine.description };
+
+    if (invoicedUnit != null) {
+      const allowed = Math.abs(poLine.unitCostExVAT) * (tolerance.pricePercent / 100);
+      const diff = invoicedUnit - poLine.unitCostExVAT;
+      if (Math.abs(diff) > allowed + 0.005) {
+        discrepancies.push({
+          ...base,
+          kind: 'price_variance',
+          expected: poLine.unitCostExVAT,
+          actual: round2(invoicedUnit),
+          amountGBP: round2(diff * invoiced),
+          message: `Billed at ${round2(invoicedUnit)} per unit against an agreed ${poLine.unitCostExVAT}`,
+        });
+      }
+    }
+
+    if (invoiced - ordered > tolerance.quantityUnits) {
+      discrepancies.push({
+        ...base,
+        kind: 'quantity_variance',
+        expected: ordered,
+        actual: invoiced,
+        amountGBP: round2((invoiced - ordered) * (invoicedUnit ?? poLine.unitCostExVAT)),
+        message: `Billed for ${invoiced} but only ${ordered} were ordered`,
+      });
+    }
+
+    if (invoiced - received > tolerance.quantityUnits) {
+      const amount = round2((invoiced - received) * (invoicedUnit ?? poLine.unitCostExVAT));
+      atRiskGBP += amount;
+      discrepancies.push({
+        ...base,
+        kind: 'unreceived',
+        expected: received,
+        actual: invoiced,
+        amountGBP: amount,
+        message: `Billed for ${invoiced} but only ${received} received`,
+      });
+    } else if (received - invoiced > tolerance.quantityUnits) {
+      discrepancies.push({
+        ...base,
+        kind: 'unbilled',
+        expected: received,
+        actual: invoiced,
+        amountGBP: round2((invoiced - received) * poLine.unitCostExVAT),
+        message: `${received} received but only ${invoiced} billed`,
+      });
+    }
+  }
+
+  for (const line of params.invoiceLines) {
+    if (line.poLineId && params.poLines.some((p) => p.id === line.poLineId)) continue;
+
+    atRiskGBP += line.lineTotalExVAT;
+    lines.push({
+      poLineId: null,
+      description: line.description,
+      orderedQuantity: 0,
+      receivedQuantity: 0,
+      invoicedQuantity: line.quantity,
+      poUnitCost: null,
+      invoicedUnitCost: line.unitCostExVAT,
+    });
+    discrepancies.push({
+      kind: 'not_on_order',
+      poLineId: null,
+      invoiceLineId: line.id,
+      description: line.description,
+      expected: 0,
+      actual: line.quantity,
+      amountGBP: round2(line.lineTotalExVAT),
+      message: 'Billed item is not on the purchase order',
+    });
+  }
+
+  // The invoice's own arithmetic: lines + extras + VAT should equal its stated total
+  const invoicedGBP = params.invoiceLines.reduce((sum, l) => sum + l.lineTotalExVAT, 0);
+  const { extras, vat, totalAmount } = params.invoiceTotals;
+  if (totalAmount != null && params.invoiceLines.length > 0) {
+    const expectedTotal = invoicedGBP + (extras ?? 0) + (vat ?? 0);
+    if (Math.abs(totalAmount - expectedTotal) > tolerance.amountGBP) {
+      discrepancies.push({
+        kind: 'total_variance',
+        poLineId: null,
+        invoiceLineId: null,
+        description: 'Invoice total',
+        expected: round2(expectedTotal),
+        actual: totalAmount,
+        amountGBP: round2(totalAmount - expectedTotal),
+        message: `Invoice total ${totalAmount} does not equal its lines, extras and VAT (${round2(expectedTotal)})`,
+      });
+    }
+  }
+
+  return {
+    status: discrepancies.length > 0 ? 'discrepancy' : 'matched',
+    tolerance,
+    lines,
+    discrepancies,
+    totals: {
+      orderedGBP: round2(orderedGBP),
+      receivedGBP: round2(receivedGBP),
+      invoicedGBP: round2(invoicedGBP),
+      atRiskGBP: round2(atRiskGBP),
+    },
+  };
+}
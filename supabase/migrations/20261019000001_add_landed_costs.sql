@@ -0,0 +1,36 @@
+-- Landed-cost allocation for purchase orders
+-- Invoice extras (shipping, freight, handling) plus any duty/brokerage recorded later
+-- are spread across PO lines so transit and average cost reflect the true landed cost.
+
+-- How charges are spread across lines: by line value, by quantity or by weight
+ALTER TABLE purchaseorders
+  ADD COLUMN IF NOT EXISTS landedcostmethod TEXT NOT NULL DEFAULT 'value'
+  CHECK (landedcostmethod IN ('value', 'quantity', 'weight'));
+
+-- Per-unit weight (used by the weight method) and the allocated landed unit cost
+ALTER TABLE polines
+  ADD COLUMN IF NOT EXISTS weightkg NUMERIC,
+  ADD COLUMN IF NOT EXISTS landedunitcostgbp NUMERIC;
+
+-- Additional landed-cost charges recorded against a PO after the invoice (duty, brokerage, ...)
+CREATE TABLE IF NOT EXISTS po_landed_costs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchaseorderid UUID NOT NULL REFERENCES purchaseorders(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('shipping', 'freight', 'handling', 'duty', 'brokerage', 'other')),
+  description TEXT,
+  amountgbp NUMERIC NOT NULL DEFAULT 0,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_po_landed_costs_purchaseorderid ON po_landed_costs(purchaseorderid);
+CREATE INDEX IF NOT EXISTS idx_po_landed_costs_user_id ON po_landed_costs(user_id);
+
+ALTER TABLE po_landed_costs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only see their own landed costs" ON po_landed_costs
+    FOR ALL USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN purchaseorders.landedcostmethod IS 'Basis used to allocate extras and landed-cost charges across lines: value, quantity or weight';
+COMMENT ON COLUMN polines.weightkg IS 'Weight of a single unit in kg, used for weight-based landed-cost allocation';
+COMMENT ON COLUMN polines.landedunitcostgbp IS 'Unit cost ex VAT plus this line''s share of extras and landed-cost charges (GBP)';
@@ -0,0 +1,25 @@
+-- Persist the exchange rate used to convert each purchase order to GBP
+-- and keep the invoice-currency amounts, so a PO can be reconciled against
+-- the supplier's USD/EUR/JPY statement and re-converted at a different rate later.
+
+ALTER TABLE purchaseorders
+  ADD COLUMN IF NOT EXISTS sourcecurrency TEXT,
+  ADD COLUMN IF NOT EXISTS fxrate NUMERIC,
+  ADD COLUMN IF NOT EXISTS fxratedate DATE,
+  ADD COLUMN IF NOT EXISTS fxratesource TEXT,
+  ADD COLUMN IF NOT EXISTS originalsubtotal NUMERIC,
+  ADD COLUMN IF NOT EXISTS originalextras NUMERIC,
+  ADD COLUMN IF NOT EXISTS originalvat NUMERIC,
+  ADD COLUMN IF NOT EXISTS originaltotal NUMERIC;
+
+ALTER TABLE polines
+  ADD COLUMN IF NOT EXISTS originalunitcost NUMERIC,
+  ADD COLUMN IF NOT EXISTS originallinetotal NUMERIC;
+
+COMMENT ON COLUMN purchaseorders.sourcecurrency IS 'Currency the supplier invoiced in (ISO code); GBP amounts are converted from this';
+COMMENT ON COLUMN purchaseorders.fxrate IS 'Rate applied to convert sourcecurrency to GBP (1 source unit = fxrate GBP)';
+COMMENT ON COLUMN purchaseorders.fxratedate IS 'Date the applied rate refers to (extraction date, invoice date or payment date)';
+COMMENT ON COLUMN purchaseorders.fxratesource IS 'Where the applied rate came from: live, fallback, manual or table';
+COMMENT ON COLUMN purchaseorders.originaltotal IS 'Invoice total in sourcecurrency, as printed on the invoice';
+COMMENT ON COLUMN polines.originalunitcost IS 'Unit cost ex VAT in the PO sourcecurrency';
+COMMENT ON COLUMN polines.originallinetotal IS 'Line total ex VAT in the PO sourcecurrency';
@@ -0,0 +1,26 @@
+-- Local table of dated exchange rates
+-- Filled by manual entry, CSV import of historic rates, and rates fetched over HTTP
+-- (kept as history). Lookups take the most recent rate on or before the invoice date.
+
+CREATE TABLE IF NOT EXISTS fx_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$' AND currency <> 'GBP'),
+  rate NUMERIC NOT NULL CHECK (rate > 0),
+  rate_date DATE NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'csv', 'live')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, currency, rate_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fx_rates_user_date ON fx_rates(user_id, rate_date DESC);
+
+ALTER TABLE fx_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only see their own exchange rates" ON fx_rates
+    FOR ALL USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN fx_rates.rate IS 'GBP per 1 unit of currency on rate_date';
+COMMENT ON COLUMN fx_rates.source IS 'manual (entered via API), csv (historic import) or live (fetched over HTTP)';
+COMMENT ON COLUMN purchaseorders.fxratesource IS 'Where the applied rate came from: live, fallback, manual or csv';
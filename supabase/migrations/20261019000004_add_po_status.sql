@@ -0,0 +1,42 @@
+-- Explicit purchase order lifecycle
+-- draft → ordered → shipped → partially_received → received → closed, or cancelled.
+-- Each transition records when it happened; draft uses created_at.
+
+ALTER TABLE purchaseorders
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'ordered'
+  CHECK (status IN ('draft', 'ordered', 'shipped', 'partially_received', 'received', 'closed', 'cancelled')),
+  ADD COLUMN IF NOT EXISTS ordered_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS shipped_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS partially_received_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS received_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS closed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_purchaseorders_user_status ON purchaseorders(user_id, status);
+
+-- Backfill existing POs from their transit rows (previously the only source of truth)
+UPDATE purchaseorders SET ordered_at = created_at WHERE ordered_at IS NULL;
+
+WITH transit_totals AS (
+  SELECT
+    purchaseorderid,
+    SUM(quantity) AS total_quantity,
+    SUM(remainingquantity) AS total_remaining,
+    MAX(updated_at) AS last_update
+  FROM transit
+  GROUP BY purchaseorderid
+)
+UPDATE purchaseorders po
+SET
+  status = CASE
+    WHEN t.total_remaining <= 0 THEN 'received'
+    ELSE 'partially_received'
+  END,
+  received_at = CASE WHEN t.total_remaining <= 0 THEN t.last_update ELSE NULL END,
+  partially_received_at = CASE WHEN t.total_remaining > 0 THEN t.last_update ELSE NULL END
+FROM transit_totals t
+WHERE t.purchaseorderid = po.id
+  AND po.status = 'ordered'
+  AND t.total_remaining < t.total_quantity;
+
+COMMENT ON COLUMN purchaseorders.status IS 'Lifecycle state: draft, ordered, shipped, partially_received, received, closed or cancelled';
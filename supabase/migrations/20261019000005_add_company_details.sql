@@ -0,0 +1,7 @@
+-- Company details printed on outbound purchase order PDFs
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS company_name TEXT,
+  ADD COLUMN IF NOT EXISTS company_address TEXT,
+  ADD COLUMN IF NOT EXISTS company_email TEXT,
+  ADD COLUMN IF NOT EXISTS company_phone TEXT,
+  ADD COLUMN IF NOT EXISTS company_vat_number TEXT;
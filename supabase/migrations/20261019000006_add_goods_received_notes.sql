@@ -0,0 +1,61 @@
+-- Goods received notes (GRNs)
+-- One note per delivery against a purchase order, recording what physically arrived
+-- compared with what was still expected: received, short, over and damaged quantities.
+
+CREATE TABLE IF NOT EXISTS goods_received_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  grnnumber TEXT NOT NULL,
+  purchaseorderid UUID NOT NULL REFERENCES purchaseorders(id) ON DELETE CASCADE,
+  supplierid UUID REFERENCES suppliers(id) ON DELETE SET NULL,
+  receivedat TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  notes TEXT,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS goods_received_note_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  grnid UUID NOT NULL REFERENCES goods_received_notes(id) ON DELETE CASCADE,
+  polineid UUID REFERENCES polines(id) ON DELETE SET NULL,
+  productid UUID REFERENCES products(id) ON DELETE SET NULL,
+  description TEXT,
+  expectedquantity NUMERIC NOT NULL DEFAULT 0,
+  receivedquantity NUMERIC NOT NULL DEFAULT 0 CHECK (receivedquantity >= 0),
+  damagedquantity NUMERIC NOT NULL DEFAULT 0 CHECK (damagedquantity >= 0),
+  shortquantity NUMERIC NOT NULL DEFAULT 0,
+  overquantity NUMERIC NOT NULL DEFAULT 0,
+  acceptedquantity NUMERIC NOT NULL DEFAULT 0,
+  writtenoffquantity NUMERIC NOT NULL DEFAULT 0,
+  shortfallaction TEXT NOT NULL DEFAULT 'keep_open' CHECK (shortfallaction IN ('keep_open', 'write_off')),
+  unitcostgbp NUMERIC,
+  note TEXT,
+  photourl TEXT,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (damagedquantity <= receivedquantity)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_goods_received_notes_user_grnnumber ON goods_received_notes(user_id, grnnumber);
+CREATE INDEX IF NOT EXISTS idx_goods_received_notes_purchaseorderid ON goods_received_notes(purchaseorderid);
+CREATE INDEX IF NOT EXISTS idx_goods_received_note_lines_grnid ON goods_received_note_lines(grnid);
+CREATE INDEX IF NOT EXISTS idx_goods_received_note_lines_polineid ON goods_received_note_lines(polineid);
+
+ALTER TABLE goods_received_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE goods_received_note_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only see their own goods received notes" ON goods_received_notes
+    FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can only see their own goods received note lines" ON goods_received_note_lines
+    FOR ALL USING (auth.uid() = user_id);
+
+-- Damaged units and written-off shortfalls leave transit without reaching on-hand stock
+ALTER TABLE transit
+  ADD COLUMN IF NOT EXISTS writtenoffquantity NUMERIC NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN goods_received_note_lines.expectedquantity IS 'Quantity still in transit for the PO line when the delivery arrived';
+COMMENT ON COLUMN goods_received_note_lines.receivedquantity IS 'Units that physically arrived, including damaged ones';
+COMMENT ON COLUMN goods_received_note_lines.acceptedquantity IS 'Received minus damaged: the units added to on-hand stock';
+COMMENT ON COLUMN goods_received_note_lines.writtenoffquantity IS 'Units removed from transit without reaching stock (damaged, plus the shortfall when written off)';
+COMMENT ON COLUMN goods_received_note_lines.shortfallaction IS 'keep_open leaves a shortfall in transit for a later delivery; write_off closes it';
+COMMENT ON COLUMN transit.writtenoffquantity IS 'Units removed from transit as damaged or short rather than received';
@@ -0,0 +1,45 @@
+-- Three-way match: PO vs goods received vs supplier invoice
+-- Invoices now carry their own lines and totals, independent of the PO they bill for,
+-- so price and quantity differences can be reported before the invoice is paid.
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS subtotalexvat NUMERIC,
+  ADD COLUMN IF NOT EXISTS extras NUMERIC,
+  ADD COLUMN IF NOT EXISTS vat NUMERIC,
+  ADD COLUMN IF NOT EXISTS totalamount NUMERIC,
+  ADD COLUMN IF NOT EXISTS matchstatus TEXT NOT NULL DEFAULT 'unmatched'
+  CHECK (matchstatus IN ('unmatched', 'matched', 'discrepancy')),
+  ADD COLUMN IF NOT EXISTS matchedat TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS invoice_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoiceid UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  polineid UUID REFERENCES polines(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  suppliersku TEXT,
+  quantity NUMERIC NOT NULL,
+  unitcostexvat NUMERIC NOT NULL,
+  linetotalexvat NUMERIC NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_lines_invoiceid ON invoice_lines(invoiceid);
+CREATE INDEX IF NOT EXISTS idx_invoice_lines_polineid ON invoice_lines(polineid);
+
+ALTER TABLE invoice_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only see their own invoice lines" ON invoice_lines
+    FOR ALL USING (auth.uid() = user_id);
+
+-- Per-user tolerances for the discrepancy report
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS match_price_tolerance_pct NUMERIC NOT NULL DEFAULT 2,
+  ADD COLUMN IF NOT EXISTS match_quantity_tolerance NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS match_amount_tolerance_gbp NUMERIC NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN invoices.matchstatus IS 'Result of the last three-way match: unmatched (not run), matched or discrepancy';
+COMMENT ON COLUMN invoice_lines.polineid IS 'PO line this invoice line bills for; NULL when it is not on the order';
+COMMENT ON COLUMN user_settings.match_price_tolerance_pct IS 'Unit price difference (percent of PO price) allowed before flagging a price variance';
+COMMENT ON COLUMN user_settings.match_quantity_tolerance IS 'Unit difference allowed between invoiced, ordered and received quantities';
+COMMENT ON COLUMN user_settings.match_amount_tolerance_gbp IS 'GBP difference allowed between the invoice total and the sum of its lines';
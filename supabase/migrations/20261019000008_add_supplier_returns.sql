@@ -0,0 +1,66 @@
+-- Supplier returns and credit notes
+-- Stock sent back to a supplier (from on-hand) or cancelled before it ships (from transit),
+-- recorded against the original purchase order. The stock value removed is kept on each
+-- line so the supplier's credit note can be reconciled against it later, without editing
+-- the PO lines or transit rows that describe the original purchase.
+
+CREATE TABLE IF NOT EXISTS supplier_returns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  returnnumber TEXT NOT NULL,
+  purchaseorderid UUID NOT NULL REFERENCES purchaseorders(id) ON DELETE CASCADE,
+  supplierid UUID REFERENCES suppliers(id) ON DELETE SET NULL,
+  invoiceid UUID REFERENCES invoices(id) ON DELETE SET NULL,
+  reason TEXT,
+  notes TEXT,
+  returnedat TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  totalvaluegbp NUMERIC NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'awaiting_credit' CHECK (status IN ('awaiting_credit', 'credited')),
+  creditnotenumber TEXT,
+  creditnotedate DATE,
+  creditamountgbp NUMERIC,
+  creditedat TIMESTAMPTZ,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS supplier_return_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  returnid UUID NOT NULL REFERENCES supplier_returns(id) ON DELETE CASCADE,
+  polineid UUID REFERENCES polines(id) ON DELETE SET NULL,
+  productid UUID REFERENCES products(id) ON DELETE SET NULL,
+  description TEXT,
+  source TEXT NOT NULL CHECK (source IN ('on_hand', 'transit')),
+  quantity NUMERIC NOT NULL CHECK (quantity > 0),
+  unitcostgbp NUMERIC NOT NULL DEFAULT 0,
+  valuegbp NUMERIC NOT NULL DEFAULT 0,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_supplier_returns_user_returnnumber ON supplier_returns(user_id, returnnumber);
+CREATE INDEX IF NOT EXISTS idx_supplier_returns_purchaseorderid ON supplier_returns(purchaseorderid);
+CREATE INDEX IF NOT EXISTS idx_supplier_return_lines_returnid ON supplier_return_lines(returnid);
+CREATE INDEX IF NOT EXISTS idx_supplier_return_lines_polineid ON supplier_return_lines(polineid);
+
+ALTER TABLE supplier_returns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE supplier_return_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only see their own supplier returns" ON supplier_returns
+    FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can only see their own supplier return lines" ON supplier_return_lines
+    FOR ALL USING (auth.uid() = user_id);
+
+-- Units cancelled with the supplier before they were delivered
+ALTER TABLE transit
+  ADD COLUMN IF NOT EXISTS returnedquantity NUMERIC NOT NULL DEFAULT 0;
+
+-- Running total of credit notes received against an invoice
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS creditedamountgbp NUMERIC NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN supplier_return_lines.source IS 'on_hand: stock sent back to the supplier; transit: undelivered units cancelled';
+COMMENT ON COLUMN supplier_return_lines.unitcostgbp IS 'Cost per unit taken out of stock value (the PO line''s landed cost)';
+COMMENT ON COLUMN supplier_returns.totalvaluegbp IS 'Stock value removed by the return; compare with creditamountgbp for any credit shortfall';
+COMMENT ON COLUMN transit.returnedquantity IS 'Units cancelled with the supplier before delivery';
+COMMENT ON COLUMN invoices.creditedamountgbp IS 'Sum of supplier credit notes recorded against this invoice';
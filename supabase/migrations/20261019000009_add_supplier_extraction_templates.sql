@@ -0,0 +1,47 @@
+-- Supplier extraction templates
+-- What was learned from users correcting extracted invoices before saving them: column rules
+-- applied to the next extraction for the same supplier, alternative names the supplier is
+-- printed under, free-text notes added to the extraction prompt, and optional column headers
+-- for parsing the supplier's PDFs from their text layer. The correction pairs themselves are
+-- kept so recent ones can be shown to the model as examples.
+
+CREATE TABLE IF NOT EXISTS supplier_extraction_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplierid UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+  columnrules JSONB NOT NULL DEFAULT '[]'::jsonb,
+  aliases JSONB NOT NULL DEFAULT '[]'::jsonb,
+  notes TEXT,
+  textheaders JSONB,
+  correctioncount INTEGER NOT NULL DEFAULT 0,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS supplier_extraction_corrections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplierid UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+  purchaseorderid UUID REFERENCES purchaseorders(id) ON DELETE SET NULL,
+  field TEXT NOT NULL,
+  extractedvalue TEXT,
+  correctedvalue TEXT,
+  context TEXT,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_supplier_extraction_templates_supplierid ON supplier_extraction_templates(supplierid);
+CREATE INDEX IF NOT EXISTS idx_supplier_extraction_corrections_supplierid ON supplier_extraction_corrections(supplierid, created_at DESC);
+
+ALTER TABLE supplier_extraction_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE supplier_extraction_corrections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only see their own supplier extraction templates" ON supplier_extraction_templates
+    FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can only see their own supplier extraction corrections" ON supplier_extraction_corrections
+    FOR ALL USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN supplier_extraction_templates.columnrules IS 'Deterministic fixes applied after extraction, e.g. [{"kind":"swap_unit_cost_and_rrp"}]';
+COMMENT ON COLUMN supplier_extraction_templates.aliases IS 'Other names the supplier appears under on its documents';
+COMMENT ON COLUMN supplier_extraction_templates.textheaders IS 'Column header labels for the text-layer parser, keyed by column (sku, description, quantity, unitCost, lineTotal, rrp)';
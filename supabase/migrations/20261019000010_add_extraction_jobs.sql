@@ -0,0 +1,78 @@
+-- Invoice extraction jobs
+-- Uploads are stored and extracted in the background so large invoices no longer run inside
+-- one request. Same attempts/backoff/locking pattern as shopify_webhook_jobs: a worker claims
+-- due jobs with claim_extraction_jobs, failures are re-queued with a later run_at until
+-- max_attempts, then left as 'dead' for the user to retry. The extraction result is kept on
+-- the job so a stack of invoices can be reviewed later; 'saved' once a PO was created from it.
+
+CREATE TABLE IF NOT EXISTS extraction_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  label TEXT,
+  files JSONB NOT NULL DEFAULT '[]'::jsonb,
+  supplierid UUID REFERENCES suppliers(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'succeeded', 'dead', 'saved')),
+  stage TEXT,
+  result JSONB,
+  purchaseorderid UUID REFERENCES purchaseorders(id) ON DELETE SET NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_attempt_at TIMESTAMPTZ,
+  locked_at TIMESTAMPTZ,
+  locked_by TEXT,
+  last_error JSONB,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_extraction_jobs_status_run_at ON extraction_jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_extraction_jobs_user_id ON extraction_jobs(user_id, created_at DESC);
+
+ALTER TABLE extraction_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only see their own extraction jobs" ON extraction_jobs
+    FOR ALL USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN extraction_jobs.files IS 'Uploaded files in storage: [{"path","name","type","size"}]';
+COMMENT ON COLUMN extraction_jobs.stage IS 'Progress while processing: reading_files, parsing_text, extracting, checking';
+COMMENT ON COLUMN extraction_jobs.result IS 'Extraction result (data, validation, method, profile, supplierTemplate) once succeeded';
+
+-- Claim due jobs for a worker. Jobs left 'processing' by a worker that died mid-extraction
+-- (function timeout, deploy) are picked up again once their lock is 10 minutes old.
+CREATE OR REPLACE FUNCTION claim_extraction_jobs(
+  p_max_jobs INTEGER,
+  p_worker_id TEXT,
+  p_job_id UUID DEFAULT NULL
+)
+RETURNS SETOF extraction_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH candidate AS (
+    SELECT id
+    FROM extraction_jobs
+    WHERE (p_job_id IS NULL OR id = p_job_id)
+      AND (
+        (status = 'queued' AND run_at <= NOW())
+        OR (status = 'processing' AND locked_at < NOW() - INTERVAL '10 minutes')
+      )
+    ORDER BY run_at ASC, created_at ASC
+    LIMIT GREATEST(p_max_jobs, 0)
+    FOR UPDATE SKIP LOCKED
+  ), updated AS (
+    UPDATE extraction_jobs j
+    SET status = 'processing',
+        stage = NULL,
+        attempts = j.attempts + 1,
+        last_attempt_at = NOW(),
+        locked_at = NOW(),
+        locked_by = p_worker_id,
+        updated_at = NOW()
+    WHERE j.id IN (SELECT id FROM candidate)
+    RETURNING j.*
+  )
+  SELECT * FROM updated;
+END;
+$$;
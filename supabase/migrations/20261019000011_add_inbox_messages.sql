@@ -0,0 +1,40 @@
+-- Invoice inbox ingestion
+-- Supplier invoices emailed to a watched mailbox (IMAP, or a local Maildir/drop folder) are
+-- turned into extraction jobs for review on the import page. inbox_messages records every
+-- message that was read so each is ingested once, and keeps what happened to it.
+
+CREATE TABLE IF NOT EXISTS inbox_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source TEXT NOT NULL CHECK (source IN ('imap', 'maildir')),
+  messagekey TEXT NOT NULL,
+  sender TEXT,
+  subject TEXT,
+  receivedat TIMESTAMPTZ,
+  supplierid UUID REFERENCES suppliers(id) ON DELETE SET NULL,
+  attachmentcount INTEGER NOT NULL DEFAULT 0,
+  jobids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL CHECK (status IN ('queued', 'ignored', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  error TEXT,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, messagekey)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbox_messages_user_id ON inbox_messages(user_id, created_at DESC);
+
+ALTER TABLE inbox_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only see their own inbox messages" ON inbox_messages
+    FOR ALL USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN inbox_messages.messagekey IS 'Message-ID header, or the mailbox/file position for messages without one';
+COMMENT ON COLUMN inbox_messages.jobids IS 'Extraction jobs created from the message attachments';
+COMMENT ON COLUMN inbox_messages.status IS 'queued (jobs created), ignored (no invoice attachments), failed (retried on the next poll)';
+
+-- Where a queued extraction came from, so emailed invoices can be told apart on the import page
+ALTER TABLE extraction_jobs ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'upload' CHECK (source IN ('upload', 'email'));
+ALTER TABLE extraction_jobs ADD COLUMN IF NOT EXISTS sender TEXT;
+
+COMMENT ON COLUMN extraction_jobs.sender IS 'Sender address for invoices received by email';
@@ -0,0 +1,10 @@
+-- Multi-invoice uploads
+-- A statement PDF can hold several invoices. Jobs queued in statement mode return each invoice
+-- as a candidate PO (result.candidates); candidates are saved one at a time and the job counts
+-- as saved once all of them have become purchase orders.
+
+ALTER TABLE extraction_jobs ADD COLUMN IF NOT EXISTS splitinvoices BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE extraction_jobs ADD COLUMN IF NOT EXISTS savedcandidates JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN extraction_jobs.splitinvoices IS 'Statement mode: the upload may contain several invoices';
+COMMENT ON COLUMN extraction_jobs.savedcandidates IS 'Candidates already saved: [{"index","purchaseOrderId"}]';
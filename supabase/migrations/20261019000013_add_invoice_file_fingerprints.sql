@@ -0,0 +1,30 @@
+-- Invoice file fingerprints
+-- Every invoice file uploaded for extraction is hashed so a file that was already imported
+-- (or is still queued for review) is caught before paying for another extraction. sha256
+-- catches byte-identical re-uploads; phash is a 64-bit difference hash of images that stays
+-- within a few bits for a re-photographed paper invoice.
+
+CREATE TABLE IF NOT EXISTS invoice_file_fingerprints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sha256 TEXT NOT NULL,
+  phash TEXT,
+  filename TEXT,
+  filesize INTEGER,
+  purchaseorderid UUID REFERENCES purchaseorders(id) ON DELETE CASCADE,
+  extractionjobid UUID REFERENCES extraction_jobs(id) ON DELETE SET NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_file_fingerprints_sha256 ON invoice_file_fingerprints(user_id, sha256);
+CREATE INDEX IF NOT EXISTS idx_invoice_file_fingerprints_phash ON invoice_file_fingerprints(user_id) WHERE phash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_invoice_file_fingerprints_purchaseorderid ON invoice_file_fingerprints(purchaseorderid);
+CREATE INDEX IF NOT EXISTS idx_invoice_file_fingerprints_extractionjobid ON invoice_file_fingerprints(extractionjobid);
+
+ALTER TABLE invoice_file_fingerprints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only see their own invoice file fingerprints" ON invoice_file_fingerprints
+    FOR ALL USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN invoice_file_fingerprints.phash IS 'Difference hash (16 hex chars) for images; NULL for PDFs and XML';
+COMMENT ON COLUMN invoice_file_fingerprints.extractionjobid IS 'Extraction job the file was queued with, until it is saved as a purchase order';
@@ -0,0 +1,38 @@
+-- Supplier product mappings
+-- Which product a supplier's item code refers to. Supplier codes are only unique per supplier,
+-- so purchase order lines are matched through this table before the global SKU and barcode
+-- lookup, and a product can be bought from several suppliers under different codes.
+
+CREATE TABLE IF NOT EXISTS supplier_products (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplierid UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+  suppliersku TEXT NOT NULL,
+  productid UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  packsize NUMERIC NOT NULL DEFAULT 1 CHECK (packsize > 0),
+  lastcostgbp NUMERIC,
+  lastseenat TIMESTAMPTZ,
+  lastpurchaseorderid UUID REFERENCES purchaseorders(id) ON DELETE SET NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_supplier_products_supplier_sku ON supplier_products(supplierid, lower(suppliersku));
+CREATE INDEX IF NOT EXISTS idx_supplier_products_productid ON supplier_products(productid);
+
+ALTER TABLE supplier_products ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only see their own supplier products" ON supplier_products
+    FOR ALL USING (auth.uid() = user_id);
+
+-- Existing products carry one supplier code each
+INSERT INTO supplier_products (supplierid, suppliersku, productid, user_id)
+SELECT DISTINCT ON (supplierid, lower(btrim(suppliersku))) supplierid, btrim(suppliersku), id, user_id
+FROM products
+WHERE supplierid IS NOT NULL AND suppliersku IS NOT NULL AND btrim(suppliersku) <> ''
+ORDER BY supplierid, lower(btrim(suppliersku)), created_at
+ON CONFLICT DO NOTHING;
+
+COMMENT ON COLUMN supplier_products.suppliersku IS 'Item code as printed on the supplier''s invoices; matched case-insensitively';
+COMMENT ON COLUMN supplier_products.packsize IS 'Units of the product in one unit as invoiced by the supplier (e.g. 12 for a case of 12)';
+COMMENT ON COLUMN supplier_products.lastcostgbp IS 'Unit cost ex VAT in GBP on the most recent purchase order line';
@@ -0,0 +1,34 @@
+-- Product match reviews
+-- Purchase order lines whose description only loosely matches existing products. Instead of
+-- guessing (and creating duplicate or wrong products) the line waits here with its candidate
+-- products and their scores until the user accepts one, picks another or creates a new product.
+-- Its transit row is only created then.
+
+CREATE TABLE IF NOT EXISTS product_match_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchaseorderid UUID NOT NULL REFERENCES purchaseorders(id) ON DELETE CASCADE,
+  polineid UUID NOT NULL REFERENCES polines(id) ON DELETE CASCADE,
+  supplierid UUID REFERENCES suppliers(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  suppliersku TEXT,
+  quantity NUMERIC,
+  unitcostexvat NUMERIC,
+  candidates JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'matched', 'created')),
+  productid UUID REFERENCES products(id) ON DELETE SET NULL,
+  resolvedat TIMESTAMPTZ,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_match_reviews_polineid ON product_match_reviews(polineid);
+CREATE INDEX IF NOT EXISTS idx_product_match_reviews_pending ON product_match_reviews(user_id, created_at) WHERE status = 'pending';
+
+ALTER TABLE product_match_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only see their own product match reviews" ON product_match_reviews
+    FOR ALL USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN product_match_reviews.candidates IS 'Best matching products when the line was synced, e.g. [{"productId":"…","name":"…","score":0.6}]';
+COMMENT ON COLUMN product_match_reviews.status IS 'pending until resolved; matched (existing product) or created (new product)';
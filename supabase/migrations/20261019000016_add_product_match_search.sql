@@ -0,0 +1,63 @@
+-- Database-side product matching
+-- Syncing a purchase order used to load every product and compare each line with every name
+-- and alias in the app. With large catalogs that is too slow, so candidates are now found here:
+-- item codes through expression indexes, descriptions through a trigram index over each
+-- product's name and aliases. The app scores only the top candidates per line.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Name and aliases as one lower-cased string (immutable so it can be indexed)
+CREATE OR REPLACE FUNCTION product_match_text(p_name TEXT, p_aliases TEXT[])
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(coalesce(p_name, '') || ' ' || coalesce(array_to_string(p_aliases, ' '), ''));
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_products_match_text ON products USING GIN (product_match_text(name, aliases) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_products_user_primarysku ON products(user_id, lower(primarysku));
+CREATE INDEX IF NOT EXISTS idx_products_user_suppliersku ON products(user_id, lower(suppliersku));
+CREATE INDEX IF NOT EXISTS idx_products_barcodes ON products USING GIN (barcodes);
+
+-- Products whose primary SKU, supplier SKU (case-insensitive) or a barcode is one of the codes
+CREATE OR REPLACE FUNCTION find_products_by_code(p_user_id UUID, p_codes TEXT[])
+RETURNS SETOF products
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p.*
+  FROM products p
+  WHERE p.user_id = p_user_id
+    AND (
+      lower(p.primarysku) = ANY (SELECT lower(c) FROM unnest(p_codes) c)
+      OR lower(p.suppliersku) = ANY (SELECT lower(c) FROM unnest(p_codes) c)
+      OR p.barcodes && p_codes
+    );
+$$;
+
+-- Up to p_limit products per description, most similar first. line_index is the
+-- description's 0-based position in p_descriptions.
+CREATE OR REPLACE FUNCTION match_product_candidates(
+  p_user_id UUID,
+  p_descriptions TEXT[],
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (line_index INTEGER, product_id UUID, score REAL)
+LANGUAGE sql
+STABLE
+SET pg_trgm.word_similarity_threshold = 0.25
+AS $$
+  SELECT (d.ord - 1)::INTEGER, m.id, m.score
+  FROM unnest(p_descriptions) WITH ORDINALITY AS d(description, ord)
+  CROSS JOIN LATERAL (
+    SELECT p.id, word_similarity(lower(d.description), product_match_text(p.name, p.aliases)) AS score
+    FROM products p
+    WHERE p.user_id = p_user_id
+      AND lower(d.description) <% product_match_text(p.name, p.aliases)
+    ORDER BY score DESC
+    LIMIT GREATEST(p_limit, 0)
+  ) m;
+$$;
+
+COMMENT ON FUNCTION match_product_candidates(UUID, TEXT[], INTEGER) IS 'Trigram pre-filter for purchase order line matching; the app re-scores the candidates';
@@ -0,0 +1,263 @@
+-- Atomic purchase order save
+-- Saving a purchase order used to be a run of separate requests (supplier, order, invoice, lines,
+-- products, transit), so a failure part-way left a half-saved order behind. The app now decides
+-- everything up front (landed costs, which product each line is) and these functions write it in
+-- one transaction: the save either lands completely or not at all.
+
+-- Put purchase order lines into transit following a plan made by the app. p_plan.steps has one
+-- entry per line: { "line": <0-based index into p_line_ids> } plus one of
+--   "productId"  - an existing product (the line's description is kept as an alias)
+--   "newProduct" - a product created from this order; the first line with a given number creates it
+--   "candidates" - borderline matches; the line waits in the product match review queue. A candidate
+--                  created earlier in this order has productId 'new:<n>'
+CREATE OR REPLACE FUNCTION apply_inventory_sync(
+  p_user_id UUID,
+  p_purchase_order_id UUID,
+  p_supplier_id UUID,
+  p_line_ids UUID[],
+  p_plan JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_step JSONB;
+  v_line polines%ROWTYPE;
+  v_description TEXT;
+  v_sku TEXT;
+  v_product_id UUID;
+  v_new_index INTEGER;
+  v_new_product_ids UUID[] := ARRAY[]::UUID[];
+  v_candidates JSONB;
+  v_outcome TEXT;
+  v_transit BOOLEAN;
+  v_results JSONB := '[]'::JSONB;
+  v_created INTEGER := 0;
+  v_matched INTEGER := 0;
+  v_pending INTEGER := 0;
+  v_transit_created INTEGER := 0;
+BEGIN
+  FOR v_step IN SELECT value FROM jsonb_array_elements(COALESCE(p_plan->'steps', '[]'::JSONB))
+  LOOP
+    SELECT * INTO v_line
+    FROM polines
+    WHERE id = p_line_ids[(v_step->>'line')::INTEGER + 1]
+      AND purchaseorderid = p_purchase_order_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'PO line % not found on purchase order %', v_step->>'line', p_purchase_order_id;
+    END IF;
+
+    v_description := btrim(v_line.description);
+    v_sku := NULLIF(btrim(COALESCE(v_line.suppliersku, '')), '');
+
+    IF v_step ? 'candidates' THEN
+      SELECT COALESCE(jsonb_agg(
+        CASE
+          WHEN c.value->>'productId' LIKE 'new:%'
+            THEN jsonb_set(c.value, '{productId}', to_jsonb(v_new_product_ids[substr(c.value->>'productId', 5)::INTEGER + 1]))
+          ELSE c.value
+        END
+        ORDER BY c.ord
+      ), '[]'::JSONB)
+      INTO v_candidates
+      FROM jsonb_array_elements(v_step->'candidates') WITH ORDINALITY AS c(value, ord);
+
+      INSERT INTO product_match_reviews (
+        purchaseorderid, polineid, supplierid, description, suppliersku, quantity, unitcostexvat, candidates, user_id
+      )
+      VALUES (
+        p_purchase_order_id, v_line.id, p_supplier_id, v_description, v_sku, v_line.quantity, v_line.unitcostexvat,
+        v_candidates, p_user_id
+      )
+      ON CONFLICT (polineid) DO NOTHING;
+
+      v_pending := v_pending + 1;
+      v_results := v_results || jsonb_build_object('lineId', v_line.id, 'outcome', 'review', 'productId', NULL, 'transit', FALSE);
+      CONTINUE;
+    END IF;
+
+    IF v_step ? 'newProduct' THEN
+      v_new_index := (v_step->>'newProduct')::INTEGER;
+      v_product_id := v_new_product_ids[v_new_index + 1];
+    ELSE
+      v_new_index := NULL;
+      v_product_id := (v_step->>'productId')::UUID;
+    END IF;
+
+    IF v_product_id IS NULL AND v_new_index IS NOT NULL THEN
+      INSERT INTO products (name, primarysku, suppliersku, barcodes, aliases, supplierid, category, tags, imageurl, user_id)
+      VALUES (v_description, v_sku, v_sku, '{}', ARRAY[v_description], p_supplier_id, NULL, '{}', NULL, p_user_id)
+      RETURNING id INTO v_product_id;
+
+      v_new_product_ids[v_new_index + 1] := v_product_id;
+      v_created := v_created + 1;
+      v_outcome := 'created';
+    ELSE
+      UPDATE products
+      SET aliases = CASE
+            WHEN v_description = ANY (COALESCE(aliases, '{}')) THEN aliases
+            ELSE array_append(COALESCE(aliases, '{}'), v_description)
+          END,
+          supplierid = COALESCE(supplierid, p_supplier_id),
+          updated_at = NOW()
+      WHERE id = v_product_id
+        AND user_id = p_user_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Product % not found', v_product_id;
+      END IF;
+
+      v_matched := v_matched + 1;
+      v_outcome := 'matched';
+    END IF;
+
+    -- Remember the supplier's code for the product (and what it last cost)
+    IF v_sku IS NOT NULL THEN
+      INSERT INTO supplier_products (supplierid, suppliersku, productid, lastcostgbp, lastseenat, lastpurchaseorderid, user_id)
+      VALUES (p_supplier_id, v_sku, v_product_id, ROUND(v_line.unitcostexvat, 4), NOW(), p_purchase_order_id, p_user_id)
+      ON CONFLICT (supplierid, lower(suppliersku)) DO UPDATE
+      SET productid = EXCLUDED.productid,
+          lastcostgbp = COALESCE(EXCLUDED.lastcostgbp, supplier_products.lastcostgbp),
+          lastseenat = EXCLUDED.lastseenat,
+          lastpurchaseorderid = EXCLUDED.lastpurchaseorderid,
+          updated_at = NOW();
+    END IF;
+
+    -- Prefer the landed unit cost so allocated extras flow into average cost on receipt
+    v_transit := COALESCE(v_line.quantity, 0) > 0;
+    IF v_transit THEN
+      INSERT INTO transit (productid, purchaseorderid, polineid, supplierid, quantity, remainingquantity, unitcostgbp, status, user_id)
+      VALUES (
+        v_product_id, p_purchase_order_id, v_line.id, p_supplier_id, v_line.quantity, v_line.quantity,
+        ROUND(GREATEST(COALESCE(v_line.landedunitcostgbp, v_line.unitcostexvat, 0), 0), 4), 'in_transit', p_user_id
+      );
+      v_transit_created := v_transit_created + 1;
+    END IF;
+
+    v_results := v_results || jsonb_build_object('lineId', v_line.id, 'outcome', v_outcome, 'productId', v_product_id, 'transit', v_transit);
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'productsCreated', v_created,
+    'productsMatched', v_matched,
+    'productsPendingReview', v_pending,
+    'transitCreated', v_transit_created,
+    'lines', v_results
+  );
+END;
+$$;
+
+-- Save a purchase order in one go. p_order holds
+--   supplier      - { name, address, email, phone }; found by name (case-insensitive) or created
+--   purchaseOrder - purchaseorders columns (supplierid is filled in here)
+--   lines         - polines columns, in order, with landedunitcostgbp already allocated
+--   invoice       - invoices columns, or null for a draft (no invoice yet)
+--   inventory     - an apply_inventory_sync plan, or null to leave the lines out of transit
+CREATE OR REPLACE FUNCTION save_purchase_order(p_user_id UUID, p_order JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_supplier_name TEXT := btrim(COALESCE(p_order->'supplier'->>'name', ''));
+  v_supplier_id UUID;
+  v_supplier_created BOOLEAN := FALSE;
+  v_po_id UUID;
+  v_invoice_id UUID;
+  v_line polines%ROWTYPE;
+  v_line_id UUID;
+  v_line_ids UUID[] := ARRAY[]::UUID[];
+  v_inventory JSONB;
+BEGIN
+  IF v_supplier_name = '' THEN
+    RAISE EXCEPTION 'Supplier name is required';
+  END IF;
+
+  -- Two saves for a new supplier must not both create it
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::TEXT || ':' || lower(v_supplier_name)));
+
+  SELECT id INTO v_supplier_id
+  FROM suppliers
+  WHERE user_id = p_user_id
+    AND lower(name) = lower(v_supplier_name)
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF v_supplier_id IS NULL THEN
+    INSERT INTO suppliers (name, address, email, phone, user_id)
+    VALUES (
+      v_supplier_name,
+      p_order->'supplier'->>'address',
+      p_order->'supplier'->>'email',
+      p_order->'supplier'->>'phone',
+      p_user_id
+    )
+    RETURNING id INTO v_supplier_id;
+    v_supplier_created := TRUE;
+  END IF;
+
+  INSERT INTO purchaseorders (
+    supplierid, invoicenumber, invoicedate, currency, paymentterms, imageurl, imageurls, notes,
+    subtotalexvat, extras, vat, totalamount, landedcostmethod, sourcecurrency, fxrate, fxratedate, fxratesource,
+    originalsubtotal, originalextras, originalvat, originaltotal, status, ordered_at, user_id
+  )
+  SELECT
+    v_supplier_id, po.invoicenumber, po.invoicedate, COALESCE(po.currency, 'GBP'), po.paymentterms, po.imageurl, po.imageurls, po.notes,
+    po.subtotalexvat, po.extras, po.vat, po.totalamount, COALESCE(po.landedcostmethod, 'value'), po.sourcecurrency, po.fxrate, po.fxratedate, po.fxratesource,
+    po.originalsubtotal, po.originalextras, po.originalvat, po.originaltotal, COALESCE(po.status, 'ordered'),
+    CASE WHEN COALESCE(po.status, 'ordered') = 'ordered' THEN NOW() END, p_user_id
+  FROM jsonb_populate_record(NULL::purchaseorders, p_order->'purchaseOrder') po
+  RETURNING id INTO v_po_id;
+
+  FOR v_line IN
+    SELECT l.*
+    FROM jsonb_array_elements(COALESCE(p_order->'lines', '[]'::JSONB)) WITH ORDINALITY AS e(value, ord)
+    CROSS JOIN LATERAL jsonb_populate_record(NULL::polines, e.value) l
+    ORDER BY e.ord
+  LOOP
+    INSERT INTO polines (
+      purchaseorderid, description, suppliersku, quantity, unitcostexvat, linetotalexvat, rrp, weightkg,
+      originalunitcost, originallinetotal, landedunitcostgbp
+    )
+    VALUES (
+      v_po_id, v_line.description, v_line.suppliersku, v_line.quantity, v_line.unitcostexvat, v_line.linetotalexvat,
+      v_line.rrp, v_line.weightkg, v_line.originalunitcost, v_line.originallinetotal, v_line.landedunitcostgbp
+    )
+    RETURNING id INTO v_line_id;
+    v_line_ids := v_line_ids || v_line_id;
+  END LOOP;
+
+  IF jsonb_typeof(p_order->'invoice') = 'object' THEN
+    INSERT INTO invoices (
+      purchaseorderid, supplierid, invoicenumber, invoicedate, currency, subtotalexvat, extras, vat, totalamount,
+      matchstatus, user_id
+    )
+    SELECT
+      v_po_id, v_supplier_id, i.invoicenumber, i.invoicedate, COALESCE(i.currency, 'GBP'), i.subtotalexvat, i.extras, i.vat, i.totalamount,
+      'unmatched', p_user_id
+    FROM jsonb_populate_record(NULL::invoices, p_order->'invoice') i
+    RETURNING id INTO v_invoice_id;
+
+    -- The saved lines are what the supplier billed; keep them on the invoice for matching
+    INSERT INTO invoice_lines (invoiceid, polineid, description, suppliersku, quantity, unitcostexvat, linetotalexvat, user_id)
+    SELECT v_invoice_id, l.id, l.description, l.suppliersku, l.quantity, l.unitcostexvat, l.linetotalexvat, p_user_id
+    FROM polines l
+    WHERE l.id = ANY (v_line_ids);
+  END IF;
+
+  IF jsonb_typeof(p_order->'inventory') = 'object' THEN
+    v_inventory := apply_inventory_sync(p_user_id, v_po_id, v_supplier_id, v_line_ids, p_order->'inventory');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'supplierId', v_supplier_id,
+    'supplierCreated', v_supplier_created,
+    'purchaseOrderId', v_po_id,
+    'invoiceId', v_invoice_id,
+    'lineIds', to_jsonb(v_line_ids),
+    'inventorySync', v_inventory
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION save_purchase_order(UUID, JSONB) IS 'Creates supplier (if new), purchase order, lines, invoice and transit in one transaction';
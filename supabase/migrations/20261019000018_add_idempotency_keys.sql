@@ -0,0 +1,30 @@
+-- Idempotency keys
+-- A double tap on Save (or a retry after a dropped connection) sends the same request twice.
+-- Mutating routes that accept an Idempotency-Key header record the key here with a hash of the
+-- request and, once it finishes, the response. A repeat within the window gets that response
+-- back instead of creating a second purchase order or receipt.
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  key TEXT NOT NULL,
+  route TEXT NOT NULL,
+  requesthash TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+  responsestatus INTEGER,
+  responsebody JSONB,
+  expiresat TIMESTAMPTZ NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_idempotency_keys_user_key ON idempotency_keys(user_id, key);
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expiresat ON idempotency_keys(expiresat);
+
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only see their own idempotency keys" ON idempotency_keys
+    FOR ALL USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN idempotency_keys.requesthash IS 'SHA-256 of the route and request body; the same key with a different request is rejected';
+COMMENT ON COLUMN idempotency_keys.status IS 'processing while the first request runs; completed once its response is stored';
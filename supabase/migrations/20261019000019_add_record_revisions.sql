@@ -0,0 +1,30 @@
+-- Record revisions
+-- Two people editing the same product or purchase order used to overwrite each other without
+-- knowing. Each row now carries a revision that every update bumps; an edit sends the revision
+-- it was made against and is refused with the current state when the row has moved on.
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE purchaseorders ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION bump_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.revision := OLD.revision + 1;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS products_bump_revision ON products;
+CREATE TRIGGER products_bump_revision
+  BEFORE UPDATE ON products
+  FOR EACH ROW EXECUTE FUNCTION bump_revision();
+
+DROP TRIGGER IF EXISTS purchaseorders_bump_revision ON purchaseorders;
+CREATE TRIGGER purchaseorders_bump_revision
+  BEFORE UPDATE ON purchaseorders
+  FOR EACH ROW EXECUTE FUNCTION bump_revision();
+
+COMMENT ON COLUMN products.revision IS 'Bumped on every update; edits must name the revision they were made against';
+COMMENT ON COLUMN purchaseorders.revision IS 'Bumped on every update; edits must name the revision they were made against';
@@ -0,0 +1,265 @@
+-- Inventory movement ledger
+-- On-hand quantity used to be overwritten in place by receiving, returns, imports and Shopify
+-- orders, leaving no history. Every change to inventory.quantityonhand now appends a row here,
+-- written by a trigger on inventory so no code path can skip it. Writers describe the movement
+-- (type, source document, actor, unit cost) through apply_inventory_movement; a change made any
+-- other way is still recorded, as 'unattributed'. The sum of a product's deltas is its on-hand.
+
+CREATE TABLE IF NOT EXISTS inventory_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  productid UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  inventoryid UUID,
+  quantitydelta NUMERIC NOT NULL,
+  quantityafter NUMERIC NOT NULL,
+  unitcostgbp NUMERIC,
+  averagecostafter NUMERIC,
+  movementtype TEXT NOT NULL CHECK (movementtype IN (
+    'opening_balance', 'purchase_receipt', 'supplier_return', 'sale', 'sale_reversal', 'import', 'adjustment', 'unattributed'
+  )),
+  sourcetype TEXT CHECK (sourcetype IN ('po_line', 'order', 'import_batch', 'supplier_return', 'user_adjustment')),
+  sourceid TEXT,
+  actor TEXT NOT NULL DEFAULT 'system' CHECK (actor IN ('user', 'shopify', 'system')),
+  actoruserid UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  context JSONB NOT NULL DEFAULT '{}'::jsonb,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_product_created ON inventory_movements(productid, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_source ON inventory_movements(sourcetype, sourceid);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_user_id ON inventory_movements(user_id);
+
+ALTER TABLE inventory_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only see their own inventory movements" ON inventory_movements
+    FOR SELECT USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN inventory_movements.quantitydelta IS 'Change to on-hand; the sum for a product equals inventory.quantityonhand';
+COMMENT ON COLUMN inventory_movements.unitcostgbp IS 'Cost per unit moved: landed cost for receipts, import cost, otherwise the average cost at the time';
+COMMENT ON COLUMN inventory_movements.sourceid IS 'PO line id, Shopify order id, import batch id, supplier return id or adjustment id, per sourcetype';
+
+-- The ledger is append-only. Rows only go when their product is deleted.
+CREATE OR REPLACE FUNCTION prevent_inventory_movement_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM products WHERE id = OLD.productid) THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'inventory_movements is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS inventory_movements_append_only ON inventory_movements;
+CREATE TRIGGER inventory_movements_append_only
+  BEFORE UPDATE OR DELETE ON inventory_movements
+  FOR EACH ROW EXECUTE FUNCTION prevent_inventory_movement_changes();
+
+-- Appends the movement for a change to inventory.quantityonhand. The description comes from the
+-- transaction-local setting inventory.movement, set by apply_inventory_movement.
+CREATE OR REPLACE FUNCTION record_inventory_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_movement JSONB := COALESCE(NULLIF(current_setting('inventory.movement', true), '')::jsonb, '{}'::jsonb);
+  v_row inventory%ROWTYPE;
+  v_before NUMERIC := 0;
+  v_after NUMERIC := 0;
+  v_before_cost NUMERIC;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_row := OLD;
+  ELSE
+    v_row := NEW;
+    v_after := COALESCE(NEW.quantityonhand, 0);
+  END IF;
+  IF TG_OP <> 'INSERT' THEN
+    v_before := COALESCE(OLD.quantityonhand, 0);
+    v_before_cost := OLD.averagecostgbp;
+  END IF;
+
+  -- A deleted product takes its inventory and history with it
+  IF v_after = v_before OR NOT EXISTS (SELECT 1 FROM products WHERE id = v_row.productid) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO inventory_movements (
+    productid, inventoryid, quantitydelta, quantityafter, unitcostgbp, averagecostafter,
+    movementtype, sourcetype, sourceid, actor, actoruserid, context, user_id
+  )
+  VALUES (
+    v_row.productid,
+    v_row.id,
+    v_after - v_before,
+    v_after,
+    COALESCE((v_movement->>'unitCostGBP')::NUMERIC, v_before_cost, v_row.averagecostgbp),
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE NEW.averagecostgbp END,
+    COALESCE(v_movement->>'movementType', 'unattributed'),
+    v_movement->>'sourceType',
+    v_movement->>'sourceId',
+    COALESCE(v_movement->>'actor', 'system'),
+    (v_movement->>'actorUserId')::UUID,
+    COALESCE(v_movement->'context', '{}'::jsonb),
+    COALESCE(v_row.user_id, (SELECT user_id FROM products WHERE id = v_row.productid))
+  );
+
+  -- One description per change: a later update in the same transaction must set its own
+  PERFORM set_config('inventory.movement', '', true);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS inventory_record_movement ON inventory;
+CREATE TRIGGER inventory_record_movement
+  AFTER INSERT OR UPDATE OF quantityonhand OR DELETE ON inventory
+  FOR EACH ROW EXECUTE FUNCTION record_inventory_movement();
+
+-- Change a product's on-hand by p_delta and describe why. p_movement carries movementType,
+-- sourceType, sourceId, actor, actorUserId, unitCostGBP and context. Incoming units with a
+-- unit cost are folded into the weighted average unless p_average_cost sets it outright.
+CREATE OR REPLACE FUNCTION apply_inventory_movement(
+  p_user_id UUID,
+  p_product_id UUID,
+  p_delta NUMERIC,
+  p_movement JSONB,
+  p_average_cost NUMERIC DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_inventory inventory%ROWTYPE;
+  v_quantity NUMERIC;
+  v_average NUMERIC;
+  v_unit_cost NUMERIC := (p_movement->>'unitCostGBP')::NUMERIC;
+BEGIN
+  SELECT * INTO v_inventory FROM inventory WHERE productid = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO inventory (productid, quantityonhand, averagecostgbp, lastupdated, user_id)
+    VALUES (p_product_id, 0, 0, NOW(), p_user_id)
+    ON CONFLICT (productid) DO UPDATE SET lastupdated = EXCLUDED.lastupdated
+    RETURNING * INTO v_inventory;
+  END IF;
+
+  v_quantity := COALESCE(v_inventory.quantityonhand, 0) + COALESCE(p_delta, 0);
+  v_average := COALESCE(v_inventory.averagecostgbp, 0);
+
+  IF p_average_cost IS NOT NULL THEN
+    v_average := ROUND(p_average_cost, 4);
+  ELSIF v_unit_cost IS NOT NULL AND p_delta >= 0 THEN
+    v_average := CASE
+      WHEN v_quantity > 0 THEN ROUND((COALESCE(v_inventory.quantityonhand, 0) * v_average + p_delta * v_unit_cost) / v_quantity, 4)
+      ELSE ROUND(v_unit_cost, 4)
+    END;
+  END IF;
+
+  PERFORM set_config('inventory.movement', p_movement::TEXT, true);
+
+  UPDATE inventory
+  SET quantityonhand = v_quantity,
+      averagecostgbp = v_average,
+      lastupdated = NOW()
+  WHERE id = v_inventory.id;
+
+  PERFORM set_config('inventory.movement', '', true);
+
+  RETURN jsonb_build_object(
+    'inventoryId', v_inventory.id,
+    'quantityOnHand', v_quantity,
+    'averageCostGBP', v_average
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION apply_inventory_movement(UUID, UUID, NUMERIC, JSONB, NUMERIC) IS 'The one way app code changes on-hand stock; the trigger on inventory records the movement';
+
+-- Shopify orders: same behaviour as before, now described in the ledger as sales and reversals
+CREATE OR REPLACE FUNCTION adjust_inventory_quantity(
+  p_product_id UUID,
+  p_delta NUMERIC,
+  p_context JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  product_id UUID,
+  old_quantity NUMERIC,
+  new_quantity NUMERIC,
+  clamped BOOLEAN
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  inv_row inventory%ROWTYPE;
+  next_qty NUMERIC;
+BEGIN
+  SELECT * INTO inv_row
+  FROM inventory
+  WHERE productid = p_product_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO inventory (productid, quantityonhand, averagecostgbp, lastupdated)
+    VALUES (p_product_id, 0, 0, NOW())
+    ON CONFLICT (productid) DO UPDATE
+      SET lastupdated = EXCLUDED.lastupdated
+    RETURNING * INTO inv_row;
+  END IF;
+
+  next_qty := COALESCE(inv_row.quantityonhand, 0) + COALESCE(p_delta, 0);
+
+  clamped := next_qty < 0;
+  IF clamped THEN
+    next_qty := 0;
+  END IF;
+
+  PERFORM set_config('inventory.movement', jsonb_build_object(
+    'movementType', CASE WHEN COALESCE(p_delta, 0) < 0 THEN 'sale' ELSE 'sale_reversal' END,
+    'sourceType', 'order',
+    'sourceId', p_context->>'order_id',
+    'actor', 'shopify',
+    'context', p_context || jsonb_build_object('attemptedDelta', p_delta, 'clamped', clamped)
+  )::TEXT, true);
+
+  UPDATE inventory
+  SET quantityonhand = next_qty,
+      lastupdated = NOW()
+  WHERE id = inv_row.id;
+
+  PERFORM set_config('inventory.movement', '', true);
+
+  IF clamped THEN
+    INSERT INTO inventory_conflicts (product_id, attempted_delta, result_quantity, context)
+    VALUES (p_product_id, p_delta, next_qty, p_context);
+  END IF;
+
+  product_id := p_product_id;
+  old_quantity := COALESCE(inv_row.quantityonhand, 0);
+  new_quantity := next_qty;
+  RETURN NEXT;
+END;
+$$;
+
+-- Stock already on hand becomes each product's opening balance
+INSERT INTO inventory_movements (
+  productid, inventoryid, quantitydelta, quantityafter, unitcostgbp, averagecostafter,
+  movementtype, actor, user_id, created_at
+)
+SELECT
+  i.productid,
+  i.id,
+  i.quantityonhand,
+  i.quantityonhand,
+  i.averagecostgbp,
+  i.averagecostgbp,
+  'opening_balance',
+  'system',
+  COALESCE(i.user_id, p.user_id),
+  COALESCE(i.lastupdated, NOW())
+FROM inventory i
+JOIN products p ON p.id = i.productid
+WHERE COALESCE(i.quantityonhand, 0) <> 0
+  AND NOT EXISTS (SELECT 1 FROM inventory_movements m WHERE m.productid = i.productid);
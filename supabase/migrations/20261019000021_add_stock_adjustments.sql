@@ -0,0 +1,112 @@
+-- Stock adjustments
+-- Count corrections outside purchasing and sales (damage, loss, theft, samples, found stock,
+-- recount corrections, write-offs) with a required reason. Each is valued at the product's
+-- average cost when made, so shrinkage can be reported by reason and period. The stock change
+-- itself goes through apply_inventory_movement, so it also appears in inventory_movements.
+
+CREATE TABLE IF NOT EXISTS stock_adjustments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  productid UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('damaged', 'lost', 'theft', 'sample', 'found', 'correction', 'write_off')),
+  quantitydelta NUMERIC NOT NULL CHECK (quantitydelta <> 0),
+  quantitybefore NUMERIC NOT NULL,
+  quantityafter NUMERIC NOT NULL,
+  unitcostgbp NUMERIC NOT NULL DEFAULT 0,
+  costimpactgbp NUMERIC NOT NULL DEFAULT 0,
+  note TEXT,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_adjustments_user_created ON stock_adjustments(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_adjustments_productid ON stock_adjustments(productid);
+
+ALTER TABLE stock_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only see their own stock adjustments" ON stock_adjustments
+    FOR ALL USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN stock_adjustments.unitcostgbp IS 'Average cost per unit when the adjustment was made';
+COMMENT ON COLUMN stock_adjustments.costimpactgbp IS 'quantitydelta x unitcostgbp; negative when stock value is lost';
+
+-- Adjust a product's on-hand stock and record why, in one transaction
+CREATE OR REPLACE FUNCTION record_stock_adjustment(
+  p_user_id UUID,
+  p_product_id UUID,
+  p_reason TEXT,
+  p_delta NUMERIC,
+  p_note TEXT
+)
+RETURNS SETOF stock_adjustments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_inventory inventory%ROWTYPE;
+  v_before NUMERIC;
+  v_unit_cost NUMERIC;
+  v_adjustment stock_adjustments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_inventory FROM inventory WHERE productid = p_product_id FOR UPDATE;
+
+  v_before := COALESCE(v_inventory.quantityonhand, 0);
+  v_unit_cost := COALESCE(v_inventory.averagecostgbp, 0);
+
+  IF v_before + p_delta < 0 THEN
+    RAISE EXCEPTION 'Only % on hand to remove', v_before;
+  END IF;
+
+  INSERT INTO stock_adjustments (
+    productid, reason, quantitydelta, quantitybefore, quantityafter, unitcostgbp, costimpactgbp, note, user_id
+  )
+  VALUES (
+    p_product_id, p_reason, p_delta, v_before, v_before + p_delta, v_unit_cost, ROUND(p_delta * v_unit_cost, 2), p_note, p_user_id
+  )
+  RETURNING * INTO v_adjustment;
+
+  -- Found units come in at the current average, so the average itself is unchanged
+  PERFORM apply_inventory_movement(
+    p_user_id,
+    p_product_id,
+    p_delta,
+    jsonb_build_object(
+      'movementType', 'adjustment',
+      'sourceType', 'user_adjustment',
+      'sourceId', v_adjustment.id,
+      'actor', 'user',
+      'actorUserId', p_user_id,
+      'unitCostGBP', v_unit_cost,
+      'context', jsonb_build_object('reason', p_reason, 'note', p_note)
+    ),
+    v_unit_cost
+  );
+
+  RETURN NEXT v_adjustment;
+END;
+$$;
+
+-- Adjustment totals per reason and period (day, week or month) between p_from and p_to
+CREATE OR REPLACE FUNCTION stock_adjustment_report(
+  p_user_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_period TEXT
+)
+RETURNS TABLE (period DATE, reason TEXT, adjustments INTEGER, quantity NUMERIC, costimpactgbp NUMERIC)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    date_trunc(p_period, a.created_at)::DATE AS period,
+    a.reason,
+    COUNT(*)::INTEGER AS adjustments,
+    SUM(a.quantitydelta) AS quantity,
+    SUM(a.costimpactgbp) AS costimpactgbp
+  FROM stock_adjustments a
+  WHERE a.user_id = p_user_id
+    AND a.created_at >= p_from
+    AND a.created_at < p_to
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
+
+COMMENT ON FUNCTION stock_adjustment_report(UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT) IS 'Shrinkage report: adjustment count, units and cost impact by reason and period';
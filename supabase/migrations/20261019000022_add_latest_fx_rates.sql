@@ -0,0 +1,20 @@
+-- Latest exchange rate per currency
+-- The table provider used to read the newest 1,000 rows on or before a date across every currency,
+-- so once the history was long enough a currency without recent entries fell out of that window
+-- and its stored rate was missed. This returns exactly one row per currency.
+
+CREATE INDEX IF NOT EXISTS idx_fx_rates_user_currency_date ON fx_rates(user_id, currency, rate_date DESC);
+
+CREATE OR REPLACE FUNCTION latest_fx_rates(p_user_id UUID, p_date DATE)
+RETURNS TABLE (currency TEXT, rate NUMERIC, rate_date DATE, source TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT DISTINCT ON (f.currency) f.currency, f.rate, f.rate_date, f.source
+  FROM fx_rates f
+  WHERE f.user_id = p_user_id
+    AND f.rate_date <= p_date
+  ORDER BY f.currency, f.rate_date DESC;
+$$;
+
+COMMENT ON FUNCTION latest_fx_rates(UUID, DATE) IS 'Most recent rate per currency on or before p_date';
@@ -0,0 +1,197 @@
+-- Atomic goods received notes
+-- Recording a delivery used to move stock to on-hand and write off transit before the GRN lines
+-- were inserted, as separate requests, so a failure part-way left stock moved with no GRN behind
+-- it. The app still works out every line's quantities (lib/grn.ts); record_goods_received_note
+-- writes the note, its lines and every stock change in one transaction.
+-- GRN numbers were a row count + 1, which repeated after a purchase order (and its GRNs) was
+-- deleted and when two deliveries were recorded at once. They now come from a per-user counter.
+
+CREATE TABLE IF NOT EXISTS document_counters (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL,
+  lastnumber INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, kind)
+);
+
+ALTER TABLE document_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only see their own document counters" ON document_counters
+    FOR ALL USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN document_counters.kind IS 'Document series, e.g. grn';
+COMMENT ON COLUMN document_counters.lastnumber IS 'Last number issued in the series; numbers are never reused';
+
+-- Issue the next number in a user's series. The row lock serialises concurrent callers.
+CREATE OR REPLACE FUNCTION next_document_number(p_user_id UUID, p_kind TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+  INSERT INTO document_counters (user_id, kind, lastnumber)
+  VALUES (p_user_id, p_kind, 1)
+  ON CONFLICT (user_id, kind) DO UPDATE SET lastnumber = document_counters.lastnumber + 1
+  RETURNING lastnumber;
+$$;
+
+-- Carry on from the highest GRN number already issued
+INSERT INTO document_counters (user_id, kind, lastnumber)
+SELECT user_id, 'grn', MAX(NULLIF(regexp_replace(grnnumber, '\D', '', 'g'), '')::INTEGER)
+FROM goods_received_notes
+WHERE user_id IS NOT NULL
+GROUP BY user_id
+HAVING MAX(NULLIF(regexp_replace(grnnumber, '\D', '', 'g'), '')::INTEGER) IS NOT NULL
+ON CONFLICT (user_id, kind) DO UPDATE SET lastnumber = GREATEST(document_counters.lastnumber, EXCLUDED.lastnumber);
+
+-- Record a delivery following a plan made by the app. Each entry of p_lines carries the PO line,
+-- its product, the expectedQuantity the plan was made against, the counted quantities and the
+-- computed receivedFromTransit, writtenOffQuantity and acceptedOverQuantity. If a line's open
+-- transit has changed since (another delivery recorded meanwhile), nothing is written.
+CREATE OR REPLACE FUNCTION record_goods_received_note(
+  p_user_id UUID,
+  p_purchase_order_id UUID,
+  p_supplier_id UUID,
+  p_received_at TIMESTAMPTZ,
+  p_notes TEXT,
+  p_lines JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_grn_id UUID;
+  v_line JSONB;
+  v_line_id UUID;
+  v_product_id UUID;
+  v_open NUMERIC;
+  v_to_receive NUMERIC;
+  v_to_write_off NUMERIC;
+  v_over NUMERIC;
+  v_received NUMERIC;
+  v_received_value NUMERIC;
+  v_take_receive NUMERIC;
+  v_take_write_off NUMERIC;
+  v_transit transit%ROWTYPE;
+BEGIN
+  INSERT INTO goods_received_notes (grnnumber, purchaseorderid, supplierid, receivedat, notes, user_id)
+  VALUES (
+    'GRN-' || LPAD(next_document_number(p_user_id, 'grn')::TEXT, 5, '0'),
+    p_purchase_order_id,
+    p_supplier_id,
+    COALESCE(p_received_at, NOW()),
+    p_notes,
+    p_user_id
+  )
+  RETURNING id INTO v_grn_id;
+
+  FOR v_line IN SELECT value FROM jsonb_array_elements(COALESCE(p_lines, '[]'::JSONB))
+  LOOP
+    v_line_id := (v_line->>'poLineId')::UUID;
+    v_product_id := (v_line->>'productId')::UUID;
+    v_to_receive := COALESCE((v_line->>'receivedFromTransit')::NUMERIC, 0);
+    v_to_write_off := COALESCE((v_line->>'writtenOffQuantity')::NUMERIC, 0);
+    v_over := COALESCE((v_line->>'acceptedOverQuantity')::NUMERIC, 0);
+
+    PERFORM 1 FROM transit WHERE polineid = v_line_id FOR UPDATE;
+
+    SELECT COALESCE(SUM(remainingquantity), 0) INTO v_open
+    FROM transit
+    WHERE polineid = v_line_id AND remainingquantity > 0;
+
+    IF v_open <> COALESCE((v_line->>'expectedQuantity')::NUMERIC, 0) THEN
+      RAISE EXCEPTION 'The quantity in transit for "%" changed while this delivery was being recorded; reload and try again',
+        v_line->>'description';
+    END IF;
+
+    -- Oldest transit first: good units are received, then damaged or written-off units leave transit
+    v_received := 0;
+    v_received_value := 0;
+    FOR v_transit IN
+      SELECT * FROM transit
+      WHERE polineid = v_line_id AND remainingquantity > 0
+      ORDER BY created_at
+    LOOP
+      EXIT WHEN v_to_receive <= 0 AND v_to_write_off <= 0;
+
+      v_take_receive := LEAST(v_to_receive, v_transit.remainingquantity);
+      v_take_write_off := LEAST(v_to_write_off, v_transit.remainingquantity - v_take_receive);
+
+      UPDATE transit
+      SET remainingquantity = remainingquantity - v_take_receive - v_take_write_off,
+          writtenoffquantity = COALESCE(writtenoffquantity, 0) + v_take_write_off,
+          status = CASE
+            WHEN remainingquantity - v_take_receive - v_take_write_off > 0 THEN 'partially_received'
+            ELSE 'received'
+          END,
+          updated_at = NOW()
+      WHERE id = v_transit.id;
+
+      v_received := v_received + v_take_receive;
+      v_received_value := v_received_value + v_take_receive * GREATEST(COALESCE(v_transit.unitcostgbp, 0), 0);
+      v_to_receive := v_to_receive - v_take_receive;
+      v_to_write_off := v_to_write_off - v_take_write_off;
+    END LOOP;
+
+    IF v_received > 0 THEN
+      PERFORM apply_inventory_movement(
+        p_user_id,
+        v_product_id,
+        v_received,
+        jsonb_build_object(
+          'movementType', 'purchase_receipt',
+          'sourceType', 'po_line',
+          'sourceId', v_line_id,
+          'actor', 'user',
+          'actorUserId', p_user_id,
+          'unitCostGBP', v_received_value / v_received,
+          'context', jsonb_build_object('grnId', v_grn_id, 'purchaseOrderId', p_purchase_order_id)
+        )
+      );
+    END IF;
+
+    -- Over-delivered good units come in at the line's cost
+    IF v_over > 0 THEN
+      PERFORM apply_inventory_movement(
+        p_user_id,
+        v_product_id,
+        v_over,
+        jsonb_build_object(
+          'movementType', 'purchase_receipt',
+          'sourceType', 'po_line',
+          'sourceId', v_line_id,
+          'actor', 'user',
+          'actorUserId', p_user_id,
+          'unitCostGBP', COALESCE((v_line->>'unitCostGBP')::NUMERIC, 0),
+          'context', jsonb_build_object('grnId', v_grn_id, 'purchaseOrderId', p_purchase_order_id, 'overDelivery', TRUE)
+        )
+      );
+    END IF;
+
+    INSERT INTO goods_received_note_lines (
+      grnid, polineid, productid, description, expectedquantity, receivedquantity, damagedquantity,
+      shortquantity, overquantity, acceptedquantity, writtenoffquantity, shortfallaction, unitcostgbp,
+      note, photourl, user_id
+    )
+    VALUES (
+      v_grn_id,
+      v_line_id,
+      v_product_id,
+      v_line->>'description',
+      COALESCE((v_line->>'expectedQuantity')::NUMERIC, 0),
+      COALESCE((v_line->>'receivedQuantity')::NUMERIC, 0),
+      COALESCE((v_line->>'damagedQuantity')::NUMERIC, 0),
+      COALESCE((v_line->>'shortQuantity')::NUMERIC, 0),
+      COALESCE((v_line->>'overQuantity')::NUMERIC, 0),
+      COALESCE((v_line->>'acceptedQuantity')::NUMERIC, 0),
+      COALESCE((v_line->>'writtenOffQuantity')::NUMERIC, 0),
+      COALESCE(v_line->>'shortfallAction', 'keep_open'),
+      (v_line->>'unitCostGBP')::NUMERIC,
+      v_line->>'note',
+      v_line->>'photoUrl',
+      p_user_id
+    );
+  END LOOP;
+
+  RETURN v_grn_id;
+END;
+$$;
+
+COMMENT ON FUNCTION record_goods_received_note(UUID, UUID, UUID, TIMESTAMPTZ, TEXT, JSONB) IS 'Writes a GRN, its lines and the stock and transit changes in one transaction';
@@ -0,0 +1,13 @@
+-- Supplier return numbers
+-- Return numbers were a row count + 1, which repeated after a purchase order (and its returns)
+-- was deleted and when two returns were recorded at once. They now come from the same per-user
+-- counter as GRN numbers (next_document_number, kind 'supplier_return').
+
+-- Carry on from the highest return number already issued
+INSERT INTO document_counters (user_id, kind, lastnumber)
+SELECT user_id, 'supplier_return', MAX(NULLIF(regexp_replace(returnnumber, '\D', '', 'g'), '')::INTEGER)
+FROM supplier_returns
+WHERE user_id IS NOT NULL
+GROUP BY user_id
+HAVING MAX(NULLIF(regexp_replace(returnnumber, '\D', '', 'g'), '')::INTEGER) IS NOT NULL
+ON CONFLICT (user_id, kind) DO UPDATE SET lastnumber = GREATEST(document_counters.lastnumber, EXCLUDED.lastnumber);
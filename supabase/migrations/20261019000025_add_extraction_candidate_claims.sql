@@ -0,0 +1,86 @@
+-- Extraction candidate claims
+-- Saving a purchase order from an extraction job used to check savedcandidates on the job loaded
+-- at the start of the request and write the whole array back afterwards. Two candidates of one
+-- statement saved at the same time overwrote each other's entry (the job never reached 'saved'),
+-- and the same candidate could be saved twice. A save now claims its candidate up front with an
+-- atomic append, and fills in the purchase order once it exists. A single-invoice job claims
+-- index 0.
+
+-- Claim a candidate before its purchase order is saved. False when another save already has it.
+CREATE OR REPLACE FUNCTION claim_extraction_candidate(p_job_id UUID, p_index INTEGER)
+RETURNS BOOLEAN
+LANGUAGE sql
+AS $$
+  WITH claimed AS (
+    UPDATE extraction_jobs
+    SET savedcandidates = savedcandidates || jsonb_build_array(jsonb_build_object('index', p_index, 'purchaseOrderId', NULL)),
+        updated_at = NOW()
+    WHERE id = p_job_id
+      AND status <> 'saved'
+      AND NOT savedcandidates @> jsonb_build_array(jsonb_build_object('index', p_index))
+    RETURNING id
+  )
+  SELECT EXISTS (SELECT 1 FROM claimed);
+$$;
+
+-- Give a claim back when its purchase order failed to save
+CREATE OR REPLACE FUNCTION release_extraction_candidate(p_job_id UUID, p_index INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_saved JSONB;
+BEGIN
+  SELECT savedcandidates INTO v_saved FROM extraction_jobs WHERE id = p_job_id FOR UPDATE;
+
+  UPDATE extraction_jobs
+  SET savedcandidates = COALESCE((
+        SELECT jsonb_agg(c.value ORDER BY c.ord)
+        FROM jsonb_array_elements(v_saved) WITH ORDINALITY AS c(value, ord)
+        WHERE NOT (c.value @> jsonb_build_object('index', p_index) AND c.value->'purchaseOrderId' = 'null'::JSONB)
+      ), '[]'::JSONB),
+      updated_at = NOW()
+  WHERE id = p_job_id;
+END;
+$$;
+
+-- Record the purchase order saved for a claimed candidate. The job is saved once every candidate
+-- (or the single invoice, when p_candidate_count is 0) has a purchase order.
+CREATE OR REPLACE FUNCTION complete_extraction_candidate(
+  p_job_id UUID,
+  p_index INTEGER,
+  p_purchase_order_id UUID,
+  p_candidate_count INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_saved JSONB;
+BEGIN
+  SELECT savedcandidates INTO v_saved FROM extraction_jobs WHERE id = p_job_id FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(
+    CASE
+      WHEN c.value @> jsonb_build_object('index', p_index)
+        THEN jsonb_set(c.value, '{purchaseOrderId}', to_jsonb(p_purchase_order_id))
+      ELSE c.value
+    END
+    ORDER BY c.ord
+  ), '[]'::JSONB)
+  INTO v_saved
+  FROM jsonb_array_elements(v_saved) WITH ORDINALITY AS c(value, ord);
+
+  UPDATE extraction_jobs
+  SET savedcandidates = v_saved,
+      purchaseorderid = p_purchase_order_id,
+      status = CASE
+        WHEN (SELECT COUNT(*) FROM jsonb_array_elements(v_saved) AS c(value) WHERE c.value->'purchaseOrderId' <> 'null'::JSONB)
+          >= GREATEST(p_candidate_count, 1)
+          THEN 'saved'
+        ELSE status
+      END,
+      updated_at = NOW()
+  WHERE id = p_job_id;
+END;
+$$;
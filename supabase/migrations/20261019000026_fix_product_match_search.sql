@@ -0,0 +1,69 @@
+-- Product match search: same matches as the in-app comparison
+-- match_product_candidates pre-filtered on trigram word similarity (0.25), which the app's token
+-- comparison never did, so a product the app would score at the review or accept threshold could
+-- be left out and the line became a duplicate product. The app's score is token overlap, so any
+-- product it would match shares at least one description token (3+ characters, stop words
+-- removed, as in normalizeTextForMatch). Candidates are now every product containing one of those
+-- tokens, most shared tokens first. Barcodes are also compared case-insensitively, like SKUs.
+
+-- Lower-cased barcodes (immutable so it can be indexed)
+CREATE OR REPLACE FUNCTION lower_text_array(p_values TEXT[])
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ARRAY(SELECT lower(v) FROM unnest(COALESCE(p_values, ARRAY[]::TEXT[])) AS v);
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_products_barcodes_lower ON products USING GIN (lower_text_array(barcodes));
+
+CREATE OR REPLACE FUNCTION find_products_by_code(p_user_id UUID, p_codes TEXT[])
+RETURNS SETOF products
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p.*
+  FROM products p
+  WHERE p.user_id = p_user_id
+    AND (
+      lower(p.primarysku) = ANY (SELECT lower(c) FROM unnest(p_codes) c)
+      OR lower(p.suppliersku) = ANY (SELECT lower(c) FROM unnest(p_codes) c)
+      OR lower_text_array(p.barcodes) && lower_text_array(p_codes)
+    );
+$$;
+
+-- Up to p_limit products per description that share a token with it, most shared tokens first,
+-- then most similar. line_index is the description's 0-based position in p_descriptions.
+CREATE OR REPLACE FUNCTION match_product_candidates(
+  p_user_id UUID,
+  p_descriptions TEXT[],
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (line_index INTEGER, product_id UUID, score REAL)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT (d.ord - 1)::INTEGER, m.id, m.score
+  FROM unnest(p_descriptions) WITH ORDINALITY AS d(description, ord)
+  CROSS JOIN LATERAL (
+    SELECT ARRAY(
+      SELECT DISTINCT '%' || t.token || '%'
+      FROM regexp_split_to_table(regexp_replace(lower(COALESCE(d.description, '')), '[^a-z0-9\s]', ' ', 'g'), '\s+') AS t(token)
+      WHERE length(t.token) >= 3
+        AND t.token NOT IN ('the', 'and', 'with', 'card', 'cards', 'booster', 'box', 'boxes', 'ver', 'version')
+    ) AS patterns
+  ) dt
+  CROSS JOIN LATERAL (
+    SELECT
+      p.id,
+      word_similarity(lower(d.description), product_match_text(p.name, p.aliases)) AS score,
+      (SELECT COUNT(*) FROM unnest(dt.patterns) AS pattern WHERE product_match_text(p.name, p.aliases) LIKE pattern) AS shared
+    FROM products p
+    WHERE p.user_id = p_user_id
+      AND product_match_text(p.name, p.aliases) LIKE ANY (dt.patterns)
+    ORDER BY shared DESC, score DESC
+    LIMIT GREATEST(p_limit, 0)
+  ) m;
+$$;
+
+COMMENT ON FUNCTION match_product_candidates(UUID, TEXT[], INTEGER) IS 'Products sharing a token with each purchase order line; the app re-scores the candidates';
@@ -0,0 +1,13 @@
+-- Revisions bump on edits only
+-- The bump_revision trigger raised the revision on every update, including the app's own writes:
+-- aliases learned while matching invoices, a purchase order's status following its deliveries and
+-- the image saved with an imported product. Anyone with the record open then had their next edit
+-- refused although nobody had edited it. The product and purchase order edit routes now raise the
+-- revision themselves in the same update that checks it, and other writes leave it alone.
+
+DROP TRIGGER IF EXISTS products_bump_revision ON products;
+DROP TRIGGER IF EXISTS purchaseorders_bump_revision ON purchaseorders;
+DROP FUNCTION IF EXISTS bump_revision();
+
+COMMENT ON COLUMN products.revision IS 'Bumped by every user edit; edits must name the revision they were made against';
+COMMENT ON COLUMN purchaseorders.revision IS 'Bumped by every user edit; edits must name the revision they were made against';
@@ -0,0 +1,157 @@
+-- Pack sizes in transit
+-- supplier_products.packsize was recorded but never used: a line for 1 case of 12 matched through
+-- the supplier's code put 1 unit in transit. Lines now go into transit in units of the product
+-- (quantity x pack size, cost / pack size), and each transit row keeps the pack size it was
+-- created with so the line's quantities can be compared with the order again.
+
+ALTER TABLE transit ADD COLUMN IF NOT EXISTS packsize NUMERIC NOT NULL DEFAULT 1 CHECK (packsize > 0);
+
+COMMENT ON COLUMN transit.packsize IS 'Units of the product per unit on the PO line; quantity and unitcostgbp are per unit of the product';
+
+CREATE OR REPLACE FUNCTION apply_inventory_sync(
+  p_user_id UUID,
+  p_purchase_order_id UUID,
+  p_supplier_id UUID,
+  p_line_ids UUID[],
+  p_plan JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_step JSONB;
+  v_line polines%ROWTYPE;
+  v_description TEXT;
+  v_sku TEXT;
+  v_product_id UUID;
+  v_new_index INTEGER;
+  v_new_product_ids UUID[] := ARRAY[]::UUID[];
+  v_candidates JSONB;
+  v_outcome TEXT;
+  v_transit BOOLEAN;
+  v_pack_size NUMERIC;
+  v_results JSONB := '[]'::JSONB;
+  v_created INTEGER := 0;
+  v_matched INTEGER := 0;
+  v_pending INTEGER := 0;
+  v_transit_created INTEGER := 0;
+BEGIN
+  FOR v_step IN SELECT value FROM jsonb_array_elements(COALESCE(p_plan->'steps', '[]'::JSONB))
+  LOOP
+    SELECT * INTO v_line
+    FROM polines
+    WHERE id = p_line_ids[(v_step->>'line')::INTEGER + 1]
+      AND purchaseorderid = p_purchase_order_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'PO line % not found on purchase order %', v_step->>'line', p_purchase_order_id;
+    END IF;
+
+    v_description := btrim(v_line.description);
+    v_sku := NULLIF(btrim(COALESCE(v_line.suppliersku, '')), '');
+
+    IF v_step ? 'candidates' THEN
+      SELECT COALESCE(jsonb_agg(
+        CASE
+          WHEN c.value->>'productId' LIKE 'new:%'
+            THEN jsonb_set(c.value, '{productId}', to_jsonb(v_new_product_ids[substr(c.value->>'productId', 5)::INTEGER + 1]))
+          ELSE c.value
+        END
+        ORDER BY c.ord
+      ), '[]'::JSONB)
+      INTO v_candidates
+      FROM jsonb_array_elements(v_step->'candidates') WITH ORDINALITY AS c(value, ord);
+
+      INSERT INTO product_match_reviews (
+        purchaseorderid, polineid, supplierid, description, suppliersku, quantity, unitcostexvat, candidates, user_id
+      )
+      VALUES (
+        p_purchase_order_id, v_line.id, p_supplier_id, v_description, v_sku, v_line.quantity, v_line.unitcostexvat,
+        v_candidates, p_user_id
+      )
+      ON CONFLICT (polineid) DO NOTHING;
+
+      v_pending := v_pending + 1;
+      v_results := v_results || jsonb_build_object('lineId', v_line.id, 'outcome', 'review', 'productId', NULL, 'transit', FALSE);
+      CONTINUE;
+    END IF;
+
+    IF v_step ? 'newProduct' THEN
+      v_new_index := (v_step->>'newProduct')::INTEGER;
+      v_product_id := v_new_product_ids[v_new_index + 1];
+    ELSE
+      v_new_index := NULL;
+      v_product_id := (v_step->>'productId')::UUID;
+    END IF;
+
+    IF v_product_id IS NULL AND v_new_index IS NOT NULL THEN
+      INSERT INTO products (name, primarysku, suppliersku, barcodes, aliases, supplierid, category, tags, imageurl, user_id)
+      VALUES (v_description, v_sku, v_sku, '{}', ARRAY[v_description], p_supplier_id, NULL, '{}', NULL, p_user_id)
+      RETURNING id INTO v_product_id;
+
+      v_new_product_ids[v_new_index + 1] := v_product_id;
+      v_created := v_created + 1;
+      v_outcome := 'created';
+    ELSE
+      UPDATE products
+      SET aliases = CASE
+            WHEN v_description = ANY (COALESCE(aliases, '{}')) THEN aliases
+            ELSE array_append(COALESCE(aliases, '{}'), v_description)
+          END,
+          supplierid = COALESCE(supplierid, p_supplier_id),
+          updated_at = NOW()
+      WHERE id = v_product_id
+        AND user_id = p_user_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Product % not found', v_product_id;
+      END IF;
+
+      v_matched := v_matched + 1;
+      v_outcome := 'matched';
+    END IF;
+
+    -- Remember the supplier's code for the product (and what it last cost). A code moved to
+    -- another product starts again at a pack size of 1.
+    v_pack_size := 1;
+    IF v_sku IS NOT NULL THEN
+      INSERT INTO supplier_products (supplierid, suppliersku, productid, lastcostgbp, lastseenat, lastpurchaseorderid, user_id)
+      VALUES (p_supplier_id, v_sku, v_product_id, ROUND(v_line.unitcostexvat, 4), NOW(), p_purchase_order_id, p_user_id)
+      ON CONFLICT (supplierid, lower(suppliersku)) DO UPDATE
+      SET productid = EXCLUDED.productid,
+          packsize = CASE WHEN supplier_products.productid = EXCLUDED.productid THEN supplier_products.packsize ELSE 1 END,
+          lastcostgbp = COALESCE(EXCLUDED.lastcostgbp, supplier_products.lastcostgbp),
+          lastseenat = EXCLUDED.lastseenat,
+          lastpurchaseorderid = EXCLUDED.lastpurchaseorderid,
+          updated_at = NOW()
+      RETURNING packsize INTO v_pack_size;
+    END IF;
+
+    -- Transit counts units of the product: a line for 1 case of 12 puts 12 in transit at a
+    -- twelfth of the case cost. Prefer the landed unit cost so allocated extras flow into
+    -- average cost on receipt.
+    v_transit := COALESCE(v_line.quantity, 0) > 0;
+    IF v_transit THEN
+      INSERT INTO transit (
+        productid, purchaseorderid, polineid, supplierid, quantity, remainingquantity, packsize, unitcostgbp, status, user_id
+      )
+      VALUES (
+        v_product_id, p_purchase_order_id, v_line.id, p_supplier_id, v_line.quantity * v_pack_size, v_line.quantity * v_pack_size,
+        v_pack_size, ROUND(GREATEST(COALESCE(v_line.landedunitcostgbp, v_line.unitcostexvat, 0), 0) / v_pack_size, 4),
+        'in_transit', p_user_id
+      );
+      v_transit_created := v_transit_created + 1;
+    END IF;
+
+    v_results := v_results || jsonb_build_object('lineId', v_line.id, 'outcome', v_outcome, 'productId', v_product_id, 'transit', v_transit);
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'productsCreated', v_created,
+    'productsMatched', v_matched,
+    'productsPendingReview', v_pending,
+    'transitCreated', v_transit_created,
+    'lines', v_results
+  );
+END;
+$$;
@@ -0,0 +1,46 @@
+-- Atomic draft placement
+-- Placing a draft saved the purchase order as ordered and then put its lines into transit in a
+-- separate request. When the second step failed the order stayed ordered with nothing in
+-- transit, and placing it again did nothing because it was no longer a draft. The status change
+-- and the transit rows are now written in one transaction.
+
+-- Move a draft to ordered and put its lines into transit following an apply_inventory_sync plan.
+-- Fails, changing nothing, when the order is no longer a draft.
+CREATE OR REPLACE FUNCTION place_draft_purchase_order(
+  p_user_id UUID,
+  p_purchase_order_id UUID,
+  p_supplier_id UUID,
+  p_line_ids UUID[],
+  p_plan JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE purchaseorders
+  SET status = 'ordered',
+      ordered_at = NOW()
+  WHERE id = p_purchase_order_id
+    AND user_id = p_user_id
+    AND status = 'draft';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order % is not a draft', p_purchase_order_id;
+  END IF;
+
+  -- A draft that somehow already has transit rows does not get its lines added twice
+  IF EXISTS (SELECT 1 FROM transit WHERE purchaseorderid = p_purchase_order_id) THEN
+    RETURN jsonb_build_object(
+      'productsCreated', 0,
+      'productsMatched', 0,
+      'productsPendingReview', 0,
+      'transitCreated', 0,
+      'lines', '[]'::JSONB
+    );
+  END IF;
+
+  RETURN apply_inventory_sync(p_user_id, p_purchase_order_id, p_supplier_id, p_line_ids, p_plan);
+END;
+$$;
+
+COMMENT ON FUNCTION place_draft_purchase_order(UUID, UUID, UUID, UUID[], JSONB) IS 'Orders a draft and puts its lines into transit in one transaction';
@@ -0,0 +1,44 @@
+-- Purchase order cancellation
+-- Cancelling an ordered or shipped purchase order only changed its status: its transit rows stayed
+-- open, so the stock still showed as on its way and could be received against the cancelled
+-- order. Cancelling now writes off whatever is still in transit in the same transaction.
+
+-- Cancel a PO that has not started arriving and write off its open transit. Returns the number
+-- of units written off. Fails, changing nothing, once the PO is past shipped.
+CREATE OR REPLACE FUNCTION cancel_purchase_order(p_user_id UUID, p_purchase_order_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_written_off NUMERIC;
+BEGIN
+  UPDATE purchaseorders
+  SET status = 'cancelled',
+      cancelled_at = NOW()
+  WHERE id = p_purchase_order_id
+    AND user_id = p_user_id
+    AND COALESCE(status, 'ordered') IN ('draft', 'ordered', 'shipped');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order % can no longer be cancelled', p_purchase_order_id;
+  END IF;
+
+  PERFORM 1 FROM transit WHERE purchaseorderid = p_purchase_order_id FOR UPDATE;
+
+  SELECT COALESCE(SUM(remainingquantity), 0) INTO v_written_off
+  FROM transit
+  WHERE purchaseorderid = p_purchase_order_id AND remainingquantity > 0;
+
+  UPDATE transit
+  SET writtenoffquantity = COALESCE(writtenoffquantity, 0) + remainingquantity,
+      remainingquantity = 0,
+      status = 'received',
+      updated_at = NOW()
+  WHERE purchaseorderid = p_purchase_order_id
+    AND remainingquantity > 0;
+
+  RETURN v_written_off;
+END;
+$$;
+
+COMMENT ON FUNCTION cancel_purchase_order(UUID, UUID) IS 'Cancels a purchase order and writes off its open transit in one transaction';